@@ -0,0 +1,158 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { assertFigmaSourceConfigured } from '../commands/compare.js';
+import { FigmaMcpClient } from '../experimental/figma-mcp.js';
+import {
+  createDesignSource,
+  isDesignSource,
+  listDesignSources,
+  registerDesignSource,
+} from './design-sources.js';
+import { FigmaRestClient } from './figma-rest.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'uimatch-design-source-'));
+  vi.stubEnv('UIMATCH_DESIGN_SOURCE', '');
+  vi.stubEnv('UIMATCH_FIGMA_PNG_B64', '');
+  vi.stubEnv('UIMATCH_FIGMA_CACHE', '');
+  vi.stubEnv('FIGMA_ACCESS_TOKEN', '');
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const png = Buffer.from('local-png');
+
+describe('createDesignSource', () => {
+  test('picks bypass, then REST, then MCP by default', async () => {
+    const figma = 'AbCdEf:1:2';
+    await expect(createDesignSource({ figma })).resolves.toMatchObject({ name: 'figma-mcp' });
+
+    vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+    await expect(createDesignSource({ figma })).resolves.toMatchObject({ name: 'figma-rest' });
+    await expect(createDesignSource({ figma: 'current' })).resolves.toMatchObject({
+      name: 'figma-mcp',
+    });
+
+    vi.stubEnv('UIMATCH_FIGMA_PNG_B64', `data:image/png;base64,${png.toString('base64')}`);
+    const bypass = await createDesignSource({ figma });
+    expect(bypass).toMatchObject({ name: 'figma-bypass', fixedScale: true });
+    await expect(bypass.resolveRef(figma)).resolves.toEqual({ fileKey: 'AbCdEf', nodeId: '1:2' });
+    await expect(bypass.getImage({ fileKey: 'AbCdEf', nodeId: '1:2', scale: 2 })).resolves.toEqual(
+      png
+    );
+    expect(bypass).toHaveProperty('getNode');
+    expect(bypass).not.toHaveProperty('findChildForSize');
+  });
+
+  test('MCP reads variables over REST when a token is set', async () => {
+    const variables = [{ id: 'VariableID:1:2', name: 'color/primary', type: 'color' as const }];
+    const restVariables = vi
+      .spyOn(FigmaRestClient.prototype, 'getVariables')
+      .mockResolvedValue(variables);
+    const mcpVariables = vi.spyOn(FigmaMcpClient.prototype, 'getVariables');
+    vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+
+    const mcp = await createDesignSource({ figma: 'AbCdEf:1:2' }, 'figma-mcp');
+    await expect(mcp.getVariables?.({ fileKey: 'AbCdEf' })).resolves.toEqual(variables);
+    expect(restVariables).toHaveBeenCalledWith({ fileKey: 'AbCdEf' });
+    expect(mcpVariables).not.toHaveBeenCalled();
+  });
+
+  test('bypass reports a placeholder node for an unusable reference', async () => {
+    vi.stubEnv('UIMATCH_FIGMA_PNG_B64', png.toString('base64'));
+    const bypass = await createDesignSource({ figma: 'not a ref' });
+
+    await expect(bypass.resolveRef('not a ref')).resolves.toEqual({
+      fileKey: 'env-bypass',
+      nodeId: 'env-bypass',
+    });
+    expect(bypass).not.toHaveProperty('getNode');
+  });
+
+  test('uses a registered source named by the argument or UIMATCH_DESIGN_SOURCE', async () => {
+    const factory = vi.fn(() => ({
+      name: 'local',
+      resolveRef: (ref: string) => Promise.resolve({ fileKey: 'local', nodeId: ref }),
+      getImage: () => Promise.resolve(png),
+    }));
+    registerDesignSource('local', factory);
+    expect(listDesignSources()).toEqual(['figma-rest', 'figma-mcp', 'figma-bypass', 'local']);
+
+    const source = await createDesignSource({ figma: 'button' }, 'local');
+    await expect(source.resolveRef('button')).resolves.toEqual({
+      fileKey: 'local',
+      nodeId: 'button',
+    });
+
+    vi.stubEnv('UIMATCH_DESIGN_SOURCE', 'local');
+    await createDesignSource({ figma: 'card' });
+    expect(factory).toHaveBeenLastCalledWith({ figma: 'card' });
+  });
+
+  test('loads a source package through its default export', async () => {
+    const modulePath = join(dir, 'source.mjs');
+    await writeFile(
+      modulePath,
+      [
+        'export default ({ figma }) => ({',
+        "  name: 'from-package',",
+        '  resolveRef: async () => ({ fileKey: figma, nodeId: figma }),',
+        "  getImage: async () => Buffer.from('png'),",
+        '});',
+      ].join('\n')
+    );
+
+    const source = await createDesignSource({ figma: 'hero' }, pathToFileURL(modulePath).href);
+
+    expect(source.name).toBe('from-package');
+    expect(isDesignSource(source)).toBe(true);
+  });
+
+  test('rejects modules that cannot be loaded or are not sources', async () => {
+    await expect(createDesignSource({ figma: 'x' }, '@uimatch/no-such-source')).rejects.toThrow(
+      'Failed to load design source "@uimatch/no-such-source" (registered: figma-rest'
+    );
+
+    registerDesignSource('broken', () => ({ name: 'broken' }) as never);
+    await expect(createDesignSource({ figma: 'x' }, 'broken')).rejects.toThrow(
+      'Design source "broken" must have a name, resolveRef() and getImage()'
+    );
+    expect(() => registerDesignSource(' ', () => ({}) as never)).toThrow(RangeError);
+  });
+
+  test('REST refuses figma=current', async () => {
+    vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+    const rest = await createDesignSource({ figma: 'current' }, 'figma-rest');
+
+    await expect(rest.resolveRef('current')).rejects.toMatchObject({
+      code: 'UIMATCH_CONFIG_INVALID_FIGMA_REF',
+    });
+  });
+});
+
+describe('assertFigmaSourceConfigured', () => {
+  test('leaves references to non-REST sources to the source', () => {
+    expect(() => assertFigmaSourceConfigured('button', undefined, 'local')).not.toThrow();
+    expect(() => assertFigmaSourceConfigured('AbCdEf:1:2', undefined, 'figma-mcp')).not.toThrow();
+    expect(() => assertFigmaSourceConfigured('AbCdEf:1:2')).toThrow(
+      'FIGMA_ACCESS_TOKEN is not set'
+    );
+  });
+
+  test('rejects figma=current for the REST source', () => {
+    vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+
+    expect(() => assertFigmaSourceConfigured('current', undefined, 'figma-rest')).toThrow(
+      'figma=current needs the figma-mcp design source'
+    );
+  });
+});
@@ -0,0 +1,238 @@
+import { loadFigmaMcpConfig } from '#plugin/config/index';
+import { FigmaMcpClient, parseFigmaRef } from '#plugin/experimental/figma-mcp.js';
+import type {
+  DesignSource,
+  DesignSourceFactory,
+  DesignSourceOptions,
+  FigmaCacheOptions,
+  FigmaRef,
+} from '#plugin/types/index';
+import { UiMatchError } from '@uimatch/core';
+import { FigmaSnapshotCache } from './figma-cache.js';
+import { FigmaRestClient } from './figma-rest.js';
+
+/** Reference reported for a bypassed PNG whose `figma` argument names no node */
+const BYPASS_REF: FigmaRef = { fileKey: 'env-bypass', nodeId: 'env-bypass' };
+
+/**
+ * Read the Figma PNG supplied directly through the environment, if any.
+ */
+export function readFigmaPngBypass(): string | undefined {
+  const raw = process.env.UIMATCH_FIGMA_PNG_B64?.trim();
+  return raw ? raw : undefined;
+}
+
+/**
+ * Figma REST client reading through the snapshot cache when one is configured.
+ * Undefined without FIGMA_ACCESS_TOKEN, unless the cache replays without one.
+ */
+function openFigmaRestClient(figmaCache?: FigmaCacheOptions): FigmaRestClient | undefined {
+  const cache = FigmaSnapshotCache.open(figmaCache);
+  const token = process.env.FIGMA_ACCESS_TOKEN;
+  if (!token && cache?.mode !== 'replay') return undefined;
+  return new FigmaRestClient(token ?? '', { cache });
+}
+
+/**
+ * Node tree operations backed by the REST API, shared by the sources that can reach it.
+ */
+function restNodeAccess(
+  rest: FigmaRestClient
+): Pick<
+  DesignSource,
+  'getNode' | 'getVariables' | 'getVersion' | 'findChildForDomBox' | 'findChildForSize'
+> {
+  return {
+    getNode: (ref) => rest.getNode(ref),
+    getVariables: (params) => rest.getVariables(params),
+    getVersion: (params) => rest.knownFileVersion(params),
+    findChildForDomBox: async ({ fileKey, nodeId, ...boxes }) => {
+      const pick = await rest.findBestChildForDomBox({ fileKey, parentNodeId: nodeId, ...boxes });
+      return pick.nodeId;
+    },
+    findChildForSize: async (params) => {
+      const roi = await rest.autoDetectRoi(params);
+      return roi.wasAdjusted ? roi.nodeId : null;
+    },
+  };
+}
+
+const figmaRestSource: DesignSourceFactory = ({ figmaCache }) => {
+  const rest = openFigmaRestClient(figmaCache);
+  if (!rest) {
+    throw new UiMatchError(
+      'UIMATCH_CONFIG_MISSING_FIGMA_TOKEN',
+      'The figma-rest design source needs FIGMA_ACCESS_TOKEN (or figmaCache=replay)'
+    );
+  }
+  return {
+    name: 'figma-rest',
+    pinsVersions: true,
+    resolveRef: (ref) => {
+      const parsed = parseFigmaRef(ref);
+      if (parsed === 'current') {
+        return Promise.reject(
+          new UiMatchError(
+            'UIMATCH_CONFIG_INVALID_FIGMA_REF',
+            'figma=current needs the figma-mcp design source'
+          )
+        );
+      }
+      return Promise.resolve(parsed);
+    },
+    getImage: (params) => rest.getFramePng(params),
+    ...restNodeAccess(rest),
+  };
+};
+
+const figmaMcpSource: DesignSourceFactory = ({ figmaCache }) => {
+  const mcp = new FigmaMcpClient(loadFigmaMcpConfig());
+  // MCP has no node tree; with a token it still comes from REST, and so do the variables,
+  // which REST returns with the IDs that bound fills and scopes rely on
+  const rest = openFigmaRestClient(figmaCache);
+  return {
+    name: 'figma-mcp',
+    resolveRef: (ref) => {
+      const parsed = parseFigmaRef(ref);
+      return parsed === 'current' ? mcp.getCurrentSelectionRef() : Promise.resolve(parsed);
+    },
+    getImage: (params) => mcp.getFramePng(params),
+    getVariables: (params) => mcp.getVariables(params),
+    ...(rest ? restNodeAccess(rest) : {}),
+  };
+};
+
+const figmaBypassSource: DesignSourceFactory = ({ figma, figmaCache }) => {
+  const b64raw = readFigmaPngBypass();
+  if (!b64raw) {
+    throw new Error('The figma-bypass design source needs UIMATCH_FIGMA_PNG_B64');
+  }
+  const png = Buffer.from(
+    b64raw.replace(/^data:image\/png;base64,/, '').replace(/\s+/g, ''),
+    'base64'
+  );
+
+  // The reference is metadata only, so an invalid one is fine
+  let ref: FigmaRef | undefined;
+  try {
+    const parsed = parseFigmaRef(figma);
+    if (parsed !== 'current') ref = parsed;
+  } catch {
+    ref = undefined;
+  }
+
+  // The supplied PNG is final: no child lookups, but the node tree is still read when reachable,
+  // at the pinned version if any (the PNG is taken to match it)
+  const rest = ref ? openFigmaRestClient(figmaCache) : undefined;
+  return {
+    name: 'figma-bypass',
+    fixedScale: true,
+    pinsVersions: true,
+    resolveRef: () => Promise.resolve(ref ?? BYPASS_REF),
+    getImage: () => Promise.resolve(png),
+    ...(rest && {
+      getNode: (params: FigmaRef) => rest.getNode(params),
+      getVariables: (params: { fileKey: string }) => rest.getVariables(params),
+    }),
+  };
+};
+
+const registry = new Map<string, DesignSourceFactory>([
+  ['figma-rest', figmaRestSource],
+  ['figma-mcp', figmaMcpSource],
+  ['figma-bypass', figmaBypassSource],
+]);
+
+/**
+ * Register a design source under a name usable as `designSource=<name>`.
+ * Registering an existing name replaces it, e.g. to wrap a built-in source.
+ *
+ * @throws RangeError on an empty name
+ */
+export function registerDesignSource(name: string, factory: DesignSourceFactory): void {
+  if (!name.trim()) {
+    throw new RangeError('Design source name must be a non-empty string');
+  }
+  registry.set(name.trim(), factory);
+}
+
+/**
+ * Names of the registered design sources, built-in ones first.
+ */
+export function listDesignSources(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Type guard for objects implementing {@link DesignSource}.
+ */
+export function isDesignSource(value: unknown): value is DesignSource {
+  if (typeof value !== 'object' || value === null) return false;
+  const source = value as Record<string, unknown>;
+  return (
+    typeof source.name === 'string' &&
+    typeof source.resolveRef === 'function' &&
+    typeof source.getImage === 'function'
+  );
+}
+
+/**
+ * Configured design source: the argument, else UIMATCH_DESIGN_SOURCE.
+ *
+ * @returns Undefined when the default selection applies
+ */
+export function resolveDesignSourceId(designSource?: string): string | undefined {
+  return designSource?.trim() || process.env.UIMATCH_DESIGN_SOURCE?.trim() || undefined;
+}
+
+/**
+ * Built-in source used when none is configured: bypass > REST > MCP.
+ */
+function defaultDesignSourceId({ figma, figmaCache }: DesignSourceOptions): string {
+  if (readFigmaPngBypass()) return 'figma-bypass';
+  if (figma === 'current') return 'figma-mcp';
+  return openFigmaRestClient(figmaCache) ? 'figma-rest' : 'figma-mcp';
+}
+
+/**
+ * Create the design source for one comparison.
+ *
+ * @param options - Comparison the source serves
+ * @param designSource - Registered name or module ID (see {@link resolveDesignSourceId})
+ * @throws Error when a module cannot be loaded or does not produce a {@link DesignSource}
+ */
+export async function createDesignSource(
+  options: DesignSourceOptions,
+  designSource?: string
+): Promise<DesignSource> {
+  const id = resolveDesignSourceId(designSource) ?? defaultDesignSourceId(options);
+  const factory = registry.get(id) ?? (await importDesignSourceFactory(id));
+  const source = await factory(options);
+  if (!isDesignSource(source)) {
+    throw new Error(`Design source "${id}" must have a name, resolveRef() and getImage()`);
+  }
+  return source;
+}
+
+async function importDesignSourceFactory(id: string): Promise<DesignSourceFactory> {
+  // Importing a source executes trusted operator-provided code in this process.
+  let sourceModule: unknown;
+  try {
+    sourceModule = await import(id);
+  } catch (cause) {
+    const details = cause instanceof Error ? cause.message : String(cause);
+    throw new Error(
+      `Failed to load design source "${id}" (registered: ${listDesignSources().join(', ')}): ${details}`,
+      { cause }
+    );
+  }
+
+  const factory =
+    typeof sourceModule === 'object' && sourceModule !== null && 'default' in sourceModule
+      ? sourceModule.default
+      : sourceModule;
+  if (typeof factory !== 'function') {
+    throw new Error(`Design source "${id}" must default-export a DesignSourceFactory function`);
+  }
+  return factory as DesignSourceFactory;
+}
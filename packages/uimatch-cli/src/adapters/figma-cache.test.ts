@@ -0,0 +1,183 @@
+import { UiMatchError } from '@uimatch/core';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  clearResolvedFigmaVersions,
+  FigmaSnapshotCache,
+  resolveFigmaCacheOptions,
+} from './figma-cache';
+import { FigmaRestClient } from './figma-rest';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'uimatch-figma-cache-'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+function source<T>(value: T, version = 'v1') {
+  return {
+    version: vi.fn(() => Promise.resolve(version)),
+    fetch: vi.fn(() => Promise.resolve(value)),
+  };
+}
+
+const frame = { fileKey: 'AbCdEf', nodeId: '1:2', scale: 2 };
+
+describe('FigmaSnapshotCache', () => {
+  test('record fetches a miss once and serves it from disk afterwards', async () => {
+    const png = Buffer.from('png-bytes');
+    const first = source(png);
+    await expect(
+      new FigmaSnapshotCache({ mode: 'record', dir }).getFramePng(frame, first)
+    ).resolves.toEqual(png);
+
+    const second = source(Buffer.from('other'));
+    const cached = await new FigmaSnapshotCache({ mode: 'record', dir }).getFramePng(
+      { ...frame, nodeId: '1-2' },
+      second
+    );
+
+    expect(cached).toEqual(png);
+    expect(first.fetch).toHaveBeenCalledTimes(1);
+    expect(second.fetch).not.toHaveBeenCalled();
+  });
+
+  test('keys snapshots by file version and export scale', async () => {
+    const cache = new FigmaSnapshotCache({ mode: 'record', dir });
+    await cache.getFramePng(frame, source(Buffer.from('v1')));
+
+    const rescaled = source(Buffer.from('3x'));
+    await cache.getFramePng({ ...frame, scale: 3 }, rescaled);
+    // The file is edited before the next run
+    clearResolvedFigmaVersions();
+    const edited = source(Buffer.from('v2'), 'v2');
+    await new FigmaSnapshotCache({ mode: 'record', dir }).getFramePng(frame, edited);
+
+    expect(rescaled.fetch).toHaveBeenCalledTimes(1);
+    expect(edited.fetch).toHaveBeenCalledTimes(1);
+    await expect(new FigmaSnapshotCache({ mode: 'record', dir }).stats()).resolves.toEqual({
+      files: { AbCdEf: 'v2' },
+      entries: 3,
+    });
+  });
+
+  test('looks a file version up once across the caches of a directory', async () => {
+    const first = source(Buffer.from('png'));
+    await new FigmaSnapshotCache({ mode: 'record', dir }).getFramePng(frame, first);
+    const second = source({ id: '1:2' });
+    await new FigmaSnapshotCache({ mode: 'refresh', dir }).getNode(frame, second);
+    const elsewhere = source(Buffer.from('png'));
+    await new FigmaSnapshotCache({ mode: 'record', dir: join(dir, 'other') }).getFramePng(
+      frame,
+      elsewhere
+    );
+
+    expect(first.version).toHaveBeenCalledTimes(1);
+    expect(second.version).not.toHaveBeenCalled();
+    expect(elsewhere.version).toHaveBeenCalledTimes(1);
+    await expect(
+      new FigmaSnapshotCache({ mode: 'record', dir }).resolvedFileVersion('AbCdEf')
+    ).resolves.toBe('v1');
+    await expect(
+      new FigmaSnapshotCache({ mode: 'record', dir }).resolvedFileVersion('GhIjKl')
+    ).resolves.toBeUndefined();
+  });
+
+  test('replay serves the recorded version without asking Figma', async () => {
+    const node = { id: '1:2', name: 'Button' };
+    await new FigmaSnapshotCache({ mode: 'record', dir }).getNode(frame, source(node));
+
+    const offline = source({});
+    const replayed = await new FigmaSnapshotCache({ mode: 'replay', dir }).getNode(frame, offline);
+
+    expect(replayed).toEqual(node);
+    expect(offline.version).not.toHaveBeenCalled();
+    expect(offline.fetch).not.toHaveBeenCalled();
+  });
+
+  test('keys pinned snapshots by their version without recording it', async () => {
+    const pinned = { ...frame, version: 'v0' };
+    const old = source(Buffer.from('v0'), 'v2');
+    await new FigmaSnapshotCache({ mode: 'record', dir }).getFramePng(pinned, old);
+
+    const replayed = await new FigmaSnapshotCache({ mode: 'replay', dir }).getFramePng(
+      pinned,
+      source(Buffer.from('x'))
+    );
+
+    expect(replayed).toEqual(Buffer.from('v0'));
+    expect(old.version).not.toHaveBeenCalled();
+    await expect(new FigmaSnapshotCache({ mode: 'record', dir }).stats()).resolves.toEqual({
+      files: {},
+      entries: 1,
+    });
+  });
+
+  test('replay fails on a miss with UIMATCH_FIGMA_CACHE_MISS', async () => {
+    const cache = new FigmaSnapshotCache({ mode: 'replay', dir });
+    const error = await cache.getFramePng(frame, source(Buffer.from('x'))).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UiMatchError);
+    expect(error).toMatchObject({ code: 'UIMATCH_FIGMA_CACHE_MISS', category: 'usage' });
+
+    await new FigmaSnapshotCache({ mode: 'record', dir }).getNode(frame, source({}));
+    await expect(cache.getFramePng(frame, source(Buffer.from('x')))).rejects.toThrow(
+      'Figma cache miss for AbCdEf:1:2 @2x at version v1'
+    );
+  });
+
+  test('refresh fetches again and overwrites the snapshot', async () => {
+    await new FigmaSnapshotCache({ mode: 'record', dir }).getFramePng(
+      frame,
+      source(Buffer.from('old'))
+    );
+    const fresh = source(Buffer.from('new'));
+    await new FigmaSnapshotCache({ mode: 'refresh', dir }).getFramePng(frame, fresh);
+
+    const replayed = await new FigmaSnapshotCache({ mode: 'replay', dir }).getFramePng(
+      frame,
+      source(Buffer.from('x'))
+    );
+
+    expect(fresh.fetch).toHaveBeenCalledTimes(1);
+    expect(replayed.toString()).toBe('new');
+  });
+});
+
+describe('resolveFigmaCacheOptions', () => {
+  test('falls back to the environment', () => {
+    vi.stubEnv('UIMATCH_FIGMA_CACHE', '');
+    expect(resolveFigmaCacheOptions()).toBeUndefined();
+
+    vi.stubEnv('UIMATCH_FIGMA_CACHE', 'replay');
+    vi.stubEnv('UIMATCH_FIGMA_CACHE_DIR', '/tmp/figma');
+
+    expect(resolveFigmaCacheOptions()).toEqual({ mode: 'replay', dir: '/tmp/figma' });
+    expect(resolveFigmaCacheOptions({ mode: 'record' })).toEqual({
+      mode: 'record',
+      dir: '/tmp/figma',
+    });
+  });
+
+  test('rejects an unknown mode', () => {
+    vi.stubEnv('UIMATCH_FIGMA_CACHE', 'offline');
+
+    expect(() => resolveFigmaCacheOptions()).toThrow(
+      'Invalid figmaCache "offline": expected record, replay, refresh'
+    );
+  });
+});
+
+test('FigmaRestClient needs no token to replay', () => {
+  expect(() => new FigmaRestClient('')).toThrow('FIGMA_ACCESS_TOKEN is required');
+  expect(
+    () => new FigmaRestClient('', { cache: new FigmaSnapshotCache({ mode: 'replay', dir }) })
+  ).not.toThrow();
+});
@@ -0,0 +1,252 @@
+import type { FigmaCacheMode, FigmaCacheOptions } from '#plugin/types/index';
+import { UiMatchError } from '@uimatch/core';
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+
+export const FIGMA_CACHE_MODES: readonly FigmaCacheMode[] = ['record', 'replay', 'refresh'];
+
+export const DEFAULT_FIGMA_CACHE_DIR = '.uimatch-cache/figma';
+
+/** Serializes `versions.json` updates from concurrent compares in this process */
+let versionsUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * File versions resolved by this process, keyed by cache directory and file key. Compares
+ * open a cache each, so the memo outlives them: a suite looks a file up once, not once per
+ * item, state and breakpoint.
+ */
+const resolvedVersions = new Map<string, Promise<string>>();
+
+/**
+ * Forget the file versions resolved so far, so the next lookup asks Figma again
+ */
+export function clearResolvedFigmaVersions(): void {
+  resolvedVersions.clear();
+}
+
+/**
+ * Where a cached snapshot comes from on a miss (record) or on every call (refresh).
+ */
+export interface FigmaSnapshotSource<T> {
+  /** Current version of the Figma file */
+  version: () => Promise<string>;
+  fetch: () => Promise<T>;
+}
+
+/**
+ * Cache options from the arguments, else from UIMATCH_FIGMA_CACHE and UIMATCH_FIGMA_CACHE_DIR.
+ *
+ * @returns Undefined when the cache is off
+ * @throws RangeError on an unknown mode
+ */
+export function resolveFigmaCacheOptions(
+  options?: FigmaCacheOptions
+): Required<FigmaCacheOptions> | undefined {
+  const mode = options?.mode ?? (process.env.UIMATCH_FIGMA_CACHE?.trim() || undefined);
+  if (mode === undefined) return undefined;
+  if (!FIGMA_CACHE_MODES.includes(mode as FigmaCacheMode)) {
+    throw new RangeError(`Invalid figmaCache "${mode}": expected ${FIGMA_CACHE_MODES.join(', ')}`);
+  }
+  return {
+    mode: mode as FigmaCacheMode,
+    dir: options?.dir ?? (process.env.UIMATCH_FIGMA_CACHE_DIR?.trim() || DEFAULT_FIGMA_CACHE_DIR),
+  };
+}
+
+/**
+ * Node IDs come as `1:23` (API) or `1-23` (URLs); both address the same snapshot.
+ */
+function normalizeNodeId(nodeId: string): string {
+  return nodeId.replace(/-/g, ':');
+}
+
+/**
+ * Content-addressed store of Figma node documents and PNG exports.
+ *
+ * Each snapshot lives at `objects/<sha256>.{json,png}`, the hash covering the kind, file key,
+ * node ID, export scale and file version. Local variables are stored per file and version.
+ * `versions.json` records the last version stored per file, which is what `replay` reads
+ * instead of asking Figma. Snapshots of pinned versions are keyed by that version and leave
+ * `versions.json` alone.
+ */
+export class FigmaSnapshotCache {
+  readonly mode: FigmaCacheMode;
+  readonly dir: string;
+
+  constructor(options: FigmaCacheOptions) {
+    this.mode = options.mode;
+    this.dir = options.dir ?? DEFAULT_FIGMA_CACHE_DIR;
+  }
+
+  /**
+   * Open the cache configured by the arguments or the environment, if any.
+   */
+  static open(options?: FigmaCacheOptions): FigmaSnapshotCache | undefined {
+    const resolved = resolveFigmaCacheOptions(options);
+    return resolved ? new FigmaSnapshotCache(resolved) : undefined;
+  }
+
+  async getFramePng(
+    params: { fileKey: string; nodeId: string; scale: number; version?: string },
+    source: FigmaSnapshotSource<Buffer>
+  ): Promise<Buffer> {
+    return this.resolve({ kind: 'png', ...params }, source, {
+      decode: (data) => data,
+      encode: (value) => value,
+    });
+  }
+
+  async getNode(
+    params: { fileKey: string; nodeId: string; version?: string },
+    source: FigmaSnapshotSource<Record<string, unknown>>
+  ): Promise<Record<string, unknown>> {
+    return this.resolve({ kind: 'json', ...params }, source, {
+      decode: (data) => JSON.parse(data.toString('utf8')) as Record<string, unknown>,
+      encode: (value) => Buffer.from(JSON.stringify(value)),
+    });
+  }
+
+  async getVariables(
+    params: { fileKey: string },
+    source: FigmaSnapshotSource<Record<string, unknown>>
+  ): Promise<Record<string, unknown>> {
+    return this.resolve({ kind: 'variables', fileKey: params.fileKey }, source, {
+      decode: (data) => JSON.parse(data.toString('utf8')) as Record<string, unknown>,
+      encode: (value) => Buffer.from(JSON.stringify(value)),
+    });
+  }
+
+  /**
+   * Version snapshots of a file are read at: the recorded one in `replay`, else the
+   * current one (looked up once per file and cache directory in this process).
+   *
+   * @returns Undefined in `replay` for a file that was never recorded
+   */
+  async fileVersion(
+    fileKey: string,
+    source: Pick<FigmaSnapshotSource<unknown>, 'version'>
+  ): Promise<string | undefined> {
+    if (this.mode === 'replay') return (await this.readVersions())[fileKey];
+    const key = this.versionKey(fileKey);
+    let version = resolvedVersions.get(key);
+    if (!version) {
+      version = source.version();
+      resolvedVersions.set(key, version);
+      // A failed lookup is retried by the next compare
+      version.catch(() => resolvedVersions.delete(key));
+    }
+    return version;
+  }
+
+  /**
+   * Version snapshots of a file were read at so far, without looking it up.
+   *
+   * @returns Undefined when no snapshot of the file was read at its current version
+   */
+  async resolvedFileVersion(fileKey: string): Promise<string | undefined> {
+    if (this.mode === 'replay') return (await this.readVersions())[fileKey];
+    return resolvedVersions.get(this.versionKey(fileKey));
+  }
+
+  private versionKey(fileKey: string): string {
+    return `${resolve(this.dir)}\0${fileKey}`;
+  }
+
+  /**
+   * Recorded file versions and the number of stored snapshots.
+   */
+  async stats(): Promise<{ files: Record<string, string>; entries: number }> {
+    const files = await this.readVersions();
+    const entries = await readdir(join(this.dir, 'objects')).then(
+      (names) => names.filter((n) => n.endsWith('.png') || n.endsWith('.json')).length,
+      () => 0
+    );
+    return { files, entries };
+  }
+
+  private async resolve<T>(
+    entry: {
+      kind: 'png' | 'json' | 'variables';
+      fileKey: string;
+      nodeId?: string;
+      scale?: number;
+      version?: string;
+    },
+    source: FigmaSnapshotSource<T>,
+    codec: { decode: (data: Buffer) => T; encode: (value: T) => Buffer }
+  ): Promise<T> {
+    const { kind, fileKey, nodeId, scale, version: pinned } = entry;
+    const label =
+      nodeId === undefined
+        ? `${fileKey} (variables)`
+        : `${fileKey}:${nodeId}${scale === undefined ? ' (node)' : ` @${scale}x`}`;
+    const version = pinned ?? (await this.fileVersion(fileKey, source));
+    if (version === undefined) {
+      throw new UiMatchError(
+        'UIMATCH_FIGMA_CACHE_MISS',
+        `Figma cache miss for ${label}: file ${fileKey} was never recorded in ${this.dir}. ` +
+          'Run once with figmaCache=record and FIGMA_ACCESS_TOKEN set.'
+      );
+    }
+
+    const hash = createHash('sha256')
+      .update(
+        [kind, fileKey, normalizeNodeId(nodeId ?? ''), String(scale ?? ''), version].join('\n')
+      )
+      .digest('hex');
+    const path = join(this.dir, 'objects', `${hash}.${kind === 'png' ? 'png' : 'json'}`);
+    if (this.mode !== 'refresh') {
+      const cached = await readFile(path).catch(() => undefined);
+      if (cached) return codec.decode(cached);
+      if (this.mode === 'replay') {
+        throw new UiMatchError(
+          'UIMATCH_FIGMA_CACHE_MISS',
+          `Figma cache miss for ${label} at version ${version} in ${this.dir}. ` +
+            'Run once with figmaCache=record and FIGMA_ACCESS_TOKEN set.'
+        );
+      }
+    }
+
+    const value = await source.fetch();
+    await writeAtomic(path, codec.encode(value));
+    if (pinned === undefined) await this.recordVersion(fileKey, version);
+    return value;
+  }
+
+  private async readVersions(): Promise<Record<string, string>> {
+    try {
+      return JSON.parse(await readFile(join(this.dir, 'versions.json'), 'utf8')) as Record<
+        string,
+        string
+      >;
+    } catch {
+      return {};
+    }
+  }
+
+  private recordVersion(fileKey: string, version: string): Promise<void> {
+    const update = async (): Promise<void> => {
+      const versions = await this.readVersions();
+      if (versions[fileKey] === version) return;
+      versions[fileKey] = version;
+      await writeAtomic(
+        join(this.dir, 'versions.json'),
+        Buffer.from(JSON.stringify(versions, null, 2))
+      );
+    };
+    const next = versionsUpdate.then(update);
+    versionsUpdate = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * Write through a temporary file so concurrent suite items never read a partial snapshot.
+ */
+async function writeAtomic(path: string, data: Buffer): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${randomUUID()}.tmp`;
+  await writeFile(tmp, data);
+  await rename(tmp, path);
+}
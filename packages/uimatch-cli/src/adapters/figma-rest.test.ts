@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { FigmaRestClient } from './figma-rest';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function stubFetch(responses: Record<string, unknown>) {
+  const fetch = vi.fn((url: string) => {
+    const body = responses[url];
+    return Promise.resolve(
+      body === undefined
+        ? new Response(null, { status: 404, statusText: 'Not Found' })
+        : Response.json(body)
+    );
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('FigmaRestClient versions', () => {
+  test('reads nodes at a pinned version', async () => {
+    const fetch = stubFetch({
+      'https://api.figma.com/v1/files/AbCdEf/nodes?ids=1%3A2&version=42': {
+        nodes: { '1:2': { document: { id: '1:2', name: 'Button' } } },
+      },
+    });
+
+    const node = await new FigmaRestClient('token').getNode({
+      fileKey: 'AbCdEf',
+      nodeId: '1:2',
+      version: '42',
+    });
+
+    expect(node).toEqual({ id: '1:2', name: 'Button' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('knows the current version from node responses without asking for it', async () => {
+    const fetch = stubFetch({
+      'https://api.figma.com/v1/files/AbCdEf/nodes?ids=1%3A2': {
+        version: '43',
+        nodes: { '1:2': { document: { id: '1:2', name: 'Button' } } },
+      },
+    });
+    const rest = new FigmaRestClient('token');
+
+    await expect(rest.knownFileVersion({ fileKey: 'AbCdEf' })).resolves.toBeUndefined();
+    await rest.getNode({ fileKey: 'AbCdEf', nodeId: '1:2' });
+    await expect(rest.knownFileVersion({ fileKey: 'AbCdEf' })).resolves.toBe('43');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('lists versions newest first until the pinned one', async () => {
+    const version = (id: string) => ({ id, created_at: `2026-10-0${id}T00:00:00Z` });
+    stubFetch({
+      'https://api.figma.com/v1/files/AbCdEf/versions': {
+        versions: [{ ...version('4'), label: 'Dark mode', user: { handle: 'ada' } }, version('3')],
+        pagination: { next_page: 'https://api.figma.com/v1/files/AbCdEf/versions?before=3' },
+      },
+      'https://api.figma.com/v1/files/AbCdEf/versions?before=3': {
+        versions: [version('2'), version('1')],
+      },
+    });
+    const rest = new FigmaRestClient('token');
+
+    const pinned = await rest.getFileVersions({ fileKey: 'AbCdEf', until: '2' });
+    expect(pinned.found).toBe(true);
+    expect(pinned.versions).toEqual([
+      { id: '4', createdAt: '2026-10-04T00:00:00Z', label: 'Dark mode', user: 'ada' },
+      { id: '3', createdAt: '2026-10-03T00:00:00Z' },
+      { id: '2', createdAt: '2026-10-02T00:00:00Z' },
+    ]);
+
+    const unknown = await rest.getFileVersions({ fileKey: 'AbCdEf', until: '0' });
+    expect(unknown).toMatchObject({ found: false, versions: { length: 4 } });
+  });
+});
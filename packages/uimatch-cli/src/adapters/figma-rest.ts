@@ -1,5 +1,8 @@
 import { getLoggerSafe } from '#plugin/cli/logger.js';
+import { parseFigmaLocalVariables } from '#plugin/expected/figma-tokens.js';
+import type { FigmaVariable } from '#plugin/types/index.js';
 import { setTimeout as delay } from 'node:timers/promises';
+import type { FigmaSnapshotCache } from './figma-cache.js';
 
 /**
  * Node metadata extracted from Figma REST API
@@ -14,13 +17,34 @@ export interface FigmaNodeMetadata {
   y: number;
 }
 
+/**
+ * Saved version of a Figma file, as listed by the file versions endpoint.
+ */
+export interface FigmaFileVersion {
+  id: string;
+  createdAt: string;
+  label?: string;
+  description?: string;
+  user?: string;
+}
+
 /**
  * Direct Figma REST API client for fetching PNG images without MCP dependency.
- * Requires a Figma Personal Access Token.
+ * Requires a Figma Personal Access Token, except with a snapshot cache in `replay` mode.
  */
 export class FigmaRestClient {
-  constructor(private token: string) {
-    if (!this.token) throw new Error('FIGMA_ACCESS_TOKEN is required for Figma REST');
+  private cache?: FigmaSnapshotCache;
+  /** Current file versions carried by the node responses fetched so far */
+  private readonly nodeVersions = new Map<string, string>();
+
+  constructor(
+    private token: string,
+    options: { cache?: FigmaSnapshotCache } = {}
+  ) {
+    this.cache = options.cache;
+    if (!this.token && this.cache?.mode !== 'replay') {
+      throw new Error('FIGMA_ACCESS_TOKEN is required for Figma REST');
+    }
   }
 
   private async fetchJson<T>(url: string): Promise<T> {
@@ -41,17 +65,112 @@ export class FigmaRestClient {
    * @param params.fileKey - Figma file key
    * @param params.nodeId - Node ID within the file
    * @param params.scale - Export scale (1-4), default 2
+   * @param params.version - File version to render (default: latest)
    * @returns PNG image buffer
    */
-  async getFramePng(params: { fileKey: string; nodeId: string; scale?: number }): Promise<Buffer> {
+  async getFramePng(params: {
+    fileKey: string;
+    nodeId: string;
+    scale?: number;
+    version?: string;
+  }): Promise<Buffer> {
     // Clamp scale to Figma API limits (1-4)
     const scale = Math.max(1, Math.min(params.scale ?? 2, 4));
+    const frame = {
+      fileKey: params.fileKey,
+      nodeId: params.nodeId,
+      scale,
+      ...(params.version && { version: params.version }),
+    };
+    if (!this.cache) return this.fetchFramePng(frame);
+    return this.cache.getFramePng(frame, {
+      version: () => this.getFileVersion(params),
+      fetch: () => this.fetchFramePng(frame),
+    });
+  }
+
+  /**
+   * Current version of a Figma file, which changes with every saved edit.
+   * @param params.fileKey - Figma file key
+   * @returns Version ID
+   */
+  async getFileVersion(params: { fileKey: string }): Promise<string> {
+    const file = await this.fetchJson<{ version?: string }>(
+      `https://api.figma.com/v1/files/${params.fileKey}?depth=1`
+    );
+    if (!file.version) {
+      throw new Error(`Figma REST did not return a version for file ${params.fileKey}`);
+    }
+    return file.version;
+  }
+
+  /**
+   * Version of a file this client has already read unpinned: the one the snapshot cache
+   * resolved, else the one a node response carried. Sends no request of its own.
+   * @param params.fileKey - Figma file key
+   * @returns Version ID, or undefined when neither has been read
+   */
+  async knownFileVersion(params: { fileKey: string }): Promise<string | undefined> {
+    return (
+      (await this.cache?.resolvedFileVersion(params.fileKey)) ??
+      this.nodeVersions.get(params.fileKey)
+    );
+  }
+
+  /**
+   * Saved versions of a file, newest first, up to and including `until`.
+   * @param params.fileKey - Figma file key
+   * @param params.until - Version ID to stop at
+   * @param params.maxPages - Pages of the versions endpoint to read at most (default: 10)
+   * @returns Versions, and whether `until` was reached
+   */
+  async getFileVersions(params: {
+    fileKey: string;
+    until?: string;
+    maxPages?: number;
+  }): Promise<{ versions: FigmaFileVersion[]; found: boolean }> {
+    type Page = {
+      versions?: Array<{
+        id: string;
+        created_at: string;
+        label?: string | null;
+        description?: string | null;
+        user?: { handle?: string };
+      }>;
+      pagination?: { next_page?: string };
+    };
+    const versions: FigmaFileVersion[] = [];
+    let url: string | undefined = `https://api.figma.com/v1/files/${params.fileKey}/versions`;
+    for (let page = 0; url && page < (params.maxPages ?? 10); page++) {
+      const json: Page = await this.fetchJson<Page>(url);
+      for (const v of json.versions ?? []) {
+        versions.push({
+          id: v.id,
+          createdAt: v.created_at,
+          ...(v.label && { label: v.label }),
+          ...(v.description && { description: v.description }),
+          ...(v.user?.handle && { user: v.user.handle }),
+        });
+        if (v.id === params.until) return { versions, found: true };
+      }
+      url = json.pagination?.next_page;
+    }
+    return { versions, found: false };
+  }
+
+  private async fetchFramePng(params: {
+    fileKey: string;
+    nodeId: string;
+    scale: number;
+    version?: string;
+  }): Promise<Buffer> {
     const q = new URLSearchParams({
       ids: params.nodeId,
       format: 'png',
-      scale: String(scale),
+      scale: String(params.scale),
       use_absolute_bounds: 'true',
     });
+    if (params.version) q.set('version', params.version);
     const meta = await this.fetchJson<{ images: Record<string, string> }>(
       `https://api.figma.com/v1/images/${params.fileKey}?${q.toString()}`
     );
@@ -93,9 +212,26 @@ export class FigmaRestClient {
    * Only a subset of fields will be used downstream.
    * @param params.fileKey - Figma file key
    * @param params.nodeId - Node ID within the file
+   * @param params.version - File version to read (default: latest)
    * @returns Node document object
    */
-  async getNode(params: { fileKey: string; nodeId: string }): Promise<Record<string, unknown>> {
+  async getNode(params: {
+    fileKey: string;
+    nodeId: string;
+    version?: string;
+  }): Promise<Record<string, unknown>> {
+    if (!this.cache) return this.fetchNode(params);
+    return this.cache.getNode(params, {
+      version: () => this.getFileVersion(params),
+      fetch: () => this.fetchNode(params),
+    });
+  }
+
+  private async fetchNode(params: {
+    fileKey: string;
+    nodeId: string;
+    version?: string;
+  }): Promise<Record<string, unknown>> {
     const tryIds = new Set([
       params.nodeId,
       params.nodeId.replace(/:/g, '-'),
@@ -104,9 +240,14 @@ export class FigmaRestClient {
     let json: unknown;
     for (const id of tryIds) {
       const q = new URLSearchParams({ ids: id });
+      if (params.version) q.set('version', params.version);
       const url = `https://api.figma.com/v1/files/${params.fileKey}/nodes?${q.toString()}`;
       try {
         json = await this.fetchJson<unknown>(url);
+        const fileVersion = (json as { version?: unknown })?.version;
+        if (!params.version && typeof fileVersion === 'string') {
+          this.nodeVersions.set(params.fileKey, fileVersion);
+        }
         const doc = (json as { nodes?: Record<string, { document?: unknown }> })?.nodes?.[id]
           ?.document;
         if (doc) return doc as Record<string, unknown>;
@@ -117,6 +258,26 @@ export class FigmaRestClient {
     throw new Error(`Figma REST did not return node document for ${params.nodeId}`);
   }
 
+  /**
+   * Fetch the local variables of a Figma file (color, number and string; aliases resolved).
+   * The variables endpoint needs an Enterprise plan and the `file_variables:read` scope.
+   * @param params.fileKey - Figma file key
+   * @returns Variables with their values per mode
+   */
+  async getVariables(params: { fileKey: string }): Promise<FigmaVariable[]> {
+    const fetchVariables = () =>
+      this.fetchJson<Record<string, unknown>>(
+        `https://api.figma.com/v1/files/${params.fileKey}/variables/local`
+      );
+    const response = this.cache
+      ? await this.cache.getVariables(params, {
+          version: () => this.getFileVersion(params),
+          fetch: fetchVariables,
+        })
+      : await fetchVariables();
+    return parseFigmaLocalVariables(response);
+  }
+
   /**
    * Extract node metadata (bounding box) from Figma node document
    * @param node - Figma node document object
@@ -250,6 +411,7 @@ export class FigmaRestClient {
    * @param params.domChildAbs - DOM child absolute box (page coordinates)
    * @param params.domRootAbs - DOM root absolute box (page coordinates)
    * @param params.usePosition - Include position in matching (default: true)
+   * @param params.version - File version to read (default: latest)
    * @returns Best matching child node ID, or null if not found
    */
   async findBestChildForDomBox(params: {
@@ -258,9 +420,14 @@ export class FigmaRestClient {
     domChildAbs: { x: number; y: number; width: number; height: number };
     domRootAbs: { x: number; y: number; width: number; height: number };
     usePosition?: boolean;
+    version?: string;
   }): Promise<{ nodeId: string | null; debug?: { picked?: string } }> {
     try {
-      const parent = await this.getNode({ fileKey: params.fileKey, nodeId: params.parentNodeId });
+      const parent = await this.getNode({
+        fileKey: params.fileKey,
+        nodeId: params.parentNodeId,
+        version: params.version,
+      });
       const parentMeta = this.extractNodeMetadata(parent);
       if (!parentMeta) return { nodeId: null };
 
@@ -292,6 +459,7 @@ export class FigmaRestClient {
    * @param params.nodeId - Parent node ID
    * @param params.targetWidth - Implementation capture width
    * @param params.targetHeight - Implementation capture height
+   * @param params.version - File version to read (default: latest)
    * @returns Best matching child node ID, or original nodeId if no better match found
    */
   async autoDetectRoi(params: {
@@ -299,9 +467,14 @@ export class FigmaRestClient {
     nodeId: string;
     targetWidth: number;
     targetHeight: number;
+    version?: string;
   }): Promise<{ nodeId: string; wasAdjusted: boolean; originalNodeId: string }> {
     try {
-      const node = await this.getNode({ fileKey: params.fileKey, nodeId: params.nodeId });
+      const node = await this.getNode({
+        fileKey: params.fileKey,
+        nodeId: params.nodeId,
+        version: params.version,
+      });
       const parentMeta = this.extractNodeMetadata(node);
 
       if (!parentMeta) {
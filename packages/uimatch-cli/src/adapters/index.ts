@@ -1 +1,14 @@
+export {
+  createDesignSource,
+  isDesignSource,
+  listDesignSources,
+  registerDesignSource,
+  resolveDesignSourceId,
+} from './design-sources.js';
+export {
+  DEFAULT_FIGMA_CACHE_DIR,
+  FIGMA_CACHE_MODES,
+  FigmaSnapshotCache,
+  resolveFigmaCacheOptions,
+} from './figma-cache.js';
 export { FigmaRestClient } from './figma-rest.js';
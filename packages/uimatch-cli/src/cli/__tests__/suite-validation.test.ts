@@ -1,6 +1,9 @@
 import { browserPool } from '@uimatch/core';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { afterEach, expect, test, vi } from 'vitest';
-import { runSuite, runWithConcurrency } from '../suite';
+import { expandThemes, runSuite, runWithConcurrency } from '../suite';
 
 afterEach(() => {
   vi.restoreAllMocks();
@@ -35,3 +38,218 @@ test('runSuite closes the browser pool on a usage error', async () => {
   expect(exitCode).toBe(2);
   expect(closeAll).toHaveBeenCalledTimes(1);
 });
+
+test('expandThemes fans an item out with each theme Figma node and emulation', () => {
+  const items = expandThemes({
+    name: 'Card',
+    figma: 'AbCdEf:1-2',
+    story: 'http://localhost:6006',
+    selector: '#card',
+    pageBackground: '#fff',
+    themes: [
+      { name: 'light', figma: 'AbCdEf:1-2' },
+      { name: 'dark', figma: 'AbCdEf:1-3', colorScheme: 'dark', pageBackground: false },
+    ],
+  });
+
+  expect(items).toEqual([
+    {
+      name: 'Card [light]',
+      figma: 'AbCdEf:1-2',
+      story: 'http://localhost:6006',
+      selector: '#card',
+      pageBackground: '#fff',
+    },
+    {
+      name: 'Card [dark]',
+      figma: 'AbCdEf:1-3',
+      story: 'http://localhost:6006',
+      selector: '#card',
+      colorScheme: 'dark',
+      pageBackground: false,
+    },
+  ]);
+});
+
+test('runSuite rejects malformed steps as a usage error', async () => {
+  vi.spyOn(browserPool, 'closeAll').mockResolvedValue();
+  const dir = await mkdtemp(join(tmpdir(), 'uimatch-suite-'));
+  const suitePath = join(dir, 'suite.json');
+  await writeFile(
+    suitePath,
+    JSON.stringify({
+      items: [
+        {
+          name: 'Menu',
+          figma: 'AbCdEf:1-2',
+          story: 'http://localhost:6006',
+          selector: '#menu',
+          steps: [{ action: 'click' }],
+        },
+      ],
+    })
+  );
+  vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+  const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+  try {
+    const exitCode = await runSuite([`path=${suitePath}`, `outDir=${join(dir, 'out')}`]);
+
+    expect(exitCode).toBe(2);
+    expect(stderr.mock.calls.flat().join(' ')).toContain(
+      'items[0]: steps[0].selector must be a non-empty string'
+    );
+  } finally {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test.each([
+  [{ url: 'http://localhost:3000/login', steps: [{ action: 'click' }] }, 'auth.steps[0].selector'],
+  [{ steps: [] }, 'auth needs a url or a script'],
+  [{ script: './login.mjs' }, 'auth.script "./login.mjs" must default-export a function'],
+])('runSuite rejects auth %o as a usage error', async (auth, message) => {
+  vi.spyOn(browserPool, 'closeAll').mockResolvedValue();
+  const dir = await mkdtemp(join(tmpdir(), 'uimatch-suite-'));
+  const suitePath = join(dir, 'suite.json');
+  await writeFile(join(dir, 'login.mjs'), 'export const login = async () => {};\n');
+  await writeFile(
+    suitePath,
+    JSON.stringify({
+      auth,
+      items: [
+        {
+          name: 'Settings',
+          figma: 'AbCdEf:1-2',
+          story: 'http://localhost:3000/settings',
+          selector: '#settings',
+        },
+      ],
+    })
+  );
+  vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+  const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+  try {
+    const exitCode = await runSuite([`path=${suitePath}`, `outDir=${join(dir, 'out')}`]);
+
+    expect(exitCode).toBe(2);
+    expect(stderr.mock.calls.flat().join(' ')).toContain(message);
+  } finally {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('runSuite rejects malformed route mocks as a usage error', async () => {
+  vi.spyOn(browserPool, 'closeAll').mockResolvedValue();
+  const dir = await mkdtemp(join(tmpdir(), 'uimatch-suite-'));
+  const suitePath = join(dir, 'suite.json');
+  await writeFile(
+    suitePath,
+    JSON.stringify({
+      defaults: { routes: [{ url: '**/api/user', status: 'ok' }] },
+      items: [
+        {
+          name: 'Profile',
+          figma: 'AbCdEf:1-2',
+          story: 'http://localhost:6006',
+          selector: '#profile',
+        },
+      ],
+    })
+  );
+  vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+  const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+  try {
+    const exitCode = await runSuite([`path=${suitePath}`, `outDir=${join(dir, 'out')}`]);
+
+    expect(exitCode).toBe(2);
+    expect(stderr.mock.calls.flat().join(' ')).toContain(
+      'items[0]: routes[0].status must be an HTTP status code'
+    );
+  } finally {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test.each([
+  [{ browser: 'safari' }, 'items[0]: browser must be one of chromium, firefox, webkit'],
+  [
+    { browser: 'firefox', state: 'focus-visible' },
+    'items[0]: state "focus-visible" requires browser "chromium"',
+  ],
+])('runSuite rejects capture engine %o as a usage error', async (defaults, message) => {
+  vi.spyOn(browserPool, 'closeAll').mockResolvedValue();
+  const dir = await mkdtemp(join(tmpdir(), 'uimatch-suite-'));
+  const suitePath = join(dir, 'suite.json');
+  await writeFile(
+    suitePath,
+    JSON.stringify({
+      defaults,
+      items: [
+        {
+          name: 'Button',
+          figma: 'AbCdEf:1-2',
+          story: 'http://localhost:6006',
+          selector: '#button',
+        },
+      ],
+    })
+  );
+  vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+  const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+  try {
+    const exitCode = await runSuite([`path=${suitePath}`, `outDir=${join(dir, 'out')}`]);
+
+    expect(exitCode).toBe(2);
+    expect(stderr.mock.calls.flat().join(' ')).toContain(message);
+  } finally {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test.each([
+  [
+    { figmaCache: { mode: 'offline' } },
+    [],
+    'figmaCache.mode must be one of record, replay, refresh',
+  ],
+  [{}, ['figmaCache=offline'], 'Invalid figmaCache "offline": expected record, replay, refresh'],
+  [{}, ['figmaCacheDir=.figma'], 'figmaCacheDir requires figmaCache=record|replay|refresh'],
+])('runSuite rejects Figma cache %o %o as a usage error', async (config, args, message) => {
+  vi.spyOn(browserPool, 'closeAll').mockResolvedValue();
+  const dir = await mkdtemp(join(tmpdir(), 'uimatch-suite-'));
+  const suitePath = join(dir, 'suite.json');
+  await writeFile(
+    suitePath,
+    JSON.stringify({
+      ...config,
+      items: [
+        {
+          name: 'Button',
+          figma: 'AbCdEf:1-2',
+          story: 'http://localhost:6006',
+          selector: '#button',
+        },
+      ],
+    })
+  );
+  vi.stubEnv('FIGMA_ACCESS_TOKEN', 'test-token');
+  const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+  try {
+    const exitCode = await runSuite([`path=${suitePath}`, `outDir=${join(dir, 'out')}`, ...args]);
+
+    expect(exitCode).toBe(2);
+    expect(stderr.mock.calls.flat().join(' ')).toContain(message);
+  } finally {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest';
+import { parseBool, parseChoice, parseKeyValueArgs, parseNumber } from './args.js';
+
+describe('parseKeyValueArgs', () => {
+  test('collects key=value arguments and ignores the rest', () => {
+    expect(
+      parseKeyValueArgs<Record<string, string>>(['a=1', 'b=x=y', '--flag', 'c=', 'positional'])
+    ).toEqual({ a: '1', b: 'x=y' });
+  });
+});
+
+describe('parseBool', () => {
+  test('accepts only true and false', () => {
+    expect(parseBool('true')).toBe(true);
+    expect(parseBool('false')).toBe(false);
+    expect(parseBool('yes')).toBeUndefined();
+    expect(parseBool(undefined)).toBeUndefined();
+  });
+});
+
+describe('parseChoice', () => {
+  test('returns the trimmed choice or rejects the value', () => {
+    expect(parseChoice(' pad ', ['strict', 'pad'] as const, 'size')).toBe('pad');
+    expect(() => parseChoice('fit', ['strict', 'pad'] as const, 'size')).toThrow(
+      'Invalid size "fit": expected strict, pad'
+    );
+  });
+});
+
+describe('parseNumber', () => {
+  test('accepts numbers within the bounds', () => {
+    expect(parseNumber('2', 'dpr', 1, 4)).toBe(2);
+    expect(() => parseNumber('5', 'dpr', 1, 4)).toThrow(RangeError);
+    expect(() => parseNumber(' ', 'dpr', 1, 4)).toThrow(
+      'Invalid dpr " ": expected a number between 1 and 4'
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * uiMatch CLI - Argument parsing shared by the subcommands
+ */
+
+/**
+ * Collect `key=value` arguments; anything else is ignored
+ */
+export function parseKeyValueArgs<T extends object>(argv: string[]): T {
+  const out: Record<string, string> = {};
+  for (const a of argv) {
+    const m = a.match(/^(\w+)=([\s\S]+)$/);
+    if (m && m[1] && m[2]) {
+      out[m[1]] = m[2];
+    }
+  }
+  return out as T;
+}
+
+/**
+ * Parse boolean string ("true" or "false")
+ */
+export function parseBool(value?: string): boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Parse one of a fixed set of values
+ */
+export function parseChoice<T extends string>(
+  value: string,
+  choices: readonly T[],
+  name: string
+): T {
+  const choice = choices.find((c) => c === value.trim());
+  if (!choice) {
+    throw new RangeError(`Invalid ${name} "${value}": expected ${choices.join(', ')}`);
+  }
+  return choice;
+}
+
+/**
+ * Parse a number between `min` and `max`, inclusive
+ */
+export function parseNumber(value: string, name: string, min: number, max: number): number {
+  const parsed = value.trim() === '' ? Number.NaN : Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new RangeError(`Invalid ${name} "${value}": expected a number between ${min} and ${max}`);
+  }
+  return parsed;
+}
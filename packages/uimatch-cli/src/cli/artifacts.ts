@@ -0,0 +1,82 @@
+/**
+ * Artifact file naming shared by the compare and suite commands.
+ */
+
+import type { CompareResult } from '#plugin/types/index';
+
+type Artifacts = NonNullable<CompareResult['report']['artifacts']>;
+
+/**
+ * List the optional visualization artifacts present in a report as [file name, base64] pairs.
+ * `blink.png` is an animated PNG (APNG).
+ */
+export function visualizationArtifactFiles(artifacts: Artifacts): Array<[string, string]> {
+  const files: Array<[string, string | undefined]> = [
+    ['heatmap.png', artifacts.heatmapPngB64],
+    ['side-by-side.png', artifacts.sideBySidePngB64],
+    ['onion-skin.png', artifacts.onionSkinPngB64],
+    ['blink.png', artifacts.blinkPngB64],
+  ];
+  return files.filter((entry): entry is [string, string] => entry[1] !== undefined);
+}
+
+/**
+ * List the artifacts of one comparison under `dir`, with the same file names as the
+ * main comparison.
+ */
+function comparisonArtifactFiles(dir: string, artifacts: Artifacts): Array<[string, string]> {
+  const files: Array<[string, string]> = [
+    [`${dir}/figma.png`, artifacts.figmaPngB64],
+    [`${dir}/impl.png`, artifacts.implPngB64],
+    [`${dir}/diff.png`, artifacts.diffPngB64],
+  ];
+  if (artifacts.ssimMapPngB64) files.push([`${dir}/ssim.png`, artifacts.ssimMapPngB64]);
+  for (const [file, b64] of visualizationArtifactFiles(artifacts)) {
+    files.push([`${dir}/${file}`, b64]);
+  }
+  return files;
+}
+
+/**
+ * List the artifacts of each interaction state as [relative path, base64] pairs,
+ * under `states/<state>/` with the same file names as the main comparison.
+ */
+export function stateArtifactFiles(report: CompareResult['report']): Array<[string, string]> {
+  return (report.states ?? []).flatMap(({ state, report: stateReport }) =>
+    stateReport.artifacts ? comparisonArtifactFiles(`states/${state}`, stateReport.artifacts) : []
+  );
+}
+
+/**
+ * List the artifacts of each breakpoint as [relative path, base64] pairs, under
+ * `breakpoints/<name>/` (states under `breakpoints/<name>/states/<state>/`).
+ */
+export function breakpointArtifactFiles(report: CompareResult['report']): Array<[string, string]> {
+  return (report.breakpoints ?? []).flatMap(({ name, report: breakpointReport }) => {
+    const dir = `breakpoints/${name}`;
+    const files = breakpointReport.artifacts
+      ? comparisonArtifactFiles(dir, breakpointReport.artifacts)
+      : [];
+    for (const [file, b64] of stateArtifactFiles(breakpointReport)) {
+      files.push([`${dir}/${file}`, b64]);
+    }
+    return files;
+  });
+}
+
+/**
+ * Drop base64 artifacts from a report, including those of interaction states and breakpoints.
+ */
+export function withoutArtifacts(report: CompareResult['report']): CompareResult['report'] {
+  const stripStates = (states: CompareResult['report']['states']) =>
+    states?.map((s) => ({ ...s, report: { ...s.report, artifacts: undefined } }));
+  return {
+    ...report,
+    artifacts: undefined,
+    states: stripStates(report.states),
+    breakpoints: report.breakpoints?.map((b) => ({
+      ...b,
+      report: { ...b.report, artifacts: undefined, states: stripStates(b.report.states) },
+    })),
+  };
+}
@@ -610,6 +610,552 @@ describe('buildCompareConfig', () => {
       expect(config.weights).toBeUndefined();
     });
   });
+
+  describe('ssim parsing', () => {
+    test.each([
+      ['true', true],
+      ['false', false],
+      ['ms', 'multiscale'],
+    ] as const)('should parse ssim=%s', (value, expected) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        ssim: value,
+      };
+
+      expect(buildCompareConfig(args).ssim).toBe(expected);
+    });
+
+    test('should parse minSsim into thresholds', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        minSsim: '0.97',
+      };
+
+      expect(buildCompareConfig(args).thresholds?.minSsim).toBe(0.97);
+    });
+
+    test('should reject minSsim outside the unit interval', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        minSsim: '1.2',
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should reject minSsim with SSIM turned off', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        ssim: 'false',
+        minSsim: '0.97',
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow('minSsim requires SSIM; remove ssim=false');
+    });
+  });
+
+  describe('artifacts parsing', () => {
+    test('should map artifact names onto visualizations', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        artifacts: 'heatmap, side-by-side,onion-skin,blink,overlay,heatmap',
+      };
+
+      expect(buildCompareConfig(args).visualizations).toEqual([
+        'heatmap',
+        'sideBySide',
+        'onionSkin',
+        'blink',
+      ]);
+    });
+
+    test('should leave visualizations unset for overlay only', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        artifacts: 'overlay',
+      };
+
+      expect(buildCompareConfig(args).visualizations).toBeUndefined();
+    });
+
+    test('should reject unknown artifact names', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        artifacts: 'heatmap,gif',
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+  });
+
+  describe('registration parsing', () => {
+    test.each([
+      ['true', true],
+      ['false', false],
+      ['subpixel', { subPixel: true }],
+      ['6', { maxOffset: 6 }],
+    ] as const)('should parse registration=%s', (value, expected) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        registration: value,
+      };
+
+      expect(buildCompareConfig(args).registration).toEqual(expected);
+    });
+
+    test('should parse maxLayoutShift into thresholds', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        maxLayoutShift: '1.5',
+      };
+
+      expect(buildCompareConfig(args).thresholds?.maxLayoutShift).toBe(1.5);
+    });
+
+    test('should parse minContrastRatio into thresholds', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        minContrastRatio: '4.5',
+      };
+
+      expect(buildCompareConfig(args).thresholds?.minContrastRatio).toBe(4.5);
+    });
+
+    test.each(['0.5', '22', 'abc'])('should reject minContrastRatio=%s', (value) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        minContrastRatio: value,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should parse maxContrastDrop into thresholds', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        maxContrastDrop: '0.2',
+      };
+
+      expect(buildCompareConfig(args).thresholds?.maxContrastDrop).toBe(0.2);
+      expect(() => buildCompareConfig({ ...args, maxContrastDrop: '1.5' })).toThrow(RangeError);
+    });
+
+    test.each(['-1', 'abc'])('should reject registration=%s', (value) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        registration: value,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+  });
+
+  describe('normalizeScale parsing', () => {
+    test('should keep normalizeScale undefined when not specified', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+      };
+
+      expect(buildCompareConfig(args).normalizeScale).toBeUndefined();
+    });
+
+    test('should parse normalizeScale=false', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        normalizeScale: 'false',
+      };
+
+      expect(buildCompareConfig(args).normalizeScale).toBe(false);
+    });
+  });
+
+  describe('tiling parsing', () => {
+    test.each([
+      [{ tiles: 'true' }, true],
+      [{ tiles: 'false' }, false],
+      [{ tiles: '512' }, { tileSize: 512 }],
+      [{ workers: '4' }, { workers: 4 }],
+      [
+        { tiles: '2048', workers: '2' },
+        { tileSize: 2048, workers: 2 },
+      ],
+    ] as const)('should parse %o', (tiling, expected) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        ...tiling,
+      };
+
+      expect(buildCompareConfig(args).tiling).toEqual(expected);
+    });
+
+    test.each([{ tiles: '0' }, { tiles: '1.5' }, { workers: 'many' }])(
+      'should reject %o',
+      (tiling) => {
+        const args: ParsedArgs = {
+          figma: 'AbCdEf:1-23',
+          story: 'http://localhost:6006',
+          selector: '#root',
+          ...tiling,
+        };
+
+        expect(() => buildCompareConfig(args)).toThrow(RangeError);
+      }
+    );
+  });
+
+  describe('mask parsing', () => {
+    test('should parse mask rects, selectors, and layers', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        maskRect: '0,0,40,20; 10,30,5,5',
+        maskSelector: '.avatar, .badge;testid:timestamp',
+        maskLayer: 'Avatar;12:34',
+      };
+
+      const config = buildCompareConfig(args);
+
+      expect(config.mask).toEqual({
+        rects: [
+          { x: 0, y: 0, width: 40, height: 20 },
+          { x: 10, y: 30, width: 5, height: 5 },
+        ],
+        selectors: ['.avatar, .badge', 'testid:timestamp'],
+        figmaLayers: ['Avatar', '12:34'],
+      });
+    });
+
+    test('should reject malformed mask rects', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        maskRect: '0,0,40',
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow('Invalid maskRect "0,0,40"');
+    });
+
+    test('should parse interaction states paired with Figma variants', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        state: 'hover',
+        states:
+          'focus-visible@AbCdEf:1-24; active@https://www.figma.com/design/AbCdEf/x?node-id=1-25',
+      };
+
+      const config = buildCompareConfig(args);
+
+      expect(config.state).toBe('hover');
+      expect(config.states).toEqual([
+        { state: 'focus-visible', figma: 'AbCdEf:1-24' },
+        { state: 'active', figma: 'https://www.figma.com/design/AbCdEf/x?node-id=1-25' },
+      ]);
+    });
+
+    test.each([
+      ['state', 'pressed'],
+      ['states', 'hover'],
+      ['states', 'pressed@AbCdEf:1-24'],
+    ])('should reject %s=%s', (key, value) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        [key]: value,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should parse a breakpoint matrix and default figma to the first frame', () => {
+      const args: ParsedArgs = {
+        story: 'http://localhost:6006',
+        selector: '#root',
+        breakpoints: 'mobile:375x812@AbCdEf:1-30; 1440x900@AbCdEf:1-31',
+      };
+
+      const config = buildCompareConfig(args);
+
+      expect(config.figma).toBe('AbCdEf:1-30');
+      expect(config.breakpoints).toEqual([
+        { name: 'mobile', viewport: { width: 375, height: 812 }, figma: 'AbCdEf:1-30' },
+        { viewport: { width: 1440, height: 900 }, figma: 'AbCdEf:1-31' },
+      ]);
+    });
+
+    test.each(['375x812', 'mobile:375@AbCdEf:1-30', ':375x812@AbCdEf:1-30'])(
+      'should reject breakpoints=%s',
+      (value) => {
+        const args: ParsedArgs = {
+          figma: 'AbCdEf:1-23',
+          story: 'http://localhost:6006',
+          selector: '#root',
+          breakpoints: value,
+        };
+
+        expect(() => buildCompareConfig(args)).toThrow(RangeError);
+      }
+    );
+
+    test('should parse media emulation and the page background', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        colorScheme: 'dark',
+        reducedMotion: 'reduce',
+        forcedColors: 'active',
+        media: 'print',
+        pageBackground: 'none',
+      };
+
+      const config = buildCompareConfig(args);
+
+      expect(config).toMatchObject({
+        colorScheme: 'dark',
+        reducedMotion: 'reduce',
+        forcedColors: 'active',
+        media: 'print',
+        pageBackground: false,
+      });
+      expect(buildCompareConfig({ ...args, pageBackground: 'figma' }).pageBackground).toBe('figma');
+    });
+
+    test.each([
+      ['colorScheme', 'dim'],
+      ['reducedMotion', 'yes'],
+      ['forcedColors', 'on'],
+      ['media', 'tv'],
+    ])('should reject %s=%s', (key, value) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        [key]: value,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should parse the capture engine', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        browser: 'webkit',
+      };
+
+      expect(buildCompareConfig(args).browser).toBe('webkit');
+      expect(() => buildCompareConfig({ ...args, browser: 'safari' })).toThrow(
+        'Invalid browser "safari": expected chromium, firefox, webkit'
+      );
+      expect(() => buildCompareConfig({ ...args, state: 'focus-visible' })).toThrow(
+        'state "focus-visible" requires browser=chromium'
+      );
+    });
+
+    test('should parse the Figma snapshot cache', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        figmaCache: 'replay',
+        figmaCacheDir: '.figma',
+      };
+
+      expect(buildCompareConfig(args).figmaCache).toEqual({ mode: 'replay', dir: '.figma' });
+      expect(() => buildCompareConfig({ ...args, figmaCache: 'offline' })).toThrow(
+        'Invalid figmaCache "offline": expected record, replay, refresh'
+      );
+      expect(() => buildCompareConfig({ ...args, figmaCache: undefined })).toThrow(
+        'figmaCacheDir requires figmaCache=record|replay|refresh'
+      );
+    });
+
+    test('should parse the Figma variables import', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        figmaVariables: 'true',
+      };
+
+      expect(buildCompareConfig(args).figmaVariables).toBe(true);
+      expect(
+        buildCompareConfig({
+          ...args,
+          figmaVariablesNaming: '--ds-{name}',
+          figmaVariablesMode: 'Dark',
+        }).figmaVariables
+      ).toEqual({ naming: '--ds-{name}', mode: 'Dark' });
+      expect(() =>
+        buildCompareConfig({ ...args, figmaVariables: 'false', figmaVariablesMode: 'Dark' })
+      ).toThrow('figmaVariablesNaming/figmaVariablesMode require figmaVariables=true');
+    });
+
+    test('should parse the pinned Figma version', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        figmaVersion: ' 1234567890 ',
+      };
+
+      expect(buildCompareConfig(args).figmaVersion).toBe('1234567890');
+      expect(() => buildCompareConfig({ ...args, figmaVersion: ' ' })).toThrow(
+        'figmaVersion must not be empty'
+      );
+    });
+
+    test('should parse pre-capture steps', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        steps: '[{"action":"click","selector":"testid:menu"},{"action":"waitForTimeout","ms":50}]',
+      };
+
+      expect(buildCompareConfig(args).steps).toEqual([
+        { action: 'click', selector: 'testid:menu' },
+        { action: 'waitForTimeout', ms: 50 },
+      ]);
+    });
+
+    test.each(['{"action":"click"', '[{"action":"click"}]'])('should reject steps=%s', (steps) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        steps,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should parse cookies and extra headers', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        cookies: 'session=abc=123; locale=ja',
+        headers: 'Authorization: Bearer t0ken; X-Env: staging',
+      };
+
+      const config = buildCompareConfig(args);
+
+      expect(config.cookies).toEqual([
+        { name: 'session', value: 'abc=123' },
+        { name: 'locale', value: 'ja' },
+      ]);
+      expect(config.extraHTTPHeaders).toEqual({
+        Authorization: 'Bearer t0ken',
+        'X-Env': 'staging',
+      });
+    });
+
+    test.each([
+      ['cookies', '=abc'],
+      ['headers', 'Bearer t0ken'],
+      ['storageState', '/nonexistent/state.json'],
+    ])('should reject %s=%s', (key, value) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        [key]: value,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should parse network control', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        har: 'fixtures/button.har',
+        harUrl: '**/api/**',
+        harFallback: 'true',
+        blockHosts: 'www.googletagmanager.com; *.sentry.io',
+        blockThirdParty: 'true',
+        routes: '[{"url":"**/api/user","status":404}]',
+      };
+
+      expect(buildCompareConfig(args)).toMatchObject({
+        har: 'fixtures/button.har',
+        harMode: 'auto',
+        harUrl: '**/api/**',
+        harFallback: true,
+        blockHosts: ['www.googletagmanager.com', '*.sentry.io'],
+        blockThirdParty: true,
+        routes: [{ url: '**/api/user', status: 404 }],
+      });
+    });
+
+    test.each([
+      ['harMode', 'update'],
+      ['routes', '[{"status":200}]'],
+      ['routes', '{"url":'],
+    ])('should reject %s=%s', (key, value) => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+        har: 'fixtures/button.har',
+        [key]: value,
+      };
+
+      expect(() => buildCompareConfig(args)).toThrow(RangeError);
+    });
+
+    test('should leave mask undefined when not specified', () => {
+      const args: ParsedArgs = {
+        figma: 'AbCdEf:1-23',
+        story: 'http://localhost:6006',
+        selector: '#root',
+      };
+
+      const config = buildCompareConfig(args);
+
+      expect(config.mask).toBeUndefined();
+    });
+  });
 });
 
 describe('evaluateGateDecision', () => {
@@ -619,6 +1165,38 @@ describe('evaluateGateDecision', () => {
     expect(decision.finalPass).toBe(false);
   });
 
+  test('fails when an interaction state fails', () => {
+    const report = createReport(true);
+    report.states = [
+      { state: 'hover', figma: 'AbCdEf:1-24', summary: 'PASS', report: createReport(true) },
+      { state: 'focus', figma: 'AbCdEf:1-25', summary: 'FAIL', report: createReport(false) },
+    ];
+
+    const decision = evaluateGateDecision(report, {});
+
+    expect(decision.baseGatePass).toBe(false);
+    expect(decision.finalPass).toBe(false);
+    expect(decision.notices).toContain('❌ States failed: focus');
+  });
+
+  test('reports failed breakpoints', () => {
+    const report = createReport(false);
+    report.breakpoints = [
+      {
+        name: 'mobile',
+        viewport: { width: 375, height: 812 },
+        figma: 'AbCdEf:1-30',
+        summary: 'FAIL',
+        report: createReport(false),
+      },
+    ];
+
+    const decision = evaluateGateDecision(report, {});
+
+    expect(decision.finalPass).toBe(false);
+    expect(decision.notices).toContain('❌ Breakpoints failed: mobile');
+  });
+
   test('allows an enabled text gate to override a visual failure', () => {
     const report = createReport(false);
     report.textMatch = {
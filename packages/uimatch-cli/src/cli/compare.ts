@@ -1,15 +1,38 @@
 #!/usr/bin/env node
 
+import { createDesignSource } from '#plugin/adapters/design-sources';
+import { FIGMA_CACHE_MODES } from '#plugin/adapters/figma-cache';
+import { breakpointPassed } from '#plugin/commands/breakpoints';
 import { closeUiMatchBrowsers } from '#plugin/commands/browsers';
 import { uiMatchCompare } from '#plugin/commands/compare';
-import type { CompareArgs, CompareResult } from '#plugin/types/index';
-import { relativizePath, sanitizeFigmaRef, sanitizeUrl } from '#plugin/utils/sanitize';
+import type {
+  CaptureCookie,
+  CaptureStep,
+  CompareArgs,
+  CompareResult,
+  InteractionState,
+  MediaEmulation,
+  RouteMock,
+} from '#plugin/types/index';
+import {
+  relativizePath,
+  sanitizeCookies,
+  sanitizeFigmaRef,
+  sanitizeHeaders,
+  sanitizeUrl,
+} from '#plugin/utils/sanitize';
 import type { QualityGateProfile } from '@uimatch/core';
-import { DEFAULT_CONFIG, getQualityGateProfile } from '@uimatch/core';
+import {
+  BROWSER_ENGINES,
+  DEFAULT_CONFIG,
+  getQualityGateProfile,
+  parseCaptureSteps,
+  parseRouteMocks,
+} from '@uimatch/core';
 import { silentLogger } from '@uimatch/shared-logging';
 import { existsSync } from 'node:fs';
 import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { isAbsolute, join, resolve } from 'node:path';
+import { dirname, isAbsolute, join, resolve } from 'node:path';
 import {
   getSelectorPluginTimeoutMs,
   resolveSelectorPluginId,
@@ -19,6 +42,13 @@ import {
   resolveExistingProjectPath,
   resolveProjectRoot,
 } from '../utils/project-path.js';
+import { parseBool, parseChoice } from './args.js';
+import {
+  breakpointArtifactFiles,
+  stateArtifactFiles,
+  visualizationArtifactFiles,
+  withoutArtifacts,
+} from './artifacts.js';
 import { reportCommandError } from './exit-code.js';
 import { getLogger, initLogger } from './logger.js';
 import { errln, outln } from './print.js';
@@ -37,6 +67,7 @@ function getOrSilentLogger(): typeof silentLogger {
 
 export interface ParsedArgs {
   figma?: string;
+  figmaVersion?: string;
   story?: string;
   selector?: string;
   subselector?: string;
@@ -45,6 +76,12 @@ export interface ParsedArgs {
   dpr?: string;
   figmaScale?: string;
   figmaAutoRoi?: string;
+  figmaCache?: string;
+  figmaCacheDir?: string;
+  designSource?: string;
+  figmaVariables?: string;
+  figmaVariablesNaming?: string;
+  figmaVariablesMode?: string;
   maxChildren?: string;
   propsMode?: string;
   maxDepth?: string;
@@ -54,10 +91,34 @@ export interface ParsedArgs {
   align?: string;
   padColor?: string;
   contentBasis?: string;
+  maskRect?: string;
+  maskSelector?: string;
+  maskLayer?: string;
+  state?: string;
+  states?: string;
+  breakpoints?: string;
+  steps?: string;
+  browser?: string;
+  colorScheme?: string;
+  reducedMotion?: string;
+  forcedColors?: string;
+  media?: string;
+  pageBackground?: string;
+  storageState?: string;
+  cookies?: string;
+  headers?: string;
+  har?: string;
+  harMode?: string;
+  harUrl?: string;
+  harFallback?: string;
+  blockHosts?: string;
+  blockThirdParty?: string;
+  routes?: string;
   emitArtifacts?: boolean;
   outDir?: string;
   timestampOutDir?: string;
   overlay?: string;
+  artifacts?: string;
   jsonOnly?: string;
   verbose?: string;
   bootstrap?: string;
@@ -84,6 +145,15 @@ export interface ParsedArgs {
   textMinRatio?: string;
   areaGapCritical?: string;
   areaGapWarning?: string;
+  minSsim?: string;
+  ssim?: string;
+  registration?: string;
+  maxLayoutShift?: string;
+  minContrastRatio?: string;
+  maxContrastDrop?: string;
+  tiles?: string;
+  workers?: string;
+  normalizeScale?: string;
   textGate?: string | boolean;
 }
 
@@ -158,15 +228,6 @@ function parseViewport(value?: string): { width: number; height: number } | unde
   return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
 }
 
-/**
- * Parse boolean string ("true" or "false")
- */
-function parseBool(value?: string): boolean | undefined {
-  if (value === 'true') return true;
-  if (value === 'false') return false;
-  return undefined;
-}
-
 function parseUnitInterval(value: string, name: string): number {
   const parsed = value.trim() === '' ? Number.NaN : Number(value);
   if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
@@ -175,6 +236,82 @@ function parseUnitInterval(value: string, name: string): number {
   return parsed;
 }
 
+function parseNonNegativeNumber(value: string, name: string): number {
+  const parsed = value.trim() === '' ? Number.NaN : Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new RangeError(`Invalid ${name} "${value}": expected a non-negative number`);
+  }
+  return parsed;
+}
+
+function parsePositiveInteger(value: string, name: string): number {
+  const parsed = value.trim() === '' ? Number.NaN : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new RangeError(`Invalid ${name} "${value}": expected a positive integer`);
+  }
+  return parsed;
+}
+
+const ARTIFACT_NAMES = {
+  heatmap: 'heatmap',
+  'side-by-side': 'sideBySide',
+  'onion-skin': 'onionSkin',
+  blink: 'blink',
+  overlay: 'overlay',
+} as const;
+
+/**
+ * Parse the `artifacts` list (comma-separated) into visualizations and the overlay flag
+ */
+function parseArtifacts(value: string): {
+  visualizations: NonNullable<CompareArgs['visualizations']>;
+  overlay: boolean;
+} {
+  const visualizations: NonNullable<CompareArgs['visualizations']> = [];
+  let overlay = false;
+  for (const name of value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)) {
+    const kind = Object.hasOwn(ARTIFACT_NAMES, name)
+      ? ARTIFACT_NAMES[name as keyof typeof ARTIFACT_NAMES]
+      : undefined;
+    if (!kind) {
+      throw new RangeError(
+        `Invalid artifacts "${name}": expected ${Object.keys(ARTIFACT_NAMES).join(', ')}`
+      );
+    }
+    if (kind === 'overlay') overlay = true;
+    else if (!visualizations.includes(kind)) visualizations.push(kind);
+  }
+  return { visualizations, overlay };
+}
+
+/**
+ * Parse registration option: bool, `subpixel`, or a maximum offset in pixels
+ */
+function parseRegistration(value: string): CompareArgs['registration'] {
+  const bool = parseBool(value);
+  if (bool !== undefined) return bool;
+  if (value === 'subpixel') return { subPixel: true };
+  return { maxOffset: parseNonNegativeNumber(value, 'registration') };
+}
+
+/**
+ * Parse tiling options: `tiles` is a bool or a tile size in pixels, `workers` a thread count.
+ * Setting `workers` alone enables tiling with the default tile size.
+ */
+function parseTiling(tiles?: string, workers?: string): CompareArgs['tiling'] {
+  const bool = tiles === undefined ? undefined : parseBool(tiles);
+  if (bool === false) return false;
+  const tiling: Exclude<CompareArgs['tiling'], boolean | undefined> = {};
+  if (tiles !== undefined && bool === undefined) {
+    tiling.tileSize = parsePositiveInteger(tiles, 'tiles');
+  }
+  if (workers !== undefined) tiling.workers = parsePositiveInteger(workers, 'workers');
+  return Object.keys(tiling).length > 0 ? tiling : true;
+}
+
 /**
  * Parse size mode string
  */
@@ -236,6 +373,172 @@ function parseHexColor(value?: string): { r: number; g: number; b: number } | un
   };
 }
 
+/**
+ * Parse mask rectangles ("x,y,w,h" separated by ";") in design CSS pixels
+ */
+function parseMaskRects(
+  value: string
+): Array<{ x: number; y: number; width: number; height: number }> {
+  return splitList(value).map((entry) => {
+    const parts = entry.split(',').map((p) => (p.trim() === '' ? Number.NaN : Number(p)));
+    const [x, y, width, height] = parts;
+    if (
+      parts.length !== 4 ||
+      x === undefined ||
+      y === undefined ||
+      width === undefined ||
+      height === undefined ||
+      !parts.every(Number.isFinite) ||
+      width <= 0 ||
+      height <= 0
+    ) {
+      throw new RangeError(`Invalid maskRect "${entry}": expected x,y,width,height`);
+    }
+    return { x, y, width, height };
+  });
+}
+
+const INTERACTION_STATES: readonly InteractionState[] = [
+  'default',
+  'hover',
+  'focus',
+  'focus-visible',
+  'active',
+  'disabled',
+];
+
+function parseInteractionState(value: string): InteractionState {
+  return parseChoice(value, INTERACTION_STATES, 'state');
+}
+
+/**
+ * Parse media emulation arguments (colorScheme, reducedMotion, forcedColors, media)
+ */
+function parseMediaEmulation(args: ParsedArgs): MediaEmulation {
+  const out: MediaEmulation = {};
+  if (args.colorScheme !== undefined) {
+    out.colorScheme = parseChoice(
+      args.colorScheme,
+      ['light', 'dark', 'no-preference'] as const,
+      'colorScheme'
+    );
+  }
+  if (args.reducedMotion !== undefined) {
+    out.reducedMotion = parseChoice(
+      args.reducedMotion,
+      ['reduce', 'no-preference'] as const,
+      'reducedMotion'
+    );
+  }
+  if (args.forcedColors !== undefined) {
+    out.forcedColors = parseChoice(args.forcedColors, ['active', 'none'] as const, 'forcedColors');
+  }
+  if (args.media !== undefined) {
+    out.media = parseChoice(args.media, ['screen', 'print'] as const, 'media');
+  }
+  return out;
+}
+
+/**
+ * Parse interaction states paired with Figma variants ("state@figma" separated by ";")
+ */
+function parseStates(value: string): NonNullable<CompareArgs['states']> {
+  return splitList(value).map((entry) => {
+    const at = entry.indexOf('@');
+    const figma = at > 0 ? entry.slice(at + 1).trim() : '';
+    if (!figma) {
+      throw new RangeError(`Invalid states entry "${entry}": expected <state>@<figma>`);
+    }
+    return { state: parseInteractionState(entry.slice(0, at)), figma };
+  });
+}
+
+/**
+ * Parse pre-capture steps given as a JSON array
+ */
+function parseSteps(value: string): CaptureStep[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new RangeError('Invalid steps: expected a JSON array of steps');
+  }
+  return parseCaptureSteps(parsed);
+}
+
+/**
+ * Parse route mocks given as a JSON array
+ */
+function parseRoutes(value: string): RouteMock[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new RangeError('Invalid routes: expected a JSON array of route mocks');
+  }
+  return parseRouteMocks(parsed);
+}
+
+/**
+ * Parse cookies ("name=value" separated by ";"), scoped to the capture URL
+ */
+function parseCookies(value: string): CaptureCookie[] {
+  return splitList(value).map((entry) => {
+    const eq = entry.indexOf('=');
+    const name = eq > 0 ? entry.slice(0, eq).trim() : '';
+    if (!name) {
+      throw new RangeError(`Invalid cookies entry "${entry}": expected <name>=<value>`);
+    }
+    return { name, value: entry.slice(eq + 1).trim() };
+  });
+}
+
+/**
+ * Parse extra HTTP headers ("Name: value" separated by ";")
+ */
+function parseHeaders(value: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const entry of splitList(value)) {
+    const colon = entry.indexOf(':');
+    const name = colon > 0 ? entry.slice(0, colon).trim() : '';
+    if (!name) {
+      throw new RangeError(`Invalid headers entry "${entry}": expected <name>: <value>`);
+    }
+    headers[name] = entry.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * Parse a viewport matrix ("[name:]WxH@figma" separated by ";")
+ */
+function parseBreakpoints(value: string): NonNullable<CompareArgs['breakpoints']> {
+  return splitList(value).map((entry) => {
+    const at = entry.indexOf('@');
+    const figma = at > 0 ? entry.slice(at + 1).trim() : '';
+    const head = at > 0 ? entry.slice(0, at).trim() : '';
+    const colon = head.indexOf(':');
+    const name = colon >= 0 ? head.slice(0, colon).trim() : undefined;
+    const viewport = parseViewport(colon >= 0 ? head.slice(colon + 1).trim() : head);
+    if (!figma || !viewport || name === '') {
+      throw new RangeError(
+        `Invalid breakpoints entry "${entry}": expected [<name>:]<width>x<height>@<figma>`
+      );
+    }
+    return name === undefined ? { viewport, figma } : { name, viewport, figma };
+  });
+}
+
+/**
+ * Split a ";"-separated list (selectors and layer names may contain commas)
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(';')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
 function printUsage(): void {
   errln('Usage: uimatch compare figma=<FILE:NODE|URL> story=<URL> selector=<CSS> [options]');
   errln('');
@@ -262,10 +565,47 @@ function printUsage(): void {
   errln('  maxDepth=<number>       Max depth to traverse for child elements (default: 6)');
   errln('  viewport=<WxH>          Viewport size (e.g., 1584x1104)');
   errln('  dpr=<number>            Device pixel ratio (default: 2)');
+  errln('  browser=<engine>        Capture engine: chromium, firefox, webkit (default: chromium)');
+  errln('  colorScheme=<scheme>    Emulate prefers-color-scheme: light, dark, no-preference');
+  errln('  reducedMotion=<value>   Emulate prefers-reduced-motion: reduce, no-preference');
+  errln('  forcedColors=<value>    Emulate forced-colors: active, none');
+  errln('  media=<type>            Emulate media type: screen, print');
+  errln(
+    '  pageBackground=<css>    Page background during capture (default: #fff, none: keep, figma: from node)'
+  );
+  errln('  storageState=<path>     Playwright storage state (cookies, localStorage) from a login');
+  errln('  cookies=<name=value;...>  Cookies for the capture URL (";"-separated)');
+  errln('  headers=<Name: value;...>  Extra HTTP headers for every request (";"-separated)');
+  errln('  har=<path>              Serve recorded responses from a HAR file');
+  errln(
+    '  harMode=<mode>          HAR mode: auto (record when missing), record, replay (default: auto)'
+  );
+  errln('  harUrl=<glob>           Only serve/record matching requests from the HAR');
+  errln(
+    '  harFallback=<bool>      Send requests missing from the HAR to the network (default: false)'
+  );
+  errln('  blockHosts=<host;...>   Abort requests to hosts (";"-separated, *.domain wildcards)');
+  errln(
+    '  blockThirdParty=<bool>  Abort requests to hosts other than the story host (default: false)'
+  );
+  errln(
+    '  routes=<json>           Route mocks, e.g. [{"url":"**/api/user","body":{"name":"Ada"}}]'
+  );
   errln('  figmaScale=<number>     Figma export scale factor (1-4, default: 2)');
   errln(
     '  figmaAutoRoi=<bool>     Auto-detect best matching child node (true/false, default: false)'
   );
+  errln('  figmaVersion=<id>       Pin the Figma file version (same as figma=<fileKey:nodeId@id>)');
+  errln('  figmaCache=<mode>       Figma snapshot cache: record, replay (offline), refresh');
+  errln('  figmaCacheDir=<path>    Snapshot cache directory (default: .uimatch-cache/figma)');
+  errln(
+    '  designSource=<id>       Design source: figma-rest, figma-mcp, figma-bypass, or a package'
+  );
+  errln('  figmaVariables=<bool>   Import Figma variables as tokens (default: false)');
+  errln('  figmaVariablesNaming=<template>  Token name template (default: --{name})');
+  errln(
+    '  figmaVariablesMode=<mode>  Variable mode for token values (default: collection default)'
+  );
   errln(
     '  detectStorybookIframe=<bool>  Use Storybook iframe (true/false, default: auto-detect from URL)'
   );
@@ -277,11 +617,27 @@ function printUsage(): void {
   errln(
     '  contentBasis=<mode>     Content area basis (union|intersection|figma|impl, default: union)'
   );
+  errln(
+    '  maskRect=<x,y,w,h;...>  Mask rectangles in design px relative to the Figma node (";"-separated)'
+  );
+  errln('  maskSelector=<sel;...>  Mask elements matching selectors (";"-separated, all matches)');
+  errln('  maskLayer=<name;...>    Mask Figma layers by name or node ID (";"-separated)');
+  errln(
+    '  steps=<json>            Pre-capture steps, e.g. [{"action":"click","selector":"testid:menu"}]'
+  );
+  errln(
+    '  state=<state>           Interaction state: hover, focus, focus-visible, active, disabled'
+  );
+  errln('  states=<state@figma;...>  Also compare each state against its Figma variant node');
+  errln('  breakpoints=<[name:]WxH@figma;...>  Compare each viewport against its own Figma frame');
   errln(
     '  emitArtifacts=<bool>    Include base64 artifacts in JSON output (true/false, default: false, auto-enabled by outDir)'
   );
   errln('  outDir=<path>           Save artifacts to directory (auto-enables emitArtifacts)');
   errln('  overlay=<bool>          Save overlay.png (impl + red highlights, default: false)');
+  errln(
+    '  artifacts=<list>        Extra artifacts (CSV): heatmap,side-by-side,onion-skin,blink,overlay'
+  );
   errln(
     '  jsonOnly=<bool>         Omit base64 artifacts from JSON (default: true when outDir set)'
   );
@@ -295,6 +651,19 @@ function printUsage(): void {
   errln(
     '  profile=<name>          Quality gate profile (component/strict|component/dev|page-vs-component|page/text-doc|lenient|custom)'
   );
+  errln('  ssim=<bool|ms>          Compute SSIM (true) or MS-SSIM (ms) alongside pixelmatch');
+  errln('  minSsim=<0..1>          Minimum SSIM for the quality gate (enables ssim)');
+  errln(
+    '  registration=<bool|px|subpixel>  Align impl to Figma before diffing (default search: 4px)'
+  );
+  errln('  maxLayoutShift=<px>     Fail the gate when registration absorbs a larger shift');
+  errln('  minContrastRatio=<1..21>  Fail the gate when text contrast drops below (e.g. 4.5)');
+  errln('  maxContrastDrop=<0..1>  Fail the gate when text contrast falls this far below Figma');
+  errln(
+    '  normalizeScale=<bool>   Resample to a common scale when figmaScale and dpr differ (default: true)'
+  );
+  errln('  tiles=<bool|px>         Compare in tiles (default: 1024px) for large captures');
+  errln('  workers=<n>             Worker threads for tiled comparison (enables tiles)');
   errln('  showCqi=<bool>          Display Composite Quality Indicator (default: true)');
   errln('  showSuspicions=<bool>   Display suspicion warnings (default: true)');
   errln('  showReEval=<bool>       Display re-evaluation recommendations (default: true)');
@@ -331,8 +700,11 @@ export function buildCompareConfig(
   args: ParsedArgs,
   qualityGateProfile?: QualityGateProfile
 ): CompareArgs {
-  // Validate required parameters
-  if (!args.figma) {
+  // Validate required parameters (the first breakpoint stands in for figma)
+  const breakpoints =
+    args.breakpoints !== undefined ? parseBreakpoints(args.breakpoints) : undefined;
+  const figma = args.figma ?? breakpoints?.[0]?.figma;
+  if (!figma) {
     throw new Error('Missing required parameter: figma');
   }
   if (!args.story) {
@@ -343,7 +715,7 @@ export function buildCompareConfig(
   }
 
   const config: CompareArgs = {
-    figma: args.figma,
+    figma,
     story: args.story,
     selector: args.selector,
     // Auto-enable emitArtifacts when outDir is specified
@@ -410,6 +782,33 @@ export function buildCompareConfig(
   const autoRoi = parseBool(args.figmaAutoRoi);
   if (autoRoi !== undefined) config.figmaAutoRoi = autoRoi;
 
+  if (args.figmaCache !== undefined) {
+    config.figmaCache = {
+      mode: parseChoice(args.figmaCache, FIGMA_CACHE_MODES, 'figmaCache'),
+      dir: args.figmaCacheDir,
+    };
+  } else if (args.figmaCacheDir !== undefined) {
+    throw new RangeError('figmaCacheDir requires figmaCache=record|replay|refresh');
+  }
+  if (args.designSource) config.designSource = args.designSource;
+  if (args.figmaVersion !== undefined) {
+    if (!args.figmaVersion.trim()) throw new RangeError('figmaVersion must not be empty');
+    config.figmaVersion = args.figmaVersion.trim();
+  }
+
+  const figmaVariables = parseBool(args.figmaVariables);
+  if (args.figmaVariablesNaming !== undefined || args.figmaVariablesMode !== undefined) {
+    if (figmaVariables === false) {
+      throw new RangeError('figmaVariablesNaming/figmaVariablesMode require figmaVariables=true');
+    }
+    config.figmaVariables = {
+      naming: args.figmaVariablesNaming,
+      mode: args.figmaVariablesMode,
+    };
+  } else if (figmaVariables !== undefined) {
+    config.figmaVariables = figmaVariables;
+  }
+
   const detectIframeFlag = parseBool(args.detectStorybookIframe) ?? parseBool(args.iframe);
   if (detectIframeFlag !== undefined) {
     config.detectStorybookIframe = detectIframeFlag;
@@ -434,6 +833,98 @@ export function buildCompareConfig(
   const contentBasis = parseContentBasis(args.contentBasis);
   if (contentBasis) config.contentBasis = contentBasis;
 
+  // Masks (excluded from pixel comparison)
+  if (args.maskRect || args.maskSelector || args.maskLayer) {
+    const mask: NonNullable<CompareArgs['mask']> = {};
+    if (args.maskRect) mask.rects = parseMaskRects(args.maskRect);
+    if (args.maskSelector) mask.selectors = splitList(args.maskSelector);
+    if (args.maskLayer) mask.figmaLayers = splitList(args.maskLayer);
+    config.mask = mask;
+  }
+
+  // Pre-capture steps (JSON array)
+  if (args.steps !== undefined) config.steps = parseSteps(args.steps);
+
+  // Interaction states
+  if (args.state !== undefined) config.state = parseInteractionState(args.state);
+  if (args.states !== undefined) config.states = parseStates(args.states);
+
+  // Viewport matrix
+  if (breakpoints) config.breakpoints = breakpoints;
+
+  // Capture engine (:focus-visible is forced through CDP, which only Chromium speaks)
+  if (args.browser !== undefined) {
+    config.browser = parseChoice(args.browser, BROWSER_ENGINES, 'browser');
+    const states = [config.state, ...(config.states ?? []).map((s) => s.state)];
+    if (config.browser !== 'chromium' && states.includes('focus-visible')) {
+      throw new RangeError('state "focus-visible" requires browser=chromium');
+    }
+  }
+
+  // Media emulation and page background
+  Object.assign(config, parseMediaEmulation(args));
+  if (args.pageBackground !== undefined) {
+    config.pageBackground =
+      args.pageBackground === 'none' || args.pageBackground === 'false'
+        ? false
+        : args.pageBackground;
+  }
+
+  // Session credentials
+  if (args.storageState !== undefined) {
+    if (!existsSync(args.storageState)) {
+      throw new RangeError(`storageState file not found: ${args.storageState}`);
+    }
+    config.storageState = args.storageState;
+  }
+  if (args.cookies !== undefined) config.cookies = parseCookies(args.cookies);
+  if (args.headers !== undefined) config.extraHTTPHeaders = parseHeaders(args.headers);
+
+  // Network control (HAR, blocked hosts, route mocks)
+  if (args.har !== undefined) {
+    config.har = args.har;
+    config.harMode = parseChoice(
+      args.harMode ?? 'auto',
+      ['auto', 'record', 'replay'] as const,
+      'harMode'
+    );
+  }
+  if (args.harUrl !== undefined) config.harUrl = args.harUrl;
+  const harFallback = parseBool(args.harFallback);
+  if (harFallback !== undefined) config.harFallback = harFallback;
+  if (args.blockHosts !== undefined) config.blockHosts = splitList(args.blockHosts);
+  const blockThirdParty = parseBool(args.blockThirdParty);
+  if (blockThirdParty !== undefined) config.blockThirdParty = blockThirdParty;
+  if (args.routes !== undefined) config.routes = parseRoutes(args.routes);
+
+  // Structural similarity (SSIM / MS-SSIM)
+  if (args.ssim === 'ms' || args.ssim === 'multiscale') {
+    config.ssim = 'multiscale';
+  } else {
+    const ssim = parseBool(args.ssim);
+    if (ssim !== undefined) config.ssim = ssim;
+  }
+
+  // Additional diff visualizations
+  if (args.artifacts !== undefined) {
+    const { visualizations } = parseArtifacts(args.artifacts);
+    if (visualizations.length > 0) config.visualizations = visualizations;
+  }
+
+  // Translation search before diffing
+  if (args.registration !== undefined) {
+    config.registration = parseRegistration(args.registration);
+  }
+
+  // Pixel density normalization (on by default)
+  const normalizeScale = parseBool(args.normalizeScale);
+  if (normalizeScale !== undefined) config.normalizeScale = normalizeScale;
+
+  // Tiled comparison for large captures
+  if (args.tiles !== undefined || args.workers !== undefined) {
+    config.tiling = parseTiling(args.tiles, args.workers);
+  }
+
   // Parse ignore list (comma-separated CSS properties)
   if (args.ignore) {
     config.ignore = String(args.ignore)
@@ -465,6 +956,7 @@ export function buildCompareConfig(
       areaGapWarning: qualityGateProfile.thresholds.areaGapWarning,
       maxHighSeverityIssues: qualityGateProfile.thresholds.maxHighSeverityIssues,
       maxLayoutHighIssues: qualityGateProfile.thresholds.maxLayoutHighIssues,
+      minSsim: qualityGateProfile.thresholds.minSsim,
     };
 
     if (qualityGateProfile.contentBasis && !args.contentBasis) {
@@ -490,6 +982,28 @@ export function buildCompareConfig(
   if (args.areaGapWarning !== undefined) {
     config.thresholds.areaGapWarning = parseUnitInterval(args.areaGapWarning, 'areaGapWarning');
   }
+  if (args.minSsim !== undefined) {
+    config.thresholds.minSsim = parseUnitInterval(args.minSsim, 'minSsim');
+    if (config.ssim === false) throw new RangeError('minSsim requires SSIM; remove ssim=false');
+  }
+  if (args.maxLayoutShift !== undefined) {
+    config.thresholds.maxLayoutShift = parseNonNegativeNumber(
+      args.maxLayoutShift,
+      'maxLayoutShift'
+    );
+  }
+  if (args.minContrastRatio !== undefined) {
+    const ratio = parseNonNegativeNumber(args.minContrastRatio, 'minContrastRatio');
+    if (ratio < 1 || ratio > 21) {
+      throw new RangeError(
+        `Invalid minContrastRatio "${args.minContrastRatio}": expected a ratio between 1 and 21`
+      );
+    }
+    config.thresholds.minContrastRatio = ratio;
+  }
+  if (args.maxContrastDrop !== undefined) {
+    config.thresholds.maxContrastDrop = parseUnitInterval(args.maxContrastDrop, 'maxContrastDrop');
+  }
   const areaGapCritical =
     config.thresholds.areaGapCritical ?? DEFAULT_CONFIG.comparison.areaGapCritical;
   const areaGapWarning =
@@ -550,7 +1064,8 @@ export function evaluateGateDecision(
   args: ParsedArgs,
   qualityGateProfile?: QualityGateProfile
 ): GateDecision {
-  const baseGatePass = report.qualityGate?.pass ?? false;
+  const failedStates = (report.states ?? []).filter((s) => !s.report.qualityGate?.pass);
+  const baseGatePass = (report.qualityGate?.pass ?? false) && failedStates.length === 0;
   const profile: ProfileGateDecision | undefined = qualityGateProfile
     ? {
         name: qualityGateProfile.name,
@@ -563,6 +1078,13 @@ export function evaluateGateDecision(
   const textGateMode = rawTextGate === 'true' || rawTextGate === true || rawTextGate === '';
   const textMatch = report.textMatch;
   const notices: string[] = [];
+  if (failedStates.length > 0) {
+    notices.push(`❌ States failed: ${failedStates.map((s) => s.state).join(', ')}`);
+  }
+  const failedBreakpoints = (report.breakpoints ?? []).filter((b) => !breakpointPassed(b));
+  if (failedBreakpoints.length > 0) {
+    notices.push(`❌ Breakpoints failed: ${failedBreakpoints.map((b) => b.name).join(', ')}`);
+  }
   let finalPass: boolean;
 
   if (textGateMode && textMatch?.enabled) {
@@ -592,6 +1114,12 @@ function printStandardOutput(
   decision: GateDecision
 ): void {
   outln(result.summary);
+  for (const state of result.report.states ?? []) {
+    outln(`  [${state.state}] ${state.summary}`);
+  }
+  for (const breakpoint of result.report.breakpoints ?? []) {
+    outln(`  [${breakpoint.name}] ${breakpoint.summary}`);
+  }
   outln('');
 
   if (decision.profile) {
@@ -608,6 +1136,30 @@ function printStandardOutput(
     outln(`Visual gate: ${decision.baseGatePass ? '✅ PASS' : '❌ FAIL'}`);
     outln(`Pixel diff ratio: ${result.report.metrics.pixelDiffRatio.toFixed(4)}`);
     outln(`Color delta E (avg): ${result.report.metrics.colorDeltaEAvg.toFixed(2)}`);
+    if (result.report.metrics.ssim !== undefined) {
+      outln(`SSIM: ${result.report.metrics.ssim.toFixed(4)}`);
+    }
+    const diffRegions = result.report.diffRegions ?? [];
+    if (diffRegions.length > 0) {
+      const { x, y, width, height } = diffRegions[0]?.bbox ?? { x: 0, y: 0, width: 0, height: 0 };
+      outln(`Diff regions: ${diffRegions.length} (largest ${width}×${height} at (${x}, ${y}))`);
+    }
+    const topElements = (result.report.elementDiffs ?? []).slice(0, 3);
+    if (topElements.length > 0) {
+      outln('Diff by element:');
+      for (const el of topElements) {
+        outln(`  - ${el.selector}: ${(el.share * 100).toFixed(1)}% (${el.diffPixels}px)`);
+      }
+    }
+
+    const failingContrast = (result.report.textContrast ?? []).filter((c) => c.ratio < c.required);
+    if (failingContrast.length > 0) {
+      outln('Text contrast below WCAG AA:');
+      for (const c of failingContrast.slice(0, 3)) {
+        const figma = c.expectedRatio !== undefined ? `, Figma ${c.expectedRatio}:1` : '';
+        outln(`  - ${c.selector}: ${c.ratio}:1 < ${c.required}:1${figma}`);
+      }
+    }
 
     const gate = result.report.qualityGate;
     const showCqi = parseBool(args.showCqi) !== false;
@@ -697,7 +1249,7 @@ export async function runCompare(argv: string[]): Promise<number> {
 
   try {
     const args = parseArgs(argv);
-    if (!args.figma || !args.story || !args.selector) {
+    if ((!args.figma && !args.breakpoints) || !args.story || !args.selector) {
       printUsage();
       return 2;
     }
@@ -783,12 +1335,26 @@ export async function runCompare(argv: string[]): Promise<number> {
     logger.info({ mode: config.sizeMode ?? 'strict' }, 'Execution mode');
     logger.info(
       {
-        figma: verbose ? args.figma : sanitizeFigmaRef(args.figma),
+        figma: verbose ? config.figma : sanitizeFigmaRef(config.figma),
       },
       'Figma reference'
     );
     logger.info({ story: verbose ? args.story : sanitizeUrl(args.story) }, 'Target URL');
     logger.info({ selector: args.selector }, 'Selector');
+    if (config.browser) logger.info({ browser: config.browser }, 'Browser');
+    if (config.har && (config.harMode === 'record' || !existsSync(config.har))) {
+      logger.info({ har: config.har }, 'Recording HAR');
+    }
+    if (config.storageState || config.cookies || config.extraHTTPHeaders) {
+      logger.info(
+        {
+          storageState: config.storageState,
+          cookies: config.cookies && sanitizeCookies(config.cookies),
+          headers: config.extraHTTPHeaders && sanitizeHeaders(config.extraHTTPHeaders),
+        },
+        'Session credentials'
+      );
+    }
 
     const result = await uiMatchCompare(config);
 
@@ -797,19 +1363,25 @@ export async function runCompare(argv: string[]): Promise<number> {
       // The compare command doesn't return expectedSpec directly; reconstruct it
       // from quality report when possible. If unavailable, re-bootstrap here as a fallback.
       try {
-        const { parseFigmaRef } = await import('../experimental/figma-mcp.js');
-        const { FigmaRestClient } = await import('../adapters/figma-rest.js');
         const { buildExpectedSpecFromFigma } = await import('../expected/from-figma.js');
 
-        const ref = parseFigmaRef(args.figma);
-        if (ref !== 'current' && process.env.FIGMA_ACCESS_TOKEN) {
-          const rest = new FigmaRestClient(process.env.FIGMA_ACCESS_TOKEN);
-          const nodeJson = await rest.getNode({ fileKey: ref.fileKey, nodeId: ref.nodeId });
+        const source = await createDesignSource(
+          { figma: config.figma, figmaCache: config.figmaCache },
+          config.designSource
+        );
+        if (source.getNode) {
+          const ref = await source.resolveRef(config.figma);
+          const nodeJson = await source.getNode({
+            ...ref,
+            version: ref.version ?? config.figmaVersion,
+          });
           const expected = buildExpectedSpecFromFigma(nodeJson, undefined);
           await writeFile(saveExpectedPath, JSON.stringify(expected, null, 2), 'utf-8');
           logger.info({ path: relativizePath(saveExpectedPath) }, 'expectedSpec saved');
         } else {
-          logger.warn('Cannot save expectedSpec: missing FIGMA_ACCESS_TOKEN or "current" ref');
+          logger.warn(
+            `Cannot save expectedSpec: the ${source.name} design source has no node tree (missing FIGMA_ACCESS_TOKEN?)`
+          );
         }
       } catch (e) {
         logger.warn(`Failed to save expectedSpec: ${(e as Error)?.message ?? String(e)}`);
@@ -848,14 +1420,35 @@ export async function runCompare(argv: string[]): Promise<number> {
 
         await mkdir(outDir, { recursive: true });
 
-        const { figmaPngB64, implPngB64, diffPngB64 } = result.report.artifacts;
+        const { figmaPngB64, implPngB64, diffPngB64, ssimMapPngB64 } = result.report.artifacts;
 
         await writeFile(join(outDir, 'figma.png'), Buffer.from(figmaPngB64, 'base64'));
         await writeFile(join(outDir, 'impl.png'), Buffer.from(implPngB64, 'base64'));
         await writeFile(join(outDir, 'diff.png'), Buffer.from(diffPngB64, 'base64'));
+        if (ssimMapPngB64) {
+          await writeFile(join(outDir, 'ssim.png'), Buffer.from(ssimMapPngB64, 'base64'));
+        }
+
+        // Additional visualizations (blink.png is an animated PNG)
+        const visualizationFiles = visualizationArtifactFiles(result.report.artifacts);
+        for (const [file, b64] of visualizationFiles) {
+          await writeFile(join(outDir, file), Buffer.from(b64, 'base64'));
+        }
+
+        // Per-state and per-breakpoint artifacts (states/<state>/..., breakpoints/<name>/...)
+        const nestedFiles = [
+          ...stateArtifactFiles(result.report),
+          ...breakpointArtifactFiles(result.report),
+        ];
+        for (const [file, b64] of nestedFiles) {
+          await mkdir(dirname(join(outDir, file)), { recursive: true });
+          await writeFile(join(outDir, file), Buffer.from(b64, 'base64'));
+        }
 
         // Save overlay if requested
-        const saveOverlay = parseBool(args.overlay) ?? false;
+        const saveOverlay =
+          (parseBool(args.overlay) ?? false) ||
+          (args.artifacts !== undefined && parseArtifacts(args.artifacts).overlay);
         if (saveOverlay) {
           // Generate overlay: impl.png with diff.png red highlights composited
           const { PNG } = await import('pngjs');
@@ -889,7 +1482,7 @@ export async function runCompare(argv: string[]): Promise<number> {
 
         // Save report (without base64 by default)
         const jsonOnly = parseBool(args.jsonOnly) ?? true;
-        const reportToSave = jsonOnly ? { ...result.report, artifacts: undefined } : result.report;
+        const reportToSave = jsonOnly ? withoutArtifacts(result.report) : result.report;
         await writeFile(
           join(outDir, 'report.json'),
           JSON.stringify(reportToSave, null, 2),
@@ -928,6 +1521,12 @@ export async function runCompare(argv: string[]): Promise<number> {
         outln('   - impl.png');
         outln('   - diff.png');
         if (saveOverlay) outln('   - overlay.png');
+        if (ssimMapPngB64) outln('   - ssim.png');
+        for (const [file] of visualizationFiles) outln(`   - ${file}`);
+        for (const state of result.report.states ?? []) outln(`   - states/${state.state}/`);
+        for (const breakpoint of result.report.breakpoints ?? []) {
+          outln(`   - breakpoints/${breakpoint.name}/`);
+        }
         outln('   - report.json');
         if (args.format === 'claude') {
           outln('   - claude.json');
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import { buildCrossBrowserConfig } from './cross-browser.js';
+
+const base = { story: 'http://localhost:6006/iframe.html?id=button--primary', selector: 'button' };
+
+describe('buildCrossBrowserConfig', () => {
+  test('parses engines, thresholds and artifacts', () => {
+    const config = buildCrossBrowserConfig({
+      ...base,
+      browsers: 'chromium, webkit',
+      viewport: '1280x720',
+      maxPixelDiff: '0.02',
+      outDir: 'out',
+    });
+
+    expect(config).toEqual({
+      ...base,
+      browsers: ['chromium', 'webkit'],
+      viewport: { width: 1280, height: 720 },
+      thresholds: { pixelDiffRatio: 0.02 },
+      emitArtifacts: true,
+    });
+  });
+
+  test.each([
+    [{ browsers: 'chromium,edge' }, 'Invalid browser "edge": expected chromium, firefox, webkit'],
+    [{ state: 'focus-visible' }, 'Invalid state "focus-visible"'],
+    [{ maxPixelDiff: '2' }, 'Invalid maxPixelDiff "2": expected a number between 0 and 1'],
+    [{ viewport: 'wide' }, 'Invalid viewport "wide"'],
+  ])('rejects %o', (args, message) => {
+    expect(() => buildCrossBrowserConfig({ ...base, ...args })).toThrow(message);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * uiMatch CLI - Cross-browser consistency
+ * Capture one selector in several engines and report where they render it differently.
+ */
+
+import { closeUiMatchBrowsers } from '#plugin/commands/browsers';
+import { uiMatchCrossBrowser } from '#plugin/commands/cross-browser';
+import type { BrowserEngine, CrossBrowserArgs, InteractionState } from '#plugin/types/index';
+import { BROWSER_ENGINES } from '@uimatch/core';
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseChoice, parseKeyValueArgs, parseNumber } from './args.js';
+import { reportCommandError } from './exit-code.js';
+import { getLoggerSafe } from './logger.js';
+import { errln, outln } from './print.js';
+
+export interface CrossBrowserParsedArgs {
+  story?: string;
+  selector?: string;
+  browsers?: string;
+  viewport?: string;
+  dpr?: string;
+  state?: string;
+  colorScheme?: string;
+  storageState?: string;
+  maxPixelDiff?: string;
+  deltaE?: string;
+  outDir?: string;
+}
+
+/**
+ * Build uiMatchCrossBrowser arguments from parsed CLI arguments
+ *
+ * @throws RangeError on invalid values
+ */
+export function buildCrossBrowserConfig(
+  args: CrossBrowserParsedArgs & { story: string; selector: string }
+): CrossBrowserArgs {
+  const config: CrossBrowserArgs = { story: args.story, selector: args.selector };
+
+  if (args.browsers !== undefined) {
+    config.browsers = args.browsers
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((s): BrowserEngine => parseChoice(s, BROWSER_ENGINES, 'browser'));
+  }
+  if (args.viewport !== undefined) {
+    const match = args.viewport.match(/^(\d+)[xX](\d+)$/);
+    if (!match || !match[1] || !match[2]) {
+      throw new RangeError(`Invalid viewport "${args.viewport}": expected <width>x<height>`);
+    }
+    config.viewport = { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+  }
+  if (args.dpr !== undefined) config.dpr = parseNumber(args.dpr, 'dpr', 1, 4);
+  if (args.state !== undefined) {
+    config.state = parseChoice(
+      args.state,
+      ['default', 'hover', 'focus', 'active', 'disabled'] satisfies InteractionState[],
+      'state'
+    );
+  }
+  if (args.colorScheme !== undefined) {
+    config.colorScheme = parseChoice(
+      args.colorScheme,
+      ['light', 'dark', 'no-preference'] as const,
+      'colorScheme'
+    );
+  }
+  if (args.storageState !== undefined) {
+    if (!existsSync(args.storageState)) {
+      throw new RangeError(`storageState file not found: ${args.storageState}`);
+    }
+    config.storageState = args.storageState;
+  }
+  if (args.maxPixelDiff !== undefined || args.deltaE !== undefined) {
+    config.thresholds = {};
+    if (args.maxPixelDiff !== undefined) {
+      config.thresholds.pixelDiffRatio = parseNumber(args.maxPixelDiff, 'maxPixelDiff', 0, 1);
+    }
+    if (args.deltaE !== undefined) {
+      config.thresholds.deltaE = parseNumber(args.deltaE, 'deltaE', 0, 100);
+    }
+  }
+  if (args.outDir !== undefined) config.emitArtifacts = true;
+  return config;
+}
+
+function printUsage(): void {
+  errln('Usage: uimatch cross-browser story=<URL> selector=<CSS> [options]');
+  errln('');
+  errln('Options:');
+  errln('  browsers=<list>         Engines to compare (default: chromium,firefox,webkit)');
+  errln('  viewport=<WxH>          Viewport size (e.g., 1280x720)');
+  errln('  dpr=<number>            Device pixel ratio (default: 2)');
+  errln('  state=<state>           Interaction state: default, hover, focus, active, disabled');
+  errln('  colorScheme=<scheme>    Emulate prefers-color-scheme: light, dark, no-preference');
+  errln('  storageState=<path>     Playwright storage state (cookies, localStorage) from a login');
+  errln('  maxPixelDiff=<0-1>      Largest pixel diff ratio between two engines (default: 0.01)');
+  errln('  deltaE=<number>         Color tolerance for computed styles');
+  errln('  outDir=<path>           Write captures, diff images and report.json');
+}
+
+export async function runCrossBrowser(argv: string[]): Promise<number> {
+  try {
+    const args = parseKeyValueArgs<CrossBrowserParsedArgs>(argv);
+    if (!args.story || !args.selector) {
+      printUsage();
+      return 2;
+    }
+
+    let config: CrossBrowserArgs;
+    try {
+      config = buildCrossBrowserConfig({ ...args, story: args.story, selector: args.selector });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        errln(error.message);
+        return 2;
+      }
+      throw error;
+    }
+
+    const result = await uiMatchCrossBrowser(config);
+    const { report } = result;
+
+    outln(result.summary);
+    outln('');
+    outln(`Browsers: ${report.browsers.map((b) => `${b.engine} ${b.version}`).join(', ')}`);
+    for (const pair of report.pairs) {
+      outln(
+        `${pair.consistent ? '✅' : '❌'} ${pair.baseline} vs ${pair.engine}: ` +
+          `pixel diff ratio ${pair.pixelDiffRatio.toFixed(4)}, ` +
+          `color delta E (avg) ${pair.colorDeltaEAvg.toFixed(2)}`
+      );
+    }
+    if (report.divergences.length > 0) {
+      outln('Diverging properties:');
+      for (const d of report.divergences) {
+        const values = Object.entries(d.values)
+          .map(([engine, value]) => `${engine}=${value}`)
+          .join(', ');
+        outln(`  ${d.selector} ${d.property}: ${values}`);
+      }
+    }
+
+    if (args.outDir && report.artifacts) {
+      const outDir = args.outDir;
+      await mkdir(outDir, { recursive: true });
+      for (const [engine, png] of Object.entries(report.artifacts.captures)) {
+        await writeFile(join(outDir, `${engine}.png`), Buffer.from(png, 'base64'));
+      }
+      for (const [pair, png] of Object.entries(report.artifacts.diffs)) {
+        await writeFile(join(outDir, `diff-${pair}.png`), Buffer.from(png, 'base64'));
+      }
+      await writeFile(
+        join(outDir, 'report.json'),
+        JSON.stringify({ ...report, artifacts: undefined }, null, 2)
+      );
+      outln('');
+      outln(`📁 Artifacts saved to: ${outDir}`);
+    }
+
+    return report.consistent ? 0 : 1;
+  } catch (error) {
+    return reportCommandError('❌ Error', error);
+  } finally {
+    try {
+      await closeUiMatchBrowsers();
+    } catch (error) {
+      getLoggerSafe().warn(
+        `Failed to close browser pool: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
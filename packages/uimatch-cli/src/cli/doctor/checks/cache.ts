@@ -0,0 +1,69 @@
+/**
+ * Cache checks - Figma snapshot cache contents
+ */
+
+import {
+  DEFAULT_FIGMA_CACHE_DIR,
+  FigmaSnapshotCache,
+  resolveFigmaCacheOptions,
+} from '#plugin/adapters/figma-cache';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import type { DoctorCheck } from '../types.js';
+
+export const checkFigmaCache: DoctorCheck = async (ctx) => {
+  const t0 = Date.now();
+  try {
+    // Without UIMATCH_FIGMA_CACHE, inspect the default directory if a run recorded one
+    const options = resolveFigmaCacheOptions() ?? {
+      mode: 'record' as const,
+      dir: DEFAULT_FIGMA_CACHE_DIR,
+    };
+    const dir = path.resolve(ctx.cwd, options.dir);
+    const configured = Boolean(process.env.UIMATCH_FIGMA_CACHE);
+    if (!configured && !existsSync(dir)) {
+      return {
+        id: 'cache:figma',
+        title: 'Figma snapshot cache',
+        status: 'skip',
+        severity: 'low',
+        durationMs: Date.now() - t0,
+        details: 'Not configured (set UIMATCH_FIGMA_CACHE=record|replay|refresh)',
+        category: 'cache',
+      };
+    }
+
+    const { files, entries } = await new FigmaSnapshotCache({ ...options, dir }).stats();
+    const details = [
+      `Mode: ${configured ? options.mode : 'off'}`,
+      `Directory: ${dir}`,
+      `Snapshots: ${entries}`,
+      ...Object.entries(files).map(([fileKey, version]) => `File ${fileKey}: version ${version}`),
+    ].join('\n');
+    const empty = entries === 0;
+
+    return {
+      id: 'cache:figma',
+      title: 'Figma snapshot cache',
+      status: empty ? (configured && options.mode === 'replay' ? 'fail' : 'warn') : 'pass',
+      severity: configured && options.mode === 'replay' ? 'high' : 'low',
+      durationMs: Date.now() - t0,
+      details: empty
+        ? `${details}\nNothing recorded yet: run once with figmaCache=record`
+        : details,
+      category: 'cache',
+    };
+  } catch (e) {
+    return {
+      id: 'cache:figma',
+      title: 'Figma snapshot cache',
+      status: 'fail',
+      severity: 'medium',
+      durationMs: Date.now() - t0,
+      details: e instanceof Error ? e.message : String(e),
+      category: 'cache',
+    };
+  }
+};
+
+export const cacheChecks: DoctorCheck[] = [checkFigmaCache];
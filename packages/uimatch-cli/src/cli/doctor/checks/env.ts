@@ -128,6 +128,8 @@ export const checkEnvVars: DoctorCheck = async () => {
     const checks = [
       { key: 'FIGMA_ACCESS_TOKEN', required: false, severity: 'medium' },
       { key: 'FIGMA_MCP_URL', required: false, severity: 'low' },
+      { key: 'UIMATCH_FIGMA_CACHE', required: false, severity: 'low' },
+      { key: 'UIMATCH_DESIGN_SOURCE', required: false, severity: 'low' },
     ];
 
     const results = checks.map((check) => {
@@ -4,6 +4,7 @@
 
 import type { DoctorCheck, DoctorCheckCategory } from '../types.js';
 import { anchorsChecks } from './anchors.js';
+import { cacheChecks } from './cache.js';
 import { envChecks } from './env.js';
 import { playwrightChecks } from './playwright.js';
 
@@ -11,10 +12,10 @@ export const allChecks: Record<DoctorCheckCategory, DoctorCheck[]> = {
   env: envChecks,
   playwright: playwrightChecks,
   anchors: anchorsChecks,
+  cache: cacheChecks,
   // Placeholder for other categories - to be implemented
   figma: [],
   config: [],
-  cache: [],
   git: [],
   fs: [],
   external: [],
@@ -2,7 +2,7 @@
  * Playwright checks - browser availability and basic launch test
  */
 
-import { getChromiumLaunchPolicy, launchChromium } from '@uimatch/core';
+import { getChromiumLaunchPolicy, launchBrowser, launchChromium } from '@uimatch/core';
 import type { DoctorCheck } from '../types.js';
 
 export const checkPlaywrightInstalled: DoctorCheck = async () => {
@@ -62,6 +62,45 @@ export const checkChromiumBrowser: DoctorCheck = async () => {
   }
 };
 
+/**
+ * Launch check for an optional engine: captures default to Chromium, so a missing
+ * Firefox or WebKit only warns.
+ */
+function checkOptionalBrowser(engine: 'firefox' | 'webkit', name: string): DoctorCheck {
+  return async () => {
+    const t0 = Date.now();
+    try {
+      const browser = await launchBrowser(engine, { timeout: 10000 });
+      const version = browser.version();
+      await browser.close();
+
+      return {
+        id: `playwright:${engine}`,
+        title: `${name} browser launch`,
+        status: 'pass',
+        severity: 'low',
+        durationMs: Date.now() - t0,
+        details: `${name} ${version} launched successfully (browser=${engine})`,
+        category: 'playwright',
+      };
+    } catch (e) {
+      return {
+        id: `playwright:${engine}`,
+        title: `${name} browser launch`,
+        status: 'warn',
+        severity: 'low',
+        durationMs: Date.now() - t0,
+        details: `${e instanceof Error ? e.message : String(e)} Only needed for browser=${engine}.`,
+        category: 'playwright',
+      };
+    }
+  };
+}
+
+export const checkFirefoxBrowser = checkOptionalBrowser('firefox', 'Firefox');
+
+export const checkWebKitBrowser = checkOptionalBrowser('webkit', 'WebKit');
+
 export const checkPlaywrightBasicCapture: DoctorCheck = async () => {
   const t0 = Date.now();
   try {
@@ -106,5 +145,7 @@ export const checkPlaywrightBasicCapture: DoctorCheck = async () => {
 export const playwrightChecks: DoctorCheck[] = [
   checkPlaywrightInstalled,
   checkChromiumBrowser,
+  checkFirefoxBrowser,
+  checkWebKitBrowser,
   checkPlaywrightBasicCapture,
 ];
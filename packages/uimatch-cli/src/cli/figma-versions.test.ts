@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import { collectPinnedFigmaVersions } from './figma-versions.js';
+import type { SuiteItem } from './suite.js';
+
+const item = (name: string, fields: Partial<SuiteItem>): SuiteItem => ({
+  name,
+  figma: 'AbCdEf:1:2',
+  story: 'http://localhost:6006',
+  selector: '#root',
+  ...fields,
+});
+
+describe('collectPinnedFigmaVersions', () => {
+  test('groups pinned references by file and version', () => {
+    expect(
+      collectPinnedFigmaVersions([
+        item('button', {
+          figma: 'AbCdEf:1:2@42',
+          states: [{ state: 'hover', figma: 'AbCdEf:1:3@42' }],
+        }),
+        item('card', {
+          figmaVersion: '42',
+          breakpoints: [{ viewport: { width: 375, height: 812 }, figma: 'XyZ:9:9@7' }],
+        }),
+        item('live', {}),
+        item('selection', { figma: 'current', figmaVersion: '42' }),
+      ])
+    ).toEqual([
+      { fileKey: 'AbCdEf', version: '42', items: ['button', 'card'] },
+      { fileKey: 'XyZ', version: '7', items: ['card'] },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * uiMatch CLI - Figma versions
+ * List the Figma file versions saved since the versions a suite pins.
+ */
+
+import { FigmaRestClient, type FigmaFileVersion } from '#plugin/adapters/figma-rest';
+import { parseFigmaRef } from '#plugin/experimental/index.js';
+import { UiMatchError } from '@uimatch/core';
+import { readFile } from 'node:fs/promises';
+import { parseKeyValueArgs } from './args.js';
+import { reportCommandError } from './exit-code.js';
+import { errln, outln } from './print.js';
+import { mergeItem, type SuiteItem } from './suite.js';
+
+interface FigmaVersionsParsedArgs {
+  path?: string;
+}
+
+/**
+ * File version pinned by suite items, with the names of the items pinning it.
+ */
+export interface PinnedFigmaVersion {
+  fileKey: string;
+  version: string;
+  items: string[];
+}
+
+/**
+ * Pinned versions of the Figma references of suite items (`figma`, `states`,
+ * `breakpoints`): `@version` in the reference, else the item's `figmaVersion`.
+ * References that are unpinned or not `fileKey:nodeId`/URLs are skipped.
+ */
+export function collectPinnedFigmaVersions(items: readonly SuiteItem[]): PinnedFigmaVersion[] {
+  const pinned = new Map<string, PinnedFigmaVersion>();
+  for (const item of items) {
+    const refs = [
+      item.figma,
+      ...(item.states ?? []).map((s) => s.figma),
+      ...(item.breakpoints ?? []).map((b) => b.figma),
+    ];
+    for (const figma of refs) {
+      let ref: ReturnType<typeof parseFigmaRef>;
+      try {
+        ref = parseFigmaRef(figma);
+      } catch {
+        continue;
+      }
+      if (ref === 'current') continue;
+      const version = ref.version ?? item.figmaVersion;
+      if (!version) continue;
+      const key = `${ref.fileKey}@${version}`;
+      const entry = pinned.get(key) ?? { fileKey: ref.fileKey, version, items: [] };
+      const name = item.name || figma;
+      if (!entry.items.includes(name)) entry.items.push(name);
+      pinned.set(key, entry);
+    }
+  }
+  return Array.from(pinned.values());
+}
+
+function formatVersion(v: FigmaFileVersion): string {
+  return [
+    `  ${v.id}`,
+    v.createdAt,
+    v.label ? `"${v.label}"` : undefined,
+    v.user ? `by ${v.user}` : undefined,
+  ]
+    .filter(Boolean)
+    .join('  ');
+}
+
+export async function runFigmaVersions(argv: string[]): Promise<number> {
+  try {
+    const args = parseKeyValueArgs<FigmaVersionsParsedArgs>(argv);
+    if (!args.path) {
+      errln('Usage: uimatch figma-versions path=<suite.json>');
+      errln('');
+      errln('Lists the Figma file versions saved since those pinned by the suite items');
+      errln('(figma=<fileKey:nodeId@version> or "figmaVersion"). Needs FIGMA_ACCESS_TOKEN.');
+      return 2;
+    }
+
+    let cfg: { defaults?: Partial<SuiteItem>; items?: unknown };
+    try {
+      cfg = JSON.parse(await readFile(args.path, 'utf8')) as typeof cfg;
+    } catch (error) {
+      errln(
+        `Failed to read suite file "${args.path}": ${error instanceof Error ? error.message : String(error)}`
+      );
+      return 2;
+    }
+    if (!Array.isArray(cfg.items)) {
+      errln(`Invalid suite config in "${args.path}": items must be a non-empty array`);
+      return 2;
+    }
+
+    const items = (cfg.items as SuiteItem[]).map((item) => mergeItem(cfg.defaults, item));
+    const pinned = collectPinnedFigmaVersions(items);
+    if (pinned.length === 0) {
+      outln(`No pinned Figma versions in ${args.path}`);
+      return 0;
+    }
+
+    const token = process.env.FIGMA_ACCESS_TOKEN;
+    if (!token) {
+      throw new UiMatchError(
+        'UIMATCH_CONFIG_MISSING_FIGMA_TOKEN',
+        'Listing Figma versions needs FIGMA_ACCESS_TOKEN'
+      );
+    }
+    const rest = new FigmaRestClient(token);
+
+    let outdated = 0;
+    for (const { fileKey, version, items: names } of pinned) {
+      const { versions, found } = await rest.getFileVersions({ fileKey, until: version });
+      const newer = versions.slice(0, -1);
+      const label = `${fileKey}@${version} (${names.join(', ')})`;
+      if (!found) {
+        outdated++;
+        outln(`⚠️  ${label}: not among the ${versions.length} latest versions`);
+      } else if (newer.length === 0) {
+        outln(`✅ ${label}: up to date`);
+      } else {
+        outdated++;
+        outln(`⬆️  ${label}: ${newer.length} newer version${newer.length === 1 ? '' : 's'}`);
+        for (const v of newer) outln(formatVersion(v));
+      }
+    }
+
+    outln('');
+    outln(`${outdated}/${pinned.length} pinned versions are behind the latest`);
+    return 0;
+  } catch (error) {
+    return reportCommandError('❌ Error', error);
+  }
+}
@@ -4,12 +4,15 @@
 
 import { getSettings, resetSettings } from '#plugin/commands/settings.js';
 import { runCompare } from './compare.js';
+import { runCrossBrowser } from './cross-browser.js';
 import { runDoctor } from './doctor/index.js';
+import { runFigmaVersions } from './figma-versions.js';
 import { initLogger } from './logger.js';
 import { CLI_VERSION } from './package-meta.js';
 import { errln, outln } from './print.js';
 import { runSuite } from './suite.js';
 import { runTextDiff } from './text-diff.js';
+import { runVariants } from './variants.js';
 
 // P0 Guard: Exception handlers to catch runtime errors
 // Note: Module loading errors cannot be caught here per ESM specification
@@ -40,6 +43,9 @@ function printHelp(): void {
   outln('Commands:');
   outln('  compare       Compare Figma design with web implementation');
   outln('  suite         Run multiple compares from a JSON suite file');
+  outln('  cross-browser Compare one component across Chromium, Firefox and WebKit');
+  outln('  variants      Compare every variant of a Figma component set with its story');
+  outln('  figma-versions List Figma versions newer than those a suite pins');
   outln('  text-diff     Compare two text strings and show similarity');
   outln('  doctor        Check environment and configuration');
   outln('  settings      View or reset project configuration (get|reset)');
@@ -77,8 +83,14 @@ async function main(): Promise<void> {
 
   if (command === 'compare') {
     process.exitCode = await runCompare(args);
+  } else if (command === 'cross-browser') {
+    process.exitCode = await runCrossBrowser(args);
   } else if (command === 'suite') {
     process.exitCode = await runSuite(args);
+  } else if (command === 'figma-versions') {
+    process.exitCode = await runFigmaVersions(args);
+  } else if (command === 'variants') {
+    process.exitCode = await runVariants(args);
   } else if (command === 'text-diff') {
     runTextDiff(args);
   } else if (command === 'doctor') {
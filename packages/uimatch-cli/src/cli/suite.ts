@@ -4,18 +4,44 @@
  * Execute multiple compare jobs (screens/components) from a JSON suite file.
  */
 
+import { FIGMA_CACHE_MODES } from '#plugin/adapters/figma-cache';
+import { resolveBreakpoints } from '#plugin/commands/breakpoints';
 import { closeUiMatchBrowsers } from '#plugin/commands/browsers';
 import { assertFigmaSourceConfigured, uiMatchCompare } from '#plugin/commands/compare';
-import type { CompareArgs } from '#plugin/types/index';
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import type {
+  BrowserInfo,
+  CaptureStep,
+  CompareArgs,
+  FigmaCacheMode,
+  FigmaCacheOptions,
+  MediaEmulation,
+} from '#plugin/types/index';
+import { sanitizeUrl } from '#plugin/utils/sanitize';
+import type { LoginOptions } from '@uimatch/core';
+import {
+  BROWSER_ENGINES,
+  parseCaptureSteps,
+  parseRouteMocks,
+  saveStorageState,
+} from '@uimatch/core';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseKeyValueArgs } from './args.js';
+import {
+  breakpointArtifactFiles,
+  stateArtifactFiles,
+  visualizationArtifactFiles,
+} from './artifacts.js';
 import { reportCommandError } from './exit-code.js';
 import { getLogger } from './logger.js';
 import { errln, outln } from './print.js';
 
-type SuiteItem = {
+export type SuiteItem = {
   name: string;
-  figma: string; // "fileKey:nodeId" or full URL or "current"
+  figma: string; // "fileKey:nodeId[@version]" or full URL or "current"
+  figmaVersion?: string; // pins every Figma reference of the item without its own version
   story: string; // target URL (Storybook iframe or any page)
   selector: string; // CSS selector for the root element
   viewport?: { width: number; height: number };
@@ -30,15 +56,65 @@ type SuiteItem = {
   thresholds?: CompareArgs['thresholds'];
   pixelmatch?: { threshold?: number; includeAA?: boolean };
   tokens?: Record<string, Record<string, string>>;
+  figmaVariables?: CompareArgs['figmaVariables']; // import Figma variables as tokens
   ignore?: string[];
+  mask?: CompareArgs['mask']; // regions excluded from pixel comparison
+  ssim?: CompareArgs['ssim']; // structural similarity (true | 'multiscale')
+  registration?: CompareArgs['registration']; // align impl to Figma before diffing
+  tiling?: CompareArgs['tiling']; // tiled comparison in worker threads
+  normalizeScale?: boolean; // resample to a common scale when figmaScale and dpr differ
+  browser?: CompareArgs['browser']; // capture engine (chromium, firefox, webkit)
+  steps?: CompareArgs['steps']; // interactions run before capture (click, fill, ...)
+  state?: CompareArgs['state']; // interaction state of the main comparison
+  states?: CompareArgs['states']; // further states, each against its Figma variant
+  breakpoints?: CompareArgs['breakpoints']; // viewport matrix, each against its Figma frame
+  colorScheme?: CompareArgs['colorScheme']; // media emulation (prefers-color-scheme, ...)
+  reducedMotion?: CompareArgs['reducedMotion'];
+  forcedColors?: CompareArgs['forcedColors'];
+  media?: CompareArgs['media'];
+  pageBackground?: CompareArgs['pageBackground']; // body background ('figma': from the node)
+  storageState?: CompareArgs['storageState']; // session from a login (overrides the suite auth)
+  cookies?: CompareArgs['cookies'];
+  extraHTTPHeaders?: CompareArgs['extraHTTPHeaders'];
+  har?: CompareArgs['har']; // HAR file relative to the suite file
+  harMode?: CompareArgs['harMode'];
+  harUrl?: CompareArgs['harUrl'];
+  harFallback?: CompareArgs['harFallback'];
+  blockHosts?: CompareArgs['blockHosts'];
+  blockThirdParty?: CompareArgs['blockThirdParty'];
+  routes?: CompareArgs['routes']; // route mocks; `file` is relative to the suite file
+  themes?: SuiteTheme[]; // one comparison per theme, each against its own Figma node
+  visualizations?: CompareArgs['visualizations']; // extra artifacts (heatmap, sideBySide, ...)
   weights?: Record<string, number>;
   bootstrap?: boolean; // derive expectedSpec from Figma node if true
   textCheck?: CompareArgs['textCheck'];
   textGate?: boolean;
 };
 
+type SuiteTheme = MediaEmulation & {
+  name: string;
+  figma: string;
+  pageBackground?: CompareArgs['pageBackground'];
+};
+
+/**
+ * Login run once before the items; its storage state is shared by every item without
+ * its own `storageState`.
+ */
+type SuiteAuth = {
+  url?: string; // login page
+  steps?: CaptureStep[]; // declarative login (fill, click, waitForSelector)
+  script?: string; // module relative to the suite file: default export async (page) => {}
+  basicAuth?: { username: string; password: string };
+  cookies?: CompareArgs['cookies'];
+  extraHTTPHeaders?: CompareArgs['extraHTTPHeaders'];
+};
+
 type SuiteConfig = {
   name?: string;
+  auth?: SuiteAuth;
+  figmaCache?: FigmaCacheOptions; // one snapshot cache for every item; dir relative to the suite file
+  designSource?: string; // registered name or module ID; ./paths are relative to the suite file
   defaults?: Partial<SuiteItem>;
   items: SuiteItem[];
 };
@@ -48,17 +124,9 @@ interface ParsedArgs {
   outDir?: string;
   concurrency?: string;
   verbose?: string;
-}
-
-function parseArgs(argv: string[]): ParsedArgs {
-  const out: ParsedArgs = {};
-  for (const arg of argv) {
-    const m = arg.match(/^(\w+)=([\s\S]+)$/);
-    if (m && m[1] && m[2]) {
-      (out as Record<string, string>)[m[1]] = m[2];
-    }
-  }
-  return out;
+  figmaCache?: string;
+  figmaCacheDir?: string;
+  designSource?: string;
 }
 
 function slugify(s: string): string {
@@ -99,22 +167,85 @@ export async function runWithConcurrency<T, R>(
   return results.filter((r): r is R => r !== undefined);
 }
 
-function mergeItem(defaults: Partial<SuiteItem> | undefined, item: SuiteItem): SuiteItem {
+/**
+ * Suite item with the suite `defaults` applied.
+ */
+export function mergeItem(defaults: Partial<SuiteItem> | undefined, item: SuiteItem): SuiteItem {
   return {
     ...defaults,
     ...item,
     viewport: item.viewport ?? defaults?.viewport,
     tokens: item.tokens ?? defaults?.tokens,
+    figmaVariables: item.figmaVariables ?? defaults?.figmaVariables,
     thresholds: { ...(defaults?.thresholds ?? {}), ...(item.thresholds ?? {}) },
     pixelmatch: { ...(defaults?.pixelmatch ?? {}), ...(item.pixelmatch ?? {}) },
     weights: { ...(defaults?.weights ?? {}), ...(item.weights ?? {}) },
     ignore: item.ignore ?? defaults?.ignore,
+    mask: item.mask ?? defaults?.mask,
+    ssim: item.ssim ?? defaults?.ssim,
+    registration: item.registration ?? defaults?.registration,
+    tiling: item.tiling ?? defaults?.tiling,
+    normalizeScale: item.normalizeScale ?? defaults?.normalizeScale,
+    browser: item.browser ?? defaults?.browser,
+    steps: item.steps ?? defaults?.steps,
+    state: item.state ?? defaults?.state,
+    states: item.states ?? defaults?.states,
+    breakpoints: item.breakpoints ?? defaults?.breakpoints,
+    colorScheme: item.colorScheme ?? defaults?.colorScheme,
+    reducedMotion: item.reducedMotion ?? defaults?.reducedMotion,
+    forcedColors: item.forcedColors ?? defaults?.forcedColors,
+    media: item.media ?? defaults?.media,
+    pageBackground: item.pageBackground ?? defaults?.pageBackground,
+    storageState: item.storageState ?? defaults?.storageState,
+    cookies: item.cookies ?? defaults?.cookies,
+    extraHTTPHeaders: item.extraHTTPHeaders ?? defaults?.extraHTTPHeaders,
+    har: item.har ?? defaults?.har,
+    harMode: item.harMode ?? defaults?.harMode,
+    harUrl: item.harUrl ?? defaults?.harUrl,
+    harFallback: item.harFallback ?? defaults?.harFallback,
+    blockHosts: item.blockHosts ?? defaults?.blockHosts,
+    blockThirdParty: item.blockThirdParty ?? defaults?.blockThirdParty,
+    routes: item.routes ?? defaults?.routes,
+    // Themes carry item-specific Figma nodes, so they are never inherited
+    themes: item.themes,
+    visualizations: item.visualizations ?? defaults?.visualizations,
     contentBasis: item.contentBasis ?? defaults?.contentBasis,
     textCheck: item.textCheck ?? defaults?.textCheck,
     textGate: item.textGate ?? defaults?.textGate,
   };
 }
 
+/**
+ * Fan an item out over its themes: one item per theme, named `<name> [<theme>]`, with the
+ * theme's Figma node and media emulation layered over the item.
+ */
+export function expandThemes(item: SuiteItem): SuiteItem[] {
+  const { themes, ...base } = item;
+  if (!themes || themes.length === 0) return [base];
+  return themes.map(({ name, ...theme }) => ({
+    ...base,
+    ...theme,
+    name: `${base.name ?? 'case'} [${name}]`,
+  }));
+}
+
+/**
+ * Report the first theme without a name or Figma node.
+ */
+function findInvalidThemePath(items: readonly Partial<SuiteItem>[]): string | undefined {
+  for (const [index, item] of items.entries()) {
+    for (const [themeIndex, theme] of (item.themes ?? []).entries()) {
+      for (const field of ['name', 'figma'] as const) {
+        const value: unknown = theme[field];
+        if (typeof value !== 'string' || value.trim() === '') {
+          return `items[${index}].themes[${themeIndex}].${field}`;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
 function findInvalidTextGatePath(config: {
   defaults?: unknown;
   items: unknown[];
@@ -138,6 +269,65 @@ function findInvalidTextGatePath(config: {
   return undefined;
 }
 
+/**
+ * Validate the suite `auth` block and load its login script.
+ *
+ * @throws RangeError naming the invalid field (e.g. `auth.steps[0].selector`)
+ */
+async function prepareSuiteAuth(
+  auth: SuiteAuth,
+  suitePath: string
+): Promise<Omit<LoginOptions, 'path'>> {
+  if (typeof auth !== 'object' || auth === null) {
+    throw new RangeError('auth must be an object');
+  }
+  for (const field of ['url', 'script'] as const) {
+    const value: unknown = auth[field];
+    if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+      throw new RangeError(`auth.${field} must be a non-empty string`);
+    }
+  }
+  if (!auth.url && !auth.script) {
+    throw new RangeError('auth needs a url or a script');
+  }
+
+  let steps: CaptureStep[] | undefined;
+  try {
+    steps = auth.steps === undefined ? undefined : parseCaptureSteps(auth.steps);
+  } catch (error) {
+    throw error instanceof RangeError ? new RangeError(`auth.${error.message}`) : error;
+  }
+
+  let run: LoginOptions['run'];
+  if (auth.script) {
+    const scriptPath = resolve(dirname(suitePath), auth.script);
+    const mod: unknown = await import(pathToFileURL(scriptPath).href).catch((error: unknown) => {
+      throw new RangeError(
+        `auth.script "${auth.script}" could not be loaded: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    });
+    const login: unknown =
+      typeof mod === 'object' && mod !== null && 'default' in mod ? mod.default : undefined;
+    if (typeof login !== 'function') {
+      throw new RangeError(`auth.script "${auth.script}" must default-export a function`);
+    }
+    run = login as NonNullable<LoginOptions['run']>;
+  }
+
+  return {
+    url: auth.url,
+    steps,
+    run,
+    basicAuth: auth.basicAuth,
+    cookies: auth.cookies,
+    extraHTTPHeaders: auth.extraHTTPHeaders,
+  };
+}
+
+const HAR_MODES: readonly unknown[] = ['auto', 'record', 'replay'];
+
 const REQUIRED_ITEM_FIELDS = ['figma', 'story', 'selector'] as const;
 
 /**
@@ -158,14 +348,22 @@ function findMissingRequiredField(items: readonly Partial<SuiteItem>[]): string
 }
 
 export async function runSuite(argv: string[]): Promise<number> {
+  let authDir: string | undefined;
   try {
-    const args = parseArgs(argv);
+    const args = parseKeyValueArgs<ParsedArgs>(argv);
     if (!args.path) {
       errln(
-        'Usage: uimatch suite path=<suite.json> [outDir=.uimatch-suite] [concurrency=4] [verbose=false]'
+        'Usage: uimatch suite path=<suite.json> [outDir=.uimatch-suite] [concurrency=4] [verbose=false] [figmaCache=record|replay|refresh] [figmaCacheDir=<path>] [designSource=<name|module>]'
       );
       return 2;
     }
+    if (
+      args.figmaCache !== undefined &&
+      !(FIGMA_CACHE_MODES as readonly string[]).includes(args.figmaCache)
+    ) {
+      errln(`Invalid figmaCache "${args.figmaCache}": expected ${FIGMA_CACHE_MODES.join(', ')}`);
+      return 2;
+    }
     const suitePath = args.path;
     const outBase = args.outDir ?? '.uimatch-suite';
     const concurrencyValue = args.concurrency ?? (argv.includes('concurrency=') ? '' : '4');
@@ -216,7 +414,15 @@ export async function runSuite(argv: string[]): Promise<number> {
     }
 
     const cfg = parsed as SuiteConfig;
-    const items = cfg.items.map((item) => mergeItem(cfg.defaults, item));
+    const invalidThemePath = findInvalidThemePath(cfg.items);
+    if (invalidThemePath) {
+      errln(
+        `Invalid suite config in "${suitePath}": ${invalidThemePath} must be a non-empty string`
+      );
+      return 2;
+    }
+
+    const items = cfg.items.flatMap((item) => expandThemes(mergeItem(cfg.defaults, item)));
 
     const missingRequiredField = findMissingRequiredField(items);
     if (missingRequiredField) {
@@ -226,14 +432,122 @@ export async function runSuite(argv: string[]): Promise<number> {
       return 2;
     }
 
+    const suiteDir = dirname(suitePath);
+    if (cfg.figmaCache !== undefined) {
+      const mode: unknown = (cfg.figmaCache as { mode?: unknown } | null)?.mode;
+      const dir: unknown = (cfg.figmaCache as { dir?: unknown } | null)?.dir;
+      if (!(FIGMA_CACHE_MODES as readonly unknown[]).includes(mode)) {
+        errln(
+          `Invalid suite config in "${suitePath}": figmaCache.mode must be one of ${FIGMA_CACHE_MODES.join(', ')}`
+        );
+        return 2;
+      }
+      if (dir !== undefined && (typeof dir !== 'string' || dir.trim() === '')) {
+        errln(`Invalid suite config in "${suitePath}": figmaCache.dir must be a non-empty string`);
+        return 2;
+      }
+    }
+    // Arguments override the suite file, whose cache directory is relative to it
+    const figmaCacheMode = (args.figmaCache as FigmaCacheMode | undefined) ?? cfg.figmaCache?.mode;
+    const figmaCacheDir =
+      args.figmaCacheDir ?? (cfg.figmaCache?.dir && resolve(suiteDir, cfg.figmaCache.dir));
+    if (figmaCacheDir && !figmaCacheMode) {
+      errln('figmaCacheDir requires figmaCache=record|replay|refresh');
+      return 2;
+    }
+    const figmaCache: FigmaCacheOptions | undefined = figmaCacheMode
+      ? { mode: figmaCacheMode, dir: figmaCacheDir }
+      : undefined;
+    if (
+      cfg.designSource !== undefined &&
+      (typeof cfg.designSource !== 'string' || cfg.designSource.trim() === '')
+    ) {
+      errln(`Invalid suite config in "${suitePath}": designSource must be a non-empty string`);
+      return 2;
+    }
+    const designSource =
+      args.designSource ??
+      (cfg.designSource?.startsWith('.')
+        ? pathToFileURL(resolve(suiteDir, cfg.designSource)).href
+        : cfg.designSource);
+
     // Validate every item up front: items run concurrently and swallow their own
     // errors, so a configuration problem could not be reported afterwards.
-    for (const item of items) {
-      assertFigmaSourceConfigured(item.figma);
+    for (const [index, item] of items.entries()) {
+      assertFigmaSourceConfigured(item.figma, figmaCache, designSource);
+      for (const { figma } of item.states ?? []) {
+        assertFigmaSourceConfigured(figma, figmaCache, designSource);
+      }
+      try {
+        if (item.steps !== undefined) item.steps = parseCaptureSteps(item.steps);
+        // Fixtures live next to the suite so it can be run from any directory
+        if (item.routes !== undefined) {
+          item.routes = parseRouteMocks(item.routes).map((mock) =>
+            mock.file ? { ...mock, file: resolve(suiteDir, mock.file) } : mock
+          );
+        }
+        if (item.har !== undefined) {
+          if (typeof item.har !== 'string' || item.har.trim() === '') {
+            throw new RangeError('har must be a non-empty string');
+          }
+          item.har = resolve(suiteDir, item.har);
+        }
+        if (
+          item.figmaVersion !== undefined &&
+          (typeof item.figmaVersion !== 'string' || item.figmaVersion.trim() === '')
+        ) {
+          throw new RangeError('figmaVersion must be a non-empty string');
+        }
+        if (item.harMode !== undefined && !HAR_MODES.includes(item.harMode)) {
+          throw new RangeError(`harMode must be one of ${HAR_MODES.join(', ')}`);
+        }
+        if (item.browser !== undefined) {
+          if (!(BROWSER_ENGINES as readonly unknown[]).includes(item.browser)) {
+            throw new RangeError(`browser must be one of ${BROWSER_ENGINES.join(', ')}`);
+          }
+          const states = [item.state, ...(item.states ?? []).map((s) => s.state)];
+          if (item.browser !== 'chromium' && states.includes('focus-visible')) {
+            throw new RangeError('state "focus-visible" requires browser "chromium"');
+          }
+        }
+        for (const { figma } of resolveBreakpoints(item.breakpoints ?? [])) {
+          assertFigmaSourceConfigured(figma, figmaCache, designSource);
+        }
+      } catch (error) {
+        if (error instanceof RangeError) {
+          errln(`Invalid suite config in "${suitePath}": items[${index}]: ${error.message}`);
+          return 2;
+        }
+        throw error;
+      }
+    }
+
+    let login: Omit<LoginOptions, 'path'> | undefined;
+    if (cfg.auth !== undefined) {
+      try {
+        login = await prepareSuiteAuth(cfg.auth, suitePath);
+      } catch (error) {
+        if (error instanceof RangeError) {
+          errln(`Invalid suite config in "${suitePath}": ${error.message}`);
+          return 2;
+        }
+        throw error;
+      }
     }
 
     await mkdir(outBase, { recursive: true });
 
+    const logger = getLogger();
+
+    // The session is kept out of outDir so it never lands next to shared artifacts
+    if (login) {
+      authDir = await mkdtemp(join(tmpdir(), 'uimatch-auth-'));
+      const storageState = join(authDir, 'storage-state.json');
+      logger.info({ url: login.url && sanitizeUrl(login.url) }, 'Suite login');
+      await saveStorageState({ ...login, path: storageState, reuseBrowser: true });
+      for (const item of items) item.storageState ??= storageState;
+    }
+
     type SuiteResult = {
       name: string;
       ok: boolean;
@@ -244,11 +558,10 @@ export async function runSuite(argv: string[]): Promise<number> {
       error?: string;
       styleDiffs?: number;
       highCount?: number;
+      browser?: BrowserInfo;
       warnings?: string[];
     };
 
-    const logger = getLogger();
-
     const results = await runWithConcurrency<SuiteItem, SuiteResult>(
       items,
       concurrency,
@@ -262,6 +575,7 @@ export async function runSuite(argv: string[]): Promise<number> {
             figma: item.figma,
             story: item.story,
             selector: item.selector,
+            browser: item.browser,
           },
           `Suite item #${index + 1}: ${itemName}`
         );
@@ -275,6 +589,9 @@ export async function runSuite(argv: string[]): Promise<number> {
             dpr: item.dpr,
             figmaScale: item.figmaScale,
             figmaAutoRoi: item.figmaAutoRoi,
+            figmaVersion: item.figmaVersion,
+            figmaCache,
+            designSource,
             detectStorybookIframe:
               item.detectStorybookIframe ?? /\/iframe\.html(\?|$)/.test(item.story),
             sizeMode: item.size,
@@ -284,7 +601,34 @@ export async function runSuite(argv: string[]): Promise<number> {
             thresholds: item.thresholds,
             pixelmatch: item.pixelmatch,
             tokens: item.tokens,
+            figmaVariables: item.figmaVariables,
             ignore: item.ignore,
+            mask: item.mask,
+            ssim: item.ssim,
+            registration: item.registration,
+            tiling: item.tiling,
+            normalizeScale: item.normalizeScale,
+            browser: item.browser,
+            steps: item.steps,
+            state: item.state,
+            states: item.states,
+            breakpoints: item.breakpoints,
+            colorScheme: item.colorScheme,
+            reducedMotion: item.reducedMotion,
+            forcedColors: item.forcedColors,
+            media: item.media,
+            pageBackground: item.pageBackground,
+            storageState: item.storageState,
+            cookies: item.cookies,
+            extraHTTPHeaders: item.extraHTTPHeaders,
+            har: item.har,
+            harMode: item.har ? (item.harMode ?? 'auto') : undefined,
+            harUrl: item.harUrl,
+            harFallback: item.harFallback,
+            blockHosts: item.blockHosts,
+            blockThirdParty: item.blockThirdParty,
+            routes: item.routes,
+            visualizations: item.visualizations,
             weights: item.weights,
             reuseBrowser: true,
             emitArtifacts: true,
@@ -299,6 +643,16 @@ export async function runSuite(argv: string[]): Promise<number> {
             await writeFile(join(itemDir, 'figma.png'), Buffer.from(figs.figmaPngB64, 'base64'));
             await writeFile(join(itemDir, 'impl.png'), Buffer.from(figs.implPngB64, 'base64'));
             await writeFile(join(itemDir, 'diff.png'), Buffer.from(figs.diffPngB64, 'base64'));
+            if (figs.ssimMapPngB64) {
+              await writeFile(join(itemDir, 'ssim.png'), Buffer.from(figs.ssimMapPngB64, 'base64'));
+            }
+            for (const [file, b64] of visualizationArtifactFiles(figs)) {
+              await writeFile(join(itemDir, file), Buffer.from(b64, 'base64'));
+            }
+          }
+          for (const [file, b64] of [...stateArtifactFiles(rep), ...breakpointArtifactFiles(rep)]) {
+            await mkdir(dirname(join(itemDir, file)), { recursive: true });
+            await writeFile(join(itemDir, file), Buffer.from(b64, 'base64'));
           }
 
           const warnings: string[] = [];
@@ -308,7 +662,10 @@ export async function runSuite(argv: string[]): Promise<number> {
               'textGate is enabled but textCheck is not active; using the visual quality gate.'
             );
           }
-          const ok = textGateMode ? Boolean(rep.textMatch?.equal) : Boolean(rep.qualityGate?.pass);
+          const statesPass = (rep.states ?? []).every((s) => s.report.qualityGate?.pass);
+          const ok =
+            (textGateMode ? Boolean(rep.textMatch?.equal) : Boolean(rep.qualityGate?.pass)) &&
+            statesPass;
 
           await writeFile(join(itemDir, 'report.json'), JSON.stringify(rep, null, 2));
 
@@ -337,6 +694,7 @@ export async function runSuite(argv: string[]): Promise<number> {
             outDir: itemDir,
             styleDiffs: styleDiffsCount,
             highCount,
+            browser: rep.browser,
             warnings: warnings.length > 0 ? warnings : undefined,
           };
         } catch (e) {
@@ -388,6 +746,7 @@ export async function runSuite(argv: string[]): Promise<number> {
   } catch (error) {
     return reportCommandError('❌ Suite error', error);
   } finally {
+    if (authDir) await rm(authDir, { recursive: true, force: true });
     try {
       await closeUiMatchBrowsers();
     } catch (error) {
@@ -0,0 +1,69 @@
+import type { VariantsResult } from '#plugin/types/index';
+import { describe, expect, test } from 'vitest';
+import { buildVariantsConfig, formatVariantMatrix } from './variants.js';
+
+const base = {
+  figma: 'AbCdEf:10-2',
+  story: 'http://localhost:6006/iframe.html?id=button--{intent|id}&args=size:{size}',
+  selector: 'button',
+};
+
+describe('buildVariantsConfig', () => {
+  test('parses value maps, sizes and thresholds', () => {
+    const config = buildVariantsConfig({
+      ...base,
+      values: '{"size":{"Small":"sm"}}',
+      size: 'pad',
+      maxPixelDiff: '0.05',
+      bootstrap: 'false',
+    });
+
+    expect(config).toEqual({
+      ...base,
+      values: { size: { Small: 'sm' } },
+      sizeMode: 'pad',
+      thresholds: { pixelDiffRatio: 0.05 },
+      bootstrapExpectedFromFigma: false,
+    });
+  });
+
+  test.each([
+    [{ values: '["sm"]' }, 'Invalid values "["sm"]"'],
+    [{ size: 'fit' }, 'Invalid size "fit": expected strict, pad, crop, scale'],
+    [{ figmaCacheDir: '.figma' }, 'figmaCacheDir requires figmaCache=record|replay|refresh'],
+  ])('rejects %o', (args, message) => {
+    expect(() => buildVariantsConfig({ ...base, ...args })).toThrow(message);
+  });
+});
+
+describe('formatVariantMatrix', () => {
+  const variant = (size: string, intent: string, pass: boolean, dfs: number) => ({
+    name: `Size=${size}, Intent=${intent}`,
+    nodeId: '1:1',
+    properties: { Size: size, Intent: intent },
+    story: '',
+    pass,
+    summary: '',
+    report: { metrics: { dfs } } as VariantsResult['report']['variants'][number]['report'],
+  });
+
+  test('lays the last property out as columns', () => {
+    expect(
+      formatVariantMatrix({
+        componentSet: { fileKey: 'AbCdEf', nodeId: '10:2', name: 'Button' },
+        properties: { Size: ['sm', 'lg'], Intent: ['primary', 'danger'] },
+        variants: [
+          variant('sm', 'primary', true, 97.6),
+          variant('sm', 'danger', false, 71),
+          variant('lg', 'primary', true, 95),
+        ],
+        drifting: 1,
+        pass: false,
+      })
+    ).toEqual([
+      'Size \\ Intent  primary  danger',
+      'Size=sm        ✅ 98     ❌ 71',
+      'Size=lg        ✅ 95     ·',
+    ]);
+  });
+});
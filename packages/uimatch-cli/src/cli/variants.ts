@@ -0,0 +1,245 @@
+/**
+ * uiMatch CLI - Variant sweep
+ * Compare every variant of a Figma component set against its Storybook story.
+ */
+
+import { FIGMA_CACHE_MODES } from '#plugin/adapters/figma-cache';
+import { closeUiMatchBrowsers } from '#plugin/commands/browsers';
+import { uiMatchVariants } from '#plugin/commands/variants';
+import type { VariantsArgs, VariantsResult } from '#plugin/types/index';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseBool, parseChoice, parseKeyValueArgs, parseNumber } from './args.js';
+import { reportCommandError } from './exit-code.js';
+import { getLoggerSafe } from './logger.js';
+import { errln, outln } from './print.js';
+
+export interface VariantsParsedArgs {
+  figma?: string;
+  story?: string;
+  selector?: string;
+  values?: string;
+  viewport?: string;
+  dpr?: string;
+  figmaScale?: string;
+  size?: string;
+  maxPixelDiff?: string;
+  deltaE?: string;
+  designSource?: string;
+  figmaCache?: string;
+  figmaCacheDir?: string;
+  bootstrap?: string;
+  outDir?: string;
+}
+
+function parseValues(value: string): NonNullable<VariantsArgs['values']> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+  const valid =
+    typeof parsed === 'object' &&
+    parsed !== null &&
+    !Array.isArray(parsed) &&
+    Object.values(parsed).every(
+      (map) =>
+        typeof map === 'object' &&
+        map !== null &&
+        Object.values(map as object).every((v) => typeof v === 'string')
+    );
+  if (!valid) {
+    throw new RangeError(
+      `Invalid values "${value}": expected JSON like {"size":{"Small":"sm","Large":"lg"}}`
+    );
+  }
+  return parsed as NonNullable<VariantsArgs['values']>;
+}
+
+/**
+ * Build uiMatchVariants arguments from parsed CLI arguments
+ *
+ * @throws RangeError on invalid values
+ */
+export function buildVariantsConfig(
+  args: VariantsParsedArgs & { figma: string; story: string; selector: string }
+): VariantsArgs {
+  const config: VariantsArgs = { figma: args.figma, story: args.story, selector: args.selector };
+
+  if (args.values !== undefined) config.values = parseValues(args.values);
+  if (args.viewport !== undefined) {
+    const match = args.viewport.match(/^(\d+)[xX](\d+)$/);
+    if (!match || !match[1] || !match[2]) {
+      throw new RangeError(`Invalid viewport "${args.viewport}": expected <width>x<height>`);
+    }
+    config.viewport = { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+  }
+  if (args.dpr !== undefined) config.dpr = parseNumber(args.dpr, 'dpr', 1, 4);
+  if (args.figmaScale !== undefined) {
+    config.figmaScale = parseNumber(args.figmaScale, 'figmaScale', 1, 4);
+  }
+  if (args.size !== undefined) {
+    config.sizeMode = parseChoice(args.size, ['strict', 'pad', 'crop', 'scale'] as const, 'size');
+  }
+  if (args.maxPixelDiff !== undefined || args.deltaE !== undefined) {
+    config.thresholds = {};
+    if (args.maxPixelDiff !== undefined) {
+      config.thresholds.pixelDiffRatio = parseNumber(args.maxPixelDiff, 'maxPixelDiff', 0, 1);
+    }
+    if (args.deltaE !== undefined) {
+      config.thresholds.deltaE = parseNumber(args.deltaE, 'deltaE', 0, 100);
+    }
+  }
+  if (args.designSource) config.designSource = args.designSource;
+  if (args.figmaCache !== undefined) {
+    config.figmaCache = {
+      mode: parseChoice(args.figmaCache, FIGMA_CACHE_MODES, 'figmaCache'),
+      dir: args.figmaCacheDir,
+    };
+  } else if (args.figmaCacheDir !== undefined) {
+    throw new RangeError('figmaCacheDir requires figmaCache=record|replay|refresh');
+  }
+  const bootstrap = parseBool(args.bootstrap);
+  if (bootstrap !== undefined) config.bootstrapExpectedFromFigma = bootstrap;
+  return config;
+}
+
+/**
+ * Render the sweep as a grid: one row per combination of the leading properties, one
+ * column per value of the last one. Cells show the pass state and DFS of the variant.
+ */
+export function formatVariantMatrix(report: VariantsResult['report']): string[] {
+  const properties = Object.keys(report.properties);
+  const last = properties[properties.length - 1];
+  if (last === undefined) return [];
+  const leading = properties.slice(0, -1);
+  const columns = report.properties[last] ?? [];
+
+  const cell = (variant: VariantsResult['report']['variants'][number] | undefined): string => {
+    if (!variant) return '·';
+    if (variant.error) return '❌ error';
+    const dfs = variant.report?.metrics.dfs;
+    return `${variant.pass ? '✅' : '❌'} ${dfs === undefined ? '' : Math.round(dfs)}`.trim();
+  };
+
+  const rows = new Map<string, string[]>();
+  for (const variant of report.variants) {
+    const key = leading.map((p) => `${p}=${variant.properties[p] ?? ''}`).join(', ');
+    const row = rows.get(key) ?? columns.map(() => cell(undefined));
+    const column = columns.indexOf(variant.properties[last] ?? '');
+    if (column >= 0) row[column] = cell(variant);
+    rows.set(key, row);
+  }
+
+  const corner = leading.length > 0 ? `${leading.join(' / ')} \\ ${last}` : last;
+  const table = [[corner, ...columns]];
+  for (const [key, row] of rows) table.push([key, ...row]);
+  const widths = (table[0] ?? []).map((_, i) => Math.max(...table.map((r) => (r[i] ?? '').length)));
+  return table.map((r) =>
+    r
+      .map((c, i) => c.padEnd(widths[i] ?? 0))
+      .join('  ')
+      .trimEnd()
+  );
+}
+
+function printUsage(): void {
+  errln(
+    'Usage: uimatch variants figma=<component set> story=<URL template> selector=<CSS> [options]'
+  );
+  errln('');
+  errln('Story template placeholders:');
+  errln('  {<property>}            Variant value, e.g. {size}');
+  errln('  {<property>|id}         Value as a story ID segment, e.g. {intent|id}');
+  errln('  {args}                  Variant as Storybook URL args, e.g. size:sm;intent:primary');
+  errln('');
+  errln('Options:');
+  errln('  values=<json>           Story value per Figma value, e.g. {"size":{"Small":"sm"}}');
+  errln('  viewport=<WxH>          Viewport size (e.g., 1280x720)');
+  errln('  dpr=<number>            Device pixel ratio (default: 2)');
+  errln('  figmaScale=<number>     Figma export scale factor (1-4, default: 2)');
+  errln('  size=<mode>             Size handling mode (strict|pad|crop|scale, default: strict)');
+  errln('  maxPixelDiff=<0-1>      Largest pixel diff ratio of a passing variant');
+  errln('  deltaE=<number>         Color tolerance for computed styles');
+  errln('  designSource=<id>       Design source with a node tree (default: figma-rest)');
+  errln('  figmaCache=<mode>       Figma snapshot cache: record, replay (offline), refresh');
+  errln('  figmaCacheDir=<path>    Snapshot cache directory (default: .uimatch-cache/figma)');
+  errln('  bootstrap=<bool>        Derive expectedSpec from each variant (default: true)');
+  errln('  outDir=<path>           Write report.json');
+  errln('');
+  errln('Example:');
+  errln(
+    '  uimatch variants figma=AbCdEf:10-2 story="http://localhost:6006/iframe.html?id=button--{intent|id}&args={args}" selector="#storybook-root button"'
+  );
+}
+
+export async function runVariants(argv: string[]): Promise<number> {
+  try {
+    const args = parseKeyValueArgs<VariantsParsedArgs>(argv);
+    if (!args.figma || !args.story || !args.selector) {
+      printUsage();
+      return 2;
+    }
+
+    let config: VariantsArgs;
+    try {
+      config = buildVariantsConfig({
+        ...args,
+        figma: args.figma,
+        story: args.story,
+        selector: args.selector,
+      });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        errln(error.message);
+        return 2;
+      }
+      throw error;
+    }
+
+    let result: VariantsResult;
+    try {
+      result = await uiMatchVariants({ ...config, reuseBrowser: true });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        errln(error.message);
+        return 2;
+      }
+      throw error;
+    }
+    const { report } = result;
+
+    outln(result.summary);
+    outln('');
+    for (const line of formatVariantMatrix(report)) outln(line);
+    const drifting = report.variants.filter((v) => !v.pass);
+    if (drifting.length > 0) {
+      outln('');
+      outln('Drifting variants:');
+      for (const v of drifting) {
+        const reasons = v.error ?? v.report?.qualityGate?.reasons.join(' | ') ?? v.summary;
+        outln(`  ${v.name} (${v.story}): ${reasons}`);
+      }
+    }
+
+    if (args.outDir) {
+      await mkdir(args.outDir, { recursive: true });
+      await writeFile(join(args.outDir, 'report.json'), JSON.stringify(report, null, 2));
+      outln('');
+      outln(`📁 Report saved to: ${args.outDir}`);
+    }
+
+    return report.pass ? 0 : 1;
+  } catch (error) {
+    return reportCommandError('❌ Error', error);
+  } finally {
+    try {
+      await closeUiMatchBrowsers();
+    } catch (error) {
+      getLoggerSafe().warn(
+        `Failed to close browser pool: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import type { CompareBreakpointResult, CompareResult } from '#plugin/types/index';
+import { describe, expect, test } from 'vitest';
+import { aggregateBreakpoints, breakpointPassed, resolveBreakpoints } from './breakpoints.js';
+
+function createReport(pass: boolean, cqi: number, reasons: string[] = []): CompareResult['report'] {
+  return {
+    metrics: { pixelDiffRatio: pass ? 0 : 0.2, colorDeltaEAvg: 0, dfs: cqi },
+    styleDiffs: [],
+    qualityGate: {
+      pass,
+      cqi,
+      hardGateViolations: [],
+      suspicions: { detected: false, reasons: [] },
+      reEvaluated: false,
+      reasons,
+      thresholds: {
+        pixelDiffRatio: 0.01,
+        deltaE: 3,
+        areaGapCritical: 0.15,
+        areaGapWarning: 0.05,
+        maxHighSeverityIssues: 0,
+      },
+    },
+  };
+}
+
+function breakpoint(name: string, report: CompareResult['report']): CompareBreakpointResult {
+  return {
+    name,
+    viewport: { width: 375, height: 812 },
+    figma: 'AbCdEf:1-30',
+    summary: name,
+    report,
+  };
+}
+
+describe('resolveBreakpoints', () => {
+  test('names unnamed breakpoints after their viewport', () => {
+    const resolved = resolveBreakpoints([
+      { name: 'mobile', viewport: { width: 375, height: 812 }, figma: 'AbCdEf:1-30' },
+      { viewport: { width: 1440, height: 900 }, figma: 'AbCdEf:1-31' },
+    ]);
+    expect(resolved.map((b) => b.name)).toEqual(['mobile', '1440x900']);
+  });
+
+  test.each([
+    [{ name: 'mobile/small', viewport: { width: 375, height: 812 } }],
+    [{ viewport: { width: 0, height: 812 } }],
+  ])('rejects %o', (bp) => {
+    expect(() => resolveBreakpoints([{ ...bp, figma: 'AbCdEf:1-30' }])).toThrow(RangeError);
+  });
+
+  test('rejects duplicate names', () => {
+    const bp = { viewport: { width: 375, height: 812 }, figma: 'AbCdEf:1-30' };
+    expect(() => resolveBreakpoints([bp, bp])).toThrow('Duplicate breakpoint name "375x812"');
+  });
+});
+
+describe('aggregateBreakpoints', () => {
+  test('reports the worst breakpoint with a gate over all of them', () => {
+    const result = aggregateBreakpoints([
+      breakpoint('mobile', createReport(true, 90)),
+      breakpoint('tablet', createReport(false, 60, ['Pixel diff too high'])),
+      breakpoint('desktop', createReport(true, 80)),
+    ]);
+
+    expect(result.summary).toBe(
+      '[tablet] tablet | breakpoints: mobile PASS, tablet FAIL, desktop PASS'
+    );
+    expect(result.report.metrics.dfs).toBe(60);
+    expect(result.report.qualityGate?.pass).toBe(false);
+    expect(result.report.qualityGate?.reasons).toEqual(['[tablet] Pixel diff too high']);
+    expect(result.report.breakpoints).toHaveLength(3);
+  });
+
+  test('picks the lowest CQI when every breakpoint passes', () => {
+    const result = aggregateBreakpoints([
+      breakpoint('mobile', createReport(true, 90)),
+      breakpoint('desktop', createReport(true, 80)),
+    ]);
+
+    expect(result.report.qualityGate).toMatchObject({ pass: true, cqi: 80 });
+    expect(result.summary.startsWith('[desktop]')).toBe(true);
+  });
+
+  test('fails a breakpoint whose interaction state fails', () => {
+    const report = createReport(true, 90);
+    report.states = [
+      { state: 'hover', figma: 'AbCdEf:1-32', summary: 'FAIL', report: createReport(false, 40) },
+    ];
+    const mobile = breakpoint('mobile', report);
+
+    expect(breakpointPassed(mobile)).toBe(false);
+    const result = aggregateBreakpoints([mobile]);
+    expect(result.report.qualityGate?.pass).toBe(false);
+    expect(result.report.qualityGate?.reasons).toContain('[mobile] States failed: hover');
+    expect(result.report.states).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Viewport matrix for compare: naming of breakpoints and aggregation of their results
+ * into one report with a single gate decision.
+ */
+
+import type {
+  CompareBreakpoint,
+  CompareBreakpointResult,
+  CompareResult,
+} from '#plugin/types/index';
+
+const BREAKPOINT_NAME = /^[\w-]+$/;
+
+/**
+ * Resolve breakpoint names (`<width>x<height>` when unnamed) and validate the matrix.
+ *
+ * @throws RangeError on empty viewports, names unusable as paths, or duplicate names
+ */
+export function resolveBreakpoints(
+  breakpoints: CompareBreakpoint[]
+): Array<CompareBreakpoint & { name: string }> {
+  const seen = new Set<string>();
+  return breakpoints.map((bp) => {
+    const { width, height } = bp.viewport;
+    if (!(width > 0 && height > 0)) {
+      throw new RangeError(`Invalid breakpoint viewport ${width}x${height}`);
+    }
+    const name = bp.name ?? `${width}x${height}`;
+    if (!BREAKPOINT_NAME.test(name)) {
+      throw new RangeError(
+        `Invalid breakpoint name "${name}": use letters, digits, "-" and "_" only`
+      );
+    }
+    if (seen.has(name)) {
+      throw new RangeError(`Duplicate breakpoint name "${name}"`);
+    }
+    seen.add(name);
+    return { ...bp, name };
+  });
+}
+
+/**
+ * Whether a breakpoint passed its gate, including its interaction states.
+ */
+export function breakpointPassed(result: CompareBreakpointResult): boolean {
+  return (
+    Boolean(result.report.qualityGate?.pass) &&
+    (result.report.states ?? []).every((s) => s.report.qualityGate?.pass)
+  );
+}
+
+/**
+ * Combine per-breakpoint results. The top-level report is that of the worst breakpoint
+ * (failing first, then lowest CQI) so metrics and artifacts point at the problem; its
+ * quality gate passes only when every breakpoint passes and collects all reasons,
+ * prefixed with the breakpoint name.
+ */
+export function aggregateBreakpoints(results: CompareBreakpointResult[]): CompareResult {
+  const first = results[0];
+  if (!first) throw new RangeError('aggregateBreakpoints: no breakpoint results');
+
+  const cqi = (r: CompareBreakpointResult): number => r.report.qualityGate?.cqi ?? 0;
+  const worst = results.reduce((a, b) => {
+    const aPass = breakpointPassed(a);
+    if (aPass !== breakpointPassed(b)) return aPass ? b : a;
+    return cqi(b) < cqi(a) ? b : a;
+  }, first);
+
+  const worstGate = worst.report.qualityGate;
+  const qualityGate = worstGate && {
+    ...worstGate,
+    pass: results.every(breakpointPassed),
+    cqi: Math.min(...results.map(cqi)),
+    hardGateViolations: results.flatMap((r) => r.report.qualityGate?.hardGateViolations ?? []),
+    reasons: results.flatMap((r) => {
+      const reasons = (r.report.qualityGate?.reasons ?? []).map((x) => `[${r.name}] ${x}`);
+      const failedStates = (r.report.states ?? []).filter((s) => !s.report.qualityGate?.pass);
+      if (failedStates.length > 0) {
+        reasons.push(`[${r.name}] States failed: ${failedStates.map((s) => s.state).join(', ')}`);
+      }
+      return reasons;
+    }),
+  };
+
+  const breakpointSummary = results
+    .map((r) => `${r.name} ${breakpointPassed(r) ? 'PASS' : 'FAIL'}`)
+    .join(', ');
+  return {
+    summary: `[${worst.name}] ${worst.summary} | breakpoints: ${breakpointSummary}`,
+    report: { ...worst.report, states: undefined, qualityGate, breakpoints: results },
+  };
+}
@@ -2,18 +2,43 @@
  * UI comparison command
  */
 
-import { FigmaRestClient } from '#plugin/adapters/figma-rest';
-import { loadFigmaMcpConfig, loadSkillConfig } from '#plugin/config/index';
-import { buildExpectedSpecFromFigmaWithMetadata } from '#plugin/expected/from-figma';
-import { FigmaMcpClient, parseFigmaRef } from '#plugin/experimental/index.js';
-import type { CompareArgs, CompareResult, FigmaRootDimensionConstraint } from '#plugin/types/index';
+import {
+  createDesignSource,
+  readFigmaPngBypass,
+  resolveDesignSourceId,
+} from '#plugin/adapters/design-sources';
+import { resolveFigmaCacheOptions } from '#plugin/adapters/figma-cache';
+import { loadSkillConfig } from '#plugin/config/index';
+import {
+  assertTokenNaming,
+  figmaVariablesToTokens,
+  mergeTokenMaps,
+} from '#plugin/expected/figma-tokens';
+import {
+  buildExpectedSpecFromFigmaWithMetadata,
+  figmaBackgroundColor,
+} from '#plugin/expected/from-figma';
+import { parseFigmaRef } from '#plugin/experimental/index.js';
+import type {
+  CompareArgs,
+  CompareBreakpointResult,
+  CompareResult,
+  CompareStateResult,
+  DesignSource,
+  FigmaCacheOptions,
+  FigmaRef,
+  FigmaRootDimensionConstraint,
+  FigmaVariablesOptions,
+  TokenMap,
+} from '#plugin/types/index';
 import type { CaptureResult, CompareImageResult } from '@uimatch/core';
 import {
+  DEFAULT_DIFF_THRESHOLDS,
   UiMatchError,
   browserPool,
   captureTarget,
-  compareImages,
-  launchChromium,
+  compareImagesAsync,
+  launchBrowser,
   normalizeTextEx,
   resolveLocator,
   textSimilarity,
@@ -26,7 +51,13 @@ import {
   type Resolution,
 } from '@uimatch/selector-spi';
 import { createLogger } from '@uimatch/shared-logging';
+import { randomUUID } from 'node:crypto';
+import { aggregateBreakpoints, resolveBreakpoints } from './breakpoints.js';
+import { closeUiMatchBrowsers } from './browsers';
 import { resolveColorDeltaEThresholds } from './comparison-thresholds.js';
+import { findFigmaLayerBoxes, resolveMaskRegions } from './masks.js';
+import { pruneStyleDiffs } from './prune-style-diffs.js';
+import { detectScaleNormalization, type ScaleNormalization } from './scale.js';
 import {
   SelectorPluginTimeoutError,
   getSelectorPluginTimeoutMs,
@@ -62,94 +93,6 @@ function readPngSize(buffer: Buffer): { width: number; height: number } | null {
   return { width, height };
 }
 
-/**
- * Report JSON compression strategy:
- * - Excludes delta===0 entries (perfect matches)
- * - Categorical properties: only keeps mismatches (actual!==expected)
- * - patchHints: high severity only (unless verbose=true)
- * - meta: minimal { tag, cssSelector } (unless verbose=true)
- *
- * @param diffs - Style differences from compareImages
- * @param verbose - Show full patchHints and meta details
- * @returns Filtered diffs containing only non-zero differences with optimized hints/meta
- */
-function pruneStyleDiffs(
-  diffs: Array<{
-    selector: string;
-    properties: Record<
-      string,
-      {
-        actual?: string;
-        expected?: string;
-        expectedToken?: string;
-        delta?: number;
-        unit?: string;
-      }
-    >;
-    severity: 'low' | 'medium' | 'high';
-    patchHints?: Array<{
-      property: string;
-      suggestedValue: string;
-      severity: 'low' | 'medium' | 'high';
-    }>;
-    meta?: {
-      tag: string;
-      id?: string;
-      class?: string;
-      testid?: string;
-      cssSelector?: string;
-      height?: number;
-    };
-  }>,
-  verbose: boolean
-): typeof diffs {
-  // Helper: Keep property only if it has a non-zero difference
-  const keepProp = (p: { actual?: string; expected?: string; delta?: number; unit?: string }) => {
-    if (!p) return false;
-    // Categorical (e.g. display): keep only mismatches
-    if (p.unit === 'categorical') {
-      return (
-        p.delta === 1 ||
-        (p.actual !== undefined && p.expected !== undefined && p.actual !== p.expected)
-      );
-    }
-    // Numeric (px/ΔE): keep only non-zero delta
-    if (typeof p.delta === 'number') {
-      return Math.abs(p.delta) > 0;
-    }
-    // Fallback: keep if values differ
-    return p.actual !== undefined && p.expected !== undefined && p.actual !== p.expected;
-  };
-
-  return diffs
-    .map((d) => {
-      // Filter properties with non-zero differences
-      const prunedProps = Object.fromEntries(
-        Object.entries(d.properties).filter(([, v]) => keepProp(v))
-      );
-
-      // patchHints: high only (verbose shows all)
-      const prunedHints = (d.patchHints ?? []).filter((h) =>
-        verbose ? true : h.severity === 'high'
-      );
-
-      // meta: minimal {tag, cssSelector} (verbose shows all)
-      const slimMeta = !d.meta
-        ? undefined
-        : verbose
-          ? d.meta
-          : { tag: d.meta.tag, cssSelector: d.meta.cssSelector };
-
-      return {
-        ...d,
-        properties: prunedProps,
-        patchHints: prunedHints,
-        meta: slimMeta,
-      };
-    })
-    .filter((d) => Object.keys(d.properties).length > 0); // Remove selectors with no differences
-}
-
 /**
  * Result of selector resolution with plugin
  */
@@ -219,7 +162,7 @@ async function maybeResolveSelectorWithPlugin(
   // The pool is process-wide, so a call that did not ask to reuse it must own
   // (and close) its own browser instead of leaving one behind. Acquisition sits
   // inside the try so a failure between launch and newContext still closes it.
-  let ownedBrowser: Awaited<ReturnType<typeof launchChromium>> | undefined;
+  let ownedBrowser: Awaited<ReturnType<typeof launchBrowser>> | undefined;
   let openedContext: Awaited<ReturnType<typeof browserPool.createContext>> | undefined;
 
   try {
@@ -227,15 +170,22 @@ async function maybeResolveSelectorWithPlugin(
       viewport: args.viewport,
       deviceScaleFactor: args.dpr ?? 2,
       httpCredentials: args.basicAuth,
+      storageState: args.storageState,
+      extraHTTPHeaders: args.extraHTTPHeaders,
     };
     if (reuseBrowser) {
-      openedContext = await browserPool.createContext(contextOptions);
+      openedContext = await browserPool.createContext(contextOptions, args.browser);
     } else {
-      ownedBrowser = await launchChromium();
+      ownedBrowser = await launchBrowser(args.browser);
       openedContext = await ownedBrowser.newContext(contextOptions);
     }
     // The closures below capture this, and a mutable handle cannot be narrowed.
     const context = openedContext;
+    if (args.cookies?.length) {
+      await context.addCookies(
+        args.cookies.map((c) => (c.url || c.domain ? c : { ...c, url: args.story }))
+      );
+    }
 
     const page = await runSelectorPluginWithTimeout(
       () => context.newPage(),
@@ -351,12 +301,17 @@ async function maybeResolveSelectorWithPlugin(
   }
 }
 
-/**
- * Read the Figma PNG supplied directly through the environment, if any.
- */
-function readFigmaPngBypass(): string | undefined {
-  const raw = process.env.UIMATCH_FIGMA_PNG_B64?.trim();
-  return raw ? raw : undefined;
+function parseFigmaRefOrThrow(figma: string): ReturnType<typeof parseFigmaRef> {
+  try {
+    return parseFigmaRef(figma);
+  } catch (cause) {
+    const details = cause instanceof Error ? cause.message : String(cause);
+    throw new UiMatchError(
+      'UIMATCH_CONFIG_INVALID_FIGMA_REF',
+      `Invalid figma reference "${figma}": ${details}`,
+      { cause }
+    );
+  }
 }
 
 /**
@@ -365,36 +320,215 @@ function readFigmaPngBypass(): string | undefined {
  * check must stay side-effect free and independent of capture state.
  *
  * @param figma - Figma reference (`fileKey:nodeId`, URL, or `current`)
+ * @param figmaCache - Snapshot cache; in `replay` mode it stands in for the token
+ * @param designSource - Configured design source; other than `figma-rest`, it validates
+ *   its own references and credentials when created
  * @throws UiMatchError when the reference is unusable or no source is reachable
+ * @throws RangeError when UIMATCH_FIGMA_CACHE names an unknown mode
  */
-export function assertFigmaSourceConfigured(figma: string): void {
+export function assertFigmaSourceConfigured(
+  figma: string,
+  figmaCache?: FigmaCacheOptions,
+  designSource?: string
+): void {
+  const sourceId = resolveDesignSourceId(designSource);
+  if (sourceId !== undefined && sourceId !== 'figma-rest') {
+    // MCP still needs a parseable reference; other sources define their own format
+    if (sourceId === 'figma-mcp') parseFigmaRefOrThrow(figma);
+    return;
+  }
   // Bypass mode never resolves the reference, so an unparseable one is harmless.
-  if (readFigmaPngBypass()) return;
+  if (sourceId === undefined && readFigmaPngBypass()) return;
 
-  let parsed: ReturnType<typeof parseFigmaRef>;
-  try {
-    parsed = parseFigmaRef(figma);
-  } catch (cause) {
-    const details = cause instanceof Error ? cause.message : String(cause);
+  if (parseFigmaRefOrThrow(figma) === 'current') {
+    if (sourceId === undefined) return; // MCP resolves the selection at run time
     throw new UiMatchError(
       'UIMATCH_CONFIG_INVALID_FIGMA_REF',
-      `Invalid figma reference "${figma}": ${details}`,
-      { cause }
+      'figma=current needs the figma-mcp design source'
     );
   }
-
-  if (parsed === 'current') return; // MCP resolves the selection at run time
   if (process.env.FIGMA_ACCESS_TOKEN) return;
+  if (resolveFigmaCacheOptions(figmaCache)?.mode === 'replay') return;
 
   throw new UiMatchError(
     'UIMATCH_CONFIG_MISSING_FIGMA_TOKEN',
     'FIGMA_ACCESS_TOKEN is not set. ' +
-      'To compare using URL or fileKey:nodeId format, you must set FIGMA_ACCESS_TOKEN. ' +
+      'To compare using URL or fileKey:nodeId format, you must set FIGMA_ACCESS_TOKEN ' +
+      '(or replay recorded snapshots with figmaCache=replay). ' +
       'Alternatively, use figma=current to compare the currently selected node in Figma Desktop ' +
       '(requires MCP server).'
   );
 }
 
+/**
+ * Map the `ssim` argument onto compareImages options.
+ * A configured `minSsim` threshold implies single-scale SSIM.
+ *
+ * @throws RangeError when `ssim: false` would leave a `minSsim` threshold unchecked
+ */
+function resolveSsimOption(args: CompareArgs): boolean | { multiScale: boolean } {
+  if (args.ssim === false && args.thresholds?.minSsim !== undefined) {
+    throw new RangeError('thresholds.minSsim requires SSIM; remove ssim=false');
+  }
+  if (args.ssim === 'multiscale') return { multiScale: true };
+  if (args.ssim !== undefined) return args.ssim;
+  return args.thresholds?.minSsim !== undefined;
+}
+
+/**
+ * Page background taken from the Figma node's solid fill (`pageBackground: 'figma'`).
+ * Falls back to the capture default (white) without a node tree or an opaque fill.
+ */
+async function resolveFigmaPageBackground(
+  source: DesignSource,
+  ref: FigmaRef
+): Promise<string | undefined> {
+  if (!source.getNode) {
+    logger.warn(
+      `pageBackground=figma needs a node tree, which the ${source.name} design source lacks ` +
+        '(set FIGMA_ACCESS_TOKEN); using a white page background'
+    );
+    return undefined;
+  }
+  try {
+    const node = await source.getNode(ref);
+    const background = figmaBackgroundColor(node);
+    if (!background) {
+      logger.warn(
+        { nodeId: ref.nodeId },
+        'Figma node has no opaque fill; using a white page background'
+      );
+    }
+    return background;
+  } catch (e) {
+    logger.warn(
+      { error: (e as Error)?.message ?? String(e) },
+      'Failed to read the Figma background; using a white page background'
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Version of the design file an unpinned comparison read, for its report.
+ * Undefined when the source cannot tell.
+ */
+async function resolveCurrentFigmaVersion(
+  source: DesignSource,
+  fileKey: string
+): Promise<string | undefined> {
+  if (!source.getVersion) return undefined;
+  try {
+    return await source.getVersion({ fileKey });
+  } catch (e) {
+    logger.debug({ error: (e as Error)?.message ?? String(e) }, 'Figma file version unavailable');
+    return undefined;
+  }
+}
+
+/**
+ * Figma variables of the file as tokens (`figmaVariables`).
+ * Undefined, with a warning, when the source has no variables or they cannot be read.
+ */
+async function importFigmaVariableTokens(
+  source: DesignSource,
+  fileKey: string,
+  options: FigmaVariablesOptions
+): Promise<{ tokens: TokenMap; variableTokens: Record<string, string> } | undefined> {
+  if (!source.getVariables) {
+    logger.warn(`figmaVariables needs variables, which the ${source.name} design source lacks`);
+    return undefined;
+  }
+  try {
+    const variables = await source.getVariables({ fileKey });
+    return figmaVariablesToTokens(variables, options);
+  } catch (e) {
+    logger.warn(
+      { error: (e as Error)?.message ?? String(e) },
+      'Failed to read Figma variables; comparing without them'
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Run the main comparison and then one comparison per interaction state, each against
+ * its own Figma variant. Captures share the pooled browser; the pool is closed here
+ * unless the caller opted into `reuseBrowser`.
+ *
+ * @param sharedPage - Pooled page key for the main capture (state captures use their own page)
+ */
+async function compareStates(args: CompareArgs, sharedPage?: string): Promise<CompareResult> {
+  const { states = [], ...base } = args;
+  for (const { figma } of states)
+    assertFigmaSourceConfigured(figma, args.figmaCache, args.designSource);
+  try {
+    const main = await compareTarget({ ...base, reuseBrowser: true }, sharedPage);
+    const results: CompareStateResult[] = [];
+    for (const { state, figma } of states) {
+      const { summary, report } = await compareTarget({
+        ...base,
+        figma,
+        state,
+        reuseBrowser: true,
+      });
+      results.push({ state, figma, summary, report });
+    }
+
+    const stateSummary = results
+      .map((r) => `${r.state} ${r.report.qualityGate?.pass ? 'PASS' : 'FAIL'}`)
+      .join(', ');
+    return {
+      summary: `${main.summary} | states: ${stateSummary}`,
+      report: { ...main.report, states: results },
+    };
+  } finally {
+    if (!(args.reuseBrowser ?? false)) {
+      await closeUiMatchBrowsers();
+    }
+  }
+}
+
+/**
+ * Compare every breakpoint against its Figma frame on one pooled page, resized between
+ * captures, and aggregate the results. The pool is closed here unless the caller opted
+ * into `reuseBrowser`.
+ */
+async function compareBreakpoints(args: CompareArgs): Promise<CompareResult> {
+  const { breakpoints = [], ...base } = args;
+  const resolved = resolveBreakpoints(breakpoints);
+  for (const { figma } of resolved)
+    assertFigmaSourceConfigured(figma, args.figmaCache, args.designSource);
+  for (const { figma } of base.states ?? [])
+    assertFigmaSourceConfigured(figma, args.figmaCache, args.designSource);
+
+  const sharedPage = `breakpoints:${randomUUID()}`;
+  try {
+    const results: CompareBreakpointResult[] = [];
+    for (const { name, viewport, figma } of resolved) {
+      const run: CompareArgs = { ...base, figma, viewport, reuseBrowser: true };
+      const { summary, report } =
+        run.states && run.states.length > 0
+          ? await compareStates(run, sharedPage)
+          : await compareTarget(run, sharedPage);
+      results.push({ name, viewport, figma, summary, report });
+    }
+    return aggregateBreakpoints(results);
+  } finally {
+    await browserPool
+      .releasePage(sharedPage)
+      .catch((error: unknown) =>
+        logger.debug(
+          { error: error instanceof Error ? error.message : String(error) },
+          'Failed to release breakpoint page'
+        )
+      );
+    if (!(args.reuseBrowser ?? false)) {
+      await closeUiMatchBrowsers();
+    }
+  }
+}
+
 /**
  * Compares Figma design with implementation.
  *
@@ -419,7 +553,28 @@ export function assertFigmaSourceConfigured(figma: string): void {
  * ```
  */
 export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult> {
-  assertFigmaSourceConfigured(args.figma);
+  if (args.breakpoints && args.breakpoints.length > 0) {
+    return compareBreakpoints(args);
+  }
+  if (args.states && args.states.length > 0) {
+    return compareStates(args);
+  }
+  return compareTarget(args);
+}
+
+/**
+ * Single comparison: one Figma node against one capture.
+ *
+ * @param sharedPage - Capture on this pooled page (resized) instead of a fresh context
+ */
+async function compareTarget(args: CompareArgs, sharedPage?: string): Promise<CompareResult> {
+  assertFigmaSourceConfigured(args.figma, args.figmaCache, args.designSource);
+  const figmaVariables =
+    typeof args.figmaVariables === 'object' ? args.figmaVariables : args.figmaVariables && {};
+  if (figmaVariables && figmaVariables.naming !== undefined) {
+    assertTokenNaming(figmaVariables.naming);
+  }
+  const ssim = resolveSsimOption(args);
 
   const cfg = loadSkillConfig();
   const settings = getSettings(); // Read from .uimatchrc.json if exists
@@ -464,82 +619,52 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
   const effectiveContentBasis =
     args.contentBasis ?? (effectiveSizeMode === 'pad' ? 'intersection' : undefined);
 
-  // 1) Prepare Figma PNG with fallback priority: env bypass > REST fallback > MCP
-  let figmaPng: Buffer;
-  let fileKey: string;
-  let nodeId: string;
-  let figmaClient: FigmaMcpClient | null = null;
-
-  // Check for bypass mode first to avoid parsing figma reference if not needed
-  const b64raw = readFigmaPngBypass();
-
-  // Parse Figma reference only when needed (not in bypass mode)
-  let parsed: ReturnType<typeof parseFigmaRef> | null = null;
-  if (!b64raw) {
-    parsed = parseFigmaRef(args.figma);
-  }
+  // 1) Prepare Figma PNG from the design source (default priority: env bypass > REST > MCP)
+  // REST reads through the snapshot cache, which replays without a token
+  const source = await createDesignSource(
+    { figma: args.figma, figmaCache: args.figmaCache },
+    args.designSource
+  );
 
-  // Debug: Display effective mode and parsed reference
+  // Debug: Display effective source and reference
   if (args.verbose) {
     logger.info(
       {
-        mode: b64raw ? 'BYPASS' : process.env.FIGMA_ACCESS_TOKEN ? 'REST' : 'MCP',
+        source: source.name,
         figma: args.figma,
+        figmaCache: resolveFigmaCacheOptions(args.figmaCache)?.mode,
       },
-      'Figma mode'
+      'Design source'
     );
   }
 
-  if (b64raw) {
-    // Environment variable bypass: Accept base64 PNG directly from Claude
-    const b64 = b64raw.replace(/^data:image\/png;base64,/, '').replace(/\s+/g, '');
-    figmaPng = Buffer.from(b64, 'base64');
-    // Try to parse reference for metadata, but don't fail if invalid
-    try {
-      const parsedRef = parseFigmaRef(args.figma);
-      if (parsedRef !== 'current') {
-        fileKey = parsedRef.fileKey;
-        nodeId = parsedRef.nodeId;
-      } else {
-        fileKey = 'env-bypass';
-        nodeId = 'env-bypass';
+  const ref = await source.resolveRef(args.figma);
+  const fileKey = ref.fileKey;
+  let nodeId = ref.nodeId;
+  // A pinned version keeps designer edits made since out of the comparison
+  const version = ref.version ?? args.figmaVersion;
+  if (version !== undefined && !source.pinsVersions) {
+    throw new UiMatchError(
+      'UIMATCH_CONFIG_INVALID_FIGMA_REF',
+      `The ${source.name} design source cannot pin Figma versions; use designSource=figma-rest`
+    );
+  }
+  // Use figmaScale for every source (separate from browser DPR)
+  let figmaPng = await source.getImage({ fileKey, nodeId, version, scale: figmaScale });
+
+  // Figma variables as tokens; entries of args.tokens win
+  let tokens = args.tokens;
+  let variableTokens: Record<string, string> | undefined;
+  if (figmaVariables) {
+    const imported = await importFigmaVariableTokens(source, fileKey, figmaVariables);
+    if (imported) {
+      tokens = mergeTokenMaps(imported.tokens, args.tokens);
+      variableTokens = imported.variableTokens;
+      if (args.verbose) {
+        logger.info({ variables: Object.keys(variableTokens).length }, 'Imported Figma variables');
       }
-    } catch {
-      // Invalid reference with bypass is OK - use placeholder
-      fileKey = 'env-bypass';
-      nodeId = 'env-bypass';
-    }
-  } else if (process.env.FIGMA_ACCESS_TOKEN && parsed && parsed !== 'current') {
-    // REST fallback: Use Figma REST API (no MCP required)
-    const rest = new FigmaRestClient(process.env.FIGMA_ACCESS_TOKEN);
-    const { fileKey: fk, nodeId: nid } = parsed; // URL or shorthand already resolved
-
-    // Auto-ROI: Detect and use best matching child node if enabled
-    // This will be triggered after implementation capture, so we defer it for now
-    fileKey = fk;
-    nodeId = nid;
-
-    // Fetch PNG with figmaScale (separate from browser DPR)
-    figmaPng = await rest.getFramePng({ fileKey: fk, nodeId: nid, scale: figmaScale });
-  } else {
-    // MCP path: Use existing MCP client (only supports 'current' reliably)
-    // assertFigmaSourceConfigured already rejected the tokenless non-'current' case.
-    if (!parsed) throw new Error('Figma reference must be parsed for MCP mode');
-    const mcpConfig = loadFigmaMcpConfig();
-    figmaClient = new FigmaMcpClient(mcpConfig);
-    if (parsed === 'current') {
-      const sel = await figmaClient.getCurrentSelectionRef();
-      fileKey = sel.fileKey;
-      nodeId = sel.nodeId;
-    } else {
-      fileKey = parsed.fileKey;
-      nodeId = parsed.nodeId;
     }
-    // Use figmaScale for MCP as well (separate from browser DPR)
-    figmaPng = await figmaClient.getFramePng({ fileKey, nodeId, scale: figmaScale });
   }
-  // Variables will be used in Phase 3 for TokenMap matching
-  // const variables = await figmaClient.getVariables({ fileKey });
 
   // Auto-detect viewport from Figma PNG if not explicitly provided
   let effectiveViewport = args.viewport;
@@ -556,11 +681,24 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
     }
   }
 
+  const pageBackground =
+    args.pageBackground === 'figma'
+      ? await resolveFigmaPageBackground(source, { fileKey, nodeId, version })
+      : args.pageBackground;
+
   // 2) Capture implementation (Playwright)
   const cap: CaptureResult = await captureTarget({
     url: args.story,
     selector: args.selector,
     childSelector: args.subselector,
+    maskSelectors: args.mask?.selectors,
+    steps: args.steps,
+    state: args.state,
+    colorScheme: args.colorScheme,
+    reducedMotion: args.reducedMotion,
+    forcedColors: args.forcedColors,
+    media: args.media,
+    pageBackground,
     viewport: effectiveViewport,
     dpr,
     maxChildren: args.maxChildren ?? settings.capture.defaultMaxChildren,
@@ -569,7 +707,19 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
     detectStorybookIframe: args.detectStorybookIframe,
     fontPreloads: args.fontPreload,
     idleWaitMs: settings.capture.defaultIdleWaitMs,
+    browser: args.browser,
     reuseBrowser,
+    sharedPage,
+    storageState: args.storageState,
+    cookies: args.cookies,
+    extraHTTPHeaders: args.extraHTTPHeaders,
+    har: args.har,
+    harMode: args.harMode,
+    harUrl: args.harUrl,
+    harFallback: args.harFallback,
+    blockHosts: args.blockHosts,
+    blockThirdParty: args.blockThirdParty,
+    routes: args.routes,
     basicAuth:
       args.basicAuth ??
       (process.env.BASIC_AUTH_USER && process.env.BASIC_AUTH_PASS
@@ -579,34 +729,25 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
 
   // 2.3) Figma child-node auto-selection (when subselector is provided)
   // Find best matching Figma child node based on DOM child box
-  if (
-    args.subselector &&
-    cap.childBox &&
-    process.env.FIGMA_ACCESS_TOKEN &&
-    parsed &&
-    parsed !== 'current'
-  ) {
+  if (args.subselector && cap.childBox && source.findChildForDomBox) {
     try {
-      const rest = new FigmaRestClient(process.env.FIGMA_ACCESS_TOKEN);
       const usePos = (args.figmaChildStrategy ?? 'area+position') === 'area+position';
 
-      const pick = await rest.findBestChildForDomBox({
+      const childNodeId = await source.findChildForDomBox({
         fileKey,
-        parentNodeId: nodeId,
+        nodeId,
+        version,
         domChildAbs: cap.childBox,
         domRootAbs: cap.box,
         usePosition: usePos,
       });
 
-      if (pick.nodeId) {
+      if (childNodeId) {
         if (args.verbose) {
-          logger.info(
-            { picked: pick.debug?.picked, nodeId: pick.nodeId },
-            'Child-node mapping: Found Figma child'
-          );
+          logger.info({ nodeId: childNodeId }, 'Child-node mapping: Found Figma child');
         }
-        nodeId = pick.nodeId;
-        figmaPng = await rest.getFramePng({ fileKey, nodeId, scale: figmaScale });
+        nodeId = childNodeId;
+        figmaPng = await source.getImage({ fileKey, nodeId, version, scale: figmaScale });
       }
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
@@ -615,41 +756,32 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
   }
 
   // 2.4) Auto-ROI: Automatically detect and use best matching child node if enabled
-  // Only works with REST API (requires FIGMA_ACCESS_TOKEN)
+  // Only works with sources that read the node tree (Figma: FIGMA_ACCESS_TOKEN or a replayed snapshot)
   type AutoRoiMeta = { applied: boolean; from?: string; to?: string };
   let roiMeta: AutoRoiMeta = { applied: false };
 
-  if (
-    figmaAutoRoi &&
-    process.env.FIGMA_ACCESS_TOKEN &&
-    fileKey !== 'env-bypass' &&
-    nodeId !== 'env-bypass'
-  ) {
+  if (figmaAutoRoi && source.findChildForSize) {
     try {
-      const rest = new FigmaRestClient(process.env.FIGMA_ACCESS_TOKEN);
-
       if (cap.box) {
         // Use actual captured element dimensions (not viewport)
         const targetWidth = cap.box.width;
         const targetHeight = cap.box.height;
 
         const originalNodeId = nodeId;
-        const roiResult = await rest.autoDetectRoi({
+        const roiNodeId = await source.findChildForSize({
           fileKey,
           nodeId,
+          version,
           targetWidth,
           targetHeight,
         });
 
-        if (roiResult.wasAdjusted) {
+        if (roiNodeId) {
           if (args.verbose) {
-            logger.info(
-              { nodeId: roiResult.nodeId },
-              'Auto-ROI enabled: Re-fetching Figma PNG for node'
-            );
+            logger.info({ nodeId: roiNodeId }, 'Auto-ROI enabled: Re-fetching Figma PNG for node');
           }
-          nodeId = roiResult.nodeId;
-          figmaPng = await rest.getFramePng({ fileKey, nodeId, scale: figmaScale });
+          nodeId = roiNodeId;
+          figmaPng = await source.getImage({ fileKey, nodeId, version, scale: figmaScale });
           roiMeta = { applied: true, from: originalNodeId, to: nodeId };
         }
       }
@@ -659,15 +791,23 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
     }
   }
 
+  // Figma node document, fetched once for bootstrap, layer masks, and scale detection
+  let figmaNodeRequest: Promise<Record<string, unknown>> | undefined;
+  const getFigmaNode = (): Promise<Record<string, unknown>> => {
+    figmaNodeRequest ??= source.getNode
+      ? source.getNode({ fileKey, nodeId, version })
+      : Promise.reject(new Error(`${source.name} design source has no node tree`));
+    return figmaNodeRequest;
+  };
+
   // 2.5) Bootstrap expectedSpec from Figma node if requested and none provided
   let expectedSpec = args.expectedSpec;
   let figmaRootDimensionConstraints: FigmaRootDimensionConstraint[] | undefined;
   if (!expectedSpec && (args.bootstrapExpectedFromFigma ?? false)) {
-    if (process.env.FIGMA_ACCESS_TOKEN) {
+    if (source.getNode) {
       try {
-        const rest = new FigmaRestClient(process.env.FIGMA_ACCESS_TOKEN);
-        const nodeJson = await rest.getNode({ fileKey, nodeId });
-        const built = buildExpectedSpecFromFigmaWithMetadata(nodeJson, args.tokens);
+        const nodeJson = await getFigmaNode();
+        const built = buildExpectedSpecFromFigmaWithMetadata(nodeJson, tokens, variableTokens);
         expectedSpec = built.expectedSpec;
         figmaRootDimensionConstraints = built.rootDimensionConstraints;
         if (args.verbose) {
@@ -677,22 +817,112 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
         logger.warn({ error: (e as Error)?.message ?? String(e) }, 'bootstrap failed');
       }
     } else {
-      logger.warn('FIGMA_ACCESS_TOKEN is not set; skip expectedSpec bootstrap');
+      logger.warn(`${source.name} design source has no node tree; skip expectedSpec bootstrap`);
+    }
+  }
+
+  // 2.6) Resolve masks (rects, selector boxes, Figma layers) into image regions
+  let figmaLayerBoxes: ReturnType<typeof findFigmaLayerBoxes> | undefined;
+  const figmaLayers = args.mask?.figmaLayers ?? [];
+  if (figmaLayers.length > 0) {
+    if (source.getNode) {
+      try {
+        const nodeJson = await getFigmaNode();
+        figmaLayerBoxes = findFigmaLayerBoxes(nodeJson, figmaLayers);
+        const found = new Set(figmaLayerBoxes.map((b) => b.layer));
+        const missing = figmaLayers.filter((layer) => !found.has(layer));
+        if (missing.length > 0) {
+          logger.warn({ layers: missing }, 'Mask layers not found in Figma node');
+        }
+      } catch (e) {
+        logger.warn({ error: (e as Error)?.message ?? String(e) }, 'Mask layer lookup failed');
+      }
+    } else {
+      logger.warn(`${source.name} design source has no node tree; skip Figma layer masks`);
+    }
+  }
+  const masks = args.mask
+    ? resolveMaskRegions({
+        mask: args.mask,
+        figmaScale,
+        dpr,
+        captureBox: cap.box,
+        maskBoxes: cap.maskBoxes,
+        figmaLayerBoxes,
+      })
+    : undefined;
+
+  // 2.7) Bring the Figma export and the capture to a common pixel density
+  let resample: NonNullable<ScaleNormalization['resample']> | undefined;
+  if (args.normalizeScale ?? true) {
+    let figmaNode: unknown;
+    if (source.getNode) {
+      try {
+        figmaNode = await getFigmaNode();
+      } catch (e) {
+        logger.warn(
+          { error: (e as Error)?.message ?? String(e) },
+          'Figma node lookup failed; using requested figmaScale for scale detection'
+        );
+      }
+    }
+    const figmaPngSize = readPngSize(figmaPng);
+    const implPngSize = readPngSize(cap.implPng);
+    const scale =
+      figmaPngSize && implPngSize
+        ? detectScaleNormalization({
+            figmaPngSize,
+            implPngSize,
+            captureBox: cap.box,
+            figmaNode,
+            requestedFigmaScale: source.fixedScale ? undefined : figmaScale,
+          })
+        : undefined;
+    if (scale?.resample) {
+      resample = scale.resample;
+      const detail = {
+        figmaScale: scale.figmaScale,
+        implScale: scale.implScale,
+        resample: scale.resample,
+      };
+      if (!scale.integerRatio) {
+        logger.warn(
+          { ...detail, ratio: Number(scale.ratio.toFixed(3)) },
+          'Non-integer scale ratio between Figma and capture; resampled edges may not match exactly'
+        );
+      } else if (args.verbose) {
+        logger.info(detail, 'Resampling to a common scale');
+      }
     }
   }
 
+  // Element boxes in implementation-image pixels, used to attribute diff pixels to elements
+  const elements = cap.elementBoxes
+    ? Object.fromEntries(
+        Object.entries(cap.elementBoxes).map(([path, b]) => [
+          path,
+          {
+            x: (b.x - cap.box.x) * dpr,
+            y: (b.y - cap.box.y) * dpr,
+            width: b.width * dpr,
+            height: b.height * dpr,
+          },
+        ])
+      )
+    : undefined;
+
   // 3) Image diff with style comparison
   // Merge default ignoreProperties from settings with per-run ignore
   const defaultIgnore = settings.comparison?.ignoreProperties ?? [];
   const mergedIgnore = Array.from(new Set([...defaultIgnore, ...(args.ignore ?? [])]));
 
-  const result: CompareImageResult = compareImages({
+  const result: CompareImageResult = await compareImagesAsync({
     figmaPngB64: figmaPng.toString('base64'),
     implPngB64: cap.implPng.toString('base64'),
     pixelmatch,
     styles: cap.styles,
     expectedSpec, // may be undefined → style diffs disabled
-    tokens: args.tokens,
+    tokens,
     meta: cap.meta,
     diffOptions: {
       thresholds: {
@@ -704,6 +934,8 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
         borderWidth: args.thresholds?.borderWidth,
         shadowBlur: args.thresholds?.shadowBlur,
         shadowColorExtraDE: args.thresholds?.shadowColorExtraDE,
+        gradientStopPosition: args.thresholds?.gradientStopPosition,
+        gradientAngle: args.thresholds?.gradientAngle,
       },
       ignore: mergedIgnore,
       weights: args.weights,
@@ -713,6 +945,14 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
     align: effectiveAlign,
     padColor: args.padColor,
     contentBasis: effectiveContentBasis,
+    masks,
+    ssim,
+    elements,
+    textBackgrounds: cap.textBackgrounds,
+    registration: args.registration,
+    tiling: args.tiling,
+    resample,
+    visualizations: args.emitArtifacts ? args.visualizations : undefined,
   });
 
   // 3.5) Final pruning: delta=0 exclusion and meta/hints compression
@@ -741,6 +981,10 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
       areaGapWarning: args.thresholds?.areaGapWarning ?? settings.comparison.areaGapWarning,
       maxHighSeverityIssues: args.thresholds?.maxHighSeverityIssues,
       maxLayoutHighIssues: args.thresholds?.maxLayoutHighIssues,
+      minSsim: args.thresholds?.minSsim,
+      maxLayoutShift: args.thresholds?.maxLayoutShift,
+      minContrastRatio: args.thresholds?.minContrastRatio,
+      maxContrastDrop: args.thresholds?.maxContrastDrop,
     },
     effectiveContentBasis ?? 'union'
   );
@@ -770,6 +1014,9 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
         borderWidth: Number(settings.comparison.toleranceBorderWidth),
         shadowBlur: Number(settings.comparison.toleranceShadowBlur),
         shadowColorExtraDE: Number(settings.comparison.toleranceShadowColorExtraDE),
+        gradientStopPosition:
+          args.thresholds?.gradientStopPosition ?? DEFAULT_DIFF_THRESHOLDS.gradientStopPosition,
+        gradientAngle: args.thresholds?.gradientAngle ?? DEFAULT_DIFF_THRESHOLDS.gradientAngle,
       },
       args.weights
     );
@@ -778,6 +1025,7 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
   // 5) Generate summary (always use styleSummary for consistency if available)
   const summaryParts = [
     pass ? 'PASS' : 'FAIL',
+    ...(args.state && args.state !== 'default' ? [`state: ${args.state}`] : []),
     `DFS: ${dfs}`,
     `pixelDiffRatio: ${(result.pixelDiffRatio * 100).toFixed(2)}%`,
   ];
@@ -788,6 +1036,44 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
     summaryParts.push(`contentCoverage: ${((result.contentCoverage ?? 0) * 100).toFixed(1)}%`);
   }
 
+  if (result.maskedPixelCount !== undefined) {
+    summaryParts.push(`masked: ${result.masks?.length ?? 0} (${result.maskedPixelCount}px)`);
+  }
+
+  if (result.ssim !== undefined) {
+    summaryParts.push(`ssim: ${result.ssim.toFixed(4)}`);
+  }
+
+  const resampled = result.dimensions.resample;
+  if (resampled) {
+    summaryParts.push(`resampled: ${resampled.target} ×${Number(resampled.factor.toFixed(3))}`);
+  }
+
+  const offset = result.dimensions.offset;
+  if (offset && (offset.x !== 0 || offset.y !== 0)) {
+    summaryParts.push(`offset: (${offset.x}, ${offset.y})px`);
+  }
+
+  const lowestContrast = result.textContrast?.[0];
+  if (lowestContrast) {
+    summaryParts.push(`minContrast: ${lowestContrast.ratio}:1 (${lowestContrast.selector})`);
+  }
+
+  const topElement = result.elementDiffs?.[0];
+  if (topElement) {
+    summaryParts.push(
+      `mostly in: ${topElement.selector} (${(topElement.share * 100).toFixed(0)}%)`
+    );
+  }
+
+  const largestRegion = result.diffRegions?.[0];
+  if (largestRegion) {
+    const { x, y, width, height } = largestRegion.bbox;
+    summaryParts.push(
+      `diffRegions: ${result.diffRegions?.length} (largest ${width}×${height} at (${x}, ${y}))`
+    );
+  }
+
   summaryParts.push(`colorDeltaEAvg: ${colorDeltaEAvg.toFixed(2)}`);
 
   // Use styleSummary counts for consistency with report.json
@@ -840,9 +1126,8 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
     // 2) Collect Figma text (REST required)
     let figmaRaw = '';
     try {
-      if (process.env.FIGMA_ACCESS_TOKEN && parsed && parsed !== 'current') {
-        const rest = new FigmaRestClient(process.env.FIGMA_ACCESS_TOKEN);
-        const nodeJson = await rest.getNode({ fileKey, nodeId });
+      if (source.getNode) {
+        const nodeJson = await getFigmaNode();
         const walk = (n: unknown, out: string[]) => {
           if (!n || typeof n !== 'object') return;
           const node = n as {
@@ -929,6 +1214,8 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
   }
 
   const summary = summaryParts.join(' | ');
+  // Asked last, so the source can answer from the design reads above
+  const figmaVersion = version ?? (await resolveCurrentFigmaVersion(source, fileKey));
 
   // Build report with optional selector resolution info
   const report: CompareResult['report'] = {
@@ -937,16 +1224,24 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
       pixelDiffRatioContent: result.pixelDiffRatioContent ?? undefined,
       contentCoverage: result.contentCoverage ?? undefined,
       contentPixels: result.contentPixels ?? undefined,
+      maskedPixels: result.maskedPixelCount ?? undefined,
+      ssim: result.ssim,
       colorDeltaEAvg,
       dfs,
     },
     dimensions: result.dimensions,
     styleDiffs,
     styleSummary,
+    masks: result.masks,
+    diffRegions: result.diffRegions,
+    elementDiffs: result.elementDiffs,
+    textContrast: result.textContrast,
+    browser: cap.browser,
     qualityGate: qualityGateResult, // Quality gate evaluation result
     meta: {
       figmaAutoRoi: roiMeta,
       ...(figmaRootDimensionConstraints ? { figmaRootDimensionConstraints } : {}),
+      ...(figmaVersion !== undefined && { figmaVersion }),
     },
     textMatch: textMatchReport,
     artifacts: args.emitArtifacts
@@ -954,6 +1249,17 @@ export async function uiMatchCompare(args: CompareArgs): Promise<CompareResult>
           figmaPngB64: figmaPng.toString('base64'),
           implPngB64: cap.implPng.toString('base64'),
           diffPngB64: result.diffPngB64,
+          ...(result.ssimMap ? { ssimMapPngB64: result.ssimMap } : {}),
+          ...(result.visualizations?.heatmap
+            ? { heatmapPngB64: result.visualizations.heatmap }
+            : {}),
+          ...(result.visualizations?.sideBySide
+            ? { sideBySidePngB64: result.visualizations.sideBySide }
+            : {}),
+          ...(result.visualizations?.onionSkin
+            ? { onionSkinPngB64: result.visualizations.onionSkin }
+            : {}),
+          ...(result.visualizations?.blink ? { blinkPngB64: result.visualizations.blink } : {}),
         }
       : undefined,
   };
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import type { EngineStyles } from './cross-browser.js';
+import { collectDivergences, compareEngineStyles, uiMatchCrossBrowser } from './cross-browser.js';
+
+function engineStyles(styles: Record<string, Record<string, string>>): EngineStyles {
+  return {
+    styles,
+    meta: {
+      __self__: { tag: 'button', cssSelector: '[data-testid="cta"]' },
+    },
+  };
+}
+
+describe('compareEngineStyles', () => {
+  test('reports properties beyond tolerance as diverging', () => {
+    const chromium = engineStyles({
+      __self__: { width: '120px', 'font-size': '16px', color: 'rgb(0, 0, 0)' },
+    });
+    const webkit = engineStyles({
+      __self__: { width: '140px', 'font-size': '16px', color: 'rgb(0, 0, 0)' },
+    });
+
+    const { styleDiffs, diverging } = compareEngineStyles(chromium, webkit);
+
+    expect(styleDiffs).toHaveLength(1);
+    expect(diverging).toEqual([
+      { path: '__self__', selector: '[data-testid="cta"]', property: 'width' },
+    ]);
+  });
+
+  test('treats differences within tolerance as consistent', () => {
+    const chromium = engineStyles({ __self__: { color: 'rgb(0, 0, 0)', width: '120px' } });
+    const firefox = engineStyles({ __self__: { color: 'rgb(1, 1, 1)', width: '120.2px' } });
+
+    expect(compareEngineStyles(chromium, firefox)).toEqual({ styleDiffs: [], diverging: [] });
+  });
+
+  test('skips elements missing from the other engine', () => {
+    const chromium = engineStyles({ __self__: { width: '120px' }, '__self__ > :nth-child(1)': {} });
+    const firefox = engineStyles({ __self__: { width: '120px' } });
+
+    expect(compareEngineStyles(chromium, firefox).styleDiffs).toEqual([]);
+  });
+});
+
+describe('collectDivergences', () => {
+  test('merges pairs per property with the value of every engine', () => {
+    const captures = new Map([
+      ['chromium', engineStyles({ __self__: { width: '120px' } })],
+      ['firefox', engineStyles({ __self__: { width: '120px' } })],
+      ['webkit', engineStyles({ __self__: { width: '124px' } })],
+    ] as const);
+    const width = { path: '__self__', selector: '[data-testid="cta"]', property: 'width' };
+
+    const divergences = collectDivergences(new Map(captures), [
+      { baseline: 'chromium', engine: 'firefox', diverging: [] },
+      { baseline: 'chromium', engine: 'webkit', diverging: [width] },
+      { baseline: 'firefox', engine: 'webkit', diverging: [width] },
+    ]);
+
+    expect(divergences).toEqual([
+      {
+        ...width,
+        values: { chromium: '120px', firefox: '120px', webkit: '124px' },
+        pairs: ['chromium/webkit', 'firefox/webkit'],
+      },
+    ]);
+  });
+});
+
+describe('uiMatchCrossBrowser', () => {
+  test('requires at least two different engines', async () => {
+    await expect(
+      uiMatchCrossBrowser({ story: 'about:blank', selector: 'body', browsers: ['webkit'] })
+    ).rejects.toThrow('browsers must list at least two different engines');
+    await expect(
+      uiMatchCrossBrowser({
+        story: 'about:blank',
+        selector: 'body',
+        browsers: ['firefox', 'firefox'],
+      })
+    ).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Cross-engine consistency: one selector captured in several engines, every pair compared
+ * pixel by pixel and by computed styles (implementation against implementation).
+ */
+
+import type {
+  BrowserEngine,
+  CrossBrowserArgs,
+  CrossBrowserDivergence,
+  CrossBrowserPair,
+  CrossBrowserResult,
+  StyleDiff,
+  Thresholds,
+} from '#plugin/types/index';
+import type { CaptureResult } from '@uimatch/core';
+import { buildStyleDiffs, captureTarget, compareImagesAsync } from '@uimatch/core';
+
+const DEFAULT_BROWSERS: BrowserEngine[] = ['chromium', 'firefox', 'webkit'];
+
+const DEFAULT_MAX_PIXEL_DIFF = 0.01;
+
+/**
+ * Captured styles of one engine, as compared by {@link compareEngineStyles}.
+ */
+export type EngineStyles = Pick<CaptureResult, 'styles' | 'meta'>;
+
+/**
+ * Compare the computed styles of `engine` against those of `baseline`, element by element.
+ * A property diverges when it alone, compared within the tolerances, is a difference.
+ *
+ * @returns Style diffs with a difference, and the diverging properties per style key
+ */
+export function compareEngineStyles(
+  baseline: EngineStyles,
+  engine: EngineStyles,
+  thresholds: Thresholds = {}
+): {
+  styleDiffs: StyleDiff[];
+  diverging: Array<{ path: string; selector: string; property: string }>;
+} {
+  const styleDiffs: StyleDiff[] = [];
+  const diverging: Array<{ path: string; selector: string; property: string }> = [];
+  const diff = (path: string, expected: Record<string, string>): StyleDiff | undefined => {
+    const actual = engine.styles[path];
+    if (!actual) return undefined;
+    const meta = baseline.meta?.[path];
+    const [result] = buildStyleDiffs(
+      { [path]: actual },
+      { [path]: expected },
+      {
+        thresholds,
+        meta: meta ? { [path]: meta } : undefined,
+      }
+    );
+    return result && result.severity !== 'low' ? result : undefined;
+  };
+
+  for (const [path, expected] of Object.entries(baseline.styles)) {
+    const elementDiff = diff(path, expected);
+    if (!elementDiff) continue;
+    styleDiffs.push(elementDiff);
+    // Auxiliary entries (box-shadow offsets, gradient angle) are not captured properties
+    for (const property of Object.keys(elementDiff.properties)) {
+      const value = expected[property];
+      if (value === undefined) continue;
+      if (diff(path, { [property]: value })) {
+        diverging.push({ path, selector: elementDiff.selector, property });
+      }
+    }
+  }
+
+  return { styleDiffs, diverging };
+}
+
+/**
+ * Merge the diverging properties of every pair into one entry per element and property,
+ * with the computed value of each captured engine.
+ */
+export function collectDivergences(
+  captures: Map<BrowserEngine, EngineStyles>,
+  pairs: Array<{
+    baseline: BrowserEngine;
+    engine: BrowserEngine;
+    diverging: Array<{ path: string; selector: string; property: string }>;
+  }>
+): CrossBrowserDivergence[] {
+  const byKey = new Map<string, CrossBrowserDivergence>();
+  for (const { baseline, engine, diverging } of pairs) {
+    for (const { path, selector, property } of diverging) {
+      const key = `${path}\n${property}`;
+      let entry = byKey.get(key);
+      if (!entry) {
+        const values: CrossBrowserDivergence['values'] = {};
+        for (const [name, capture] of captures) {
+          const value = capture.styles[path]?.[property];
+          if (value !== undefined) values[name] = value;
+        }
+        entry = { selector, path, property, values, pairs: [] };
+        byKey.set(key, entry);
+      }
+      entry.pairs.push(`${baseline}/${engine}`);
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Capture one selector in several engines and compare every pair of captures: pixels with
+ * `compareImages` (padded to a common size) and computed styles with `buildStyleDiffs`.
+ *
+ * @throws RangeError with fewer than two distinct engines, or with `focus-visible`
+ *
+ * @example
+ * ```typescript
+ * const { report } = await uiMatchCrossBrowser({
+ *   story: 'http://localhost:6006/iframe.html?id=button--primary',
+ *   selector: '#storybook-root button',
+ * });
+ * for (const d of report.divergences) console.log(d.property, d.values);
+ * ```
+ */
+export async function uiMatchCrossBrowser(args: CrossBrowserArgs): Promise<CrossBrowserResult> {
+  const browsers = args.browsers ?? DEFAULT_BROWSERS;
+  if (browsers.length < 2 || new Set(browsers).size !== browsers.length) {
+    throw new RangeError('browsers must list at least two different engines');
+  }
+  if (args.state === 'focus-visible') {
+    throw new RangeError('state "focus-visible" requires Chromium and cannot be compared');
+  }
+  const thresholds = args.thresholds ?? {};
+  const maxPixelDiff = thresholds.pixelDiffRatio ?? DEFAULT_MAX_PIXEL_DIFF;
+
+  // One engine at a time: each capture may launch its own browser
+  const captures = new Map<BrowserEngine, CaptureResult>();
+  for (const browser of browsers) {
+    captures.set(
+      browser,
+      await captureTarget({
+        url: args.story,
+        selector: args.selector,
+        browser,
+        viewport: args.viewport,
+        dpr: args.dpr ?? 2,
+        state: args.state,
+        steps: args.steps,
+        colorScheme: args.colorScheme,
+        reducedMotion: args.reducedMotion,
+        forcedColors: args.forcedColors,
+        media: args.media,
+        detectStorybookIframe: args.detectStorybookIframe,
+        storageState: args.storageState,
+        cookies: args.cookies,
+        extraHTTPHeaders: args.extraHTTPHeaders,
+        reuseBrowser: args.reuseBrowser,
+      })
+    );
+  }
+
+  const shots = Array.from(captures);
+  const pairs: CrossBrowserPair[] = [];
+  const pairDivergences: Parameters<typeof collectDivergences>[1] = [];
+  const diffs: Record<string, string> = {};
+  for (const [i, [baseline, a]] of shots.entries()) {
+    for (const [engine, b] of shots.slice(i + 1)) {
+      const pixels = await compareImagesAsync({
+        figmaPngB64: a.implPng.toString('base64'),
+        implPngB64: b.implPng.toString('base64'),
+        // Engines may lay the element out at slightly different sizes
+        sizeMode: 'pad',
+        align: 'top-left',
+        contentBasis: 'intersection',
+        diffRegions: false,
+      });
+      const { styleDiffs, diverging } = compareEngineStyles(a, b, thresholds);
+      diffs[`${baseline}-${engine}`] = pixels.diffPngB64;
+      pairDivergences.push({ baseline, engine, diverging });
+      pairs.push({
+        baseline,
+        engine,
+        pixelDiffRatio: pixels.pixelDiffRatio,
+        colorDeltaEAvg: pixels.colorDeltaEAvg ?? 0,
+        dimensions: { baseline: pixels.dimensions.figma, engine: pixels.dimensions.impl },
+        styleDiffs,
+        consistent: pixels.pixelDiffRatio <= maxPixelDiff && diverging.length === 0,
+      });
+    }
+  }
+
+  const divergences = collectDivergences(captures, pairDivergences);
+  const consistent = pairs.every((p) => p.consistent);
+  const summary = [
+    consistent ? 'consistent' : 'inconsistent',
+    ...pairs.map((p, i) => {
+      const count = pairDivergences[i]?.diverging.length ?? 0;
+      return `${p.baseline}/${p.engine}: pixelDiffRatio ${(p.pixelDiffRatio * 100).toFixed(2)}%, ${count} diverging properties`;
+    }),
+  ].join(' | ');
+
+  return {
+    summary,
+    report: {
+      browsers: shots.map(([engine, c]) => c.browser ?? { engine, version: 'unknown' }),
+      pairs,
+      divergences,
+      consistent,
+      artifacts: args.emitArtifacts
+        ? {
+            captures: Object.fromEntries(
+              shots.map(([engine, c]) => [engine, c.implPng.toString('base64')])
+            ),
+            diffs,
+          }
+        : undefined,
+    },
+  };
+}
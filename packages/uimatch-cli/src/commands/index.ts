@@ -1,3 +1,5 @@
 export { closeUiMatchBrowsers } from './browsers';
 export { assertFigmaSourceConfigured, uiMatchCompare } from './compare';
+export { uiMatchCrossBrowser } from './cross-browser';
 export { getSettings, resetSettings } from './settings';
+export { uiMatchVariants } from './variants';
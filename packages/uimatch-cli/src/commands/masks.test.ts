@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest';
+import { findFigmaLayerBoxes, resolveMaskRegions } from './masks.js';
+
+const figmaNode = {
+  id: '1:1',
+  name: 'Card',
+  absoluteBoundingBox: { x: 100, y: 200, width: 320, height: 120 },
+  children: [
+    {
+      id: '1:2',
+      name: 'Avatar',
+      absoluteBoundingBox: { x: 116, y: 216, width: 40, height: 40 },
+      children: [
+        {
+          id: '1:3',
+          name: 'Avatar',
+          absoluteBoundingBox: { x: 120, y: 220, width: 32, height: 32 },
+        },
+      ],
+    },
+    {
+      id: '1:4',
+      name: 'Timestamp',
+      visible: false,
+      absoluteBoundingBox: { x: 300, y: 216, width: 80, height: 16 },
+    },
+  ],
+};
+
+describe('findFigmaLayerBoxes', () => {
+  test('returns boxes relative to the root node by name or id', () => {
+    expect(findFigmaLayerBoxes(figmaNode, ['Avatar'])).toEqual([
+      { layer: 'Avatar', x: 16, y: 16, width: 40, height: 40 },
+    ]);
+    expect(findFigmaLayerBoxes(figmaNode, ['1-3'])).toEqual([
+      { layer: '1-3', x: 20, y: 20, width: 32, height: 32 },
+    ]);
+  });
+
+  test('skips hidden layers and nodes without bounds', () => {
+    expect(findFigmaLayerBoxes(figmaNode, ['Timestamp'])).toEqual([]);
+    expect(findFigmaLayerBoxes({ name: 'Root' }, ['Root'])).toEqual([]);
+  });
+});
+
+describe('resolveMaskRegions', () => {
+  test('scales each mask source into its image space', () => {
+    const regions = resolveMaskRegions({
+      mask: { rects: [{ x: 10, y: 5, width: 20, height: 10 }] },
+      figmaScale: 2,
+      dpr: 3,
+      captureBox: { x: 50, y: 60, width: 100, height: 100 },
+      maskBoxes: [{ selector: '.avatar', x: 60, y: 70, width: 10, height: 10 }],
+      figmaLayerBoxes: [{ layer: 'Avatar', x: 16, y: 16, width: 40, height: 40 }],
+    });
+
+    expect(regions).toEqual([
+      { x: 20, y: 10, width: 40, height: 20, space: 'figma', label: 'rect:10,5,20,10' },
+      { x: 30, y: 30, width: 30, height: 30, space: 'impl', label: 'selector:.avatar' },
+      { x: 32, y: 32, width: 80, height: 80, space: 'figma', label: 'figmaLayer:Avatar' },
+    ]);
+  });
+});
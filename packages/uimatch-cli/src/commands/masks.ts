@@ -0,0 +1,117 @@
+/**
+ * Mask resolution for compare: turns CLI/suite mask definitions into
+ * pixel-space regions understood by compareImages.
+ */
+
+import type { CompareMask } from '#plugin/types/index';
+import type { CaptureResult, MaskRegion } from '@uimatch/core';
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * Find Figma layers by name or node ID and return their boxes relative to the root node.
+ * Coordinates are design pixels (multiply by figmaScale for PNG pixels).
+ * Hidden layers are skipped; every matching layer is returned.
+ *
+ * @param rootNode - Figma node document (as returned by REST `getNode`)
+ * @param layers - Layer names or node IDs (`1:23` or `1-23`)
+ * @returns Matching boxes labelled with the requested layer
+ */
+export function findFigmaLayerBoxes(
+  rootNode: unknown,
+  layers: readonly string[]
+): Array<Box & { layer: string }> {
+  const root = rootNode as { absoluteBoundingBox?: Box } | null;
+  const origin = root?.absoluteBoundingBox;
+  if (!origin || layers.length === 0) return [];
+
+  const wanted = layers.map((layer) => ({ layer, id: layer.replace(/-/g, ':') }));
+  const out: Array<Box & { layer: string }> = [];
+
+  const walk = (n: unknown): void => {
+    if (!n || typeof n !== 'object') return;
+    const node = n as {
+      id?: string;
+      name?: string;
+      visible?: boolean;
+      absoluteBoundingBox?: Box;
+      children?: unknown[];
+    };
+    if (node.visible === false) return;
+
+    const box = node.absoluteBoundingBox;
+    if (box && node !== rootNode) {
+      const hit = wanted.find((w) => w.layer === node.name || w.id === node.id);
+      if (hit) {
+        out.push({
+          layer: hit.layer,
+          x: box.x - origin.x,
+          y: box.y - origin.y,
+          width: box.width,
+          height: box.height,
+        });
+        // Descendants are already covered by this box
+        return;
+      }
+    }
+
+    for (const child of Array.isArray(node.children) ? node.children : []) walk(child);
+  };
+  walk(rootNode);
+
+  return out;
+}
+
+/**
+ * Convert mask definitions into compareImages mask regions.
+ *
+ * - `rects` are design CSS pixels relative to the Figma node → scaled by figmaScale (figma space)
+ * - selector boxes are page coordinates → made relative to the captured box and scaled by dpr (impl space)
+ * - Figma layer boxes are design pixels relative to the root → scaled by figmaScale (figma space)
+ *
+ * @returns Regions in source-image pixels
+ */
+export function resolveMaskRegions(params: {
+  mask: CompareMask;
+  figmaScale: number;
+  dpr: number;
+  captureBox?: CaptureResult['box'];
+  maskBoxes?: CaptureResult['maskBoxes'];
+  figmaLayerBoxes?: Array<Box & { layer: string }>;
+}): MaskRegion[] {
+  const { mask, figmaScale, dpr, captureBox, maskBoxes = [], figmaLayerBoxes = [] } = params;
+  const regions: MaskRegion[] = [];
+
+  const scaled = (box: Box, factor: number): Box => ({
+    x: box.x * factor,
+    y: box.y * factor,
+    width: box.width * factor,
+    height: box.height * factor,
+  });
+
+  for (const rect of mask.rects ?? []) {
+    regions.push({
+      ...scaled(rect, figmaScale),
+      space: 'figma',
+      label: `rect:${rect.x},${rect.y},${rect.width},${rect.height}`,
+    });
+  }
+
+  if (captureBox) {
+    for (const mb of maskBoxes) {
+      const relative = {
+        x: mb.x - captureBox.x,
+        y: mb.y - captureBox.y,
+        width: mb.width,
+        height: mb.height,
+      };
+      regions.push({ ...scaled(relative, dpr), space: 'impl', label: `selector:${mb.selector}` });
+    }
+  }
+
+  for (const lb of figmaLayerBoxes) {
+    regions.push({ ...scaled(lb, figmaScale), space: 'figma', label: `figmaLayer:${lb.layer}` });
+  }
+
+  return regions;
+}
@@ -0,0 +1,30 @@
+import { buildStyleDiffs } from '@uimatch/core';
+import { describe, expect, test } from 'vitest';
+import { pruneStyleDiffs } from './prune-style-diffs.js';
+
+describe('pruneStyleDiffs', () => {
+  test('keeps shifted gradient stops whose colors match', () => {
+    const diffs = buildStyleDiffs(
+      {
+        __self__: {
+          'background-image': 'linear-gradient(90deg, rgb(255, 0, 0) 20%, rgb(0, 0, 255) 100%)',
+        },
+      },
+      { __self__: { 'background-image': 'linear-gradient(90deg, #ff0000 0%, #0000ff 100%)' } }
+    );
+
+    const [diff] = pruneStyleDiffs(diffs, false);
+    expect(Object.keys(diff?.properties ?? {})).toEqual(['background-image-stops']);
+    expect(diff?.properties['background-image-stops']).toMatchObject({ delta: 20, unit: '%' });
+  });
+
+  test.each(["'→'", '→', '"→"'])('drops generated content matching %s', (content) => {
+    const diffs = buildStyleDiffs(
+      { '__self__::before': { content: '"→"', color: 'rgb(255, 0, 0)' } },
+      { '__self__::before': { content, color: 'rgb(0, 0, 255)' } }
+    );
+
+    const [diff] = pruneStyleDiffs(diffs, false);
+    expect(Object.keys(diff?.properties ?? {})).toEqual(['color']);
+  });
+});
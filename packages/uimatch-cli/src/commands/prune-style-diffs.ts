@@ -0,0 +1,87 @@
+/**
+ * Report JSON compression strategy:
+ * - Excludes delta===0 entries (perfect matches)
+ * - Categorical properties: only keeps mismatches (actual!==expected)
+ * - patchHints: high severity only (unless verbose=true)
+ * - meta: minimal { tag, cssSelector } (unless verbose=true)
+ *
+ * @param diffs - Style differences from compareImages
+ * @param verbose - Show full patchHints and meta details
+ * @returns Filtered diffs containing only non-zero differences with optimized hints/meta
+ */
+export function pruneStyleDiffs(
+  diffs: Array<{
+    selector: string;
+    properties: Record<
+      string,
+      {
+        actual?: string;
+        expected?: string;
+        expectedToken?: string;
+        delta?: number;
+        unit?: string;
+      }
+    >;
+    severity: 'low' | 'medium' | 'high';
+    patchHints?: Array<{
+      property: string;
+      suggestedValue: string;
+      severity: 'low' | 'medium' | 'high';
+    }>;
+    meta?: {
+      tag: string;
+      id?: string;
+      class?: string;
+      testid?: string;
+      cssSelector?: string;
+      height?: number;
+    };
+  }>,
+  verbose: boolean
+): typeof diffs {
+  // Helper: Keep property only if it has a non-zero difference
+  const keepProp = (p: { actual?: string; expected?: string; delta?: number; unit?: string }) => {
+    if (!p) return false;
+    // Categorical (e.g. display): keep only mismatches
+    if (p.unit === 'categorical') {
+      return (
+        p.delta === 1 ||
+        (p.actual !== undefined && p.expected !== undefined && p.actual !== p.expected)
+      );
+    }
+    // Numeric (px/ΔE): keep only non-zero delta
+    if (typeof p.delta === 'number') {
+      return Math.abs(p.delta) > 0;
+    }
+    // Fallback: keep if values differ
+    return p.actual !== undefined && p.expected !== undefined && p.actual !== p.expected;
+  };
+
+  return diffs
+    .map((d) => {
+      // Filter properties with non-zero differences
+      const prunedProps = Object.fromEntries(
+        Object.entries(d.properties).filter(([, v]) => keepProp(v))
+      );
+
+      // patchHints: high only (verbose shows all)
+      const prunedHints = (d.patchHints ?? []).filter((h) =>
+        verbose ? true : h.severity === 'high'
+      );
+
+      // meta: minimal {tag, cssSelector} (verbose shows all)
+      const slimMeta = !d.meta
+        ? undefined
+        : verbose
+          ? d.meta
+          : { tag: d.meta.tag, cssSelector: d.meta.cssSelector };
+
+      return {
+        ...d,
+        properties: prunedProps,
+        patchHints: prunedHints,
+        meta: slimMeta,
+      };
+    })
+    .filter((d) => Object.keys(d.properties).length > 0); // Remove selectors with no differences
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'vitest';
+import { detectScaleNormalization } from './scale.js';
+
+const captureBox = { width: 320, height: 120 };
+
+describe('detectScaleNormalization', () => {
+  test('leaves matching scales alone', () => {
+    const scale = detectScaleNormalization({
+      figmaPngSize: { width: 640, height: 240 },
+      implPngSize: { width: 640, height: 240 },
+      captureBox,
+      requestedFigmaScale: 2,
+    });
+    expect(scale).toMatchObject({ figmaScale: 2, implScale: 2, ratio: 1 });
+    expect(scale?.resample).toBeUndefined();
+  });
+
+  test('shrinks the denser Figma export', () => {
+    const scale = detectScaleNormalization({
+      figmaPngSize: { width: 640, height: 240 },
+      implPngSize: { width: 320, height: 120 },
+      captureBox,
+      requestedFigmaScale: 2,
+    });
+    expect(scale).toMatchObject({ ratio: 2, integerRatio: true });
+    expect(scale?.resample).toEqual({ target: 'figma', factor: 0.5 });
+  });
+
+  test('shrinks the denser capture and flags non-integer ratios', () => {
+    const scale = detectScaleNormalization({
+      figmaPngSize: { width: 320, height: 120 },
+      implPngSize: { width: 480, height: 180 },
+      captureBox,
+      requestedFigmaScale: 1,
+    });
+    expect(scale).toMatchObject({ figmaScale: 1, implScale: 1.5, integerRatio: false });
+    expect(scale?.resample).toEqual({ target: 'impl', factor: 1 / 1.5 });
+  });
+
+  test('measures the Figma scale against the node render bounds', () => {
+    const scale = detectScaleNormalization({
+      figmaPngSize: { width: 984, height: 384 },
+      implPngSize: { width: 328, height: 128 },
+      captureBox: { width: 328, height: 128 },
+      figmaNode: {
+        absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 120 },
+        absoluteRenderBounds: { x: -4, y: -4, width: 328, height: 128 },
+      },
+      requestedFigmaScale: 2,
+    });
+    expect(scale).toMatchObject({ figmaScale: 3, implScale: 1 });
+    expect(scale?.resample?.target).toBe('figma');
+    expect(scale?.resample?.factor).toBeCloseTo(1 / 3);
+  });
+
+  test('returns undefined when the Figma scale is unknown', () => {
+    expect(
+      detectScaleNormalization({
+        figmaPngSize: { width: 640, height: 240 },
+        implPngSize: { width: 320, height: 120 },
+        captureBox,
+      })
+    ).toBeUndefined();
+  });
+});
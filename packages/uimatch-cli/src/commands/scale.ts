@@ -0,0 +1,77 @@
+/**
+ * Pixel density normalization for compare: measures how many image pixels the
+ * Figma export and the capture use per CSS pixel, and picks the side to resample.
+ */
+
+type Size = { width: number; height: number };
+
+/**
+ * Scale ratios closer to 1 (or to an integer) than this are treated as exact.
+ */
+const RATIO_TOLERANCE = 0.01;
+
+export interface ScaleNormalization {
+  /** Figma export pixels per design pixel */
+  figmaScale: number;
+  /** Capture pixels per CSS pixel */
+  implScale: number;
+  /** Denser scale divided by the sparser one (≥ 1) */
+  ratio: number;
+  /** Whether `ratio` is a whole number (within tolerance) */
+  integerRatio: boolean;
+  /** Resampling that brings both images to the sparser scale; absent when scales match */
+  resample?: { target: 'figma' | 'impl'; factor: number };
+}
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/**
+ * Bounds Figma renders for a node: `absoluteRenderBounds` includes effects such as
+ * drop shadows (exports cover them), `absoluteBoundingBox` is the layout box.
+ */
+function figmaNodeBounds(node: unknown): Size | undefined {
+  const n = node as { absoluteRenderBounds?: Size | null; absoluteBoundingBox?: Size } | null;
+  const bounds = n?.absoluteRenderBounds ?? n?.absoluteBoundingBox;
+  return bounds && bounds.width > 0 && bounds.height > 0 ? bounds : undefined;
+}
+
+/**
+ * Detect the scale of both images and the resampling needed to compare them at a common scale.
+ * Design pixels and CSS pixels are assumed to be the same unit.
+ *
+ * The Figma scale is measured from the PNG width and the node bounds when the node
+ * document is available, otherwise the scale requested from the Figma API is used.
+ * Without either (e.g. a bypass PNG without token) nothing can be detected.
+ *
+ * @returns Detected scales, or undefined when a scale is unknown
+ */
+export function detectScaleNormalization(params: {
+  figmaPngSize: Size;
+  implPngSize: Size;
+  /** CSS box of the captured element */
+  captureBox: Size;
+  /** Figma node document (REST `getNode`) */
+  figmaNode?: unknown;
+  /** Scale the PNG was exported at, when it was fetched from Figma */
+  requestedFigmaScale?: number;
+}): ScaleNormalization | undefined {
+  const { figmaPngSize, implPngSize, captureBox, figmaNode, requestedFigmaScale } = params;
+
+  const bounds = figmaNodeBounds(figmaNode);
+  const figmaScale = bounds ? round2(figmaPngSize.width / bounds.width) : requestedFigmaScale;
+  if (!figmaScale || captureBox.width <= 0) return undefined;
+  const implScale = round2(implPngSize.width / captureBox.width);
+  if (implScale <= 0) return undefined;
+
+  const ratio = Math.max(figmaScale, implScale) / Math.min(figmaScale, implScale);
+  const integerRatio = Math.abs(ratio - Math.round(ratio)) < RATIO_TOLERANCE;
+  const detection: ScaleNormalization = { figmaScale, implScale, ratio, integerRatio };
+  if (ratio - 1 < RATIO_TOLERANCE) return detection;
+
+  // Shrink the denser image: downsampling keeps edges crisp, upsampling would invent pixels
+  detection.resample =
+    figmaScale > implScale
+      ? { target: 'figma', factor: implScale / figmaScale }
+      : { target: 'impl', factor: figmaScale / implScale };
+  return detection;
+}
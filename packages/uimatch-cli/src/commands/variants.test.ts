@@ -0,0 +1,100 @@
+import { registerDesignSource } from '#plugin/adapters/design-sources';
+import { describe, expect, test } from 'vitest';
+import {
+  listVariants,
+  parseVariantName,
+  renderStoryTemplate,
+  uiMatchVariants,
+} from './variants.js';
+
+const componentSet = {
+  id: '10:2',
+  name: 'Button',
+  type: 'COMPONENT_SET',
+  componentPropertyDefinitions: {
+    Size: { type: 'VARIANT', variantOptions: ['Small', 'Large'] },
+    Intent: { type: 'VARIANT', variantOptions: ['Primary', 'Danger'] },
+    Label: { type: 'TEXT' },
+  },
+  children: [
+    { id: '10:3', name: 'Size=Small, Intent=Primary', type: 'COMPONENT' },
+    { id: '10:4', name: 'Size=Large, Intent=Danger', type: 'COMPONENT' },
+    { id: '10:5', name: 'Notes', type: 'TEXT' },
+  ],
+};
+
+describe('parseVariantName', () => {
+  test('reads property=value pairs', () => {
+    expect(parseVariantName('Size=sm, Has Icon=true')).toEqual({ Size: 'sm', 'Has Icon': 'true' });
+    expect(parseVariantName('Default')).toEqual({});
+  });
+});
+
+describe('listVariants', () => {
+  test('lists component children with their variant properties', () => {
+    expect(listVariants(componentSet)).toEqual({
+      name: 'Button',
+      properties: { Size: ['Small', 'Large'], Intent: ['Primary', 'Danger'] },
+      variants: [
+        {
+          name: 'Size=Small, Intent=Primary',
+          nodeId: '10:3',
+          properties: { Size: 'Small', Intent: 'Primary' },
+        },
+        {
+          name: 'Size=Large, Intent=Danger',
+          nodeId: '10:4',
+          properties: { Size: 'Large', Intent: 'Danger' },
+        },
+      ],
+    });
+  });
+
+  test('rejects nodes other than component sets', () => {
+    expect(() => listVariants({ type: 'FRAME', name: 'Card' })).toThrow(
+      'figma must reference a component set, got FRAME "Card"'
+    );
+  });
+});
+
+describe('renderStoryTemplate', () => {
+  const properties = { Size: 'Extra Large', Intent: 'Primary', 'Has Icon': 'true' };
+
+  test('inserts values, story ID segments and Storybook args', () => {
+    expect(
+      renderStoryTemplate('/iframe.html?id=button--{intent|id}&args=size:{size}', properties)
+    ).toBe('/iframe.html?id=button--primary&args=size:Extra%20Large');
+    expect(
+      renderStoryTemplate('/iframe.html?id=button--{size|id}&args={args}', properties, {
+        size: { 'Extra Large': 'xl' },
+      })
+    ).toBe('/iframe.html?id=button--xl&args=size:xl;intent:Primary;hasIcon:!true');
+  });
+
+  test('rejects unknown placeholders', () => {
+    expect(() => renderStoryTemplate('?id=button--{variant}', properties)).toThrow(
+      'Unknown variant property {variant} in story template (properties: Size, Intent, Has Icon)'
+    );
+    expect(() => renderStoryTemplate('?id={size|upper}', properties)).toThrow(RangeError);
+  });
+});
+
+describe('uiMatchVariants', () => {
+  test('checks the story template against every variant before capturing', async () => {
+    registerDesignSource('variants-test', () => ({
+      name: 'variants-test',
+      resolveRef: (ref) => Promise.resolve({ fileKey: 'AbCdEf', nodeId: ref }),
+      getImage: () => Promise.resolve(Buffer.alloc(0)),
+      getNode: () => Promise.resolve(componentSet),
+    }));
+
+    await expect(
+      uiMatchVariants({
+        figma: '10:2',
+        story: 'http://localhost:6006/iframe.html?id=button--{state|id}',
+        selector: 'button',
+        designSource: 'variants-test',
+      })
+    ).rejects.toThrow('Unknown variant property {state|id} in story template');
+  });
+});
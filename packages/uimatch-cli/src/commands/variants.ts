@@ -0,0 +1,225 @@
+/**
+ * Variant sweep: every variant of a Figma component set compared against the Storybook
+ * story its variant properties map to, on one pooled browser.
+ */
+
+import { createDesignSource } from '#plugin/adapters/design-sources';
+import type { VariantResult, VariantsArgs, VariantsResult } from '#plugin/types/index';
+import { UiMatchError } from '@uimatch/core';
+import { closeUiMatchBrowsers } from './browsers';
+import { assertFigmaSourceConfigured, uiMatchCompare } from './compare';
+
+type FigmaNode = {
+  id?: string;
+  name?: string;
+  type?: string;
+  children?: FigmaNode[];
+  componentPropertyDefinitions?: Record<string, { type?: string; variantOptions?: string[] }>;
+};
+
+/**
+ * Variant properties of a variant node name: `Size=sm, Intent=primary` →
+ * `{ Size: 'sm', Intent: 'primary' }`.
+ */
+export function parseVariantName(name: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const eq = part.indexOf('=');
+    if (eq <= 0) continue;
+    const property = part.slice(0, eq).trim();
+    if (property) properties[property] = part.slice(eq + 1).trim();
+  }
+  return properties;
+}
+
+/**
+ * Variants of a COMPONENT_SET node, with the variant properties and their values in
+ * Figma order (from `componentPropertyDefinitions`, else from the variant names).
+ *
+ * @throws UiMatchError (`UIMATCH_CONFIG_INVALID_FIGMA_REF`) when the node is not a
+ * component set
+ */
+export function listVariants(node: Record<string, unknown>): {
+  name: string;
+  properties: Record<string, string[]>;
+  variants: Array<Pick<VariantResult, 'name' | 'nodeId' | 'properties'>>;
+} {
+  const set = node as FigmaNode;
+  if (set.type !== 'COMPONENT_SET') {
+    throw new UiMatchError(
+      'UIMATCH_CONFIG_INVALID_FIGMA_REF',
+      `figma must reference a component set, got ${set.type ?? 'unknown'} "${set.name ?? ''}"`
+    );
+  }
+
+  const properties: Record<string, string[]> = {};
+  for (const [key, definition] of Object.entries(set.componentPropertyDefinitions ?? {})) {
+    if (definition.type === 'VARIANT') properties[key] = [...(definition.variantOptions ?? [])];
+  }
+  const variants = (set.children ?? [])
+    .filter((child) => child.type === 'COMPONENT' && child.id && child.name)
+    .map((child) => ({
+      name: child.name ?? '',
+      nodeId: child.id ?? '',
+      properties: parseVariantName(child.name ?? ''),
+    }));
+  for (const variant of variants) {
+    for (const [property, value] of Object.entries(variant.properties)) {
+      const known = (properties[property] ??= []);
+      if (!known.includes(value)) known.push(value);
+    }
+  }
+
+  return { name: set.name ?? '', properties, variants };
+}
+
+/**
+ * `Extra Large` → `extra-large`, as Storybook derives story IDs.
+ */
+function toStoryId(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * `Has Icon` → `hasIcon`, as Storybook args are usually named.
+ */
+function toArgName(property: string): string {
+  const words = property.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  return words
+    .map((w, i) => (i === 0 ? w.charAt(0).toLowerCase() : w.charAt(0).toUpperCase()) + w.slice(1))
+    .join('');
+}
+
+/**
+ * Story URL of one variant from the `story` template (see {@link VariantsArgs.story}).
+ *
+ * @throws RangeError on a placeholder naming no variant property or an unknown modifier
+ */
+export function renderStoryTemplate(
+  template: string,
+  properties: Record<string, string>,
+  values: VariantsArgs['values'] = {}
+): string {
+  const storyValue = (property: string): string => {
+    const value = properties[property] ?? '';
+    const map = Object.entries(values).find(
+      ([key]) => key.toLowerCase() === property.toLowerCase()
+    )?.[1];
+    return map?.[value] ?? value;
+  };
+
+  return template.replace(/\{([^{}|]+)(?:\|([^{}]*))?\}/g, (placeholder, name: string, mod) => {
+    const modifier = mod as string | undefined;
+    if (name.trim() === 'args' && modifier === undefined) {
+      return Object.keys(properties)
+        .map((property) => {
+          const value = storyValue(property);
+          const arg = value === 'true' || value === 'false' ? `!${value}` : value;
+          return `${toArgName(property)}:${encodeURIComponent(arg)}`;
+        })
+        .join(';');
+    }
+
+    const property = Object.keys(properties).find(
+      (key) => key.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (property === undefined) {
+      throw new RangeError(
+        `Unknown variant property ${placeholder} in story template ` +
+          `(properties: ${Object.keys(properties).join(', ')})`
+      );
+    }
+    if (modifier !== undefined && modifier !== 'id') {
+      throw new RangeError(`Invalid story template modifier ${placeholder}: expected |id`);
+    }
+    const value = storyValue(property);
+    return modifier === 'id' ? toStoryId(value) : encodeURIComponent(value);
+  });
+}
+
+/**
+ * Compare every variant of a component set against its story, one after another on the
+ * pooled browser. A variant whose comparison fails is reported as drifting; invalid
+ * arguments and configuration abort the sweep.
+ *
+ * @throws UiMatchError when the design source has no node tree or `figma` is not a
+ * component set
+ * @throws RangeError when the story template does not fit the variants
+ *
+ * @example
+ * ```typescript
+ * const { report } = await uiMatchVariants({
+ *   figma: 'AbCdEf:10-2',
+ *   story: 'http://localhost:6006/iframe.html?id=button--{intent|id}&args=size:{size}',
+ *   selector: '#storybook-root button',
+ * });
+ * for (const v of report.variants) console.log(v.name, v.pass);
+ * ```
+ */
+export async function uiMatchVariants(args: VariantsArgs): Promise<VariantsResult> {
+  const { story: template, values, ...base } = args;
+  assertFigmaSourceConfigured(args.figma, args.figmaCache, args.designSource);
+
+  const source = await createDesignSource(
+    { figma: args.figma, figmaCache: args.figmaCache },
+    args.designSource
+  );
+  if (!source.getNode) {
+    throw new UiMatchError(
+      'UIMATCH_CONFIG_MISSING_FIGMA_TOKEN',
+      `Variants need the component set node tree, which the ${source.name} design source lacks ` +
+        '(set FIGMA_ACCESS_TOKEN)'
+    );
+  }
+  const ref = await source.resolveRef(args.figma);
+  const { fileKey, nodeId } = ref;
+  // Variants are compared at the version the component set is read at
+  const figmaVersion = ref.version ?? args.figmaVersion;
+  const set = listVariants(await source.getNode({ fileKey, nodeId, version: figmaVersion }));
+  // Render every story first, so a template mistake fails before any capture
+  const planned = set.variants.map((variant) => ({
+    ...variant,
+    story: renderStoryTemplate(template, variant.properties, values),
+  }));
+
+  const variants: VariantResult[] = [];
+  try {
+    for (const variant of planned) {
+      try {
+        const { summary, report } = await uiMatchCompare({
+          ...base,
+          figma: `${fileKey}:${variant.nodeId}`,
+          figmaVersion,
+          story: variant.story,
+          reuseBrowser: true,
+        });
+        variants.push({ ...variant, pass: Boolean(report.qualityGate?.pass), summary, report });
+      } catch (error) {
+        if (error instanceof RangeError) throw error;
+        if (error instanceof UiMatchError && error.category === 'usage') throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        variants.push({ ...variant, pass: false, summary: `error: ${message}`, error: message });
+      }
+    }
+  } finally {
+    if (!(args.reuseBrowser ?? false)) {
+      await closeUiMatchBrowsers();
+    }
+  }
+
+  const drifting = variants.filter((v) => !v.pass).length;
+  return {
+    summary: `${set.name}: ${variants.length - drifting}/${variants.length} variants pass`,
+    report: {
+      componentSet: { fileKey, nodeId, name: set.name },
+      properties: set.properties,
+      variants,
+      drifting,
+      pass: drifting === 0,
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'vitest';
+import {
+  figmaVariablesToTokens,
+  mergeTokenMaps,
+  parseFigmaLocalVariables,
+} from './figma-tokens.js';
+
+const response = {
+  status: 200,
+  meta: {
+    variableCollections: {
+      'VariableCollectionId:1': {
+        name: 'Theme',
+        defaultModeId: '1:0',
+        modes: [
+          { modeId: '1:1', name: 'Dark' },
+          { modeId: '1:0', name: 'Light' },
+        ],
+      },
+      'VariableCollectionId:2': {
+        name: 'Primitives',
+        defaultModeId: '2:0',
+        modes: [{ modeId: '2:0', name: 'Value' }],
+      },
+    },
+    variables: {
+      'VariableID:1': {
+        id: 'VariableID:1',
+        name: 'Blue/500',
+        variableCollectionId: 'VariableCollectionId:2',
+        resolvedType: 'COLOR',
+        valuesByMode: { '2:0': { r: 0, g: 0.4, b: 1, a: 1 } },
+        scopes: ['ALL_SCOPES'],
+      },
+      'VariableID:2': {
+        id: 'VariableID:2',
+        name: 'Surface/Brand',
+        variableCollectionId: 'VariableCollectionId:1',
+        resolvedType: 'COLOR',
+        valuesByMode: {
+          '1:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:1' },
+          '1:1': { r: 0, g: 0, b: 0, a: 1 },
+        },
+        scopes: ['FRAME_FILL'],
+      },
+      'VariableID:3': {
+        id: 'VariableID:3',
+        name: 'Radius/Small',
+        variableCollectionId: 'VariableCollectionId:2',
+        resolvedType: 'FLOAT',
+        valuesByMode: { '2:0': 4 },
+        scopes: ['CORNER_RADIUS'],
+      },
+      'VariableID:4': {
+        id: 'VariableID:4',
+        name: 'Flags/Enabled',
+        variableCollectionId: 'VariableCollectionId:2',
+        resolvedType: 'BOOLEAN',
+        valuesByMode: { '2:0': true },
+      },
+    },
+  },
+};
+
+describe('parseFigmaLocalVariables', () => {
+  test('resolves aliases per mode with the default mode first', () => {
+    const variables = parseFigmaLocalVariables(response);
+
+    expect(variables.map((v) => v.name)).toEqual(['Blue/500', 'Surface/Brand', 'Radius/Small']);
+    expect(variables[1]).toMatchObject({
+      id: 'VariableID:2',
+      type: 'color',
+      collection: 'Theme',
+      modes: ['Light', 'Dark'],
+      resolvedValue: '#0066ff',
+      valuesByMode: { Light: '#0066ff', Dark: '#000000' },
+    });
+  });
+});
+
+describe('figmaVariablesToTokens', () => {
+  const variables = parseFigmaLocalVariables(response);
+
+  test('groups variables into token names for the default mode', () => {
+    const { tokens, variableTokens } = figmaVariablesToTokens(variables);
+
+    expect(tokens).toEqual({
+      color: { '--blue-500': '#0066ff', '--surface-brand': '#0066ff' },
+      radius: { '--radius-small': '4px' },
+    });
+    expect(variableTokens).toEqual({
+      'VariableID:1': '--blue-500',
+      'VariableID:2': '--surface-brand',
+      'VariableID:3': '--radius-small',
+    });
+  });
+
+  test('applies the naming template and mode', () => {
+    const { tokens, variableTokens } = figmaVariablesToTokens(variables, {
+      naming: '--{collection}-{name}-{mode}',
+      mode: 'Dark',
+    });
+
+    expect(tokens.color).toMatchObject({
+      '--theme-surface-brand-light': '#0066ff',
+      '--theme-surface-brand-dark': '#000000',
+    });
+    expect(variableTokens['VariableID:2']).toBe('--theme-surface-brand-dark');
+    expect(() => figmaVariablesToTokens(variables, { naming: '{name}' })).toThrow(RangeError);
+  });
+});
+
+describe('mergeTokenMaps', () => {
+  test('keeps explicit tokens over imported ones', () => {
+    expect(
+      mergeTokenMaps(
+        { color: { '--brand': '#0066ff', '--ink': '#111111' } },
+        { color: { '--brand': '#0055EE' } }
+      )
+    ).toEqual({ color: { '--brand': '#0055EE', '--ink': '#111111' } });
+  });
+});
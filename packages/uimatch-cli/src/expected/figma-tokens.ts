@@ -0,0 +1,215 @@
+import type { FigmaVariable, FigmaVariablesOptions, TokenMap } from '../types/index.js';
+import { colorToCss, type FigmaColor } from './from-figma.js';
+
+type VariableAlias = { type?: string; id?: string };
+
+type RestVariable = {
+  id?: string;
+  name?: string;
+  variableCollectionId?: string;
+  resolvedType?: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode?: Record<string, unknown>;
+  scopes?: string[];
+};
+
+type RestCollection = {
+  name?: string;
+  modes?: Array<{ modeId: string; name: string }>;
+  defaultModeId?: string;
+};
+
+const REST_TYPES = { COLOR: 'color', FLOAT: 'number', STRING: 'string' } as const;
+
+export const DEFAULT_TOKEN_NAMING = '--{name}';
+
+/**
+ * Variables of a `GET /v1/files/:key/variables/local` response.
+ * Values are keyed by mode name; aliases to other local variables are resolved (in the
+ * same mode name when the target collection has it), remote aliases and booleans dropped.
+ */
+export function parseFigmaLocalVariables(response: Record<string, unknown>): FigmaVariable[] {
+  const meta = (response.meta ?? {}) as {
+    variables?: Record<string, RestVariable>;
+    variableCollections?: Record<string, RestCollection>;
+  };
+  const variables = meta.variables ?? {};
+  const collections = meta.variableCollections ?? {};
+
+  const modeNames = (collection?: RestCollection): Map<string, string> =>
+    new Map((collection?.modes ?? []).map((m) => [m.modeId, m.name]));
+
+  // Value of a variable in a mode (by name), following aliases
+  const valueIn = (variable: RestVariable, modeName: string, depth = 0): unknown => {
+    const collection = collections[variable.variableCollectionId ?? ''];
+    const names = modeNames(collection);
+    const modeId =
+      [...names].find(([, name]) => name === modeName)?.[0] ?? collection?.defaultModeId;
+    const raw = modeId ? variable.valuesByMode?.[modeId] : undefined;
+    const alias = raw as VariableAlias | undefined;
+    if (alias?.type === 'VARIABLE_ALIAS') {
+      const target = alias.id ? variables[alias.id] : undefined;
+      return target && depth < 10 ? valueIn(target, modeName, depth + 1) : undefined;
+    }
+    return raw;
+  };
+
+  const out: FigmaVariable[] = [];
+  for (const [id, variable] of Object.entries(variables)) {
+    const type = REST_TYPES[variable.resolvedType as keyof typeof REST_TYPES];
+    if (!type || !variable.name) continue;
+    const collection = collections[variable.variableCollectionId ?? ''];
+    const names = modeNames(collection);
+    const defaultMode = names.get(collection?.defaultModeId ?? '');
+    const modes = [...names.values()].sort((a, b) =>
+      a === defaultMode ? -1 : b === defaultMode ? 1 : 0
+    );
+
+    const valuesByMode: Record<string, string | number> = {};
+    for (const mode of modes) {
+      const value = toVariableValue(type, valueIn(variable, mode));
+      if (value !== undefined) valuesByMode[mode] = value;
+    }
+    if (Object.keys(valuesByMode).length === 0) continue;
+
+    out.push({
+      id: variable.id ?? id,
+      name: variable.name,
+      type,
+      resolvedValue: defaultMode === undefined ? undefined : valuesByMode[defaultMode],
+      modes,
+      collection: collection?.name,
+      valuesByMode,
+      scopes: variable.scopes,
+    });
+  }
+  return out;
+}
+
+/**
+ * CSS color for colors (Figma RGBA or an already CSS string), finite number for numbers.
+ */
+function toVariableValue(type: FigmaVariable['type'], value: unknown): string | number | undefined {
+  if (type === 'color') {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && 'r' in value) return colorToCss(value as FigmaColor);
+    return undefined;
+  }
+  if (type === 'number') {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * `Color/Primary 500` → `color-primary-500`
+ */
+function kebab(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9_-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * TokenMap group of a number variable: from its Figma scopes, else from its name.
+ * Undefined for scopes without a group (opacity, effects).
+ */
+function numberGroup(variable: FigmaVariable): 'spacing' | 'radius' | 'typography' | undefined {
+  const scopes = variable.scopes ?? [];
+  if (scopes.includes('CORNER_RADIUS')) return 'radius';
+  if (scopes.some((s) => s.startsWith('FONT_') || s === 'LINE_HEIGHT' || s === 'LETTER_SPACING')) {
+    return 'typography';
+  }
+  if (scopes.some((s) => ['ALL_SCOPES', 'GAP', 'WIDTH_HEIGHT', 'STROKE_FLOAT'].includes(s))) {
+    return 'spacing';
+  }
+  if (scopes.length > 0) return undefined;
+  if (/radius|corner|rounded/i.test(variable.name)) return 'radius';
+  if (/font|line.?height|letter|typo/i.test(variable.name)) return 'typography';
+  return 'spacing';
+}
+
+/**
+ * Validate a `figmaVariables.naming` template.
+ *
+ * @throws RangeError when the template does not produce a custom property name
+ */
+export function assertTokenNaming(naming: string): void {
+  if (!naming.startsWith('--') || !naming.includes('{name}')) {
+    throw new RangeError(
+      `Invalid figmaVariables naming "${naming}": expected a "--" prefix and {name}`
+    );
+  }
+}
+
+/**
+ * Figma variables as {@link TokenMap} entries keyed by CSS custom property name.
+ * Colors go to `color`, numbers to `spacing`, `radius` or `typography` (as px, except
+ * font weights); string variables are skipped.
+ *
+ * @returns The tokens, and the token name of each variable ID for `boundVariables`
+ * @throws RangeError when `naming` does not produce a custom property name
+ */
+export function figmaVariablesToTokens(
+  variables: readonly FigmaVariable[],
+  options: FigmaVariablesOptions = {}
+): { tokens: TokenMap; variableTokens: Record<string, string> } {
+  const naming = options.naming ?? DEFAULT_TOKEN_NAMING;
+  assertTokenNaming(naming);
+  const perMode = naming.includes('{mode}');
+  const tokenName = (variable: FigmaVariable, mode: string) =>
+    naming
+      .replace(/\{name\}/g, kebab(variable.name))
+      .replace(/\{collection\}/g, kebab(variable.collection ?? ''))
+      .replace(/\{mode\}/g, kebab(mode))
+      .replace(/-{3,}/g, '--');
+
+  const tokens: TokenMap = {};
+  const variableTokens: Record<string, string> = {};
+  for (const variable of variables) {
+    const group =
+      variable.type === 'color'
+        ? 'color'
+        : variable.type === 'number'
+          ? numberGroup(variable)
+          : undefined;
+    if (!group) continue;
+
+    const values = variable.valuesByMode ?? {
+      [variable.modes?.[0] ?? 'default']: variable.resolvedValue as string | number,
+    };
+    const defaultMode = variable.modes?.[0] ?? Object.keys(values)[0] ?? 'default';
+    const selectedMode =
+      options.mode !== undefined && options.mode in values ? options.mode : defaultMode;
+    const modes = perMode ? Object.keys(values) : [selectedMode];
+
+    const unitless =
+      group === 'typography' &&
+      (/weight/i.test(variable.name) || variable.scopes?.includes('FONT_WEIGHT'));
+
+    for (const mode of modes) {
+      const value = toVariableValue(variable.type, values[mode]);
+      if (value === undefined) continue;
+      const name = tokenName(variable, mode);
+      const css = typeof value === 'string' || unitless ? String(value) : `${value}px`;
+      (tokens[group] ??= {})[name] = css;
+      if (variable.id && mode === selectedMode) variableTokens[variable.id] = name;
+    }
+  }
+  return { tokens, variableTokens };
+}
+
+/**
+ * Merge token maps group by group; entries of `base` win.
+ */
+export function mergeTokenMaps(imported: TokenMap, base?: TokenMap): TokenMap {
+  const merged: TokenMap = { ...imported };
+  for (const [group, entries] of Object.entries(base ?? {}) as Array<
+    [keyof TokenMap, Record<string, string> | undefined]
+  >) {
+    merged[group] = { ...imported[group], ...entries };
+  }
+  return merged;
+}
@@ -2,6 +2,7 @@ import { describe, expect, test } from 'vitest';
 import {
   buildExpectedSpecFromFigma,
   buildExpectedSpecFromFigmaWithMetadata,
+  figmaBackgroundColor,
   type FigmaNodeLite,
 } from './from-figma.js';
 
@@ -181,3 +182,174 @@ describe('buildExpectedSpecFromFigma sizing', () => {
     ).toThrow(/Unsupported .*Figma horizontal sizing/);
   });
 });
+
+describe('buildExpectedSpecFromFigma gradients', () => {
+  const stops = [
+    { color: { r: 1, g: 0, b: 0, a: 1 }, position: 0 },
+    { color: { r: 0, g: 0, b: 1, a: 1 }, position: 1 },
+  ];
+
+  test('maps a linear gradient to an angle and stop positions', () => {
+    const spec = buildExpectedSpecFromFigma({
+      absoluteBoundingBox: { width: 200, height: 100 },
+      fills: [
+        {
+          type: 'GRADIENT_LINEAR',
+          gradientHandlePositions: [
+            { x: 0.25, y: 0.5 },
+            { x: 0.75, y: 0.5 },
+            { x: 0.25, y: 1 },
+          ],
+          gradientStops: stops,
+        },
+      ],
+    });
+
+    expect(spec.__self__?.['background-image']).toBe(
+      'linear-gradient(90deg, #ff0000 25%, #0000ff 75%)'
+    );
+  });
+
+  test('measures the angle in the node box, not in handle space', () => {
+    const spec = buildExpectedSpecFromFigma({
+      absoluteBoundingBox: { width: 200, height: 100 },
+      fills: [
+        {
+          type: 'GRADIENT_LINEAR',
+          gradientHandlePositions: [
+            { x: 0, y: 0 },
+            { x: 1, y: 1 },
+          ],
+          gradientStops: stops,
+          opacity: 0.5,
+        },
+      ],
+    });
+
+    expect(spec.__self__?.['background-image']).toBe(
+      'linear-gradient(116.6deg, rgba(255, 0, 0, 0.5) 0%, rgba(0, 0, 255, 0.5) 100%)'
+    );
+  });
+
+  test('maps a radial gradient to its radii and center', () => {
+    const spec = buildExpectedSpecFromFigma({
+      absoluteBoundingBox: { width: 200, height: 100 },
+      fills: [
+        {
+          type: 'GRADIENT_RADIAL',
+          gradientHandlePositions: [
+            { x: 0.5, y: 0.5 },
+            { x: 1, y: 0.5 },
+            { x: 0.5, y: 1 },
+          ],
+          gradientStops: stops,
+        },
+      ],
+    });
+
+    expect(spec.__self__?.['background-image']).toBe(
+      'radial-gradient(100px 50px at 50% 50%, #ff0000 0%, #0000ff 100%)'
+    );
+  });
+
+  test('ignores gradient fills on text', () => {
+    const spec = buildExpectedSpecFromFigma({
+      type: 'TEXT',
+      fills: [
+        {
+          type: 'GRADIENT_LINEAR',
+          gradientHandlePositions: [
+            { x: 0, y: 0 },
+            { x: 1, y: 0 },
+          ],
+          gradientStops: stops,
+        },
+      ],
+    });
+
+    expect(spec.__self__?.['background-image']).toBeUndefined();
+  });
+});
+
+describe('buildExpectedSpecFromFigmaWithMetadata variables', () => {
+  const alias = (id: string) => ({ type: 'VARIABLE_ALIAS', id });
+  const variableTokens = {
+    'VariableID:1': '--color-brand',
+    'VariableID:2': '--space-md',
+    'VariableID:3': '--radius-sm',
+  };
+
+  test('expects the token of bound fields', () => {
+    const { expectedSpec } = buildExpectedSpecFromFigmaWithMetadata(
+      {
+        fills: [
+          {
+            type: 'SOLID',
+            color: { r: 0, g: 0.4, b: 1, a: 1 },
+            boundVariables: { color: alias('VariableID:1') },
+          },
+        ],
+        layoutMode: 'HORIZONTAL',
+        itemSpacing: 16,
+        paddingLeft: 16,
+        paddingRight: 12,
+        cornerRadius: 4,
+        boundVariables: {
+          itemSpacing: alias('VariableID:2'),
+          paddingLeft: alias('VariableID:2'),
+          topLeftRadius: alias('VariableID:3'),
+          topRightRadius: alias('VariableID:3'),
+          bottomRightRadius: alias('VariableID:3'),
+          bottomLeftRadius: alias('VariableID:3'),
+        },
+      },
+      undefined,
+      variableTokens
+    );
+
+    expect(expectedSpec.__self__).toMatchObject({
+      'background-color': 'var(--color-brand)',
+      gap: 'var(--space-md)',
+      'padding-left': 'var(--space-md)',
+      'padding-right': '12px',
+      'border-radius': 'var(--radius-sm)',
+    });
+  });
+
+  test('keeps raw values for variables that were not imported', () => {
+    const { expectedSpec } = buildExpectedSpecFromFigmaWithMetadata({
+      cornerRadius: 4,
+      boundVariables: { topLeftRadius: alias('VariableID:3') },
+    });
+
+    expect(expectedSpec.__self__?.['border-radius']).toBe('4px');
+  });
+});
+
+describe('figmaBackgroundColor', () => {
+  test('uses the topmost visible solid fill', () => {
+    expect(
+      figmaBackgroundColor({
+        fills: [
+          { type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } },
+          { type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 }, visible: false },
+          { type: 'SOLID', color: { r: 0.0706, g: 0.0706, b: 0.0706, a: 1 } },
+        ],
+      })
+    ).toBe('#121212');
+  });
+
+  test('falls back to the frame backgroundColor', () => {
+    expect(figmaBackgroundColor({ fills: [], backgroundColor: { r: 0, g: 0, b: 0, a: 1 } })).toBe(
+      '#000000'
+    );
+  });
+
+  test('ignores translucent fills', () => {
+    expect(
+      figmaBackgroundColor({
+        fills: [{ type: 'SOLID', opacity: 0.5, color: { r: 0, g: 0, b: 0 } }],
+      })
+    ).toBeUndefined();
+  });
+});
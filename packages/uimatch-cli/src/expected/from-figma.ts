@@ -8,8 +8,19 @@ import type {
 /**
  * Minimal Figma node shapes we care about (partial & tolerant)
  */
-type FigmaColor = { r: number; g: number; b: number; a?: number };
-type FigmaPaint = { type?: string; visible?: boolean; color?: FigmaColor };
+export type FigmaColor = { r: number; g: number; b: number; a?: number };
+type FigmaVector = { x: number; y: number };
+type FigmaVariableAlias = { type?: string; id?: string };
+type FigmaPaint = {
+  type?: string;
+  visible?: boolean;
+  opacity?: number;
+  color?: FigmaColor;
+  boundVariables?: { color?: FigmaVariableAlias };
+  // Gradients: handles are in node-relative coordinates (0-1)
+  gradientHandlePositions?: FigmaVector[];
+  gradientStops?: Array<{ color?: FigmaColor; position?: number }>;
+};
 type FigmaEffect = {
   type?: string;
   visible?: boolean;
@@ -27,6 +38,7 @@ export interface FigmaNodeLite {
   // Fills / strokes
   fills?: FigmaPaint[];
   strokes?: FigmaPaint[];
+  backgroundColor?: FigmaColor; // frames and canvases (deprecated in favor of fills)
   strokeWeight?: number;
   // Corners
   cornerRadius?: number;
@@ -57,6 +69,8 @@ export interface FigmaNodeLite {
   };
   // Dimensions
   absoluteBoundingBox?: { width?: number; height?: number };
+  // Variables bound to fields (`fills`, `itemSpacing`, `paddingLeft`, `topLeftRadius`, ...)
+  boundVariables?: Record<string, FigmaVariableAlias | FigmaVariableAlias[] | undefined>;
   // Children
   children?: FigmaNodeLite[];
 }
@@ -64,7 +78,7 @@ export interface FigmaNodeLite {
 const px = (n?: number): string | undefined =>
   typeof n === 'number' && isFinite(n) ? `${Math.round(n)}px` : undefined;
 
-function colorToCss(c?: FigmaColor): string | undefined {
+export function colorToCss(c?: FigmaColor): string | undefined {
   if (!c) return undefined;
   const r = Math.round((c.r ?? 0) * 255);
   const g = Math.round((c.g ?? 0) * 255);
@@ -78,6 +92,76 @@ function colorToCss(c?: FigmaColor): string | undefined {
   return `rgba(${r}, ${g}, ${b}, ${+a.toFixed(3)})`;
 }
 
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+/**
+ * Map a GRADIENT_LINEAR / GRADIENT_RADIAL paint to a CSS gradient.
+ * Linear: the angle follows the start → end handle vector in the node box, and the handles
+ * are projected onto the CSS gradient line so stop positions land where Figma draws them.
+ * Radial: centered on the first handle, with the other two handles as the radii.
+ */
+function gradientToCss(paint: FigmaPaint, box?: { width?: number; height?: number }) {
+  const handles = paint.gradientHandlePositions ?? [];
+  const stops = (paint.gradientStops ?? []).filter((s) => s.color);
+  const [start, end, widthHandle] = handles;
+  if (!start || !end || stops.length < 2) return undefined;
+
+  const w = box?.width && box.width > 0 ? box.width : 1;
+  const h = box?.height && box.height > 0 ? box.height : 1;
+  const stopCss = (position: number, color?: FigmaColor) => {
+    const alpha = (color?.a ?? 1) * (paint.opacity ?? 1);
+    return `${colorToCss({ r: 0, g: 0, b: 0, ...color, a: alpha })} ${round1(position * 100)}%`;
+  };
+
+  if (paint.type === 'GRADIENT_LINEAR') {
+    const dx = (end.x - start.x) * w;
+    const dy = (end.y - start.y) * h;
+    if (dx === 0 && dy === 0) return undefined;
+    // CSS angles point up at 0deg and turn clockwise; y grows downwards
+    const angle = ((((Math.atan2(dx, -dy) * 180) / Math.PI) % 360) + 360) % 360;
+    const rad = (angle * Math.PI) / 180;
+    const lineLength = Math.abs(w * Math.sin(rad)) + Math.abs(h * Math.cos(rad));
+    const along = (p: FigmaVector) =>
+      ((p.x - 0.5) * w * Math.sin(rad) - (p.y - 0.5) * h * Math.cos(rad)) / lineLength + 0.5;
+    const from = along(start);
+    const to = along(end);
+    const parts = stops.map((s) => stopCss(from + (s.position ?? 0) * (to - from), s.color));
+    return `linear-gradient(${round1(angle)}deg, ${parts.join(', ')})`;
+  }
+
+  if (paint.type === 'GRADIENT_RADIAL') {
+    const rx = Math.hypot((end.x - start.x) * w, (end.y - start.y) * h);
+    const ry = widthHandle
+      ? Math.hypot((widthHandle.x - start.x) * w, (widthHandle.y - start.y) * h)
+      : rx;
+    const parts = stops.map((s) => stopCss(s.position ?? 0, s.color));
+    return (
+      `radial-gradient(${round1(rx)}px ${round1(ry)}px at ` +
+      `${round1(start.x * 100)}% ${round1(start.y * 100)}%, ${parts.join(', ')})`
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Tokens available while building: the TokenMap, and the token name of each Figma variable
+ * ID (from the variables import) for fields bound to a variable.
+ */
+type BuildTokens = { tokens?: TokenMap; variableTokens?: Record<string, string> };
+
+/**
+ * `var(--token)` for a field bound to an imported variable.
+ */
+function boundToken(
+  alias: FigmaVariableAlias | FigmaVariableAlias[] | undefined,
+  variableTokens?: Record<string, string>
+): string | undefined {
+  const ref = Array.isArray(alias) ? alias[0] : alias;
+  const name = ref?.id ? variableTokens?.[ref.id] : undefined;
+  return name ? `var(${name})` : undefined;
+}
+
 function maybeTokenize(value: string | undefined, tokens?: TokenMap): string | undefined {
   if (!value || !tokens) return value;
   // color tokens only for now
@@ -167,19 +251,31 @@ function build(
   node: FigmaNodeLite,
   path: string,
   spec: ExpectedSpec,
-  tokens?: TokenMap,
+  { tokens, variableTokens }: BuildTokens,
   rootDimensionConstraints?: readonly FigmaRootDimensionConstraint[]
 ) {
   const n = node;
   const S = (spec[path] ||= {});
+  const bound = (field: string, index = 0): string | undefined => {
+    const alias = n.boundVariables?.[field];
+    return boundToken(Array.isArray(alias) ? alias[index] : alias, variableTokens);
+  };
 
   // ===== Colors (fill / stroke) =====
   const fills = Array.isArray(n.fills) ? n.fills : [];
   const strokes = Array.isArray(n.strokes) ? n.strokes : [];
   const solidFill = fills.find((p) => (p.visible ?? true) && p.type === 'SOLID' && p.color);
   const solidStroke = strokes.find((p) => (p.visible ?? true) && p.type === 'SOLID' && p.color);
-  const fillCss = maybeTokenize(colorToCss(solidFill?.color), tokens);
-  const strokeCss = maybeTokenize(colorToCss(solidStroke?.color), tokens);
+  const fillCss = solidFill
+    ? (boundToken(solidFill.boundVariables?.color, variableTokens) ??
+      bound('fills', fills.indexOf(solidFill)) ??
+      maybeTokenize(colorToCss(solidFill.color), tokens))
+    : undefined;
+  const strokeCss = solidStroke
+    ? (boundToken(solidStroke.boundVariables?.color, variableTokens) ??
+      bound('strokes', strokes.indexOf(solidStroke)) ??
+      maybeTokenize(colorToCss(solidStroke.color), tokens))
+    : undefined;
 
   // For TEXT nodes: fill → color (text color), not background-color
   // For shape/frame nodes: fill → background-color
@@ -191,6 +287,15 @@ function build(
     }
   }
 
+  // Gradient fill → background-image (gradient text fills have no plain CSS equivalent)
+  const gradientFill = fills.find(
+    (p) => (p.visible ?? true) && (p.type === 'GRADIENT_LINEAR' || p.type === 'GRADIENT_RADIAL')
+  );
+  const gradientCss = gradientFill ? gradientToCss(gradientFill, n.absoluteBoundingBox) : undefined;
+  if (n.type !== 'TEXT' && gradientCss) {
+    S['background-image'] = gradientCss;
+  }
+
   // For TEXT nodes: stroke is typically text-stroke (not CSS border), so we skip it
   // For shape/frame nodes: stroke → border-color
   if (n.type !== 'TEXT' && strokeCss) {
@@ -202,7 +307,15 @@ function build(
   }
 
   // ===== Corners =====
-  if (Array.isArray(n.rectangleCornerRadii) && n.rectangleCornerRadii.length === 4) {
+  const cornerTokens = [
+    'topLeftRadius',
+    'topRightRadius',
+    'bottomRightRadius',
+    'bottomLeftRadius',
+  ].map((field) => bound(field));
+  if (cornerTokens[0] && cornerTokens.every((t) => t === cornerTokens[0])) {
+    S['border-radius'] = cornerTokens[0];
+  } else if (Array.isArray(n.rectangleCornerRadii) && n.rectangleCornerRadii.length === 4) {
     const [tl, tr, br, bl] = n.rectangleCornerRadii;
     if (tl === tr && tr === br && br === bl) {
       const radius = px(tl);
@@ -230,23 +343,23 @@ function build(
     if (n.layoutMode === 'HORIZONTAL') S['flex-direction'] = 'row';
     if (n.layoutMode === 'VERTICAL') S['flex-direction'] = 'column';
     if (typeof n.itemSpacing === 'number') {
-      const gap = px(n.itemSpacing);
+      const gap = bound('itemSpacing') ?? px(n.itemSpacing);
       if (gap) S['gap'] = gap;
     }
     if (typeof n.paddingTop === 'number') {
-      const paddingTop = px(n.paddingTop);
+      const paddingTop = bound('paddingTop') ?? px(n.paddingTop);
       if (paddingTop) S['padding-top'] = paddingTop;
     }
     if (typeof n.paddingRight === 'number') {
-      const paddingRight = px(n.paddingRight);
+      const paddingRight = bound('paddingRight') ?? px(n.paddingRight);
       if (paddingRight) S['padding-right'] = paddingRight;
     }
     if (typeof n.paddingBottom === 'number') {
-      const paddingBottom = px(n.paddingBottom);
+      const paddingBottom = bound('paddingBottom') ?? px(n.paddingBottom);
       if (paddingBottom) S['padding-bottom'] = paddingBottom;
     }
     if (typeof n.paddingLeft === 'number') {
-      const paddingLeft = px(n.paddingLeft);
+      const paddingLeft = bound('paddingLeft') ?? px(n.paddingLeft);
       if (paddingLeft) S['padding-left'] = paddingLeft;
     }
     const jc = mapAutoLayoutAlign(n.primaryAxisAlignItems);
@@ -299,12 +412,28 @@ function build(
     for (let i = 0; i < kids.length; i++) {
       const child = kids[i];
       if (child) {
-        build(child, `${path} > :nth-child(${i + 1})`, spec, tokens);
+        build(child, `${path} > :nth-child(${i + 1})`, spec, { tokens, variableTokens });
       }
     }
   }
 }
 
+/**
+ * Opaque background of a Figma node as a CSS color: the topmost visible solid fill,
+ * else `backgroundColor`. Translucent or gradient backgrounds return undefined.
+ */
+export function figmaBackgroundColor(node: Record<string, unknown>): string | undefined {
+  const n = node as FigmaNodeLite;
+  const fill = (n.fills ?? [])
+    .filter((p) => p.visible !== false && p.type === 'SOLID' && p.color)
+    .at(-1);
+  const color = fill?.color
+    ? { ...fill.color, a: (fill.color.a ?? 1) * (fill.opacity ?? 1) }
+    : n.backgroundColor;
+  if (!color || (color.a ?? 1) < 0.999) return undefined;
+  return colorToCss(color);
+}
+
 export function buildExpectedSpecFromFigma(
   node: Record<string, unknown>,
   tokens?: TokenMap
@@ -312,9 +441,16 @@ export function buildExpectedSpecFromFigma(
   return buildExpectedSpecFromFigmaWithMetadata(node, tokens).expectedSpec;
 }
 
+/**
+ * @param tokens - Known tokens; a color equal to a color token is expected as `var(--token)`
+ * @param variableTokens - Token name per Figma variable ID (see `figmaVariablesToTokens`);
+ *   fills, strokes, gaps, paddings and corner radii bound to those variables are expected
+ *   as `var(--token)`, so the diff reports `expectedToken`
+ */
 export function buildExpectedSpecFromFigmaWithMetadata(
   node: Record<string, unknown>,
-  tokens?: TokenMap
+  tokens?: TokenMap,
+  variableTokens?: Record<string, string>
 ): FigmaExpectedSpec {
   const spec: ExpectedSpec = {};
   const figmaNode = node as FigmaNodeLite;
@@ -322,6 +458,6 @@ export function buildExpectedSpecFromFigmaWithMetadata(
     resolveDimensionConstraint(figmaNode, 'horizontal'),
     resolveDimensionConstraint(figmaNode, 'vertical'),
   ];
-  build(figmaNode, '__self__', spec, tokens, rootDimensionConstraints);
+  build(figmaNode, '__self__', spec, { tokens, variableTokens }, rootDimensionConstraints);
   return { expectedSpec: spec, rootDimensionConstraints };
 }
@@ -16,7 +16,17 @@ describe('parseFigmaRef', () => {
     expect(parseFigmaRef(ref)).toEqual(expected);
   });
 
-  test.each(['AbCdEf123:', ':1:2', ':'])('rejects %s', (ref) => {
+  test.each([
+    ['AbCdEf123:1:2@1234567890', { fileKey: 'AbCdEf123', nodeId: '1:2', version: '1234567890' }],
+    [
+      'https://figma.com/design/AbCdEf123/Design?node-id=1-2&version-id=1234567890',
+      { fileKey: 'AbCdEf123', nodeId: '1-2', version: '1234567890' },
+    ],
+  ])('reads the pinned version of %s', (ref, expected) => {
+    expect(parseFigmaRef(ref)).toEqual(expected);
+  });
+
+  test.each(['AbCdEf123:', ':1:2', ':', 'AbCdEf123:1:2@'])('rejects %s', (ref) => {
     expect(() => parseFigmaRef(ref)).toThrow('Invalid figma ref');
   });
 
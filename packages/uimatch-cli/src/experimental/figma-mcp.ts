@@ -228,10 +228,14 @@ export class FigmaMcpClient {
     const varsResp = z.object({
       variables: z.array(
         z.object({
+          id: z.string().optional(),
           name: z.string(),
           type: z.enum(['color', 'number', 'string']),
           resolvedValue: z.unknown().optional(),
           modes: z.array(z.string()).optional(),
+          collection: z.string().optional(),
+          valuesByMode: z.record(z.string(), z.union([z.string(), z.number()])).optional(),
+          scopes: z.array(z.string()).optional(),
         })
       ),
     });
@@ -241,8 +245,9 @@ export class FigmaMcpClient {
 }
 
 /**
- * Parses a Figma reference into file key and node ID.
- * Supports `'current'`, `fileKey:nodeId` format, or full Figma URL.
+ * Parses a Figma reference into file key, node ID and pinned version.
+ * Supports `'current'`, `fileKey:nodeId[@version]` format, or full Figma URL
+ * (`version-id` pins the version).
  *
  * @param ref - Figma reference string
  * @returns File key and node ID, or 'current' for current selection
@@ -259,10 +264,18 @@ export function parseFigmaRef(ref: string): FigmaRef | 'current' {
   // splitting on every ':' would silently truncate it to "1".
   if (ref.includes(':') && !ref.startsWith('http')) {
     const separatorIndex = ref.indexOf(':');
+    const versionIndex = ref.lastIndexOf('@');
     const fileKey = ref.slice(0, separatorIndex);
-    const nodeId = ref.slice(separatorIndex + 1);
+    const nodeId = ref.slice(
+      separatorIndex + 1,
+      versionIndex > separatorIndex ? versionIndex : undefined
+    );
+    const version = versionIndex > separatorIndex ? ref.slice(versionIndex + 1) : undefined;
     if (!fileKey || !nodeId) throw new Error('Invalid figma ref "fileKey:nodeId"');
-    return { fileKey, nodeId };
+    if (version === '') {
+      throw new Error('Invalid figma ref "fileKey:nodeId@version": empty version');
+    }
+    return version === undefined ? { fileKey, nodeId } : { fileKey, nodeId, version };
   }
 
   // Parse Figma URL - supports both /file/ and /design/ paths
@@ -284,7 +297,8 @@ export function parseFigmaRef(ref: string): FigmaRef | 'current' {
       throw new Error('fileKey or node-id missing in Figma URL');
     }
 
-    return { fileKey, nodeId: decodeURIComponent(nodeId) };
+    const version = u.searchParams.get('version-id') || undefined;
+    return { fileKey, nodeId: decodeURIComponent(nodeId), ...(version && { version }) };
   } catch (e) {
     throw new Error(
       `Unsupported Figma reference. Use 'current', 'fileKey:nodeId', or full Figma URL: ${(e as Error).message}`
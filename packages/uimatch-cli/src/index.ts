@@ -12,24 +12,53 @@ export const UiMatchError: new (
   options?: ErrorOptions
 ) => UiMatchErrorShape = UiMatchErrorImpl;
 export type UiMatchError = UiMatchErrorShape;
+export { isDesignSource, listDesignSources, registerDesignSource } from './adapters/index.js';
 export {
   closeUiMatchBrowsers,
   getSettings,
   resetSettings,
   uiMatchCompare,
+  uiMatchCrossBrowser,
+  uiMatchVariants,
 } from './commands/index.js';
 export { loadFigmaMcpConfig, loadSkillConfig } from './config/index.js';
 export type { FigmaMcpConfig, SkillConfig } from './config/index.js';
 export type {
   AppConfig,
+  AuthOptions,
+  BrowserEngine,
+  BrowserInfo,
+  CaptureCookie,
+  CaptureStep,
   CompareArgs,
+  CompareBreakpoint,
+  CompareBreakpointResult,
+  CompareMask,
   CompareResult,
+  CompareStateResult,
+  CrossBrowserArgs,
+  CrossBrowserDivergence,
+  CrossBrowserPair,
+  CrossBrowserResult,
+  DesignSource,
+  DesignSourceFactory,
+  DesignSourceOptions,
+  FigmaCacheMode,
+  FigmaCacheOptions,
   FigmaRef,
   FigmaRootDimensionConstraint,
   FigmaVariable,
+  FigmaVariablesOptions,
+  InteractionState,
+  MediaEmulation,
+  NetworkOptions,
+  RouteMock,
   Thresholds,
   UiMatchErrorCategory,
   UiMatchErrorCode,
+  VariantResult,
+  VariantsArgs,
+  VariantsResult,
 } from './types/index.js';
 
 /**
@@ -22,6 +22,8 @@ export function createCliLogger(options?: LoggerOptions): Logger {
     paths: [
       'basicAuth.password',
       'headers.authorization',
+      'extraHTTPHeaders.*',
+      'cookies[*].value',
       'FIGMA_MCP_TOKEN',
       'token',
       '*.token',
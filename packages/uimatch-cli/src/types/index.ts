@@ -15,7 +15,9 @@ export type UiMatchErrorCode =
   | 'UIMATCH_CONFIG_INVALID_FIGMA_REF'
   | 'UIMATCH_CONFIG_MISSING_FIGMA_TOKEN'
   | 'UIMATCH_SELECTOR_NOT_FOUND'
-  | 'UIMATCH_IMAGE_SIZE_MISMATCH';
+  | 'UIMATCH_CAPTURE_STEP_FAILED'
+  | 'UIMATCH_IMAGE_SIZE_MISMATCH'
+  | 'UIMATCH_FIGMA_CACHE_MISS';
 
 /**
  * `usage` means the invocation must change; `comparison` means the run started
@@ -31,14 +33,175 @@ export interface UiMatchError extends Error {
   readonly category: UiMatchErrorCategory;
 }
 
+/**
+ * Playwright browser engine captures run on.
+ */
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
+/**
+ * Engine and version a capture ran on.
+ */
+export interface BrowserInfo {
+  engine: BrowserEngine;
+  /** Browser version reported by Playwright (e.g. `141.0.7390.37`) */
+  version: string;
+}
+
+/**
+ * Interaction state the target element is put into before capture.
+ * `default` is the resting state.
+ */
+export type InteractionState =
+  'default' | 'hover' | 'focus' | 'focus-visible' | 'active' | 'disabled';
+
+/**
+ * Scripted interaction run before capture, in the capture frame. Selectors accept the same
+ * prefixes as the capture selector (`role:`, `testid:`, `text:`, ...). `timeout` (ms)
+ * overrides the selector wait for one step.
+ */
+export type CaptureStep =
+  | { action: 'click'; selector: string; timeout?: number }
+  | { action: 'hover'; selector: string; timeout?: number }
+  | { action: 'fill'; selector: string; value: string; timeout?: number }
+  /** Key press on the element, or on the page when `selector` is omitted */
+  | { action: 'press'; key: string; selector?: string; timeout?: number }
+  | {
+      action: 'waitForSelector';
+      selector: string;
+      /** @default 'visible' */
+      state?: 'attached' | 'detached' | 'visible' | 'hidden';
+      timeout?: number;
+    }
+  | { action: 'waitForTimeout'; ms: number }
+  /** JavaScript expression evaluated in the frame (promises are awaited) */
+  | { action: 'evaluate'; script: string };
+
+/**
+ * CSS media features emulated on the page before capture (unset features keep the
+ * browser default).
+ */
+export interface MediaEmulation {
+  /** `prefers-color-scheme` */
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  /** `prefers-reduced-motion` */
+  reducedMotion?: 'reduce' | 'no-preference';
+  /** `forced-colors` (e.g. Windows high contrast) */
+  forcedColors?: 'active' | 'none';
+  /** Media type */
+  media?: 'screen' | 'print';
+}
+
+/**
+ * Cookie added to the capture context. Cookies without `url` or `domain` apply to the
+ * capture URL.
+ */
+export interface CaptureCookie {
+  name: string;
+  value: string;
+  url?: string;
+  domain?: string;
+  path?: string;
+  /** Unix time in seconds */
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Session credentials for pages behind a login.
+ */
+export interface AuthOptions {
+  /** Playwright storage state file (cookies and localStorage), e.g. saved by a login run */
+  storageState?: string;
+  /** Cookies added on top of `storageState` */
+  cookies?: CaptureCookie[];
+  /** Headers sent with every request (e.g. `Authorization: Bearer ...`) */
+  extraHTTPHeaders?: Record<string, string>;
+}
+
+/**
+ * Canned response for requests matching `url` (a full URL or a Playwright URL glob, where
+ * `**` spans path segments). `body` objects are sent as JSON; `file` serves a file.
+ */
+export interface RouteMock {
+  url: string;
+  /** @default 200 */
+  status?: number;
+  contentType?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  file?: string;
+  /** Fail the request instead of answering it */
+  abort?: boolean;
+}
+
+/**
+ * Network control that keeps captures deterministic. Route mocks take precedence over
+ * host blocking, which takes precedence over the HAR.
+ */
+export interface NetworkOptions {
+  /** HAR file whose recorded responses are served instead of the network */
+  har?: string;
+  /**
+   * `replay` serves the HAR, `record` rewrites it from live traffic, `auto` records when
+   * the file does not exist yet and replays otherwise. Captures of one process recording
+   * the same file are merged into it.
+   * @default 'replay'
+   */
+  harMode?: 'replay' | 'record' | 'auto';
+  /** URL glob limiting which requests the HAR serves or records (e.g. only the API) */
+  harUrl?: string;
+  /**
+   * Let requests matching `harUrl` but missing from a replayed HAR reach the network
+   * instead of failing them
+   * @default false
+   */
+  harFallback?: boolean;
+  /** Hosts whose requests are aborted (`cdn.example.com`, `*.analytics.com`) */
+  blockHosts?: string[];
+  /** Abort requests to every host other than the capture URL's */
+  blockThirdParty?: boolean;
+  routes?: RouteMock[];
+}
+
 /**
  * Figma design variable (color, number, or string).
  */
 export interface FigmaVariable {
+  /** Variable ID (`VariableID:1:2`), as referenced by a node's `boundVariables` */
+  id?: string;
+  /** Slash-separated variable name (`color/primary/500`) */
   name: string;
   type: 'color' | 'number' | 'string';
+  /** Value in the default mode */
   resolvedValue?: unknown;
+  /** Mode names, default mode first */
   modes?: string[];
+  /** Name of the variable collection */
+  collection?: string;
+  /** Value per mode name: CSS colors for colors, numbers for numbers (aliases resolved) */
+  valuesByMode?: Record<string, string | number>;
+  /** Figma scopes (`GAP`, `CORNER_RADIUS`, `FONT_SIZE`, ...), used to pick a token group */
+  scopes?: string[];
+}
+
+/**
+ * How Figma variables become {@link TokenMap} entries.
+ */
+export interface FigmaVariablesOptions {
+  /**
+   * CSS custom property name template. `{name}`, `{collection}` and `{mode}` are replaced
+   * by the kebab-cased variable name, collection name and mode name. With `{mode}`, one
+   * entry is emitted per mode.
+   * @default '--{name}'
+   */
+  naming?: string;
+  /**
+   * Mode whose values are used when `naming` has no `{mode}` (default: each collection's
+   * default mode)
+   */
+  mode?: string;
 }
 
 /**
@@ -47,8 +210,89 @@ export interface FigmaVariable {
 export interface FigmaRef {
   fileKey: string;
   nodeId: string;
+  /** File version the reference is pinned to (`fileKey:nodeId@version`); latest when absent */
+  version?: string;
+}
+
+/**
+ * How the Figma snapshot cache is used:
+ * - `record`: serve cached snapshots, fetch and store the missing ones
+ * - `replay`: serve cached snapshots only, fail on a miss (no network, no token)
+ * - `refresh`: fetch every snapshot again and overwrite the cache
+ */
+export type FigmaCacheMode = 'record' | 'replay' | 'refresh';
+
+/**
+ * Local cache of Figma node documents and PNG exports, keyed by file key, node ID,
+ * export scale and file version.
+ */
+export interface FigmaCacheOptions {
+  mode: FigmaCacheMode;
+  /**
+   * Cache directory
+   * @default '.uimatch-cache/figma'
+   */
+  dir?: string;
 }
 
+/**
+ * Where a comparison gets its design from. Only the image is required; a source without
+ * `getNode` skips expectedSpec bootstrap, Figma layer masks and the text check.
+ *
+ * Built-in sources are `figma-rest`, `figma-mcp` and `figma-bypass` (UIMATCH_FIGMA_PNG_B64).
+ * Others are registered with `registerDesignSource` or shipped as a package whose default
+ * export is a {@link DesignSourceFactory}.
+ */
+export interface DesignSource {
+  /** Source name, shown in verbose logs */
+  readonly name: string;
+  /** Images come prerendered at an unknown scale and ignore `scale` (it is then detected) */
+  readonly fixedScale?: boolean;
+  /** Honors the `version` of pinned references; other sources reject them */
+  readonly pinsVersions?: boolean;
+  /** Resolve the `figma` argument (URL, `fileKey:nodeId`, `current`, ...) to a node */
+  resolveRef(ref: string): Promise<FigmaRef>;
+  /** PNG of the node rendered at `scale` */
+  getImage(params: FigmaRef & { scale: number }): Promise<Buffer>;
+  /** Node document in the Figma REST API shape */
+  getNode?(params: FigmaRef): Promise<Record<string, unknown>>;
+  getVariables?(params: { fileKey: string }): Promise<FigmaVariable[]>;
+  /**
+   * Version of the design file read by an unpinned comparison, recorded in its report.
+   * Called once the design has been read, so it should answer from what the source already
+   * fetched; undefined when it cannot tell.
+   */
+  getVersion?(params: { fileKey: string }): Promise<string | undefined>;
+  /**
+   * Child of `nodeId` matching the DOM child box (`subselector`), or null to keep the node.
+   * Boxes are in page coordinates.
+   */
+  findChildForDomBox?(
+    params: FigmaRef & {
+      domChildAbs: { x: number; y: number; width: number; height: number };
+      domRootAbs: { x: number; y: number; width: number; height: number };
+      usePosition: boolean;
+    }
+  ): Promise<string | null>;
+  /** Child of `nodeId` matching the captured size (`figmaAutoRoi`), or null to keep the node */
+  findChildForSize?(
+    params: FigmaRef & { targetWidth: number; targetHeight: number }
+  ): Promise<string | null>;
+}
+
+/**
+ * Options a {@link DesignSourceFactory} is created with, once per comparison.
+ */
+export interface DesignSourceOptions {
+  /** The `figma` argument of the comparison */
+  figma: string;
+  figmaCache?: FigmaCacheOptions;
+}
+
+export type DesignSourceFactory = (
+  options: DesignSourceOptions
+) => DesignSource | Promise<DesignSource>;
+
 /** Public design-token map accepted by the CLI API. */
 export interface TokenMap {
   color?: Record<string, string>;
@@ -124,7 +368,14 @@ export interface StyleDiff {
 }
 
 export interface HardGateViolation {
-  type: 'area_gap' | 'suspicion' | 're_evaluation' | 'high_severity';
+  type:
+    | 'area_gap'
+    | 'suspicion'
+    | 're_evaluation'
+    | 'high_severity'
+    | 'layout_shift'
+    | 'low_contrast'
+    | 'contrast_drop';
   reason: string;
   severity: 'critical' | 'high';
 }
@@ -135,7 +386,7 @@ export interface SuspicionDetection {
 }
 
 export interface CQIBreakdownComponent {
-  name: 'pixel' | 'color' | 'area' | 'severity';
+  name: 'pixel' | 'color' | 'area' | 'severity' | 'ssim';
   rawValue: number;
   threshold: number;
   penalty: number;
@@ -169,6 +420,10 @@ export interface QualityGateResult {
     minStyleCoverage?: number;
     maxHighSeverityIssues: number;
     maxLayoutHighIssues?: number;
+    minSsim?: number;
+    maxLayoutShift?: number;
+    minContrastRatio?: number;
+    maxContrastDrop?: number;
   };
 }
 
@@ -262,6 +517,18 @@ export interface Thresholds {
    */
   shadowColorExtraDE?: number;
 
+  /**
+   * Tolerance for gradient stop positions, as a fraction of the gradient line.
+   * @default 0.05 (5%)
+   */
+  gradientStopPosition?: number;
+
+  /**
+   * Tolerance for linear gradient angles, in degrees.
+   * @default 5
+   */
+  gradientAngle?: number;
+
   /**
    * Area gap threshold for immediate failure (0-1).
    * @default 0.15 (15%)
@@ -284,17 +551,44 @@ export interface Thresholds {
    * Maximum allowed high-severity StyleDiff entries containing a layout property.
    */
   maxLayoutHighIssues?: number;
+
+  /**
+   * Minimum structural similarity (SSIM, 0-1). Setting it enables SSIM computation.
+   */
+  minSsim?: number;
+
+  /**
+   * Maximum translation (px, per axis) absorbed by registration before the gate fails.
+   */
+  maxLayoutShift?: number;
+
+  /**
+   * Minimum WCAG contrast ratio (1-21) of every captured text element (e.g. 4.5 for AA).
+   */
+  minContrastRatio?: number;
+
+  /**
+   * Largest relative drop (0-1) of text contrast below the Figma design's contrast.
+   */
+  maxContrastDrop?: number;
 }
 
 /**
  * UI comparison arguments
  */
-export interface CompareArgs {
+export interface CompareArgs extends MediaEmulation, AuthOptions, NetworkOptions {
   /**
    * Figma reference (URL, `fileKey:nodeId`, or `'current'` for selected node).
+   * `fileKey:nodeId@version` or a URL with `version-id` pins a file version.
    */
   figma: string;
 
+  /**
+   * Figma file version for references without their own, including those of `states` and
+   * `breakpoints`. Needs a design source that pins versions (`figma-rest`).
+   */
+  figmaVersion?: string;
+
   /**
    * Target URL (Storybook or any web page).
    */
@@ -347,7 +641,24 @@ export interface CompareArgs {
   figmaAutoRoi?: boolean;
 
   /**
-   * Maximum child elements to collect styles from.
+   * Serve Figma node documents and PNG exports from a local snapshot cache.
+   * Falls back to the UIMATCH_FIGMA_CACHE (mode) and UIMATCH_FIGMA_CACHE_DIR
+   * environment variables. In `replay` mode no FIGMA_ACCESS_TOKEN is needed and a
+   * miss fails with `UIMATCH_FIGMA_CACHE_MISS`.
+   */
+  figmaCache?: FigmaCacheOptions;
+
+  /**
+   * Design source: a registered name (`figma-rest`, `figma-mcp`, `figma-bypass`) or a
+   * module ID whose default export is a `DesignSourceFactory`.
+   * Falls back to UIMATCH_DESIGN_SOURCE; without either, the bypass is used when
+   * UIMATCH_FIGMA_PNG_B64 is set, then REST when it can be reached, then MCP.
+   */
+  designSource?: string;
+
+  /**
+   * Maximum child elements to collect styles from. Rendered pseudo-elements count
+   * against the same budget.
    * @default 200
    */
   maxChildren?: number;
@@ -400,6 +711,15 @@ export interface CompareArgs {
    */
   emitArtifacts?: boolean;
 
+  /**
+   * Additional diff visualizations included in the artifacts (requires `emitArtifacts`).
+   * - `heatmap`: per-pixel ΔE graded from green to red
+   * - `sideBySide`: Figma | implementation | diff composite
+   * - `onionSkin`: implementation blended over Figma at 50%
+   * - `blink`: animated PNG alternating Figma and implementation
+   */
+  visualizations?: Array<'heatmap' | 'sideBySide' | 'onionSkin' | 'blink'>;
+
   /**
    * Font URLs to preload.
    */
@@ -424,6 +744,14 @@ export interface CompareArgs {
    */
   tokens?: TokenMap;
 
+  /**
+   * Import the Figma file's color and number variables into `tokens` (entries in `tokens`
+   * win). A bootstrapped expectedSpec then expects `var(--token)` where a fill, stroke,
+   * padding, gap or corner radius is bound to a variable, so diffs report `expectedToken`.
+   * Needs a design source with variables (REST: `file_variables:read` scope; MCP).
+   */
+  figmaVariables?: boolean | FigmaVariablesOptions;
+
   /**
    * CSS properties to exclude from style comparison.
    */
@@ -443,6 +771,12 @@ export interface CompareArgs {
    */
   bootstrapExpectedFromFigma?: boolean;
 
+  /**
+   * Browser engine to capture with. Forcing `:focus-visible` (`state`) requires Chromium.
+   * @default 'chromium'
+   */
+  browser?: BrowserEngine;
+
   /**
    * Reuse shared browser instance (recommended in /loop).
    * @default false
@@ -513,6 +847,83 @@ export interface CompareArgs {
    */
   selectorPluginTimeoutMs?: number;
 
+  /**
+   * Regions excluded from pixel comparison (rectangles, DOM selectors, Figma layers).
+   */
+  mask?: CompareMask;
+
+  /**
+   * Interactions run before capture (open a dropdown, fill a form). A failing step throws
+   * `UIMATCH_CAPTURE_STEP_FAILED`. Interaction states and breakpoints repeat the steps
+   * on a fresh page load.
+   */
+  steps?: CaptureStep[];
+
+  /**
+   * Interaction state of the target element for this comparison.
+   * Hover, focus and active are real interactions; `focus-visible` also forces the
+   * pseudo-class, `disabled` sets the attribute.
+   * @default 'default'
+   */
+  state?: InteractionState;
+
+  /**
+   * Background forced on `body` during capture (any CSS background value).
+   * `false` keeps the page's own background; `'figma'` uses the solid fill of the
+   * Figma node (REST API), falling back to white.
+   * @default '#fff'
+   */
+  pageBackground?: string | false;
+
+  /**
+   * Further interaction states, each compared against its Figma variant node after the
+   * main comparison. All captures share one pooled browser; results are reported in
+   * `report.states` and the gate passes only when every state passes.
+   */
+  states?: Array<{ state: InteractionState; figma: string }>;
+
+  /**
+   * Viewport matrix: each breakpoint is captured at its viewport and compared against its
+   * own Figma frame, on one pooled page resized between captures. Results are reported in
+   * `report.breakpoints`; the top-level report is that of the worst breakpoint, with a
+   * quality gate aggregated over all breakpoints. `figma` and `viewport` are then unused.
+   */
+  breakpoints?: CompareBreakpoint[];
+
+  /**
+   * Compute structural similarity alongside pixelmatch.
+   * - `true`: single-scale SSIM
+   * - `'multiscale'`: MS-SSIM
+   * Enabled automatically (single-scale) when `thresholds.minSsim` is set.
+   * @default false
+   */
+  ssim?: boolean | 'multiscale';
+
+  /**
+   * Align the implementation to the Figma image before diffing.
+   * `true` searches shifts up to 4px; the detected shift is reported as `dimensions.offset`
+   * and as a `[LAYOUT]` quality gate reason.
+   * @default false
+   */
+  registration?: boolean | { maxOffset?: number; subPixel?: boolean };
+
+  /**
+   * Compare the canvas in fixed-size tiles, spread over worker threads.
+   * Metrics and diff image are identical to the untiled comparison.
+   * `true` uses 1024px tiles and one worker per available CPU (minus one).
+   * @default false
+   */
+  tiling?: boolean | { tileSize?: number; workers?: number };
+
+  /**
+   * Resample the denser image when the Figma export and the capture use different
+   * pixel densities (e.g. `figmaScale=2` with `dpr=1`). The Figma scale is measured
+   * against the node bounds when `FIGMA_ACCESS_TOKEN` is set; the applied resampling is
+   * reported as `dimensions.resample`. A warning is logged for non-integer ratios.
+   * @default true
+   */
+  normalizeScale?: boolean;
+
   /**
    * Enable verbose logging (informational messages about mode, URLs, etc.).
    * When false, only warnings and errors are shown.
@@ -541,6 +952,28 @@ export interface CompareArgs {
   };
 }
 
+/**
+ * Regions excluded from pixel comparison.
+ * Masked pixels never count as diff pixels and are painted gray in diff.png.
+ */
+export interface CompareMask {
+  /**
+   * Rectangles in design CSS pixels, relative to the Figma node's top-left corner.
+   */
+  rects?: Array<{ x: number; y: number; width: number; height: number }>;
+
+  /**
+   * Selectors whose matching elements are masked (resolved during capture, all matches).
+   * Supports the same prefixes as `selector` (css:, dompath:, role:, testid:, text:, xpath:).
+   */
+  selectors?: string[];
+
+  /**
+   * Figma layer names or node IDs to mask (requires FIGMA_ACCESS_TOKEN).
+   */
+  figmaLayers?: string[];
+}
+
 /**
  * Comparison result
  */
@@ -552,6 +985,10 @@ export interface CompareResult {
       pixelDiffRatioContent?: number;
       contentCoverage?: number;
       contentPixels?: number;
+      /** Canvas pixels excluded by masks (present when masks were applied) */
+      maskedPixels?: number;
+      /** Structural similarity, 1 = identical (present when SSIM was computed) */
+      ssim?: number;
       colorDeltaEAvg: number;
       dfs: number;
     };
@@ -566,10 +1003,77 @@ export interface CompareResult {
        * Present when size adjustment creates padding and content areas differ.
        */
       contentRect?: { x1: number; y1: number; x2: number; y2: number };
+      /**
+       * Resampling applied to bring both images to a common pixel density
+       * (`factor` < 1 shrinks `target`). Present when the scales differed.
+       */
+      resample?: { target: 'figma' | 'impl'; factor: number };
+      /**
+       * Shift of implementation content relative to Figma found by registration (px).
+       * Present when registration ran.
+       */
+      offset?: { x: number; y: number };
     };
     styleDiffs: StyleDiff[];
     styleSummary?: StyleSummary;
 
+    /**
+     * Masks applied to the compared canvas (present when masks were provided).
+     * `rect` is in compared-canvas pixels; `label` records the origin
+     * (`rect:...`, `selector:...`, or `figmaLayer:...`).
+     */
+    masks?: Array<{
+      label?: string;
+      space: 'figma' | 'impl';
+      rect: { x: number; y: number; width: number; height: number };
+      maskedPixels: number;
+    }>;
+
+    /**
+     * Clusters of nearby diff pixels, largest first (compared-canvas pixels).
+     * `meanColorDelta` is the mean CIEDE2000 of the cluster; `direction` is the dominant
+     * displacement of implementation content relative to Figma.
+     */
+    diffRegions?: Array<{
+      bbox: { x: number; y: number; width: number; height: number };
+      pixelCount: number;
+      meanColorDelta: number;
+      direction: 'left' | 'right' | 'up' | 'down' | 'none';
+      /** Smallest captured element enclosing the region */
+      element?: string;
+    }>;
+
+    /**
+     * Diff pixels attributed to the smallest enclosing captured element, most first.
+     * `selector` matches StyleDiff selectors; `path` is the style key; `share` is 0-1.
+     */
+    elementDiffs?: Array<{
+      selector: string;
+      path: string;
+      rect: { x: number; y: number; width: number; height: number };
+      diffPixels: number;
+      share: number;
+    }>;
+
+    /**
+     * WCAG contrast of captured text elements over their painted background, lowest first.
+     * `expectedRatio` is the contrast in the Figma design; `required` is the WCAG AA minimum
+     * for the text size (4.5, or 3 for large text).
+     */
+    textContrast?: Array<{
+      selector: string;
+      path: string;
+      ratio: number;
+      expectedRatio?: number;
+      required: number;
+      largeText: boolean;
+    }>;
+
+    /**
+     * Engine and version the implementation was captured with.
+     */
+    browser?: BrowserInfo;
+
     /**
      * Quality gate evaluation result.
      * Backwards-compatible JSON structure with additional fields for advanced metrics.
@@ -593,6 +1097,11 @@ export interface CompareResult {
        * A caller-supplied expectedSpec does not contain enough source information to populate it.
        */
       figmaRootDimensionConstraints?: FigmaRootDimensionConstraint[];
+      /**
+       * Figma file version compared against: the pinned one, else the current one
+       * (absent when the design source cannot tell).
+       */
+      figmaVersion?: string;
     };
 
     /**
@@ -616,6 +1125,250 @@ export interface CompareResult {
       figmaPngB64: string;
       implPngB64: string;
       diffPngB64: string;
+      /** SSIM map (present when SSIM was computed) */
+      ssimMapPngB64?: string;
+      /** ΔE heatmap (present when requested via `visualizations`) */
+      heatmapPngB64?: string;
+      /** Figma | implementation | diff composite (present when requested) */
+      sideBySidePngB64?: string;
+      /** Onion-skin overlay (present when requested) */
+      onionSkinPngB64?: string;
+      /** Animated PNG alternating Figma and implementation (present when requested) */
+      blinkPngB64?: string;
     };
+
+    /**
+     * Per-state results (present when `states` was given). The top-level metrics
+     * belong to the main comparison.
+     */
+    states?: CompareStateResult[];
+
+    /**
+     * Per-breakpoint results (present when `breakpoints` was given). Interaction states
+     * are reported inside each breakpoint.
+     */
+    breakpoints?: CompareBreakpointResult[];
+  };
+}
+
+/**
+ * Result of one interaction state compared against its Figma variant.
+ */
+export interface CompareStateResult {
+  state: InteractionState;
+  figma: string;
+  summary: string;
+  report: Omit<CompareResult['report'], 'states' | 'breakpoints'>;
+}
+
+/**
+ * Viewport size paired with the Figma frame designed for it.
+ */
+export interface CompareBreakpoint {
+  /**
+   * Name used in summaries and artifact paths (letters, digits, `-`, `_`).
+   * @default '<width>x<height>'
+   */
+  name?: string;
+  viewport: { width: number; height: number };
+  figma: string;
+}
+
+/**
+ * Result of one breakpoint compared against its Figma frame.
+ */
+export interface CompareBreakpointResult {
+  name: string;
+  viewport: { width: number; height: number };
+  figma: string;
+  summary: string;
+  report: Omit<CompareResult['report'], 'breakpoints'>;
+}
+
+/**
+ * Cross-engine consistency arguments: one selector captured in several engines.
+ */
+export interface CrossBrowserArgs extends MediaEmulation, AuthOptions {
+  /**
+   * Target URL (Storybook iframe or any page).
+   */
+  story: string;
+
+  /**
+   * CSS selector of the element to capture.
+   */
+  selector: string;
+
+  /**
+   * Engines to capture, at least two. Every pair is compared, the engine listed first
+   * being the baseline.
+   * @default ['chromium', 'firefox', 'webkit']
+   */
+  browsers?: BrowserEngine[];
+
+  /**
+   * Viewport size for every engine.
+   * @default { width: 1440, height: 900 }
+   */
+  viewport?: { width: number; height: number };
+
+  /**
+   * Device pixel ratio for every engine.
+   * @default 2
+   */
+  dpr?: number;
+
+  /**
+   * Interaction state to capture in. `focus-visible` is unavailable, as only Chromium
+   * can force it.
+   */
+  state?: InteractionState;
+
+  /**
+   * Interactions run before each capture.
+   */
+  steps?: CaptureStep[];
+
+  /**
+   * Auto-detect and use the Storybook iframe.
+   * @default true
+   */
+  detectStorybookIframe?: boolean;
+
+  /**
+   * Tolerances: `pixelDiffRatio` (default 0.01) bounds the pixel difference of a
+   * consistent pair; the style tolerances (`deltaE`, `dimension`, ...) apply to
+   * computed styles.
+   */
+  thresholds?: Thresholds;
+
+  /**
+   * Reuse shared browser instances (one per engine).
+   * @default false
+   */
+  reuseBrowser?: boolean;
+
+  /**
+   * Include captures and diff images as base64 in the report.
+   * @default false
+   */
+  emitArtifacts?: boolean;
+}
+
+/**
+ * Property whose computed value differs between engines beyond the tolerances.
+ */
+export interface CrossBrowserDivergence {
+  /** Display selector of the element */
+  selector: string;
+  /** Style key of the element (`__self__`, `__self__ > :nth-child(2)`, ...) */
+  path: string;
+  property: string;
+  /** Computed value per captured engine */
+  values: Partial<Record<BrowserEngine, string>>;
+  /** Engine pairs the property diverges in, as `<baseline>/<engine>` */
+  pairs: string[];
+}
+
+/**
+ * One engine compared against a baseline engine.
+ */
+export interface CrossBrowserPair {
+  baseline: BrowserEngine;
+  engine: BrowserEngine;
+  pixelDiffRatio: number;
+  colorDeltaEAvg: number;
+  dimensions: {
+    baseline: { width: number; height: number };
+    engine: { width: number; height: number };
+  };
+  /** Style differences of `engine` against the computed styles of `baseline` */
+  styleDiffs: StyleDiff[];
+  /** Pixel difference within `thresholds.pixelDiffRatio` and no diverging property */
+  consistent: boolean;
+}
+
+/**
+ * Result of a cross-engine consistency check.
+ */
+export interface CrossBrowserResult {
+  summary: string;
+  report: {
+    browsers: BrowserInfo[];
+    pairs: CrossBrowserPair[];
+    /** Diverging properties, one entry per element and property */
+    divergences: CrossBrowserDivergence[];
+    consistent: boolean;
+    /**
+     * Captures keyed by engine and diff images keyed by `<baseline>-<engine>`
+     * (present with `emitArtifacts`).
+     */
+    artifacts?: {
+      captures: Partial<Record<BrowserEngine, string>>;
+      diffs: Record<string, string>;
+    };
+  };
+}
+
+/**
+ * Variant sweep arguments: every variant of a Figma component set compared against the
+ * Storybook story its variant properties map to.
+ */
+export interface VariantsArgs extends Omit<CompareArgs, 'figma' | 'states' | 'breakpoints'> {
+  /**
+   * Figma reference of the COMPONENT_SET node (`fileKey:nodeId` or URL).
+   */
+  figma: string;
+
+  /**
+   * Story URL template. `{<property>}` inserts the variant value, `{<property>|id}` the
+   * value as a story ID segment (`Extra Large` → `extra-large`), and `{args}` the
+   * variant as Storybook URL args (`size:sm;intent:primary`). Property names match
+   * case-insensitively.
+   *
+   * @example 'http://localhost:6006/iframe.html?id=button--{intent|id}&args=size:{size}'
+   */
+  story: string;
+
+  /**
+   * Story value per Figma variant value, by property, e.g. `{ size: { Small: 'sm' } }`.
+   * Values without an entry are used as they are.
+   */
+  values?: Record<string, Record<string, string>>;
+}
+
+/**
+ * One variant of a component set compared against its story.
+ */
+export interface VariantResult {
+  /** Variant node name, e.g. `Size=sm, Intent=primary` */
+  name: string;
+  nodeId: string;
+  /** Variant property values from the node name */
+  properties: Record<string, string>;
+  /** Story URL the variant was compared against */
+  story: string;
+  /** Quality gate passed; false when the comparison failed */
+  pass: boolean;
+  summary: string;
+  /** Comparison report (absent when the comparison failed) */
+  report?: CompareResult['report'];
+  /** Error message of a failed comparison */
+  error?: string;
+}
+
+/**
+ * Result of a variant sweep.
+ */
+export interface VariantsResult {
+  summary: string;
+  report: {
+    componentSet: { fileKey: string; nodeId: string; name: string };
+    /** Variant properties with their values, in Figma order */
+    properties: Record<string, string[]>;
+    variants: VariantResult[];
+    /** Variants that failed their quality gate or could not be compared */
+    drifting: number;
+    pass: boolean;
   };
 }
@@ -1,6 +1,14 @@
 import type {
   AppConfig as CoreAppConfig,
+  AuthOptions as CoreAuthOptions,
+  BrowserEngine as CoreBrowserEngine,
+  BrowserInfo as CoreBrowserInfo,
+  CaptureCookie as CoreCaptureCookie,
+  CaptureStep as CoreCaptureStep,
   ExpectedSpec as CoreExpectedSpec,
+  InteractionState as CoreInteractionState,
+  MediaEmulation as CoreMediaEmulation,
+  NetworkOptions as CoreNetworkOptions,
   QualityGateResult as CoreQualityGateResult,
   StyleDiff as CoreStyleDiff,
   TokenMap as CoreTokenMap,
@@ -10,8 +18,16 @@ import type {
 import { expectTypeOf, test } from 'vitest';
 import type {
   AppConfig,
+  AuthOptions,
+  BrowserEngine,
+  BrowserInfo,
+  CaptureCookie,
+  CaptureStep,
   ExpectedSpec,
   FigmaRootDimensionConstraint,
+  InteractionState,
+  MediaEmulation,
+  NetworkOptions,
   QualityGateResult,
   StyleDiff,
   TokenMap,
@@ -21,8 +37,16 @@ import type {
 
 test('public CLI DTOs remain structurally aligned with the bundled engine', () => {
   expectTypeOf<AppConfig>().toEqualTypeOf<CoreAppConfig>();
+  expectTypeOf<AuthOptions>().toEqualTypeOf<CoreAuthOptions>();
+  expectTypeOf<BrowserEngine>().toEqualTypeOf<CoreBrowserEngine>();
+  expectTypeOf<BrowserInfo>().toEqualTypeOf<CoreBrowserInfo>();
+  expectTypeOf<CaptureCookie>().toEqualTypeOf<CoreCaptureCookie>();
+  expectTypeOf<CaptureStep>().toEqualTypeOf<CoreCaptureStep>();
   expectTypeOf<ExpectedSpec>().toEqualTypeOf<CoreExpectedSpec>();
   expectTypeOf<FigmaRootDimensionConstraint['axis']>().toEqualTypeOf<'horizontal' | 'vertical'>();
+  expectTypeOf<InteractionState>().toEqualTypeOf<CoreInteractionState>();
+  expectTypeOf<MediaEmulation>().toEqualTypeOf<CoreMediaEmulation>();
+  expectTypeOf<NetworkOptions>().toEqualTypeOf<CoreNetworkOptions>();
   expectTypeOf<QualityGateResult>().toEqualTypeOf<CoreQualityGateResult>();
   expectTypeOf<StyleDiff>().toEqualTypeOf<CoreStyleDiff>();
   expectTypeOf<TokenMap>().toEqualTypeOf<CoreTokenMap>();
@@ -88,3 +88,28 @@ export function sanitizeFigmaRefObject(ref: unknown): unknown {
   }
   return sanitized;
 }
+
+const SENSITIVE_HEADER = /auth|cookie|token|secret|key|session/i;
+
+/**
+ * Mask values of credential-bearing headers (Authorization, Cookie, API keys)
+ * @param headers - Extra HTTP headers
+ * @returns Headers with sensitive values masked, others unchanged
+ */
+export function sanitizeHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SENSITIVE_HEADER.test(name) ? maskToken(value) : value,
+    ])
+  );
+}
+
+/**
+ * Mask cookie values, keeping names and scope for diagnostics
+ * @param cookies - Cookies added to the capture context
+ * @returns Cookies with masked values
+ */
+export function sanitizeCookies<T extends { value: string }>(cookies: T[]): T[] {
+  return cookies.map((cookie) => ({ ...cookie, value: maskToken(cookie.value) }));
+}
@@ -227,6 +227,11 @@ function normalizeStyleDiff(
     return Math.min(numDelta / tolerancePx, 1);
   }
 
+  // Gradient angle normalization: degrees / tolerance
+  if (unit === 'deg') {
+    return Math.min(Math.abs(Number(delta)) / tolerances.gradientAngle, 1);
+  }
+
   // Categorical mismatch (display, justify-content, etc.)
   if (unit === 'categorical' || typeof delta === 'string') {
     return propData.actual !== propData.expected ? 1 : 0;
@@ -0,0 +1,62 @@
+/**
+ * PNG fixtures shared by the compareImages tests
+ */
+
+import { PNG } from 'pngjs';
+
+export type RGB = { r: number; g: number; b: number };
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export const white: RGB = { r: 255, g: 255, b: 255 };
+export const black: RGB = { r: 0, g: 0, b: 0 };
+
+/**
+ * Create a solid-color PNG, optionally with a differently colored rectangle
+ */
+export function createTestPng(
+  width: number,
+  height: number,
+  color: RGB,
+  patch?: Rect & { color: RGB }
+): PNG {
+  return paintPng(width, height, color, patch ? [patch] : []);
+}
+
+/**
+ * Create a white PNG with black rectangles
+ */
+export function createRectsPng(width: number, height: number, rects: Rect[] = []): PNG {
+  return paintPng(
+    width,
+    height,
+    white,
+    rects.map((r) => ({ ...r, color: black }))
+  );
+}
+
+function paintPng(
+  width: number,
+  height: number,
+  color: RGB,
+  patches: Array<Rect & { color: RGB }>
+): PNG {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      const patch = patches.find(
+        (p) => x >= p.x && x < p.x + p.width && y >= p.y && y < p.y + p.height
+      );
+      const c = patch ? patch.color : color;
+      png.data[idx] = c.r;
+      png.data[idx + 1] = c.g;
+      png.data[idx + 2] = c.b;
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+export function pngToBase64(png: PNG): string {
+  return PNG.sync.write(png).toString('base64');
+}
@@ -0,0 +1,64 @@
+import { afterEach, expect, test, vi } from 'vitest';
+import type { BrowserEngine } from '../types/adapters';
+import { launchBrowser } from './browser-launch';
+
+const mocks = vi.hoisted(() => ({
+  access: vi.fn(),
+  chromiumLaunch: vi.fn(),
+  firefoxLaunch: vi.fn(),
+  webkitLaunch: vi.fn(),
+}));
+
+vi.mock('node:fs/promises', () => ({ access: mocks.access }));
+vi.mock('playwright', () => ({
+  chromium: { executablePath: () => '/playwright/chromium', launch: mocks.chromiumLaunch },
+  firefox: { executablePath: () => '/playwright/firefox', launch: mocks.firefoxLaunch },
+  webkit: { executablePath: () => '/playwright/webkit', launch: mocks.webkitLaunch },
+}));
+
+afterEach(() => {
+  delete process.env.UIMATCH_HEADLESS;
+  vi.clearAllMocks();
+});
+
+test('launches Chromium with its launch policy by default', async () => {
+  mocks.access.mockResolvedValue(undefined);
+  mocks.chromiumLaunch.mockResolvedValue({});
+
+  await launchBrowser(undefined, { additionalArgs: ['--disable-gpu'] });
+
+  expect(mocks.chromiumLaunch).toHaveBeenCalledWith(
+    expect.objectContaining({ args: ['--disable-gpu'], chromiumSandbox: true })
+  );
+});
+
+test('launches Firefox and WebKit without Chromium arguments', async () => {
+  mocks.firefoxLaunch.mockResolvedValue({});
+  mocks.webkitLaunch.mockResolvedValue({});
+  process.env.UIMATCH_HEADLESS = 'false';
+
+  await launchBrowser('firefox', { additionalArgs: ['--disable-gpu'], timeout: 1234 });
+  await launchBrowser('webkit');
+
+  expect(mocks.firefoxLaunch).toHaveBeenCalledWith({ headless: false, timeout: 1234 });
+  expect(mocks.webkitLaunch).toHaveBeenCalledWith({ headless: false, timeout: undefined });
+  expect(mocks.chromiumLaunch).not.toHaveBeenCalled();
+});
+
+test('suggests installing a missing engine and keeps the cause', async () => {
+  const cause = new Error("Executable doesn't exist");
+  mocks.access.mockRejectedValue(new Error('missing'));
+  mocks.webkitLaunch.mockRejectedValue(cause);
+
+  const error = await launchBrowser('webkit').catch((e: unknown) => e);
+
+  expect(error).toHaveProperty('cause', cause);
+  expect(error).toHaveProperty(
+    'message',
+    'Failed to launch WebKit. Run "npx playwright install webkit" to install it.'
+  );
+});
+
+test('rejects an unknown engine', async () => {
+  await expect(launchBrowser('edge' as BrowserEngine)).rejects.toThrow(RangeError);
+});
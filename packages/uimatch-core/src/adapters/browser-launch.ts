@@ -0,0 +1,61 @@
+/**
+ * Browser launch per engine: Chromium follows its launch policy, Firefox and WebKit use
+ * Playwright's bundled builds
+ */
+
+import { access } from 'node:fs/promises';
+import { firefox, webkit, type Browser, type BrowserType } from 'playwright';
+import type { BrowserEngine } from '../types/adapters';
+import { launchChromium, type ChromiumLaunchRequest } from './chromium-launch';
+
+/**
+ * Supported capture engines.
+ */
+export const BROWSER_ENGINES = [
+  'chromium',
+  'firefox',
+  'webkit',
+] as const satisfies readonly BrowserEngine[];
+
+const ENGINE_NAMES: Record<BrowserEngine, string> = {
+  chromium: 'Chromium',
+  firefox: 'Firefox',
+  webkit: 'WebKit',
+};
+
+async function executableExists(type: BrowserType): Promise<boolean> {
+  try {
+    await access(type.executablePath());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Launch a browser for `engine`. `additionalArgs` only apply to Chromium.
+ *
+ * @throws RangeError for an unknown engine
+ */
+export async function launchBrowser(
+  engine: BrowserEngine = 'chromium',
+  request: ChromiumLaunchRequest = {}
+): Promise<Browser> {
+  if (!(BROWSER_ENGINES as readonly string[]).includes(engine)) {
+    throw new RangeError(`Unknown browser "${engine}": expected ${BROWSER_ENGINES.join(', ')}`);
+  }
+  if (engine === 'chromium') return launchChromium(request);
+
+  const type = engine === 'firefox' ? firefox : webkit;
+  try {
+    return await type.launch({
+      headless: process.env.UIMATCH_HEADLESS !== 'false',
+      timeout: request.timeout,
+    });
+  } catch (cause) {
+    const installHint = (await executableExists(type))
+      ? ''
+      : ` Run "npx playwright install ${engine}" to install it.`;
+    throw new Error(`Failed to launch ${ENGINE_NAMES[engine]}.${installHint}`, { cause });
+  }
+}
@@ -1,4 +1,4 @@
-import { chromium, type Browser, type BrowserContext } from 'playwright';
+import { chromium, firefox, type Browser, type BrowserContext, type Page } from 'playwright';
 import { afterEach, expect, test, vi } from 'vitest';
 import { browserPool } from './browser-pool';
 
@@ -61,3 +61,50 @@ test('closes the browser and reports context cleanup failures', async () => {
   expect(closeOtherContext).toHaveBeenCalledTimes(1);
   expect(closeBrowser).toHaveBeenCalledTimes(1);
 });
+
+test('shares one page per key until it is released', async () => {
+  const closeContext = vi.fn(() => Promise.resolve());
+  const context = createContext(closeContext);
+  const page = { isClosed: () => false, context: () => context } as unknown as Page;
+  const newPage = vi.fn(() => Promise.resolve(page));
+  Object.assign(context, { newPage });
+  mockBrowser(
+    [context],
+    vi.fn(() => Promise.resolve())
+  );
+
+  const first = await browserPool.acquirePage('breakpoints', {});
+  const second = await browserPool.acquirePage('breakpoints', {});
+  expect(first).toEqual({ page, created: true });
+  expect(second).toEqual({ page, created: false });
+  expect(newPage).toHaveBeenCalledTimes(1);
+
+  await browserPool.releasePage('breakpoints');
+  expect(closeContext).toHaveBeenCalledTimes(1);
+});
+
+test('keeps one browser per engine', async () => {
+  const closeChromium = vi.fn(() => Promise.resolve());
+  const closeFirefox = vi.fn(() => Promise.resolve());
+  mockBrowser([createContext(vi.fn(() => Promise.resolve()))], closeChromium);
+  const firefoxContext = createContext(vi.fn(() => Promise.resolve()));
+  vi.spyOn(firefox, 'launch').mockResolvedValue({
+    close: closeFirefox,
+    isConnected: vi.fn(() => true),
+    newContext: vi.fn(() => Promise.resolve(firefoxContext)),
+    once: vi.fn(() => undefined),
+  } as unknown as Browser);
+
+  await browserPool.createContext({});
+  await browserPool.createContext({}, 'firefox');
+  expect(browserPool.isActive('firefox')).toBe(true);
+  expect(browserPool.isActive('webkit')).toBe(false);
+  expect(await browserPool.getBrowser('chromium')).not.toBe(
+    await browserPool.getBrowser('firefox')
+  );
+
+  await browserPool.closeAll();
+  expect(closeChromium).toHaveBeenCalledTimes(1);
+  expect(closeFirefox).toHaveBeenCalledTimes(1);
+  expect(browserPool.isActive()).toBe(false);
+});
@@ -3,73 +3,83 @@
  * Improves performance for /loop by avoiding repeated browser launches
  */
 
-import type { Browser, BrowserContext } from 'playwright';
-import { launchChromium } from './chromium-launch';
+import type { Browser, BrowserContext, Page } from 'playwright';
+import type { BrowserEngine } from '../types/adapters';
+import { launchBrowser } from './browser-launch';
+import { settleHarRecordings } from './playwright/network';
 
 /**
- * Singleton browser pool manager
+ * Singleton browser pool manager, holding one browser per engine
  */
 class BrowserPool {
-  private browser: Browser | null = null;
-  private contexts: Set<BrowserContext> = new Set();
-  private disconnectListenerAttached = false;
-  private launching: Promise<Browser> | null = null;
+  private browsers: Map<BrowserEngine, Browser> = new Map();
+  private contexts: Map<BrowserContext, BrowserEngine> = new Map();
+  private pages: Map<string, Page> = new Map();
+  private launching: Map<BrowserEngine, Promise<Browser>> = new Map();
 
   /**
-   * Get or create a shared browser instance.
-   * Prevents race conditions by ensuring only one launch at a time.
+   * Get or create the shared browser instance for `engine`.
+   * Prevents race conditions by ensuring only one launch per engine at a time.
    */
-  async getBrowser(): Promise<Browser> {
-    if (this.browser?.isConnected()) {
-      return this.browser;
+  async getBrowser(engine: BrowserEngine = 'chromium'): Promise<Browser> {
+    const existing = this.browsers.get(engine);
+    if (existing?.isConnected()) {
+      return existing;
     }
 
     // If already launching, wait for that launch to complete
-    if (this.launching) {
-      return this.launching;
+    const pending = this.launching.get(engine);
+    if (pending) {
+      return pending;
     }
 
-    this.launching = (async () => {
-      this.browser = await launchChromium({
+    const launching = (async () => {
+      const browser = await launchBrowser(engine, {
         additionalArgs: ['--disable-gpu'],
         timeout: Number(process.env.UIMATCH_LAUNCH_TIMEOUT_MS ?? 30000),
       });
-      this.disconnectListenerAttached = false;
-      return this.browser;
+      this.browsers.set(engine, browser);
+
+      // Forget the browser and what it held if it disconnects
+      browser.once('disconnected', () => {
+        if (this.browsers.get(engine) === browser) this.browsers.delete(engine);
+        for (const [context, owner] of this.contexts) {
+          if (owner === engine) this.contexts.delete(context);
+        }
+        for (const [key, page] of this.pages) {
+          if (page.context().browser() === browser) this.pages.delete(key);
+        }
+      });
+      return browser;
     })().finally(() => {
-      this.launching = null;
+      this.launching.delete(engine);
     });
+    this.launching.set(engine, launching);
 
-    return this.launching;
+    return launching;
   }
 
   /**
-   * Create a new browser context
+   * Create a new browser context on the `engine` browser
    * Contexts are lightweight and can be created for each comparison
    */
-  async createContext(options: {
-    viewport?: { width: number; height: number };
-    deviceScaleFactor?: number;
-    httpCredentials?: { username: string; password: string };
-  }): Promise<BrowserContext> {
-    const browser = await this.getBrowser();
+  async createContext(
+    options: {
+      viewport?: { width: number; height: number };
+      deviceScaleFactor?: number;
+      httpCredentials?: { username: string; password: string };
+      storageState?: string;
+      extraHTTPHeaders?: Record<string, string>;
+    },
+    engine: BrowserEngine = 'chromium'
+  ): Promise<BrowserContext> {
+    const browser = await this.getBrowser(engine);
     const context = await browser.newContext(options);
-    this.contexts.add(context);
+    this.contexts.set(context, engine);
 
     // Auto-cleanup when context closes
     context.on('close', () => this.contexts.delete(context));
 
-    // Clean up all contexts if browser disconnects (first time only)
-    if (this.browser && !this.disconnectListenerAttached) {
-      const currentBrowser = this.browser;
-      currentBrowser.once('disconnected', () => {
-        this.contexts.clear();
-        this.browser = null;
-        this.disconnectListenerAttached = false;
-      });
-      this.disconnectListenerAttached = true;
-    }
-
     return context;
   }
 
@@ -79,31 +89,61 @@ class BrowserPool {
   async closeContext(context: BrowserContext): Promise<void> {
     await context.close();
     this.contexts.delete(context);
+    await settleHarRecordings();
+  }
+
+  /**
+   * Get the page kept open under `key`, creating its context on first use.
+   * Lets consecutive captures share one page (e.g. resized per breakpoint).
+   */
+  async acquirePage(
+    key: string,
+    options: Parameters<BrowserPool['createContext']>[0],
+    engine: BrowserEngine = 'chromium'
+  ): Promise<{ page: Page; created: boolean }> {
+    const existing = this.pages.get(key);
+    if (existing && !existing.isClosed()) {
+      return { page: existing, created: false };
+    }
+
+    const context = await this.createContext(options, engine);
+    const page = await context.newPage();
+    this.pages.set(key, page);
+    return { page, created: true };
+  }
+
+  /**
+   * Close the page kept open under `key` together with its context
+   */
+  async releasePage(key: string): Promise<void> {
+    const page = this.pages.get(key);
+    if (!page) return;
+    this.pages.delete(key);
+    await this.closeContext(page.context());
   }
 
   /**
-   * Close all contexts and the browser
+   * Close all contexts and browsers
    */
   async closeAll(): Promise<void> {
     const errors: unknown[] = [];
     const contextResults = await Promise.allSettled(
-      Array.from(this.contexts).map((context) => context.close())
+      Array.from(this.contexts.keys()).map((context) => context.close())
     );
     for (const result of contextResults) {
       if (result.status === 'rejected') errors.push(result.reason);
     }
     this.contexts.clear();
+    this.pages.clear();
+    await settleHarRecordings();
 
-    if (this.browser) {
-      try {
-        await this.browser.close();
-      } catch (error) {
-        errors.push(error);
-      } finally {
-        this.browser = null;
-        this.disconnectListenerAttached = false;
-      }
+    const browserResults = await Promise.allSettled(
+      Array.from(this.browsers.values()).map((browser) => browser.close())
+    );
+    for (const result of browserResults) {
+      if (result.status === 'rejected') errors.push(result.reason);
     }
+    this.browsers.clear();
 
     if (errors.length > 0) {
       throw new AggregateError(errors, 'Failed to close browser pool');
@@ -111,10 +151,11 @@ class BrowserPool {
   }
 
   /**
-   * Check if browser is active
+   * Check if a browser is active (for `engine`, or any engine when omitted)
    */
-  isActive(): boolean {
-    return this.browser !== null && this.browser.isConnected();
+  isActive(engine?: BrowserEngine): boolean {
+    const browsers = engine ? [this.browsers.get(engine)] : Array.from(this.browsers.values());
+    return browsers.some((browser) => browser?.isConnected() === true);
   }
 }
 
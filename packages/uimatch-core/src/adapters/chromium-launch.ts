@@ -10,7 +10,7 @@ export interface ChromiumLaunchPolicy {
   args: string[];
 }
 
-interface ChromiumLaunchRequest {
+export interface ChromiumLaunchRequest {
   additionalArgs?: string[];
   timeout?: number;
 }
@@ -1,3 +1,7 @@
+export { BROWSER_ENGINES, launchBrowser } from './browser-launch';
 export { browserPool } from './browser-pool';
 export { getChromiumLaunchPolicy, launchChromium } from './chromium-launch';
 export { PlaywrightAdapter, captureTarget, resolveLocator } from './playwright';
+export { saveStorageState, type LoginOptions } from './playwright/auth';
+export { parseRouteMocks } from './playwright/network';
+export { parseCaptureSteps } from './playwright/steps';
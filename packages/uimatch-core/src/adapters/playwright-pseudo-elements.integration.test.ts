@@ -0,0 +1,80 @@
+/**
+ * Style collection for ::before/::after/::placeholder/::marker
+ */
+
+import { afterAll, describe, expect, test } from 'vitest';
+import { browserPool } from './browser-pool';
+import { PlaywrightAdapter } from './playwright';
+
+// Allow time for a cold Chromium launch.
+const TEST_TIMEOUT = Number(process.env.E2E_TIMEOUT_MS ?? 45000);
+
+const itT = (name: string, fn: () => Promise<void>) => test(name, { timeout: TEST_TIMEOUT }, fn);
+
+describe('PlaywrightAdapter - pseudo-elements', () => {
+  const testHtml = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          .badge::before { content: "★"; color: rgb(255, 0, 0); position: absolute; top: 2px; }
+          input::placeholder { color: rgb(156, 163, 175); }
+        </style>
+      </head>
+      <body>
+        <form id="form">
+          <span class="badge" data-testid="badge">New</span>
+          <input data-testid="email" placeholder="Email" />
+          <input data-testid="name" />
+        </form>
+      </body>
+    </html>
+  `;
+
+  afterAll(async () => {
+    await browserPool.closeAll();
+  });
+
+  itT('collects rendered pseudo-elements under test-id selectors', async () => {
+    const adapter = new PlaywrightAdapter({ reuseBrowser: true });
+    const result = await adapter.captureTarget({
+      html: testHtml,
+      selector: '#form',
+      detectStorybookIframe: false,
+      idleWaitMs: 0,
+      dpr: 1,
+    });
+
+    const before = result.styles['__self__ > :nth-child(1)::before'];
+    expect(before?.['content']).toBe('"★"');
+    expect(before?.['color']).toBe('rgb(255, 0, 0)');
+    expect(before?.['top']).toBe('2px');
+    expect(result.meta?.['__self__ > :nth-child(1)::before']?.cssSelector).toBe(
+      '[data-testid="badge"]::before'
+    );
+    expect(result.styles['__self__ > :nth-child(2)::placeholder']?.['color']).toBe(
+      'rgb(156, 163, 175)'
+    );
+    // Nothing is generated without content or a placeholder
+    expect(result.styles['__self__ > :nth-child(1)::after']).toBeUndefined();
+    expect(result.styles['__self__ > :nth-child(3)::placeholder']).toBeUndefined();
+  });
+
+  itT('counts pseudo-elements against maxChildren', async () => {
+    const adapter = new PlaywrightAdapter({ reuseBrowser: true });
+    const result = await adapter.captureTarget({
+      html: testHtml,
+      selector: '#form',
+      detectStorybookIframe: false,
+      idleWaitMs: 0,
+      dpr: 1,
+      maxChildren: 3,
+    });
+
+    expect(Object.keys(result.styles)).toEqual([
+      '__self__',
+      '__self__ > :nth-child(1)',
+      '__self__ > :nth-child(1)::before',
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Style collection through open shadow roots and slots
+ */
+
+import { afterAll, describe, expect, test } from 'vitest';
+import { browserPool } from './browser-pool';
+import { PlaywrightAdapter } from './playwright';
+
+// Allow time for a cold Chromium launch.
+const TEST_TIMEOUT = Number(process.env.E2E_TIMEOUT_MS ?? 45000);
+
+const itT = (name: string, fn: () => Promise<void>) => test(name, { timeout: TEST_TIMEOUT }, fn);
+
+describe('PlaywrightAdapter - Shadow DOM', () => {
+  const testHtml = `
+    <!DOCTYPE html>
+    <html>
+      <body>
+        <ui-card id="card"><span class="title" style="color: rgb(255, 0, 0)">Hello</span></ui-card>
+        <script>
+          customElements.define('ui-card', class extends HTMLElement {
+            constructor() {
+              super();
+              this.attachShadow({ mode: 'open' }).innerHTML =
+                '<div class="frame" style="padding: 8px"><slot></slot></div>' +
+                '<button class="action" style="color: rgb(0, 0, 255)">OK</button>';
+            }
+          });
+        </script>
+      </body>
+    </html>
+  `;
+
+  afterAll(async () => {
+    await browserPool.closeAll();
+  });
+
+  itT('collects shadow children and slotted content', async () => {
+    const adapter = new PlaywrightAdapter({ reuseBrowser: true });
+    const result = await adapter.captureTarget({
+      html: testHtml,
+      selector: '#card',
+      detectStorybookIframe: false,
+      idleWaitMs: 0,
+      dpr: 1,
+    });
+
+    expect(result.styles['__self__ >>> :nth-child(1)']?.['padding-top']).toBe('8px');
+    expect(result.styles['__self__ >>> :nth-child(2)']?.['color']).toBe('rgb(0, 0, 255)');
+    expect(result.meta?.['__self__ >>> :nth-child(2)']?.cssSelector).toBe(
+      'ui-card#card >>> button.action'
+    );
+    // Slotted content keeps its light DOM path
+    expect(result.styles['__self__ > :nth-child(1)']?.['color']).toBe('rgb(255, 0, 0)');
+  });
+
+  itT('resolves dompath child selectors inside shadow roots', async () => {
+    const adapter = new PlaywrightAdapter({ reuseBrowser: true });
+    const result = await adapter.captureTarget({
+      html: testHtml,
+      selector: '#card',
+      childSelector: 'dompath:__self__ >>> :nth-child(2)',
+      detectStorybookIframe: false,
+      idleWaitMs: 0,
+      dpr: 1,
+    });
+
+    expect(result.childBox?.width).toBeGreaterThan(0);
+  });
+});
@@ -3,14 +3,23 @@
  */
 
 import { createLogger } from '@uimatch/shared-logging';
-import type { Browser, BrowserContext, Locator } from 'playwright';
+import type { Browser, BrowserContext, Locator, Page } from 'playwright';
 import { DEFAULT_CONFIG } from '../config/defaults';
 import type { BrowserAdapter, CaptureOptions, CaptureResult } from '../types/adapters';
 import { UiMatchError } from '../types/errors';
+import { launchBrowser } from './browser-launch';
 import { browserPool } from './browser-pool';
-import { launchChromium } from './chromium-launch';
-import { DEFAULT_PROPS, EXTENDED_PROPS } from './playwright/constants';
-import { resolveLocator } from './playwright/locator-resolver';
+import { resolveCookies } from './playwright/auth';
+import {
+  DEFAULT_PROPS,
+  EXTENDED_PROPS,
+  PSEUDO_ELEMENTS,
+  PSEUDO_PROPS,
+} from './playwright/constants';
+import { applyInteractionState, forcePseudoClasses } from './playwright/interaction-state';
+import { domPathSelector, resolveLocator } from './playwright/locator-resolver';
+import { applyNetworkOptions, settleHarRecordings } from './playwright/network';
+import { runCaptureSteps } from './playwright/steps';
 import { createTimeBudget, getE2ETimeBudget, type TimeBudget } from './playwright/time-budget';
 
 const logger = createLogger({ package: '@uimatch/core', module: 'playwright' });
@@ -57,28 +66,65 @@ export class PlaywrightAdapter implements BrowserAdapter {
       ? createTimeBudget(getE2ETimeBudget())
       : undefined;
 
+    const pageBackground = opts.pageBackground ?? '#fff';
+    if (typeof pageBackground === 'string' && /[;{}<>]/.test(pageBackground)) {
+      throw new RangeError('pageBackground must be a single CSS background value');
+    }
+
+    const engine = opts.browser ?? 'chromium';
+    // Pseudo-classes are forced through CDP, which only Chromium speaks
+    if (
+      engine !== 'chromium' &&
+      (opts.state === 'focus-visible' || opts.forcePseudoClasses?.length)
+    ) {
+      throw new RangeError(
+        `${opts.forcePseudoClasses?.length ? 'forcePseudoClasses' : 'state "focus-visible"'} requires Chromium (browser: ${engine})`
+      );
+    }
+
     const effectiveReuse = opts.reuseBrowser ?? this.reuseBrowser;
     let browser: Browser | undefined;
     let context: BrowserContext | undefined;
+    const releaseStates: Array<() => Promise<void>> = [];
 
     try {
-      if (effectiveReuse) {
-        context = await browserPool.createContext({
-          viewport: opts.viewport ?? { width: 1440, height: 900 },
-          deviceScaleFactor: opts.dpr ?? 2,
-          httpCredentials: opts.basicAuth,
-        });
+      const viewport = opts.viewport ?? { width: 1440, height: 900 };
+      const contextOptions = {
+        viewport,
+        deviceScaleFactor: opts.dpr ?? 2,
+        httpCredentials: opts.basicAuth,
+        storageState: opts.storageState,
+        extraHTTPHeaders: opts.extraHTTPHeaders,
+      };
+      const cookies = resolveCookies(opts.cookies ?? [], opts.url);
+      const prepareContext = async (ctx: BrowserContext): Promise<void> => {
+        if (cookies.length > 0) await ctx.addCookies(cookies);
+        await applyNetworkOptions(ctx, opts, opts.url);
+      };
+      let page: Page;
+      // Shared pages are resized in place and only navigated when they show another URL
+      let navigate = true;
+
+      if (effectiveReuse && opts.sharedPage) {
+        const shared = await browserPool.acquirePage(opts.sharedPage, contextOptions, engine);
+        page = shared.page;
+        if (shared.created) await prepareContext(page.context());
+        if (!shared.created) {
+          await page.setViewportSize(viewport);
+          // Steps change the page, so they always start from a fresh load
+          navigate = !opts.url || page.url() !== opts.url || Boolean(opts.steps?.length);
+        }
       } else {
-        browser = await launchChromium();
-        context = await browser.newContext({
-          viewport: opts.viewport ?? { width: 1440, height: 900 },
-          deviceScaleFactor: opts.dpr ?? 2,
-          httpCredentials: opts.basicAuth,
-        });
+        if (effectiveReuse) {
+          context = await browserPool.createContext(contextOptions, engine);
+        } else {
+          browser = await launchBrowser(engine);
+          context = await browser.newContext(contextOptions);
+        }
+        await prepareContext(context);
+        page = await context.newPage();
       }
 
-      const page = await context.newPage();
-
       // Set shorter default timeouts to ensure page-level timeout < test timeout
       // If time budget is enabled, dynamically adjust timeouts based on remaining budget
       const baseSelTimeout = Number(process.env.UIMATCH_SELECTOR_WAIT_MS ?? 6000);
@@ -100,10 +146,26 @@ export class PlaywrightAdapter implements BrowserAdapter {
       const shotTimeout = timeBudget ? timeBudget.allocate(baseShotTimeout) : baseShotTimeout;
       const navTimeout = timeBudget ? timeBudget.allocate(baseNavTimeout) : baseNavTimeout;
 
+      // Media features (dark mode, reduced motion, forced colors, print)
+      const { colorScheme, reducedMotion, forcedColors, media } = opts;
+      if (colorScheme || reducedMotion || forcedColors || media) {
+        await page.emulateMedia({ colorScheme, reducedMotion, forcedColors, media });
+      }
+
       page.setDefaultTimeout(selTimeout);
       page.setDefaultNavigationTimeout(navTimeout);
 
-      if (opts.url) {
+      if (!navigate) {
+        // Same document, new viewport size: let layout settle before measuring
+        await page.evaluate(
+          () =>
+            new Promise<void>((resolve) =>
+              globalThis.requestAnimationFrame(() =>
+                globalThis.requestAnimationFrame(() => resolve())
+              )
+            )
+        );
+      } else if (opts.url) {
         const timeout = Number(process.env.UIMATCH_HTTP_TIMEOUT_MS) || 30_000;
         let waitUntil =
           (process.env.UIMATCH_WAIT_UNTIL as 'load' | 'networkidle' | 'domcontentloaded') || 'load';
@@ -131,9 +193,11 @@ export class PlaywrightAdapter implements BrowserAdapter {
         if (sb) frame = sb;
       }
 
-      // Disable animations, enforce white background, and preload fonts
+      // Disable animations, enforce the page background, and preload fonts
+      const backgroundRule =
+        pageBackground === false ? '' : `body{background:${pageBackground}!important}`;
       await frame.addStyleTag({
-        content: `*{animation:none!important;transition:none!important}body{background:#fff!important}`,
+        content: `*{animation:none!important;transition:none!important}${backgroundRule}`,
       });
       if (opts.fontPreloads?.length) {
         await frame.evaluate((urls: string[]) => {
@@ -165,6 +229,11 @@ export class PlaywrightAdapter implements BrowserAdapter {
         });
       }, idleWaitMs);
 
+      // Scripted interactions (open menus, fill forms) before locating the target
+      if (opts.steps?.length) {
+        await runCaptureSteps(frame, opts.steps, selTimeout);
+      }
+
       // Resolve locator with intelligent fallback for reliability
       const locator = await (async () => {
         // Primary: standard resolution
@@ -270,6 +339,14 @@ export class PlaywrightAdapter implements BrowserAdapter {
         );
       }
 
+      // Interaction state and forced pseudo-classes (held until styles are collected)
+      if (opts.state && opts.state !== 'default') {
+        releaseStates.push(await applyInteractionState(page, locator, opts.state, selTimeout));
+      }
+      if (opts.forcePseudoClasses?.length) {
+        releaseStates.push(await forcePseudoClasses(page, locator, opts.forcePseudoClasses));
+      }
+
       // Add explicit timeout to screenshot as well
       const implPng = await locator.screenshot({ type: 'png', timeout: shotTimeout });
 
@@ -282,8 +359,8 @@ export class PlaywrightAdapter implements BrowserAdapter {
         try {
           let childLoc: Locator | undefined;
           if (isDomPath) {
-            // dompath: relative to root locator
-            childLoc = locator.locator(cs.replace(/^dompath:/i, ''));
+            // dompath: relative to root locator (style keys, possibly crossing shadow roots)
+            childLoc = locator.locator(domPathSelector(cs.replace(/^dompath:/i, '')));
           } else if (isCss) {
             // CSS: relative scope
             const cleaned = cs.replace(/^css:/i, '');
@@ -302,15 +379,48 @@ export class PlaywrightAdapter implements BrowserAdapter {
         }
       }
 
+      // Resolve mask selectors to bounding boxes (page coordinates, same space as box)
+      let maskBoxes: CaptureResult['maskBoxes'];
+      if (opts.maskSelectors && opts.maskSelectors.length > 0) {
+        maskBoxes = [];
+        for (const maskSelector of opts.maskSelectors) {
+          try {
+            const matches = await resolveLocator(frame, maskSelector).all();
+            for (const match of matches) {
+              const mb = await match.boundingBox({ timeout: 500 });
+              if (mb && mb.width > 0 && mb.height > 0) {
+                maskBoxes.push({
+                  selector: maskSelector,
+                  x: mb.x,
+                  y: mb.y,
+                  width: mb.width,
+                  height: mb.height,
+                });
+              }
+            }
+          } catch (e) {
+            // Invalid or unresolvable mask selector - continue without it
+            logger.debug(
+              { selector: maskSelector, error: e instanceof Error ? e.message : String(e) },
+              'Mask selector could not be resolved'
+            );
+          }
+        }
+      }
+
       // Extract computed styles and DOM metadata from the element and its children
       type StyleEvalArg = {
         max: number;
         maxDepth: number;
         props: string[];
+        pseudoElements: string[];
+        pseudoProps: string[];
         propsMode: CaptureOptions['propsMode'];
       };
       type StyleEvalRet = {
         styles: Record<string, Record<string, string>>;
+        boxes: Record<string, { x: number; y: number; width: number; height: number }>;
+        textBackgrounds: Record<string, string>;
         meta: Record<
           string,
           {
@@ -330,16 +440,23 @@ export class PlaywrightAdapter implements BrowserAdapter {
         >;
       };
 
-      const { styles, meta } = await locator.evaluate<StyleEvalRet, StyleEvalArg>(
+      const { styles, boxes, textBackgrounds, meta } = await locator.evaluate<
+        StyleEvalRet,
+        StyleEvalArg
+      >(
         (root, arg) => {
-          const { max, maxDepth, props, propsMode } = arg;
+          const { max, maxDepth, props, pseudoElements, pseudoProps, propsMode } = arg;
           const stylesResult: StyleEvalRet['styles'] = {};
+          const boxesResult: StyleEvalRet['boxes'] = {};
           const metaResult: StyleEvalRet['meta'] = {};
+          const textBackgroundsResult: StyleEvalRet['textBackgrounds'] = {};
+          // Boxes are recorded relative to the root so they can be moved into page space
+          const rootRect = root.getBoundingClientRect();
           let seen = 0;
 
-          const rec = (el: Element) => {
-            const st = getComputedStyle(el);
-            const list = propsMode === 'all' ? Array.from(st) : props;
+          const rec = (el: Element, pseudo?: string) => {
+            const st = getComputedStyle(el, pseudo);
+            const list = propsMode === 'all' ? Array.from(st) : pseudo ? pseudoProps : props;
             const out: Record<string, string> = {};
             for (const p of list) {
               out[p] = st.getPropertyValue(p) || '';
@@ -402,22 +519,174 @@ export class PlaywrightAdapter implements BrowserAdapter {
             };
           };
 
-          const walk = (el: Element, path: string, depth: number) => {
+          // Parent in the rendered (flat) tree: the slot for slotted content, the host for
+          // the top of a shadow tree
+          const renderedParent = (el: Element): Element | null => {
+            if (el.assignedSlot) return el.assignedSlot;
+            if (el.parentElement) return el.parentElement;
+            const rootNode = el.getRootNode();
+            return rootNode instanceof ShadowRoot ? rootNode.host : null;
+          };
+
+          // Computed colors keep modern syntaxes (oklch(), lab(), color(srgb ...)), so anything
+          // but legacy rgb()/rgba() is painted on a 1x1 canvas and read back as sRGB
+          const colorCanvas = document.createElement('canvas');
+          colorCanvas.width = 1;
+          colorCanvas.height = 1;
+          const colorContext = colorCanvas.getContext('2d', { willReadFrequently: true });
+          const toRgba = (css: string): number[] | undefined => {
+            const legacy = css.match(
+              /^rgba?\((\d+(?:\.\d+)?), (\d+(?:\.\d+)?), (\d+(?:\.\d+)?)(?:, (\d*\.?\d+))?\)$/
+            );
+            if (legacy) {
+              return [
+                Number(legacy[1]),
+                Number(legacy[2]),
+                Number(legacy[3]),
+                Number(legacy[4] ?? 1),
+              ];
+            }
+            if (!colorContext) return undefined;
+            // A value the canvas cannot parse leaves the previous fill style in place
+            colorContext.fillStyle = '#000';
+            colorContext.fillStyle = css;
+            const overBlack = colorContext.fillStyle;
+            colorContext.fillStyle = '#fff';
+            colorContext.fillStyle = css;
+            if (colorContext.fillStyle !== overBlack) return undefined;
+            colorContext.clearRect(0, 0, 1, 1);
+            colorContext.fillRect(0, 0, 1, 1);
+            const [r = 0, g = 0, b = 0, a = 0] = colorContext.getImageData(0, 0, 1, 1).data;
+            return [r, g, b, a / 255];
+          };
+
+          // Background painted behind an element: its own and its ancestors' background
+          // colors, composited over a white canvas (background images are not considered).
+          // Undefined when a background color cannot be parsed.
+          const paintedBackground = (el: Element): string | undefined => {
+            const layers: number[][] = [];
+            for (let n: Element | null = el; n; n = renderedParent(n)) {
+              const channels = toRgba(getComputedStyle(n).backgroundColor);
+              if (!channels) return undefined;
+              const [r = 0, g = 0, b = 0, a = 1] = channels;
+              if (a <= 0) continue;
+              layers.push([r, g, b, a]);
+              if (a >= 1) break;
+            }
+            let [r, g, b] = [255, 255, 255];
+            for (const [lr = 0, lg = 0, lb = 0, la = 1] of layers.reverse()) {
+              r = lr * la + r * (1 - la);
+              g = lg * la + g * (1 - la);
+              b = lb * la + b * (1 - la);
+            }
+            return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+          };
+
+          const hasOwnText = (el: Element): boolean =>
+            Array.from(el.childNodes).some(
+              (n) => n.nodeType === Node.TEXT_NODE && (n.textContent ?? '').trim() !== ''
+            );
+
+          // Whether a pseudo-element of `el` renders: generated content, a placeholder on a
+          // text field, or the marker of a list item
+          const rendersPseudo = (el: Element, pseudo: string): boolean => {
+            if (pseudo === '::placeholder') {
+              return (
+                (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) &&
+                el.placeholder !== ''
+              );
+            }
+            if (pseudo === '::marker') return getComputedStyle(el).display === 'list-item';
+            const content = getComputedStyle(el, pseudo).content;
+            return content !== 'none' && content !== 'normal';
+          };
+
+          // Keys and selector scopes of visited elements, to place slotted content
+          const paths = new Map<Element, string>();
+          const scopes = new Map<Element, string>();
+
+          // Walks the rendered tree: open shadow roots (`>>>` in keys and cssSelector) and
+          // slotted light children, which keep their light DOM key
+          const walk = (el: Element, path: string, depth: number, scope: string) => {
             if (seen++ >= max) return;
+            paths.set(el, path);
+            scopes.set(el, scope);
             stylesResult[path] = rec(el);
-            metaResult[path] = info(el);
+            const elInfo = info(el);
+            const cssSelector = scope ? `${scope} >>> ${elInfo.cssSelector}` : elInfo.cssSelector;
+            metaResult[path] = { ...elInfo, cssSelector };
+            // Pseudo-elements are keyed after their element, e.g. `__self__::before`, and
+            // count against `max` like elements do
+            for (const pseudo of pseudoElements) {
+              if (seen >= max) break;
+              if (!rendersPseudo(el, pseudo)) continue;
+              seen++;
+              stylesResult[`${path}${pseudo}`] = rec(el, pseudo);
+              metaResult[`${path}${pseudo}`] = {
+                tag: elInfo.tag,
+                testid: elInfo.testid,
+                cssSelector: `${cssSelector}${pseudo}`,
+              };
+            }
+            const background = hasOwnText(el) ? paintedBackground(el) : undefined;
+            if (background) textBackgroundsResult[path] = background;
+            const r = el.getBoundingClientRect();
+            if (r.width > 0 && r.height > 0) {
+              boxesResult[path] = {
+                x: r.left - rootRect.left,
+                y: r.top - rootRect.top,
+                width: r.width,
+                height: r.height,
+              };
+            }
             if (depth >= maxDepth) return;
+
+            if (el.shadowRoot) {
+              // Light children of a host render only through its slots
+              const kids = Array.from(el.shadowRoot.children);
+              const hostSelector = metaResult[path]?.cssSelector ?? '';
+              for (let i = 0; i < kids.length && seen < max; i++) {
+                const kid = kids[i];
+                if (kid) {
+                  walk(kid, `${path} >>> :nth-child(${i + 1})`, depth + 1, hostSelector);
+                }
+              }
+              return;
+            }
+
+            const assigned =
+              el instanceof HTMLSlotElement ? el.assignedElements({ flatten: true }) : [];
+            for (const kid of assigned) {
+              const parent = kid.parentElement;
+              const parentPath = parent ? paths.get(parent) : undefined;
+              if (!parent || parentPath === undefined || seen >= max) continue;
+              const index = Array.from(parent.children).indexOf(kid);
+              walk(
+                kid,
+                `${parentPath} > :nth-child(${index + 1})`,
+                depth + 1,
+                scopes.get(parent) ?? ''
+              );
+            }
+            if (assigned.length > 0) return;
+
+            // Regular children, or the fallback content of an empty slot
             const kids = Array.from(el.children);
             for (let i = 0; i < kids.length && seen < max; i++) {
               const kid = kids[i];
               if (kid) {
-                walk(kid, `${path} > :nth-child(${i + 1})`, depth + 1);
+                walk(kid, `${path} > :nth-child(${i + 1})`, depth + 1, scope);
               }
             }
           };
 
-          walk(root, '__self__', 0);
-          return { styles: stylesResult, meta: metaResult };
+          walk(root, '__self__', 0, '');
+          return {
+            styles: stylesResult,
+            boxes: boxesResult,
+            textBackgrounds: textBackgroundsResult,
+            meta: metaResult,
+          };
         },
         {
           max: opts.maxChildren ?? DEFAULT_CONFIG.capture.defaultMaxChildren,
@@ -426,17 +695,44 @@ export class PlaywrightAdapter implements BrowserAdapter {
           props: Array.from(
             (opts.propsMode ?? 'extended') === 'default' ? DEFAULT_PROPS : EXTENDED_PROPS
           ),
+          pseudoElements: Array.from(PSEUDO_ELEMENTS),
+          pseudoProps: Array.from(PSEUDO_PROPS),
         }
       );
 
-      return { implPng: Buffer.from(implPng), styles, box, childBox, meta };
+      const elementBoxes: CaptureResult['elementBoxes'] = {};
+      for (const [path, b] of Object.entries(boxes)) {
+        elementBoxes[path] = { ...b, x: box.x + b.x, y: box.y + b.y };
+      }
+
+      return {
+        implPng: Buffer.from(implPng),
+        styles,
+        box,
+        childBox,
+        maskBoxes,
+        elementBoxes,
+        textBackgrounds,
+        meta,
+        browser: { engine, version: page.context().browser()?.version() ?? 'unknown' },
+      };
     } finally {
+      for (const release of releaseStates.reverse()) {
+        await release().catch((error: unknown) =>
+          logger.debug(
+            { error: error instanceof Error ? error.message : String(error) },
+            'Failed to release interaction state'
+          )
+        );
+      }
+
       if (context) {
         try {
           if (effectiveReuse) {
             await browserPool.closeContext(context);
           } else {
             await context.close();
+            await settleHarRecordings();
           }
         } catch (error) {
           logger.warn(
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for session cookies and login storage state
+ */
+
+import { chromium, type Browser, type BrowserContext } from 'playwright';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { resolveCookies, saveStorageState } from './auth';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('resolveCookies', () => {
+  test('scopes cookies without url or domain to the page URL', () => {
+    const cookies = resolveCookies(
+      [
+        { name: 'session', value: 'abc' },
+        { name: 'locale', value: 'en', domain: '.example.com', path: '/' },
+      ],
+      'https://app.example.com/settings'
+    );
+
+    expect(cookies).toEqual([
+      { name: 'session', value: 'abc', url: 'https://app.example.com/settings' },
+      { name: 'locale', value: 'en', domain: '.example.com', path: '/' },
+    ]);
+  });
+
+  test('rejects unscoped cookies without a page URL', () => {
+    expect(() => resolveCookies([{ name: 'session', value: 'abc' }])).toThrow(RangeError);
+  });
+});
+
+describe('saveStorageState', () => {
+  test('runs the login and writes the storage state', async () => {
+    const page = { goto: vi.fn(() => Promise.resolve(null)) };
+    const storageState = vi.fn(() => Promise.resolve({ cookies: [], origins: [] }));
+    const closeContext = vi.fn(() => Promise.resolve());
+    const context = {
+      addCookies: vi.fn(() => Promise.resolve()),
+      newPage: vi.fn(() => Promise.resolve(page)),
+      storageState,
+      close: closeContext,
+    } as unknown as BrowserContext;
+    const closeBrowser = vi.fn(() => Promise.resolve());
+    const newContext = vi.fn(() => Promise.resolve(context));
+    const browser = { newContext, close: closeBrowser } as unknown as Browser;
+    vi.spyOn(chromium, 'launch').mockResolvedValue(browser);
+    const run = vi.fn(() => Promise.resolve());
+
+    await saveStorageState({
+      url: 'https://app.example.com/login',
+      extraHTTPHeaders: { 'X-Env': 'staging' },
+      run,
+      path: '/tmp/state.json',
+    });
+
+    expect(newContext).toHaveBeenCalledWith(
+      expect.objectContaining({ extraHTTPHeaders: { 'X-Env': 'staging' } })
+    );
+    expect(page.goto).toHaveBeenCalledWith('https://app.example.com/login', expect.anything());
+    expect(run).toHaveBeenCalledWith(page);
+    expect(storageState).toHaveBeenCalledWith({ path: '/tmp/state.json' });
+    expect(closeContext).toHaveBeenCalledTimes(1);
+    expect(closeBrowser).toHaveBeenCalledTimes(1);
+  });
+
+  test('closes the browser when the login fails', async () => {
+    const storageState = vi.fn(() => Promise.resolve({ cookies: [], origins: [] }));
+    const context = {
+      newPage: vi.fn(() => Promise.resolve({})),
+      storageState,
+      close: vi.fn(() => Promise.resolve()),
+    } as unknown as BrowserContext;
+    const closeBrowser = vi.fn(() => Promise.resolve());
+    const browser = {
+      newContext: vi.fn(() => Promise.resolve(context)),
+      close: closeBrowser,
+    } as unknown as Browser;
+    vi.spyOn(chromium, 'launch').mockResolvedValue(browser);
+
+    await expect(
+      saveStorageState({
+        run: () => Promise.reject(new Error('Invalid password')),
+        path: '/tmp/state.json',
+      })
+    ).rejects.toThrow('Invalid password');
+    expect(storageState).not.toHaveBeenCalled();
+    expect(closeBrowser).toHaveBeenCalledTimes(1);
+  });
+});
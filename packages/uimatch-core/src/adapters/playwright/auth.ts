@@ -0,0 +1,96 @@
+/**
+ * Session credentials: cookies for the capture context and login runs that save a
+ * reusable storage state
+ */
+
+import type { Browser, BrowserContext, Page } from 'playwright';
+import type { AuthOptions, BrowserEngine, CaptureCookie, CaptureStep } from '../../types/adapters';
+import { launchBrowser } from '../browser-launch';
+import { browserPool } from '../browser-pool';
+import { runCaptureSteps } from './steps';
+
+/**
+ * Give cookies without `url` or `domain` the page URL.
+ *
+ * @throws RangeError when such a cookie has no URL to apply to (html captures)
+ */
+export function resolveCookies(cookies: CaptureCookie[], url?: string): CaptureCookie[] {
+  return cookies.map((cookie) => {
+    if (cookie.url || cookie.domain) return cookie;
+    if (!url) {
+      throw new RangeError(`Cookie "${cookie.name}" needs a url or domain when capturing html`);
+    }
+    return { ...cookie, url };
+  });
+}
+
+/**
+ * Login run whose resulting cookies and localStorage are saved for later captures.
+ */
+export interface LoginOptions extends AuthOptions {
+  /** File the storage state is written to */
+  path: string;
+  /** Page opened before the login runs */
+  url?: string;
+  /** Declarative login (fill credentials, submit, wait for the app) */
+  steps?: CaptureStep[];
+  /** Scripted login, run after `steps` */
+  run?: (page: Page) => Promise<void>;
+  /** HTTP Basic Authentication credentials */
+  basicAuth?: { username: string; password: string };
+  /**
+   * Browser engine to log in with
+   * @default 'chromium'
+   */
+  browser?: BrowserEngine;
+  /**
+   * Use the shared browser pool instead of launching a browser
+   * @default false
+   */
+  reuseBrowser?: boolean;
+}
+
+/**
+ * Run a login once and save the session as a Playwright storage state file, to be
+ * passed to captures as `storageState`.
+ *
+ * @throws UiMatchError `UIMATCH_CAPTURE_STEP_FAILED` when a login step fails
+ */
+export async function saveStorageState(opts: LoginOptions): Promise<void> {
+  const contextOptions = {
+    httpCredentials: opts.basicAuth,
+    storageState: opts.storageState,
+    extraHTTPHeaders: opts.extraHTTPHeaders,
+  };
+  let browser: Browser | undefined;
+  let context: BrowserContext | undefined;
+
+  try {
+    if (opts.reuseBrowser) {
+      context = await browserPool.createContext(contextOptions, opts.browser);
+    } else {
+      browser = await launchBrowser(opts.browser);
+      context = await browser.newContext(contextOptions);
+    }
+    const cookies = resolveCookies(opts.cookies ?? [], opts.url);
+    if (cookies.length > 0) await context.addCookies(cookies);
+
+    const page = await context.newPage();
+    if (opts.url) {
+      const timeout = Number(process.env.UIMATCH_HTTP_TIMEOUT_MS) || 30_000;
+      await page.goto(opts.url, { waitUntil: 'load', timeout });
+    }
+    if (opts.steps?.length) {
+      const stepTimeout = Number(process.env.UIMATCH_SELECTOR_WAIT_MS ?? 6000);
+      await runCaptureSteps(page.mainFrame(), opts.steps, stepTimeout);
+    }
+    if (opts.run) await opts.run(page);
+
+    await context.storageState({ path: opts.path });
+  } finally {
+    if (context) {
+      await (opts.reuseBrowser ? browserPool.closeContext(context) : context.close());
+    }
+    await browser?.close();
+  }
+}
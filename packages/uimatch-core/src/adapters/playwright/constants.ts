@@ -16,6 +16,7 @@ export const DEFAULT_PROPS = [
   'letter-spacing',
   'color',
   'background-color',
+  'background-image',
   'border-radius',
   'border-color',
   'border-width',
@@ -99,3 +100,32 @@ export const EXTENDED_PROPS = [
   'backdrop-filter',
   'text-wrap',
 ] as const;
+
+/**
+ * Pseudo-elements collected for every walked element (when rendered).
+ */
+export const PSEUDO_ELEMENTS = ['::before', '::after', '::placeholder', '::marker'] as const;
+
+/**
+ * CSS properties extracted from pseudo-elements: generated content, color, size,
+ * background, position, and the typography placeholders and markers carry.
+ */
+export const PSEUDO_PROPS = [
+  'content',
+  'color',
+  'width',
+  'height',
+  'background-color',
+  'background-image',
+  'border-radius',
+  'position',
+  'top',
+  'right',
+  'bottom',
+  'left',
+  'display',
+  'font-size',
+  'font-family',
+  'font-weight',
+  'opacity',
+] as const;
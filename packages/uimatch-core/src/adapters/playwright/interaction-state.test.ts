@@ -0,0 +1,100 @@
+/**
+ * Unit tests for interaction state helpers
+ */
+
+import type { Locator, Page } from 'playwright';
+import { describe, expect, test, vi } from 'vitest';
+import { applyInteractionState, findNodeWithAttribute } from './interaction-state';
+
+function createMocks() {
+  const locator = {
+    hover: vi.fn(() => Promise.resolve()),
+    focus: vi.fn(() => Promise.resolve()),
+    evaluate: vi.fn(() => Promise.resolve()),
+  };
+  const page = {
+    mouse: { down: vi.fn(() => Promise.resolve()), up: vi.fn(() => Promise.resolve()) },
+  };
+  return { locator, page };
+}
+
+describe('findNodeWithAttribute', () => {
+  test('finds a marked element inside an iframe document', () => {
+    const root = {
+      nodeId: 1,
+      children: [
+        {
+          nodeId: 2,
+          attributes: ['src', '/iframe.html'],
+          contentDocument: {
+            nodeId: 3,
+            children: [{ nodeId: 4, attributes: ['id', 'root', 'data-marker', ''] }],
+          },
+        },
+      ],
+    };
+
+    expect(findNodeWithAttribute(root, 'data-marker')).toBe(4);
+  });
+
+  test('finds a marked element inside a shadow root', () => {
+    const root = {
+      nodeId: 1,
+      children: [{ nodeId: 2, shadowRoots: [{ nodeId: 3, attributes: ['data-marker', ''] }] }],
+    };
+
+    expect(findNodeWithAttribute(root, 'data-marker')).toBe(3);
+  });
+
+  test('ignores attribute values', () => {
+    expect(
+      findNodeWithAttribute({ nodeId: 1, attributes: ['title', 'data-marker'] }, 'data-marker')
+    ).toBeUndefined();
+  });
+});
+
+describe('applyInteractionState', () => {
+  test('hovers the element', async () => {
+    const { locator, page } = createMocks();
+
+    await applyInteractionState(
+      page as unknown as Page,
+      locator as unknown as Locator,
+      'hover',
+      500
+    );
+
+    expect(locator.hover).toHaveBeenCalledWith({ timeout: 500 });
+    expect(page.mouse.down).not.toHaveBeenCalled();
+  });
+
+  test('holds the mouse button for active until released', async () => {
+    const { locator, page } = createMocks();
+
+    const release = await applyInteractionState(
+      page as unknown as Page,
+      locator as unknown as Locator,
+      'active',
+      500
+    );
+
+    expect(locator.hover).toHaveBeenCalled();
+    expect(page.mouse.down).toHaveBeenCalledTimes(1);
+    expect(page.mouse.up).not.toHaveBeenCalled();
+    await release();
+    expect(page.mouse.up).toHaveBeenCalledTimes(1);
+  });
+
+  test('focuses the element', async () => {
+    const { locator, page } = createMocks();
+
+    await applyInteractionState(
+      page as unknown as Page,
+      locator as unknown as Locator,
+      'focus',
+      500
+    );
+
+    expect(locator.focus).toHaveBeenCalledWith({ timeout: 500 });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Interaction states applied to the capture target before the screenshot
+ */
+
+import type { Locator, Page } from 'playwright';
+import type { ForcedPseudoClass, InteractionState } from '../../types/adapters';
+
+/**
+ * Marker attribute used to find the target element in the CDP DOM tree.
+ */
+const FORCE_MARKER = 'data-uimatch-force-state';
+
+/**
+ * Minimal CDP DOM node shape (Protocol.DOM.Node) walked to find the marked element.
+ */
+export interface CdpDomNode {
+  nodeId: number;
+  /** Flat list of attribute names and values */
+  attributes?: string[];
+  children?: CdpDomNode[];
+  contentDocument?: CdpDomNode;
+  shadowRoots?: CdpDomNode[];
+}
+
+/**
+ * Find the first node carrying `attribute`, descending into iframes and shadow roots.
+ */
+export function findNodeWithAttribute(root: CdpDomNode, attribute: string): number | undefined {
+  const stack: CdpDomNode[] = [root];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    if (!node) continue;
+    const attrs = node.attributes ?? [];
+    for (let i = 0; i < attrs.length; i += 2) {
+      if (attrs[i] === attribute) return node.nodeId;
+    }
+    if (node.contentDocument) stack.push(node.contentDocument);
+    stack.push(...(node.shadowRoots ?? []), ...(node.children ?? []).slice().reverse());
+  }
+  return undefined;
+}
+
+/**
+ * Force pseudo-classes on the target element with CDP `CSS.forcePseudoState` (Chromium only).
+ * The state only affects CSS matching (no events fire) and lasts as long as the CDP session.
+ *
+ * @returns Detaches the CDP session, releasing the forced state
+ */
+export async function forcePseudoClasses(
+  page: Page,
+  locator: Locator,
+  classes: ForcedPseudoClass[]
+): Promise<() => Promise<void>> {
+  const session = await page.context().newCDPSession(page);
+  try {
+    await locator.evaluate((el, marker) => el.setAttribute(marker, ''), FORCE_MARKER);
+    await session.send('DOM.enable');
+    await session.send('CSS.enable');
+    const { root } = await session.send('DOM.getDocument', { depth: -1, pierce: true });
+    const nodeId = findNodeWithAttribute(root, FORCE_MARKER);
+    await locator.evaluate((el, marker) => el.removeAttribute(marker), FORCE_MARKER);
+    if (nodeId === undefined) {
+      throw new Error('forcePseudoClasses: target element not found in the CDP DOM tree');
+    }
+    await session.send('CSS.forcePseudoState', { nodeId, forcedPseudoClasses: classes });
+  } catch (error) {
+    await session.detach().catch(() => undefined);
+    throw error;
+  }
+  return () => session.detach();
+}
+
+/**
+ * Put the target element into an interaction state.
+ * - `hover`: moves the mouse over the element
+ * - `focus`: focuses the element
+ * - `focus-visible`: focuses the element and forces `:focus-visible` (keyboard focus ring)
+ * - `active`: presses the mouse button over the element (released by the returned cleanup)
+ * - `disabled`: sets `disabled` (form controls) and `aria-disabled="true"`
+ *
+ * @returns Cleanup that releases the state (mouse button, CDP session)
+ */
+export async function applyInteractionState(
+  page: Page,
+  locator: Locator,
+  state: InteractionState,
+  timeout: number
+): Promise<() => Promise<void>> {
+  let release: () => Promise<void> = () => Promise.resolve();
+
+  switch (state) {
+    case 'default':
+      break;
+    case 'hover':
+      await locator.hover({ timeout });
+      break;
+    case 'focus':
+      await locator.focus({ timeout });
+      break;
+    case 'focus-visible':
+      await locator.focus({ timeout });
+      release = await forcePseudoClasses(page, locator, ['focus', 'focus-visible']);
+      break;
+    case 'active':
+      await locator.hover({ timeout });
+      await page.mouse.down();
+      release = () => page.mouse.up();
+      break;
+    case 'disabled':
+      await locator.evaluate((el) => {
+        if ('disabled' in el) (el as HTMLButtonElement).disabled = true;
+        el.setAttribute('aria-disabled', 'true');
+      });
+      break;
+  }
+
+  // Let style recalculation and paint settle before the screenshot
+  await locator.evaluate(
+    () =>
+      new Promise<void>((resolve) =>
+        globalThis.requestAnimationFrame(() => globalThis.requestAnimationFrame(() => resolve()))
+      )
+  );
+  return release;
+}
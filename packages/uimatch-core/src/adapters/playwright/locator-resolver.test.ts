@@ -4,7 +4,7 @@
 
 import type { Frame, Locator } from 'playwright';
 import { afterEach, beforeEach, describe, expect, test } from 'vitest';
-import { applyFirstIfNeeded, resolveLocator } from './locator-resolver';
+import { applyFirstIfNeeded, domPathSelector, resolveLocator } from './locator-resolver';
 
 // Mock Locator for testing
 class MockLocator {
@@ -86,6 +86,28 @@ describe('applyFirstIfNeeded', () => {
   });
 });
 
+describe('domPathSelector', () => {
+  test('keeps root-relative steps in the light DOM', () => {
+    expect(domPathSelector('__self__ > :nth-child(2) > :nth-child(1)')).toBe(
+      'css:light=:scope > :nth-child(2) >> css:light=:scope > :nth-child(1)'
+    );
+  });
+
+  test('enters shadow roots at >>> steps', () => {
+    expect(domPathSelector('__self__ >>> :nth-child(2) > :nth-child(1) >>> :nth-child(3)')).toBe(
+      [
+        'css=:scope > :nth-child(2):not(:light(:scope > *))',
+        'css:light=:scope > :nth-child(1)',
+        'css=:scope > :nth-child(3):not(:light(:scope > *))',
+      ].join(' >> ')
+    );
+  });
+
+  test('addresses the root itself', () => {
+    expect(domPathSelector('__self__')).toBe(':scope');
+  });
+});
+
 describe('resolveLocator', () => {
   let frame: Frame;
   const originalEnv = {
@@ -305,6 +327,13 @@ describe('resolveLocator', () => {
       );
     });
 
+    test('resolves dompath through shadow roots', () => {
+      const result = resolveLocator(frame, 'dompath:my-card >>> :nth-child(2)');
+      expect((result as unknown as MockLocator).toString()).toBe(
+        'locator(my-card >> css=:scope > :nth-child(2):not(:light(:scope > *)))'
+      );
+    });
+
     test('does not apply first() for dompath', () => {
       process.env.UIMATCH_SELECTOR_FIRST = 'true';
       const result = resolveLocator(frame, 'dompath:__self__ > :nth-child(2)');
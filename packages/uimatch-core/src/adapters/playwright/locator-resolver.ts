@@ -20,6 +20,45 @@ export function applyFirstIfNeeded(locator: Locator): Locator {
   return useFirst ? locator.first() : locator;
 }
 
+/**
+ * Converts a captured DOM path into a Playwright selector. `>` steps stay in the light
+ * DOM (Playwright's CSS otherwise pierces shadow roots, making `:nth-child` ambiguous on
+ * hosts) and `>>>` steps enter the open shadow root of the previous element.
+ * Paths starting at `__self__` are relative to the capture root; any other head is kept
+ * as a CSS selector.
+ *
+ * @param path - Style key such as `__self__ > :nth-child(2) >>> :nth-child(1)`
+ * @returns Selector chain for `locator.locator()`
+ */
+export function domPathSelector(path: string): string {
+  const [head = '', ...shadowSegments] = path.split('>>>').map((s) => s.trim());
+  const steps = (segment: string): string[] =>
+    segment
+      .split('>')
+      .map((s) => s.trim())
+      .filter(Boolean);
+  const parts: string[] = [];
+
+  if (head.startsWith('__self__')) {
+    for (const step of steps(head.slice('__self__'.length))) {
+      parts.push(`css:light=:scope > ${step}`);
+    }
+  } else if (head) {
+    parts.push(head);
+  }
+  for (const segment of shadowSegments) {
+    const [first, ...rest] = steps(segment);
+    if (!first) continue;
+    // Children of the shadow root, not light children that share the host as parent
+    parts.push(`css=:scope > ${first}:not(:light(:scope > *))`);
+    for (const step of rest) {
+      parts.push(`css:light=:scope > ${step}`);
+    }
+  }
+
+  return parts.length > 0 ? parts.join(' >> ') : ':scope';
+}
+
 /**
  * Resolves a selector string with optional prefix to a Playwright Locator.
  *
@@ -35,6 +74,7 @@ export function applyFirstIfNeeded(locator: Locator): Locator {
  * - `xpath://div[@class="header"]` → locator('xpath=//div[@class="header"]')
  * - `css:.bg-white` → locator('.bg-white')
  * - `dompath:__self__ > :nth-child(2)` → locator for child element (use after initial capture)
+ * - `dompath:my-card >>> :nth-child(1)` → first child in the shadow root of `my-card`
  * - No prefix → assumes CSS selector (backward compatible)
  * - CSS pseudo-classes (`:root`, `:has()`, etc.) → treated as CSS selectors
  *
@@ -354,7 +394,7 @@ export function resolveLocator(frame: Frame, selectorString: string): Locator {
         logger.debug('dompath:', rest);
       }
       // Don't apply first() for internal DOM paths - we want exact child selector
-      return frame.locator(rest);
+      return frame.locator(rest.includes('>>>') ? domPathSelector(rest) : rest);
     }
   }
 
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for capture network control
+ */
+
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { BrowserContext, Route } from 'playwright';
+import { describe, expect, test, vi } from 'vitest';
+import {
+  applyNetworkOptions,
+  matchesHost,
+  mergeHarRecording,
+  parseRouteMocks,
+  settleHarRecordings,
+} from './network';
+
+type Handler = (route: Route) => Promise<void>;
+
+function createContext() {
+  const handlers: Array<{ url: string; handler: Handler }> = [];
+  const closeListeners: Array<() => void> = [];
+  const routeFromHAR = vi.fn<(har: string, options?: { update?: boolean }) => Promise<void>>(() =>
+    Promise.resolve()
+  );
+  const route = vi.fn((url: string, handler: Handler) => {
+    handlers.push({ url, handler });
+    return Promise.resolve();
+  });
+  const once = vi.fn((event: 'close', listener: () => void) => closeListeners.push(listener));
+  const context = { routeFromHAR, route, once } as unknown as BrowserContext;
+  const close = () => closeListeners.forEach((listener) => listener());
+  return { context, handlers, routeFromHAR, close };
+}
+
+const harOf = (...urls: string[]) =>
+  JSON.stringify({ log: { entries: urls.map((url) => ({ request: { method: 'GET', url } })) } });
+
+function createRoute(url: string) {
+  const abort = vi.fn(() => Promise.resolve());
+  const fallback = vi.fn(() => Promise.resolve());
+  const fulfill = vi.fn(() => Promise.resolve());
+  const route = { request: () => ({ url: () => url }), abort, fallback, fulfill };
+  return { route: route as unknown as Route, abort, fallback, fulfill };
+}
+
+describe('parseRouteMocks', () => {
+  test('accepts body, file and abort mocks', () => {
+    const routes = [
+      { url: '**/api/user', status: 200, body: { name: 'Ada' } },
+      { url: '**/api/feed', file: 'fixtures/feed.json', headers: { 'Cache-Control': 'no-store' } },
+      { url: '**/ads/**', abort: true },
+    ];
+
+    expect(parseRouteMocks(routes)).toEqual(routes);
+  });
+
+  test.each([
+    [{ status: 200 }, 'routes[0].url must be a non-empty string'],
+    [{ url: '**/a', status: 42 }, 'routes[0].status must be an HTTP status code'],
+    [{ url: '**/a', body: '', file: 'a.json' }, 'routes[0] takes either body or file'],
+    [{ url: '**/a', headers: { 'X-Count': 1 } }, 'routes[0].headers must map header names'],
+    [{ url: '**/a', abort: 'yes' }, 'routes[0].abort must be a boolean'],
+  ])('rejects %o', (mock, message) => {
+    expect(() => parseRouteMocks([mock])).toThrow(RangeError);
+    expect(() => parseRouteMocks([mock])).toThrow(message);
+  });
+});
+
+describe('matchesHost', () => {
+  test('matches exact hosts and wildcard subdomains', () => {
+    expect(matchesHost('cdn.example.com', 'cdn.example.com')).toBe(true);
+    expect(matchesHost('a.b.analytics.com', '*.analytics.com')).toBe(true);
+    expect(matchesHost('analytics.com', '*.analytics.com')).toBe(true);
+    expect(matchesHost('notanalytics.com', '*.analytics.com')).toBe(false);
+  });
+});
+
+describe('applyNetworkOptions', () => {
+  test('blocks third-party and listed hosts, letting the page host through', async () => {
+    const { context, handlers } = createContext();
+
+    await applyNetworkOptions(
+      context,
+      { blockThirdParty: true, blockHosts: ['*.example.com'] },
+      'http://localhost:6006/iframe.html'
+    );
+    const block = handlers[0]?.handler;
+    expect(block).toBeDefined();
+
+    const local = createRoute('http://localhost:6006/main.js');
+    await block?.(local.route);
+    expect(local.fallback).toHaveBeenCalled();
+
+    const font = createRoute('https://fonts.gstatic.com/s/inter.woff2');
+    await block?.(font.route);
+    expect(font.abort).toHaveBeenCalledWith('blockedbyclient');
+  });
+
+  test('answers the first matching mock', async () => {
+    const { context, handlers } = createContext();
+
+    await applyNetworkOptions(context, {
+      routes: [
+        { url: '**/api/user', body: { name: 'Ada' } },
+        { url: '**/api/**', status: 503 },
+      ],
+    });
+
+    // Registered in reverse so the first mock is the most recent route
+    expect(handlers.map((h) => h.url)).toEqual(['**/api/**', '**/api/user']);
+    const user = createRoute('http://localhost/api/user');
+    await handlers[1]?.handler(user.route);
+    expect(user.fulfill).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, json: { name: 'Ada' } })
+    );
+  });
+
+  test('records a missing HAR in auto mode and rejects it in replay mode', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'uimatch-har-'));
+    const har = join(dir, 'fixtures', 'story.har');
+    try {
+      const { context, routeFromHAR } = createContext();
+      await applyNetworkOptions(context, { har, harMode: 'auto' });
+      expect(routeFromHAR).toHaveBeenCalledWith(
+        expect.stringMatching(/\.story\.har\.[\w-]+\.har$/),
+        expect.objectContaining({ update: true })
+      );
+
+      await expect(applyNetworkOptions(context, { har: `${har}.missing` })).rejects.toThrow(
+        'HAR file not found'
+      );
+
+      const replayed = join(dir, 'replayed.har');
+      await writeFile(replayed, harOf());
+      routeFromHAR.mockClear();
+      await applyNetworkOptions(context, { har: replayed, harMode: 'auto' });
+      expect(routeFromHAR).toHaveBeenCalledWith(replayed, {
+        url: undefined,
+        notFound: 'abort',
+      });
+      await applyNetworkOptions(context, { har: replayed, harFallback: true });
+      expect(routeFromHAR).toHaveBeenLastCalledWith(
+        replayed,
+        expect.objectContaining({ notFound: 'fallback' })
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('merges the captures recording one HAR instead of overwriting it', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'uimatch-har-'));
+    const har = join(dir, 'suite.har');
+    try {
+      await writeFile(har, harOf('https://api.test/stale'));
+      const captures = [createContext(), createContext()];
+      for (const { context } of captures) {
+        await applyNetworkOptions(context, { har, harMode: 'record' });
+      }
+      // A later auto-mode capture keeps recording the HAR this run records
+      const late = createContext();
+      await applyNetworkOptions(late.context, { har, harMode: 'auto' });
+      expect(late.routeFromHAR.mock.calls[0]?.[1]).toMatchObject({ update: true });
+
+      const recordings = [...captures, late].map(
+        ({ routeFromHAR }) => routeFromHAR.mock.calls[0]?.[0] ?? ''
+      );
+      await writeFile(recordings[0] ?? '', harOf('https://api.test/user'));
+      await writeFile(recordings[1] ?? '', harOf('https://api.test/user', 'https://api.test/feed'));
+      captures.forEach(({ close }) => close());
+      late.close();
+      await settleHarRecordings();
+
+      const merged = JSON.parse(await readFile(har, 'utf8')) as {
+        log: { entries: Array<{ request: { url: string } }> };
+      };
+      expect(merged.log.entries.map((e) => e.request.url)).toEqual([
+        'https://api.test/user',
+        'https://api.test/feed',
+      ]);
+      expect(await readdir(dir)).toEqual(['suite.har']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('mergeHarRecording', () => {
+  test('appends requests the HAR does not hold yet', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'uimatch-har-'));
+    const har = join(dir, 'story.har');
+    const part = join(dir, 'part.har');
+    try {
+      await writeFile(har, harOf('https://api.test/a'));
+      await writeFile(part, harOf('https://api.test/a', 'https://api.test/b'));
+      await mergeHarRecording(part, har, true);
+
+      expect(await readFile(har, 'utf8')).toBe(
+        JSON.stringify(JSON.parse(harOf('https://api.test/a', 'https://api.test/b')), null, 2)
+      );
+      expect(await readdir(dir)).toEqual(['story.har']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Network control for captures: HAR replay and recording, host blocking and route mocks
+ */
+
+import { createLogger } from '@uimatch/shared-logging';
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import type { BrowserContext, Route } from 'playwright';
+import type { NetworkOptions, RouteMock } from '../../types/adapters';
+
+const logger = createLogger({ package: '@uimatch/core', module: 'network' });
+
+type HarEntry = { request?: { method?: string; url?: string; postData?: { text?: string } } };
+type HarFile = { log: { entries: HarEntry[] } };
+
+/**
+ * HARs recorded by this process: whether a capture's recording was merged into the file
+ * yet, and the merge of the last closed capture, which later merges wait for.
+ */
+const harRecordings = new Map<string, { merged: boolean; pending: Promise<void> }>();
+
+/**
+ * Validate route mocks from untyped input (suite JSON, CLI arguments).
+ *
+ * @throws RangeError naming the first invalid field (e.g. `routes[0].status`)
+ */
+export function parseRouteMocks(value: unknown): RouteMock[] {
+  if (!Array.isArray(value)) {
+    throw new RangeError('routes must be an array');
+  }
+
+  return value.map((raw: unknown, index): RouteMock => {
+    const path = `routes[${index}]`;
+    if (typeof raw !== 'object' || raw === null) {
+      throw new RangeError(`${path} must be an object`);
+    }
+    const mock = raw as Record<string, unknown>;
+    const optionalText = (key: string): string | undefined => {
+      const v = mock[key];
+      if (v === undefined) return undefined;
+      if (typeof v !== 'string' || v.trim() === '') {
+        throw new RangeError(`${path}.${key} must be a non-empty string`);
+      }
+      return v;
+    };
+
+    const url = optionalText('url');
+    if (url === undefined) throw new RangeError(`${path}.url must be a non-empty string`);
+    const { status, headers, body, abort } = mock;
+    if (
+      status !== undefined &&
+      !(typeof status === 'number' && Number.isInteger(status) && status >= 100 && status <= 599)
+    ) {
+      throw new RangeError(`${path}.status must be an HTTP status code (100-599)`);
+    }
+    if (
+      headers !== undefined &&
+      (typeof headers !== 'object' ||
+        headers === null ||
+        Object.values(headers).some((v) => typeof v !== 'string'))
+    ) {
+      throw new RangeError(`${path}.headers must map header names to strings`);
+    }
+    if (abort !== undefined && typeof abort !== 'boolean') {
+      throw new RangeError(`${path}.abort must be a boolean`);
+    }
+    const file = optionalText('file');
+    if (file !== undefined && body !== undefined) {
+      throw new RangeError(`${path} takes either body or file, not both`);
+    }
+    const contentType = optionalText('contentType');
+
+    return {
+      url,
+      ...(status === undefined ? {} : { status }),
+      ...(contentType === undefined ? {} : { contentType }),
+      ...(headers === undefined ? {} : { headers: headers as Record<string, string> }),
+      ...(body === undefined ? {} : { body }),
+      ...(file === undefined ? {} : { file }),
+      ...(abort === undefined ? {} : { abort }),
+    };
+  });
+}
+
+/**
+ * Whether `host` matches a blocked host pattern (`example.com` or `*.example.com`, which
+ * also matches `example.com`).
+ */
+export function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const base = pattern.slice(2);
+    return host === base || host.endsWith(`.${base}`);
+  }
+  return host === pattern;
+}
+
+async function fulfillMock(route: Route, mock: RouteMock): Promise<void> {
+  if (mock.abort) {
+    await route.abort();
+    return;
+  }
+  const json = mock.body !== undefined && typeof mock.body !== 'string';
+  await route.fulfill({
+    status: mock.status ?? 200,
+    headers: mock.headers,
+    contentType: mock.contentType,
+    path: mock.file,
+    ...(json ? { json: mock.body } : { body: mock.body as string | undefined }),
+  });
+}
+
+function harEntryKey(entry: HarEntry): string {
+  const { method = '', url = '', postData } = entry.request ?? {};
+  return `${method} ${url} ${postData?.text ?? ''}`;
+}
+
+/**
+ * Merge the HAR recorded by one capture into the HAR shared by the captures of a run,
+ * keeping the first recording of each request, and delete it.
+ *
+ * @param part - HAR written by one browser context
+ * @param append - Add to `har` instead of replacing it
+ */
+export async function mergeHarRecording(part: string, har: string, append: boolean): Promise<void> {
+  if (!existsSync(part)) return;
+  try {
+    const recorded = JSON.parse(await readFile(part, 'utf8')) as HarFile;
+    let merged = recorded;
+    if (append && existsSync(har)) {
+      merged = JSON.parse(await readFile(har, 'utf8')) as HarFile;
+      const keys = new Set(merged.log.entries.map(harEntryKey));
+      merged.log.entries.push(...recorded.log.entries.filter((e) => !keys.has(harEntryKey(e))));
+    }
+    const tmp = `${har}.${randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(merged, null, 2));
+    await rename(tmp, har);
+  } finally {
+    await rm(part, { force: true });
+  }
+}
+
+/**
+ * Wait until the recordings of closed contexts are merged into their HAR files.
+ */
+export async function settleHarRecordings(): Promise<void> {
+  await Promise.all(Array.from(harRecordings.values(), (r) => r.pending));
+}
+
+/**
+ * Record the context's traffic to its own HAR and merge it into `har` when the context
+ * closes, so items, themes and states recording one HAR add up instead of overwriting it.
+ */
+async function recordHar(context: BrowserContext, har: string, url?: string): Promise<void> {
+  if (extname(har) === '.zip') {
+    throw new RangeError(`HAR recording needs a .har file, not a zip archive: ${har}`);
+  }
+  await mkdir(dirname(har), { recursive: true });
+  const part = join(dirname(har), `.${basename(har)}.${randomUUID()}.har`);
+  const recording = harRecordings.get(har) ?? { merged: false, pending: Promise.resolve() };
+  harRecordings.set(har, recording);
+
+  // Playwright writes the recorded entries when the context closes; the first merge of
+  // the run replaces what an earlier run recorded
+  context.once('close', () => {
+    recording.pending = recording.pending
+      .then(async () => {
+        await mergeHarRecording(part, har, recording.merged);
+        recording.merged = true;
+      })
+      .catch((error: unknown) =>
+        logger.warn(
+          { har, error: error instanceof Error ? error.message : String(error) },
+          'Failed to merge recorded HAR'
+        )
+      );
+  });
+  await context.routeFromHAR(part, {
+    url,
+    notFound: 'fallback',
+    update: true,
+    updateContent: 'embed',
+    updateMode: 'minimal',
+  });
+}
+
+/**
+ * Install HAR routing, host blocking and route mocks on a fresh context.
+ * Later layers win: mocks over blocking over the HAR; among mocks the first match wins.
+ *
+ * @param pageUrl - Capture URL, whose host is first-party for `blockThirdParty`
+ * @throws RangeError when a HAR to replay does not exist
+ */
+export async function applyNetworkOptions(
+  context: BrowserContext,
+  opts: NetworkOptions,
+  pageUrl?: string
+): Promise<void> {
+  if (opts.har) {
+    const har = resolve(opts.har);
+    // In auto mode, a HAR this process is recording stays recording for later captures
+    const mode =
+      opts.harMode === 'auto'
+        ? harRecordings.has(har) || !existsSync(har)
+          ? 'record'
+          : 'replay'
+        : opts.harMode;
+    if (mode === 'record') {
+      await recordHar(context, har, opts.harUrl);
+    } else {
+      if (!existsSync(har)) {
+        throw new RangeError(`HAR file not found: ${har} (record it with harMode "record")`);
+      }
+      await context.routeFromHAR(har, {
+        url: opts.harUrl,
+        notFound: opts.harFallback ? 'fallback' : 'abort',
+      });
+    }
+  }
+
+  const blockHosts = opts.blockHosts ?? [];
+  if (blockHosts.length > 0 || opts.blockThirdParty) {
+    const pageHost = pageUrl ? new URL(pageUrl).hostname : undefined;
+    await context.route('**/*', async (route) => {
+      const { protocol, hostname } = new URL(route.request().url());
+      const thirdParty =
+        opts.blockThirdParty && /^(https?|wss?):$/.test(protocol) && hostname !== pageHost;
+      if (thirdParty || blockHosts.some((pattern) => matchesHost(hostname, pattern))) {
+        await route.abort('blockedbyclient');
+      } else {
+        await route.fallback();
+      }
+    });
+  }
+
+  // Playwright runs the most recently registered route first
+  for (const mock of [...(opts.routes ?? [])].reverse()) {
+    await context.route(mock.url, (route) => fulfillMock(route, mock));
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for capture steps
+ */
+
+import type { Frame } from 'playwright';
+import { describe, expect, test, vi } from 'vitest';
+import { UiMatchError } from '../../types/errors';
+import { parseCaptureSteps, runCaptureSteps } from './steps';
+
+function createFrame(click: () => Promise<void> = () => Promise.resolve()) {
+  const locator = {
+    click: vi.fn(click),
+    fill: vi.fn(() => Promise.resolve()),
+  };
+  const keyboard = { press: vi.fn(() => Promise.resolve()) };
+  const frame = {
+    locator: vi.fn(() => locator),
+    getByTestId: vi.fn(() => locator),
+    page: () => ({ keyboard }),
+    waitForTimeout: vi.fn(() => Promise.resolve()),
+    evaluate: vi.fn(() => Promise.resolve()),
+  };
+  return { frame, locator, keyboard };
+}
+
+describe('parseCaptureSteps', () => {
+  test('accepts every action', () => {
+    const steps = [
+      { action: 'click', selector: 'testid:menu-button' },
+      { action: 'hover', selector: '#item' },
+      { action: 'fill', selector: '#email', value: 'invalid', timeout: 1000 },
+      { action: 'press', key: 'Enter' },
+      { action: 'waitForSelector', selector: 'role:alert', state: 'visible' },
+      { action: 'waitForTimeout', ms: 100 },
+      { action: 'evaluate', script: 'window.scrollTo(0, 0)' },
+    ];
+
+    expect(parseCaptureSteps(steps)).toEqual(steps);
+  });
+
+  test.each([
+    [{ action: 'tap', selector: '#a' }, 'steps[0].action must be one of'],
+    [{ action: 'click' }, 'steps[0].selector must be a non-empty string'],
+    [{ action: 'fill', selector: '#a' }, 'steps[0].value must be a string'],
+    [{ action: 'waitForTimeout', ms: -1 }, 'steps[0].ms must be a non-negative number'],
+    [{ action: 'waitForSelector', selector: '#a', state: 'gone' }, 'steps[0].state must be one of'],
+    [{ action: 'click', selector: '#a', timeout: '1s' }, 'steps[0].timeout must be'],
+  ])('rejects %o', (step, message) => {
+    expect(() => parseCaptureSteps([step])).toThrow(RangeError);
+    expect(() => parseCaptureSteps([step])).toThrow(message);
+  });
+
+  test('rejects non-arrays', () => {
+    expect(() => parseCaptureSteps({ action: 'click' })).toThrow('steps must be an array');
+  });
+});
+
+describe('runCaptureSteps', () => {
+  test('runs steps in order with resolved selectors', async () => {
+    const { frame, locator, keyboard } = createFrame();
+
+    await runCaptureSteps(
+      frame as unknown as Frame,
+      [
+        { action: 'click', selector: 'testid:menu-button' },
+        { action: 'fill', selector: '#email', value: 'a@b', timeout: 50 },
+        { action: 'press', key: 'Tab' },
+      ],
+      500
+    );
+
+    expect(frame.getByTestId).toHaveBeenCalledWith('menu-button');
+    expect(locator.click).toHaveBeenCalledWith({ timeout: 500 });
+    expect(locator.fill).toHaveBeenCalledWith('a@b', { timeout: 50 });
+    expect(keyboard.press).toHaveBeenCalledWith('Tab');
+  });
+
+  test('reports the failing step with a stable code', async () => {
+    const { frame } = createFrame(() => Promise.reject(new Error('Timeout 500ms exceeded.\nlog')));
+
+    const error = await runCaptureSteps(
+      frame as unknown as Frame,
+      [
+        { action: 'waitForTimeout', ms: 0 },
+        { action: 'click', selector: '#open' },
+      ],
+      500
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UiMatchError);
+    expect(error).toMatchObject({
+      code: 'UIMATCH_CAPTURE_STEP_FAILED',
+      category: 'comparison',
+      message: 'Capture step 2 (click "#open") failed: Timeout 500ms exceeded.',
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Scripted interactions run before capture
+ */
+
+import type { Frame } from 'playwright';
+import type { CaptureStep } from '../../types/adapters';
+import { UiMatchError } from '../../types/errors';
+import { resolveLocator } from './locator-resolver';
+
+const WAIT_STATES = ['attached', 'detached', 'visible', 'hidden'] as const;
+
+/**
+ * Validate capture steps from untyped input (suite JSON, CLI arguments).
+ *
+ * @throws RangeError naming the first invalid field (e.g. `steps[1].selector`)
+ */
+export function parseCaptureSteps(value: unknown): CaptureStep[] {
+  if (!Array.isArray(value)) {
+    throw new RangeError('steps must be an array');
+  }
+
+  return value.map((raw: unknown, index): CaptureStep => {
+    const path = `steps[${index}]`;
+    if (typeof raw !== 'object' || raw === null) {
+      throw new RangeError(`${path} must be an object`);
+    }
+    const step = raw as Record<string, unknown>;
+    const text = (key: string): string => {
+      const v = step[key];
+      if (typeof v !== 'string' || v.trim() === '') {
+        throw new RangeError(`${path}.${key} must be a non-empty string`);
+      }
+      return v;
+    };
+    const optionalText = (key: string): string | undefined =>
+      step[key] === undefined ? undefined : text(key);
+    const duration = (key: string): number | undefined => {
+      const v = step[key];
+      if (v === undefined) return undefined;
+      if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) {
+        throw new RangeError(`${path}.${key} must be a non-negative number`);
+      }
+      return v;
+    };
+    const timeout = duration('timeout');
+    const withTimeout = <T extends object>(s: T): T =>
+      timeout === undefined ? s : { ...s, timeout };
+
+    switch (step.action) {
+      case 'click':
+      case 'hover':
+        return withTimeout({ action: step.action, selector: text('selector') });
+      case 'fill': {
+        if (typeof step.value !== 'string') {
+          throw new RangeError(`${path}.value must be a string`);
+        }
+        return withTimeout({ action: 'fill', selector: text('selector'), value: step.value });
+      }
+      case 'press': {
+        const selector = optionalText('selector');
+        return withTimeout({
+          action: 'press',
+          key: text('key'),
+          ...(selector === undefined ? {} : { selector }),
+        });
+      }
+      case 'waitForSelector': {
+        const state = WAIT_STATES.find((s) => s === step.state);
+        if (step.state !== undefined && !state) {
+          throw new RangeError(`${path}.state must be one of ${WAIT_STATES.join(', ')}`);
+        }
+        return withTimeout({
+          action: 'waitForSelector',
+          selector: text('selector'),
+          ...(state ? { state } : {}),
+        });
+      }
+      case 'waitForTimeout': {
+        const ms = duration('ms');
+        if (ms === undefined) throw new RangeError(`${path}.ms must be a non-negative number`);
+        return { action: 'waitForTimeout', ms };
+      }
+      case 'evaluate':
+        return { action: 'evaluate', script: text('script') };
+      default:
+        throw new RangeError(
+          `${path}.action must be one of click, hover, fill, press, waitForSelector, waitForTimeout, evaluate`
+        );
+    }
+  });
+}
+
+async function runStep(frame: Frame, step: CaptureStep, defaultTimeout: number): Promise<void> {
+  switch (step.action) {
+    case 'click':
+      await resolveLocator(frame, step.selector).click({ timeout: step.timeout ?? defaultTimeout });
+      return;
+    case 'hover':
+      await resolveLocator(frame, step.selector).hover({ timeout: step.timeout ?? defaultTimeout });
+      return;
+    case 'fill':
+      await resolveLocator(frame, step.selector).fill(step.value, {
+        timeout: step.timeout ?? defaultTimeout,
+      });
+      return;
+    case 'press':
+      if (step.selector) {
+        await resolveLocator(frame, step.selector).press(step.key, {
+          timeout: step.timeout ?? defaultTimeout,
+        });
+      } else {
+        await frame.page().keyboard.press(step.key);
+      }
+      return;
+    case 'waitForSelector':
+      await resolveLocator(frame, step.selector).waitFor({
+        state: step.state ?? 'visible',
+        timeout: step.timeout ?? defaultTimeout,
+      });
+      return;
+    case 'waitForTimeout':
+      await frame.waitForTimeout(step.ms);
+      return;
+    case 'evaluate':
+      await frame.evaluate(step.script);
+      return;
+  }
+}
+
+/**
+ * Run capture steps in order.
+ *
+ * @param defaultTimeout - Selector timeout (ms) for steps without their own `timeout`
+ * @throws UiMatchError `UIMATCH_CAPTURE_STEP_FAILED` naming the failing step
+ */
+export async function runCaptureSteps(
+  frame: Frame,
+  steps: CaptureStep[],
+  defaultTimeout: number
+): Promise<void> {
+  for (const [index, step] of steps.entries()) {
+    try {
+      await runStep(frame, step, defaultTimeout);
+    } catch (error) {
+      const target = 'selector' in step && step.selector ? ` "${step.selector}"` : '';
+      throw new UiMatchError(
+        'UIMATCH_CAPTURE_STEP_FAILED',
+        `Capture step ${index + 1} (${step.action}${target}) failed: ${
+          error instanceof Error ? error.message.split('\n')[0] : String(error)
+        }`,
+        { cause: error }
+      );
+    }
+  }
+}
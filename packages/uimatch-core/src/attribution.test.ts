@@ -0,0 +1,104 @@
+/**
+ * Tests for diff attribution to captured elements in compareImages
+ */
+
+import { describe, expect, test } from 'vitest';
+import { createRectsPng, pngToBase64 } from './__tests__/png';
+import { compareImages } from './core/compare';
+
+const PRICE = '__self__ > :nth-child(1)';
+const TITLE = '__self__ > :nth-child(2)';
+
+const elements = {
+  __self__: { x: 0, y: 0, width: 100, height: 100 },
+  [PRICE]: { x: 10, y: 10, width: 30, height: 20 },
+  [TITLE]: { x: 50, y: 10, width: 40, height: 20 },
+};
+
+const meta = {
+  __self__: { tag: 'div', cssSelector: 'div.card' },
+  [PRICE]: { tag: 'span', testid: 'price', cssSelector: '[data-testid="price"]' },
+  [TITLE]: { tag: 'h2', cssSelector: 'h2.title' },
+};
+
+describe('compareImages element attribution', () => {
+  test('diff pixels go to the smallest enclosing element', () => {
+    const figma = createRectsPng(100, 100);
+    const impl = createRectsPng(100, 100, [
+      { x: 15, y: 15, width: 10, height: 6 },
+      { x: 5, y: 80, width: 5, height: 4 },
+    ]);
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      elements,
+      meta,
+    });
+
+    expect(result.elementDiffs).toEqual([
+      {
+        selector: '[data-testid="price"]',
+        path: PRICE,
+        rect: { x: 10, y: 10, width: 30, height: 20 },
+        diffPixels: 60,
+        share: 0.75,
+      },
+      {
+        selector: 'div.card',
+        path: '__self__',
+        rect: { x: 0, y: 0, width: 100, height: 100 },
+        diffPixels: 20,
+        share: 0.25,
+      },
+    ]);
+    expect(result.unattributedDiffPixels).toBe(0);
+    expect(result.diffRegions?.[0]?.element).toBe('[data-testid="price"]');
+    expect(result.diffRegions?.[1]?.element).toBe('div.card');
+  });
+
+  test('pixels outside every element are unattributed', () => {
+    const figma = createRectsPng(100, 100);
+    const impl = createRectsPng(100, 100, [{ x: 90, y: 90, width: 5, height: 5 }]);
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      elements: { [PRICE]: elements[PRICE] },
+    });
+
+    expect(result.elementDiffs).toEqual([]);
+    expect(result.unattributedDiffPixels).toBe(25);
+    expect(result.diffRegions?.[0]?.element).toBeUndefined();
+  });
+
+  test('element boxes are scaled with the implementation image', () => {
+    const figma = createRectsPng(100, 100);
+    const impl = createRectsPng(200, 200, [{ x: 20, y: 20, width: 20, height: 20 }]);
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      sizeMode: 'scale',
+      elements: { [PRICE]: { x: 20, y: 20, width: 60, height: 40 } },
+    });
+
+    expect(result.elementDiffs?.[0]?.rect).toEqual({ x: 10, y: 10, width: 30, height: 20 });
+    expect(result.elementDiffs?.[0]?.selector).toBe(PRICE);
+    expect(result.elementDiffs?.[0]?.share).toBe(1);
+  });
+
+  test('results omit attribution when no elements are given', () => {
+    const figma = createRectsPng(20, 20);
+    const impl = createRectsPng(20, 20, [{ x: 0, y: 0, width: 5, height: 5 }]);
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+    });
+
+    expect(result.elementDiffs).toBeUndefined();
+    expect(result.unattributedDiffPixels).toBeUndefined();
+    expect(result.diffRegions?.[0]?.element).toBeUndefined();
+  });
+});
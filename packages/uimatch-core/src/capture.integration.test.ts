@@ -83,5 +83,153 @@ describe('captureTarget', () => {
     const child1 = cap.styles[childKey];
     if (!child1) throw new Error('Expected child1 to be defined');
     expect(child1['font-weight']).toBe('700');
+
+    // Element boxes share the page coordinate space of `box`
+    const selfBox = cap.elementBoxes?.['__self__'];
+    expect(selfBox?.x).toBeCloseTo(cap.box.x, 1);
+    expect(selfBox?.y).toBeCloseTo(cap.box.y, 1);
+    expect(selfBox?.width).toBeCloseTo(cap.box.width, 1);
+    const childBox = cap.elementBoxes?.[childKey];
+    expect(childBox?.x).toBeGreaterThanOrEqual(cap.box.x + 10);
+    expect(childBox?.y).toBeGreaterThanOrEqual(cap.box.y + 10);
+
+    // Only elements holding text get a painted background (white page, no fills)
+    expect(cap.textBackgrounds).toEqual({ [childKey]: 'rgb(255, 255, 255)' });
+  });
+
+  test('resolves modern color syntaxes in text backgrounds', { timeout: 15000 }, async () => {
+    const html = `
+      <html><body style="margin:0">
+        <div id="container" style="background:color(srgb 0 0 1)">
+          <p style="background:oklch(1 0 0)">White</p>
+          <p style="background:lab(0 0 0)">Black</p>
+          <p>Inherited</p>
+        </div>
+      </body></html>`;
+    const cap = await captureTarget({
+      html,
+      selector: '#container',
+      viewport: { width: 300, height: 200 },
+      dpr: 1,
+      detectStorybookIframe: false,
+      reuseBrowser: true,
+      idleWaitMs: 0,
+    });
+
+    expect(cap.textBackgrounds).toEqual({
+      '__self__ > :nth-child(1)': 'rgb(255, 255, 255)',
+      '__self__ > :nth-child(2)': 'rgb(0, 0, 0)',
+      '__self__ > :nth-child(3)': 'rgb(0, 0, 255)',
+    });
+  });
+
+  test.each([
+    ['hover', 'rgb(0, 128, 0)'],
+    ['focus-visible', 'rgb(0, 0, 255)'],
+    ['disabled', 'rgb(128, 128, 128)'],
+  ] as const)('captures the %s state', { timeout: 15000 }, async (state, background) => {
+    const html = `
+      <html><head><style>
+        #btn { width:100px;height:40px;border:0;outline:0;background:rgb(255, 0, 0); }
+        #btn:hover { background:rgb(0, 128, 0); }
+        #btn:focus-visible { background:rgb(0, 0, 255); }
+        #btn:disabled { background:rgb(128, 128, 128); }
+      </style></head>
+      <body><button id="btn">Save</button></body></html>`;
+    const cap = await captureTarget({
+      html,
+      selector: '#btn',
+      state,
+      viewport: { width: 200, height: 100 },
+      dpr: 1,
+      detectStorybookIframe: false,
+      reuseBrowser: true,
+      idleWaitMs: 0,
+    });
+
+    expect(cap.styles['__self__']?.['background-color']).toBe(background);
+  });
+
+  test('resizes a shared page between captures', { timeout: 15000 }, async () => {
+    const html = `
+      <html><head><style>
+        #box { width:100px;height:40px;background:rgb(255, 0, 0); }
+        @media (min-width: 600px) { #box { width:300px; } }
+      </style></head>
+      <body><div id="box"></div></body></html>`;
+    const url = `data:text/html,${encodeURIComponent(html)}`;
+    const capture = (width: number) =>
+      captureTarget({
+        url,
+        selector: '#box',
+        viewport: { width, height: 200 },
+        dpr: 1,
+        detectStorybookIframe: false,
+        reuseBrowser: true,
+        sharedPage: 'resize-test',
+        idleWaitMs: 0,
+      });
+
+    try {
+      expect((await capture(400)).box.width).toBe(100);
+      expect((await capture(800)).box.width).toBe(300);
+    } finally {
+      await browserPool.releasePage('resize-test');
+    }
+  });
+
+  test(
+    'emulates the dark color scheme without forcing a white page',
+    { timeout: 15000 },
+    async () => {
+      const html = `
+      <html><head><style>
+        body { background: rgb(255, 255, 255); }
+        #card { width:100px;height:40px;background:rgb(240, 240, 240); }
+        @media (prefers-color-scheme: dark) {
+          body { background: rgb(0, 0, 0); }
+          #card { background: rgb(32, 32, 32); }
+        }
+      </style></head>
+      <body><div id="card"></div></body></html>`;
+      const cap = await captureTarget({
+        html,
+        selector: '#card',
+        colorScheme: 'dark',
+        pageBackground: false,
+        viewport: { width: 200, height: 100 },
+        dpr: 1,
+        detectStorybookIframe: false,
+        reuseBrowser: true,
+        idleWaitMs: 0,
+      });
+
+      expect(cap.styles['__self__']?.['background-color']).toBe('rgb(32, 32, 32)');
+    }
+  );
+
+  test('runs pre-capture steps before locating the target', { timeout: 15000 }, async () => {
+    const html = `
+      <html><body>
+        <button data-testid="toggle" onclick="document.getElementById('menu').hidden = false">
+          Open
+        </button>
+        <ul id="menu" hidden style="width:120px"><li>Item</li></ul>
+      </body></html>`;
+    const cap = await captureTarget({
+      html,
+      selector: '#menu',
+      steps: [
+        { action: 'click', selector: 'testid:toggle' },
+        { action: 'waitForSelector', selector: '#menu' },
+      ],
+      viewport: { width: 200, height: 200 },
+      dpr: 1,
+      detectStorybookIframe: false,
+      reuseBrowser: true,
+      idleWaitMs: 0,
+    });
+
+    expect(cap.box.width).toBe(120);
   });
 });
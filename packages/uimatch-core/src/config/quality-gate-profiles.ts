@@ -35,6 +35,11 @@ export interface QualityGateProfile {
      * @default 0.05 (5% area difference)
      */
     areaGapWarning?: number;
+    /**
+     * Minimum structural similarity (SSIM, 0-1)
+     * When set, SSIM is computed and the gate fails below this value
+     */
+    minSsim?: number;
   };
   /**
    * Content basis to use for comparison (affects contentRect calculation)
@@ -0,0 +1,86 @@
+/**
+ * Tests for WCAG text contrast analysis
+ */
+
+import { describe, expect, test } from 'vitest';
+import { analyzeTextContrast, isLargeText } from './core/contrast';
+import { contrastRatio } from './utils/color';
+
+describe('contrastRatio', () => {
+  test('spans 1 to 21', () => {
+    const black = { r: 0, g: 0, b: 0 };
+    const white = { r: 255, g: 255, b: 255 };
+    expect(contrastRatio(black, white)).toBeCloseTo(21);
+    expect(contrastRatio(white, black)).toBeCloseTo(21);
+    expect(contrastRatio(white, white)).toBe(1);
+  });
+
+  test('matches the WCAG reference for mid grey on white', () => {
+    expect(contrastRatio({ r: 118, g: 118, b: 118 }, { r: 255, g: 255, b: 255 })).toBeCloseTo(
+      4.54,
+      2
+    );
+  });
+});
+
+describe('isLargeText', () => {
+  test.each([
+    ['24px', '400', true],
+    ['19px', '700', true],
+    ['19px', 'bold', true],
+    ['19px', '400', false],
+    ['16px', '700', false],
+  ])('%s weight %s -> %s', (fontSize, fontWeight, expected) => {
+    expect(isLargeText(fontSize, fontWeight)).toBe(expected);
+  });
+});
+
+describe('analyzeTextContrast', () => {
+  test('measures captured text over its painted background, lowest first', () => {
+    const contrast = analyzeTextContrast({
+      styles: {
+        title: { color: 'rgb(0, 0, 0)', 'font-size': '32px', 'font-weight': '700' },
+        hint: { color: 'rgb(170, 170, 170)', 'font-size': '14px', 'font-weight': '400' },
+        icon: { color: 'rgb(0, 0, 0)' },
+      },
+      textBackgrounds: { title: 'rgb(255, 255, 255)', hint: 'rgb(255, 255, 255)' },
+      meta: { hint: { cssSelector: '[data-testid="hint"]' } },
+    });
+
+    expect(contrast.map((c) => c.path)).toEqual(['hint', 'title']);
+    expect(contrast[0]).toMatchObject({
+      selector: '[data-testid="hint"]',
+      ratio: 2.32,
+      required: 4.5,
+      largeText: false,
+    });
+    expect(contrast[1]).toMatchObject({ ratio: 21, required: 3, largeText: true });
+  });
+
+  test('computes the design contrast from the nearest Figma fill', () => {
+    const contrast = analyzeTextContrast({
+      styles: { 'card > label': { color: 'rgb(170, 170, 170)', 'font-size': '14px' } },
+      textBackgrounds: { 'card > label': 'rgb(255, 255, 255)' },
+      expectedSpec: {
+        card: { 'background-color': 'rgb(0, 0, 0)' },
+        'card > label': { color: 'rgb(255, 255, 255)' },
+      },
+    });
+
+    expect(contrast[0]?.expectedRatio).toBe(21);
+  });
+
+  test('resolves token references of the design colors', () => {
+    const contrast = analyzeTextContrast({
+      styles: { 'card > label': { color: 'rgb(170, 170, 170)', 'font-size': '14px' } },
+      textBackgrounds: { 'card > label': 'rgb(255, 255, 255)' },
+      expectedSpec: {
+        card: { 'background-color': 'var(--surface-inverse)' },
+        'card > label': { color: 'var(--text-on-inverse, #000)' },
+      },
+      tokens: { color: { '--surface-inverse': '#000000', '--text-on-inverse': '#ffffff' } },
+    });
+
+    expect(contrast[0]?.expectedRatio).toBe(21);
+  });
+});
@@ -0,0 +1,138 @@
+import type { DiffRegion } from './diff-regions';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * Diff pixels attributed to a captured DOM element.
+ */
+export interface ElementDiff {
+  /** Display selector (`[data-testid="..."]`, `tag.class`, or the style key), as in StyleDiff */
+  selector: string;
+
+  /** Style key of the element (`__self__` or `__self__ > :nth-child(n) ...`) */
+  path: string;
+
+  /** Element box on the compared canvas after size handling and clipping */
+  rect: Rect;
+
+  /** Diff pixels for which this element is the smallest enclosing element */
+  diffPixels: number;
+
+  /** Share of all diff pixels (0-1) */
+  share: number;
+}
+
+/**
+ * Element box on the compared canvas, ready for attribution.
+ */
+export interface CanvasElementBox {
+  path: string;
+  selector: string;
+  rect: Rect;
+}
+
+/**
+ * Result of attributing diff pixels to elements.
+ */
+export interface DiffAttribution {
+  /** Elements with at least one diff pixel, most diff pixels first */
+  elementDiffs: ElementDiff[];
+  /** Diff pixels outside every element box */
+  unattributedPixels: number;
+}
+
+const area = (r: Rect): number => r.width * r.height;
+
+/**
+ * Clip a canvas rectangle to integer pixel bounds. Returns undefined when nothing is left.
+ */
+export function clipToCanvas(
+  rect: Rect,
+  canvas: { width: number; height: number }
+): Rect | undefined {
+  const x1 = Math.max(0, Math.floor(rect.x));
+  const y1 = Math.max(0, Math.floor(rect.y));
+  const x2 = Math.min(canvas.width, Math.ceil(rect.x + rect.width));
+  const y2 = Math.min(canvas.height, Math.ceil(rect.y + rect.height));
+  if (x2 <= x1 || y2 <= y1) return undefined;
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+/**
+ * Attribute every diff pixel to the smallest element box containing it.
+ *
+ * Boxes are painted onto an owner map from largest to smallest, so nested elements
+ * win over their ancestors. Equal-sized boxes go to the one listed last (the deeper
+ * element in DOM walk order).
+ *
+ * @param bitmap - 1 for diff pixels (row-major, canvas width × height)
+ * @param canvas - Compared canvas dimensions
+ * @param elements - Element boxes clipped to the canvas
+ */
+export function attributeDiffPixels(
+  bitmap: Uint8Array,
+  canvas: { width: number; height: number },
+  elements: readonly CanvasElementBox[]
+): DiffAttribution {
+  const owner = new Int32Array(canvas.width * canvas.height).fill(-1);
+  const order = elements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => area(b.element.rect) - area(a.element.rect) || a.index - b.index);
+
+  for (const { element, index } of order) {
+    const { x, y, width, height } = element.rect;
+    for (let row = y; row < y + height; row++) {
+      owner.fill(index, row * canvas.width + x, row * canvas.width + x + width);
+    }
+  }
+
+  const counts = new Array<number>(elements.length).fill(0);
+  let total = 0;
+  let unattributedPixels = 0;
+  for (let i = 0; i < bitmap.length; i++) {
+    if (bitmap[i] !== 1) continue;
+    total++;
+    const index = owner[i] ?? -1;
+    if (index < 0) {
+      unattributedPixels++;
+    } else {
+      counts[index] = (counts[index] ?? 0) + 1;
+    }
+  }
+
+  const elementDiffs: ElementDiff[] = [];
+  elements.forEach((element, index) => {
+    const diffPixels = counts[index] ?? 0;
+    if (diffPixels === 0) return;
+    elementDiffs.push({
+      selector: element.selector,
+      path: element.path,
+      rect: element.rect,
+      diffPixels,
+      share: diffPixels / total,
+    });
+  });
+  elementDiffs.sort((a, b) => b.diffPixels - a.diffPixels);
+
+  return { elementDiffs, unattributedPixels };
+}
+
+/**
+ * Find the smallest element box that fully contains a diff region.
+ *
+ * @returns Display selector of the element, or undefined when no box encloses the region
+ */
+export function findEnclosingElement(
+  region: Pick<DiffRegion, 'bbox'>,
+  elements: readonly CanvasElementBox[]
+): string | undefined {
+  const { x, y, width, height } = region.bbox;
+  let best: CanvasElementBox | undefined;
+  for (const element of elements) {
+    const r = element.rect;
+    const encloses =
+      r.x <= x && r.y <= y && r.x + r.width >= x + width && r.y + r.height >= y + height;
+    if (encloses && (!best || area(r) <= area(best.rect))) best = element;
+  }
+  return best?.selector;
+}
@@ -3,8 +3,44 @@ import { PNG } from 'pngjs';
 import { UiMatchError } from '../types/errors';
 import type { ExpectedSpec, StyleDiff, TokenMap } from '../types/index';
 import { parseCssColorToRgb, type RGB } from '../utils/normalize';
+import {
+  attributeDiffPixels,
+  clipToCanvas,
+  findEnclosingElement,
+  type CanvasElementBox,
+  type ElementDiff,
+} from './attribution';
 import { calculateContentDiffRatio } from './content-metrics';
+import { analyzeTextContrast, type TextContrast } from './contrast';
 import { buildStyleDiffs, type DiffOptions } from './diff';
+import {
+  clusterDiffRegions,
+  diffBitmapFromPixelmatch,
+  type DiffRegion,
+  type DiffRegionOptions,
+} from './diff-regions';
+import {
+  countMaskedPixelsInRect,
+  neutralizeMaskedPixels,
+  paintMaskedPixels,
+  rasterizeMasks,
+  type AppliedMask,
+  type MaskRegion,
+} from './mask';
+import {
+  applyRegistrationOffset,
+  findRegistrationOffset,
+  type RegistrationOptions,
+} from './registration';
+import { resampleImage, type ResampleOptions } from './resample';
+import { computeSsim, type SsimOptions } from './ssim';
+import {
+  pixelmatchTiled,
+  pixelmatchTiledInWorkers,
+  type ResolvedPixelmatchOptions,
+  type TilingOptions,
+} from './tiling';
+import { renderVisualizations, type VisualizationKind, type Visualizations } from './visualize';
 
 /**
  * Size mode for handling dimension mismatches.
@@ -176,6 +212,75 @@ export interface CompareImageInput extends SizeHandlingOptions {
    * Diff options (thresholds, ignore, weights) (optional).
    */
   diffOptions?: DiffOptions;
+
+  /**
+   * Regions excluded from pixel comparison (optional).
+   * Masked pixels never count as diff pixels, are removed from the ratio denominators,
+   * and are painted gray in the diff image.
+   */
+  masks?: MaskRegion[];
+
+  /**
+   * Compute structural similarity (SSIM) alongside pixelmatch (optional).
+   * `true` uses single-scale SSIM with default options.
+   * @default false
+   */
+  ssim?: boolean | SsimOptions;
+
+  /**
+   * Clustering of diff pixels into `diffRegions` (optional).
+   * Pass `false` to skip clustering.
+   * @default {}
+   */
+  diffRegions?: DiffRegionOptions | false;
+
+  /**
+   * Bounding boxes of captured DOM elements in implementation-image pixels (optional),
+   * keyed like `styles` (`__self__`, `__self__ > :nth-child(n)`, ...).
+   * Enables `elementDiffs` and `DiffRegion.element`.
+   */
+  elements?: Record<string, { x: number; y: number; width: number; height: number }>;
+
+  /**
+   * Painted background behind captured text elements (optional), keyed like `styles`.
+   * Together with `styles` this enables `textContrast`.
+   */
+  textBackgrounds?: Record<string, string>;
+
+  /**
+   * Align the implementation to the Figma image before diffing (optional).
+   * Searches translations up to `maxOffset` px; metrics are computed after alignment
+   * and the detected shift is reported as `dimensions.offset`.
+   * `true` uses default options.
+   * @default false
+   */
+  registration?: boolean | RegistrationOptions;
+
+  /**
+   * Additional visualizations rendered on the compared canvas (optional).
+   * Masked areas keep the captured implementation pixels in `sideBySide`, `onionSkin`,
+   * and `blink`; the heatmap paints them gray like the diff image.
+   */
+  visualizations?: VisualizationKind[];
+
+  /**
+   * Compare the canvas in fixed-size tiles (optional).
+   * Metrics and diff image are identical to the untiled comparison; use
+   * `compareImagesAsync` to spread the tiles over worker threads.
+   * Only pixelmatch runs per tile: both PNGs are still decoded in full, the diff image is
+   * full size, and SSIM, visualizations and diff regions are computed on the whole canvas,
+   * so peak memory stays proportional to the canvas.
+   * `true` uses default options.
+   * @default false
+   */
+  tiling?: boolean | TilingOptions;
+
+  /**
+   * Resample one image before size handling so both share a pixel density (optional),
+   * e.g. `{ target: 'figma', factor: 0.5 }` for a 2x Figma export against a 1x capture.
+   * Masks and element boxes in the resampled image's space are scaled along.
+   */
+  resample?: ResampleOptions;
 }
 
 /**
@@ -207,6 +312,19 @@ export interface DimensionInfo {
    */
   adjusted: boolean;
 
+  /**
+   * Resampling applied before size handling (only present when `resample` was requested).
+   * `figma`/`impl` above are the dimensions before resampling.
+   */
+  resample?: ResampleOptions;
+
+  /**
+   * Translation of implementation content relative to Figma detected by registration,
+   * in canvas pixels (positive x = right, positive y = down).
+   * Only present when `registration` was requested; `{ x: 0, y: 0 }` when already aligned.
+   */
+  offset?: { x: number; y: number };
+
   /**
    * Content rectangle used for pixel difference calculation (when contentBasis is applied).
    * Coordinates are relative to the compared canvas.
@@ -272,6 +390,59 @@ export interface CompareImageResult {
    * Average color delta E (if style differences were calculated).
    */
   colorDeltaEAvg?: number;
+
+  /**
+   * Masks applied to the compared canvas (only present when masks were provided).
+   */
+  masks?: AppliedMask[];
+
+  /**
+   * Number of canvas pixels excluded by masks (union of all masks).
+   */
+  maskedPixelCount?: number;
+
+  /**
+   * Mean structural similarity (SSIM, or MS-SSIM when `multiScale` is set), 1 = identical.
+   * Only present when `ssim` was requested.
+   */
+  ssim?: number;
+
+  /**
+   * Full-resolution SSIM map as base64 grayscale PNG (white = similar, black = dissimilar).
+   * Only present when `ssim` was requested.
+   */
+  ssimMap?: string;
+
+  /**
+   * Clusters of diff pixels (largest first), in compared-canvas pixels.
+   * Empty when there are no diff pixels; absent when clustering was disabled.
+   */
+  diffRegions?: DiffRegion[];
+
+  /**
+   * Diff pixels attributed to the smallest enclosing captured element (most diff pixels first).
+   * Only present when `elements` were provided.
+   */
+  elementDiffs?: ElementDiff[];
+
+  /**
+   * Diff pixels outside every captured element box.
+   * Only present when `elements` were provided.
+   */
+  unattributedDiffPixels?: number;
+
+  /**
+   * WCAG contrast of captured text elements (lowest first), with the Figma-derived contrast
+   * when `expectedSpec` defines the text color. Only present when `styles` and
+   * `textBackgrounds` were provided.
+   */
+  textContrast?: TextContrast[];
+
+  /**
+   * Requested visualizations as base64 PNG (APNG for `blink`).
+   * Only present when `visualizations` were requested.
+   */
+  visualizations?: Visualizations;
 }
 
 /**
@@ -314,19 +485,19 @@ function calculateOffset(
 }
 
 /**
- * Count diff pixels within a specific content area using the same pixelmatch options as the full image.
+ * Count diff pixels within a specific content area using the same pixel comparison as the full image.
  * @param figmaPng - Padded Figma PNG
  * @param implPng - Padded implementation PNG
  * @param contentRect - Rectangle defining content area {x1, y1, x2, y2}
- * @param options - Pixelmatch options
+ * @param count - Pixel comparison run on the cropped images (pixelmatch, tiled or in workers)
  * @returns Number of diff pixels within the content area
  */
-function countDiffPixelsInRect(
+function countDiffPixelsInRect<T extends number | Promise<number>>(
   figmaPng: PNG,
   implPng: PNG,
   contentRect: { x1: number; y1: number; x2: number; y2: number },
-  options: PixelmatchOptions
-): number {
+  count: (img1: Uint8Array, img2: Uint8Array, width: number, height: number) => T
+): T | 0 {
   const width = Math.max(0, contentRect.x2 - contentRect.x1);
   const height = Math.max(0, contentRect.y2 - contentRect.y1);
   if (width === 0 || height === 0) return 0;
@@ -348,10 +519,7 @@ function countDiffPixelsInRect(
   const figmaContent = cropToContentRect(figmaPng);
   const implContent = cropToContentRect(implPng);
 
-  return pixelmatch(figmaContent.data, implContent.data, null, width, height, {
-    threshold: options.threshold ?? 0.1,
-    includeAA: options.includeAA ?? false,
-  });
+  return count(figmaContent.data, implContent.data, width, height);
 }
 
 /**
@@ -567,26 +735,97 @@ function scaleImage(png: PNG, targetWidth: number, targetHeight: number): PNG {
 }
 
 /**
- * Compares two PNG images and returns pixel difference metrics.
- * Optionally calculates style differences if styles are provided.
- *
- * @param input - Images, styles, and comparison options
- * @returns Pixel diff ratio, count, visual diff, total pixels, and style diffs (if applicable)
- * @throws If image dimensions don't match and sizeMode is 'strict'
+ * Map a mask region from its source image onto the compared canvas,
+ * applying the same transform as the size handling step.
+ * @param region - Mask region in source-image pixels
+ * @param figmaOriginal - Original Figma dimensions
+ * @param implOriginal - Original implementation dimensions
+ * @param canvasSize - Compared canvas dimensions
+ * @param sizing - Size mode and alignment used for the comparison
+ * @returns Rectangle in canvas pixels (may extend beyond the canvas)
  */
-export function compareImages(input: CompareImageInput): CompareImageResult {
+function mapRegionToCanvas(
+  region: Pick<MaskRegion, 'x' | 'y' | 'width' | 'height' | 'space'>,
+  figmaOriginal: { width: number; height: number },
+  implOriginal: { width: number; height: number },
+  canvasSize: { width: number; height: number },
+  sizing: { sizeMode: SizeMode; align: ImageAlignment }
+): { x: number; y: number; width: number; height: number } {
+  const source = region.space === 'impl' ? implOriginal : figmaOriginal;
+  const rect = { x: region.x, y: region.y, width: region.width, height: region.height };
+
+  if (source.width === canvasSize.width && source.height === canvasSize.height) {
+    return rect;
+  }
+
+  switch (sizing.sizeMode) {
+    case 'pad': {
+      const offset = calculateOffset(source, canvasSize, sizing.align);
+      return { ...rect, x: rect.x + offset.x, y: rect.y + offset.y };
+    }
+    case 'crop': {
+      const offset = calculateOffset(canvasSize, source, sizing.align);
+      return { ...rect, x: rect.x - offset.x, y: rect.y - offset.y };
+    }
+    case 'scale': {
+      const sx = canvasSize.width / source.width;
+      const sy = canvasSize.height / source.height;
+      return { x: rect.x * sx, y: rect.y * sy, width: rect.width * sx, height: rect.height * sy };
+    }
+    case 'strict':
+      return rect;
+  }
+}
+
+/**
+ * Both images on the compared canvas, ready for pixel comparison.
+ */
+interface PreparedCanvas {
+  figmaPng: PNG;
+  implPng: PNG;
+  /** Implementation before masked pixels were neutralized */
+  implForVisualizations: PNG;
+  bg: PadColor;
+  originalFigmaDim: { width: number; height: number };
+  originalImplDim: { width: number; height: number };
+  adjusted: boolean;
+  offset?: { x: number; y: number };
+  toCanvas: (region: Pick<MaskRegion, 'x' | 'y' | 'width' | 'height' | 'space'>) => {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  maskCoverage?: ReturnType<typeof rasterizeMasks>;
+  /** Only present for padded comparisons */
+  contentMetrics?: ReturnType<typeof calculateContentMetrics>;
+}
+
+function resolvePixelmatchOptions(opts: PixelmatchOptions = {}): ResolvedPixelmatchOptions {
+  return { threshold: opts.threshold ?? 0.1, includeAA: opts.includeAA ?? false };
+}
+
+function resolveTiling(tiling: CompareImageInput['tiling']): TilingOptions | undefined {
+  if (!tiling) return undefined;
+  return tiling === true ? {} : tiling;
+}
+
+/**
+ * Decode both images and bring them onto the compared canvas:
+ * size handling, registration, and masks.
+ */
+function prepareCanvas(input: CompareImageInput): PreparedCanvas {
   const {
     figmaPngB64,
     implPngB64,
-    pixelmatch: opts = {},
-    styles,
-    expectedSpec,
-    tokens,
-    diffOptions,
     sizeMode = 'strict',
     align = 'center',
     padColor = 'auto',
     contentBasis = 'union',
+    masks = [],
+    registration = false,
+    visualizations = [],
+    resample,
   } = input;
 
   // Decode base64 to Buffer
@@ -632,6 +871,25 @@ export function compareImages(input: CompareImageInput): CompareImageResult {
   flattenToOpaque(figmaPng);
   flattenToOpaque(implPng);
 
+  // Bring both images to a common pixel density; regions of the resampled side scale along
+  if (resample?.target === 'figma') figmaPng = resampleImage(figmaPng, resample.factor);
+  if (resample?.target === 'impl') implPng = resampleImage(implPng, resample.factor);
+  const figmaDim = { width: figmaPng.width, height: figmaPng.height };
+  const implDim = { width: implPng.width, height: implPng.height };
+  const toSourcePixels = (
+    region: Pick<MaskRegion, 'x' | 'y' | 'width' | 'height' | 'space'>
+  ): Pick<MaskRegion, 'x' | 'y' | 'width' | 'height' | 'space'> => {
+    if (!resample || (region.space ?? 'figma') !== resample.target) return region;
+    const { factor } = resample;
+    return {
+      ...region,
+      x: region.x * factor,
+      y: region.y * factor,
+      width: region.width * factor,
+      height: region.height * factor,
+    };
+  };
+
   // Handle dimension mismatches based on sizeMode
   let adjusted = false;
   const dimensionsDiffer = figmaPng.width !== implPng.width || figmaPng.height !== implPng.height;
@@ -679,19 +937,235 @@ export function compareImages(input: CompareImageInput): CompareImageResult {
   }
 
   const { width, height } = figmaPng;
-  const totalPixels = width * height;
 
-  // Create diff image
-  const diff = new PNG({ width, height });
+  // Align implementation content to the design before any pixel metric
+  const offset = registration
+    ? findRegistrationOffset(figmaPng, implPng, registration === true ? {} : registration)
+    : undefined;
+  if (offset && (offset.x !== 0 || offset.y !== 0)) {
+    implPng = applyRegistrationOffset(figmaPng, implPng, offset);
+  }
+
+  // Impl-space rectangles follow the implementation content after registration
+  const toCanvas = (
+    region: Pick<MaskRegion, 'x' | 'y' | 'width' | 'height' | 'space'>
+  ): { x: number; y: number; width: number; height: number } => {
+    const rect = mapRegionToCanvas(
+      toSourcePixels(region),
+      figmaDim,
+      implDim,
+      { width, height },
+      { sizeMode, align }
+    );
+    if (!offset || region.space !== 'impl') return rect;
+    return { ...rect, x: rect.x - offset.x, y: rect.y - offset.y };
+  };
+
+  // Map masks onto the compared canvas and make masked pixels identical in both images
+  const maskCoverage =
+    masks.length > 0 ? rasterizeMasks(masks, { width, height }, toCanvas) : undefined;
+  // Visualizations show the implementation as captured, not the neutralized masks
+  let implForVisualizations = implPng;
+  if (maskCoverage && visualizations.length > 0) {
+    implForVisualizations = new PNG({ width, height });
+    implPng.data.copy(implForVisualizations.data);
+  }
+  if (maskCoverage) {
+    neutralizeMaskedPixels(figmaPng, implPng, maskCoverage.bitmap);
+  }
+
+  // Content area of padded comparisons (masked pixels are not content)
+  let contentMetrics: PreparedCanvas['contentMetrics'];
+  if (sizeMode === 'pad' && adjusted) {
+    contentMetrics = calculateContentMetrics(
+      figmaDim,
+      implDim,
+      { width, height },
+      align,
+      contentBasis
+    );
+
+    if (maskCoverage) {
+      contentMetrics.contentPixels -= countMaskedPixelsInRect(
+        maskCoverage.bitmap,
+        width,
+        contentMetrics.contentRect
+      );
+    }
+  }
+
+  return {
+    figmaPng,
+    implPng,
+    implForVisualizations,
+    bg,
+    originalFigmaDim,
+    originalImplDim,
+    adjusted,
+    offset,
+    toCanvas,
+    maskCoverage,
+    contentMetrics,
+  };
+}
+
+/**
+ * Compares two PNG images and returns pixel difference metrics.
+ * Optionally calculates style differences if styles are provided.
+ *
+ * @param input - Images, styles, and comparison options
+ * @returns Pixel diff ratio, count, visual diff, total pixels, and style diffs (if applicable)
+ * @throws If image dimensions don't match and sizeMode is 'strict'
+ */
+export function compareImages(input: CompareImageInput): CompareImageResult {
+  const canvas = prepareCanvas(input);
+  const { figmaPng, implPng, contentMetrics } = canvas;
+  const { width, height } = figmaPng;
+  const options = resolvePixelmatchOptions(input.pixelmatch);
+  const tiling = resolveTiling(input.tiling);
+  const match = (
+    img1: Uint8Array,
+    img2: Uint8Array,
+    output: Uint8Array | null,
+    w: number,
+    h: number
+  ): number =>
+    tiling
+      ? pixelmatchTiled(img1, img2, output, w, h, options, tiling.tileSize)
+      : pixelmatch(img1, img2, output, w, h, options);
 
   // Perform pixel comparison
-  const diffPixelCount = pixelmatch(figmaPng.data, implPng.data, diff.data, width, height, {
-    threshold: opts.threshold ?? 0.1,
-    includeAA: opts.includeAA ?? false,
-  });
+  const diff = new PNG({ width, height });
+  const diffPixelCount = match(figmaPng.data, implPng.data, diff.data, width, height);
+  const contentDiffPixelCount =
+    contentMetrics && contentMetrics.contentPixels > 0
+      ? countDiffPixelsInRect(figmaPng, implPng, contentMetrics.contentRect, (a, b, w, h) =>
+          match(a, b, null, w, h)
+        )
+      : 0;
+
+  return finishComparison(input, canvas, diff, diffPixelCount, contentDiffPixelCount);
+}
 
-  // Calculate pixel difference ratio
-  const pixelDiffRatio = totalPixels > 0 ? diffPixelCount / totalPixels : 0;
+/**
+ * Same as {@link compareImages}, but with `tiling` the tiles are compared in a pool of
+ * worker threads (`tiling.workers`). Metrics and diff image are identical.
+ * Without `tiling` this is `compareImages` wrapped in a promise.
+ *
+ * @param input - Images, styles, and comparison options
+ * @returns Pixel diff ratio, count, visual diff, total pixels, and style diffs (if applicable)
+ * @throws If image dimensions don't match and sizeMode is 'strict'
+ */
+export async function compareImagesAsync(input: CompareImageInput): Promise<CompareImageResult> {
+  const tiling = resolveTiling(input.tiling);
+  if (!tiling) return compareImages(input);
+
+  const canvas = prepareCanvas(input);
+  const { figmaPng, implPng, contentMetrics } = canvas;
+  const { width, height } = figmaPng;
+  const options = resolvePixelmatchOptions(input.pixelmatch);
+
+  const diff = new PNG({ width, height });
+  const diffPixelCount = await pixelmatchTiledInWorkers(
+    figmaPng.data,
+    implPng.data,
+    diff.data,
+    width,
+    height,
+    options,
+    tiling
+  );
+  const contentDiffPixelCount =
+    contentMetrics && contentMetrics.contentPixels > 0
+      ? await countDiffPixelsInRect(figmaPng, implPng, contentMetrics.contentRect, (a, b, w, h) =>
+          pixelmatchTiledInWorkers(a, b, null, w, h, options, tiling)
+        )
+      : 0;
+
+  return finishComparison(input, canvas, diff, diffPixelCount, contentDiffPixelCount);
+}
+
+/**
+ * Derive all metrics and artifacts from the pixel comparison.
+ *
+ * @param diff - pixelmatch diff image of the full canvas
+ * @param diffPixelCount - Diff pixels on the full canvas
+ * @param contentDiffPixelCount - Diff pixels when comparing only the content rectangle
+ */
+function finishComparison(
+  input: CompareImageInput,
+  canvas: PreparedCanvas,
+  diff: PNG,
+  diffPixelCount: number,
+  contentDiffPixelCount: number
+): CompareImageResult {
+  const {
+    styles,
+    expectedSpec,
+    tokens,
+    diffOptions,
+    sizeMode = 'strict',
+    ssim = false,
+    diffRegions: diffRegionOptions = {},
+    elements,
+    visualizations = [],
+  } = input;
+  const {
+    figmaPng,
+    implPng,
+    implForVisualizations,
+    bg,
+    originalFigmaDim,
+    originalImplDim,
+    adjusted,
+    offset,
+    toCanvas,
+    maskCoverage,
+    contentMetrics,
+  } = canvas;
+  const { width, height } = figmaPng;
+  const totalPixels = width * height;
+  const maskedPixelCount = maskCoverage?.maskedPixelCount ?? 0;
+
+  // Map captured element boxes onto the compared canvas
+  const elementBoxes: CanvasElementBox[] = [];
+  for (const [path, box] of Object.entries(elements ?? {})) {
+    const rect = clipToCanvas(toCanvas({ ...box, space: 'impl' }), { width, height });
+    if (!rect) continue;
+    const selector = input.meta?.[path]?.cssSelector ?? (path === '__self__' ? 'self' : path);
+    elementBoxes.push({ path, selector, rect });
+  }
+
+  // Cluster and attribute diff pixels before masked areas are painted over
+  const diffBitmap =
+    diffPixelCount > 0 && (diffRegionOptions !== false || elements)
+      ? diffBitmapFromPixelmatch(diff)
+      : undefined;
+  const diffRegions =
+    diffRegionOptions === false
+      ? undefined
+      : diffBitmap
+        ? clusterDiffRegions(diffBitmap, figmaPng, implPng, bg, diffRegionOptions)
+        : [];
+  const attribution = elements
+    ? diffBitmap
+      ? attributeDiffPixels(diffBitmap, { width, height }, elementBoxes)
+      : { elementDiffs: [], unattributedPixels: 0 }
+    : undefined;
+  if (diffRegions && elements) {
+    for (const region of diffRegions) {
+      const element = findEnclosingElement(region, elementBoxes);
+      if (element) region.element = element;
+    }
+  }
+
+  if (maskCoverage) {
+    paintMaskedPixels(diff, maskCoverage.bitmap);
+  }
+
+  // Calculate pixel difference ratio (masked pixels are excluded from the denominator)
+  const comparedPixels = totalPixels - maskedPixelCount;
+  const pixelDiffRatio = comparedPixels > 0 ? diffPixelCount / comparedPixels : 0;
 
   // Encode diff image to base64
   const diffBuffer = PNG.sync.write(diff);
@@ -708,36 +1182,66 @@ export function compareImages(input: CompareImageInput): CompareImageResult {
       compared: { width, height },
       sizeMode,
       adjusted,
+      ...(input.resample ? { resample: input.resample } : {}),
+      ...(offset ? { offset } : {}),
     },
   };
 
-  // Calculate content-only metrics when padding was applied
-  if (sizeMode === 'pad' && adjusted) {
-    const contentMetrics = calculateContentMetrics(
-      originalFigmaDim,
-      originalImplDim,
-      { width, height },
-      align,
-      contentBasis
-    );
+  if (diffRegions) {
+    result.diffRegions = diffRegions;
+  }
 
+  if (attribution) {
+    result.elementDiffs = attribution.elementDiffs;
+    result.unattributedDiffPixels = attribution.unattributedPixels;
+  }
+
+  if (maskCoverage) {
+    result.masks = maskCoverage.applied;
+    result.maskedPixelCount = maskedPixelCount;
+  }
+
+  if (visualizations.length > 0) {
+    result.visualizations = renderVisualizations(visualizations, {
+      figma: figmaPng,
+      impl: implForVisualizations,
+      diff,
+      maskBitmap: maskCoverage?.bitmap,
+    });
+  }
+
+  // Structural similarity on the same (masked) canvas
+  if (ssim) {
+    const ssimResult = computeSsim(figmaPng, implPng, ssim === true ? {} : ssim);
+    result.ssim = ssimResult.ssim;
+    result.ssimMap = PNG.sync.write(ssimResult.map).toString('base64');
+  }
+
+  // Content-only metrics when padding was applied
+  if (contentMetrics) {
     result.contentPixels = contentMetrics.contentPixels;
     result.contentCoverage = contentMetrics.contentCoverage;
 
     // Add content rectangle to dimensions for visualization
     result.dimensions.contentRect = contentMetrics.contentRect;
 
-    // Calculate content-only pixel diff ratio by counting diff pixels within content rect
-    const diffPixelCountInContent =
-      contentMetrics.contentPixels > 0
-        ? countDiffPixelsInRect(figmaPng, implPng, contentMetrics.contentRect, opts)
-        : 0;
     result.pixelDiffRatioContent = calculateContentDiffRatio(
-      diffPixelCountInContent,
+      contentDiffPixelCount,
       contentMetrics.contentPixels
     );
   }
 
+  // Text contrast against the painted background, and what the design intends
+  if (styles && input.textBackgrounds) {
+    result.textContrast = analyzeTextContrast({
+      styles,
+      textBackgrounds: input.textBackgrounds,
+      expectedSpec,
+      tokens,
+      meta: input.meta,
+    });
+  }
+
   // Calculate style differences if styles are provided
   if (styles && expectedSpec) {
     const styleDiffs = buildStyleDiffs(styles, expectedSpec, {
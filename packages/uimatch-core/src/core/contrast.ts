@@ -0,0 +1,120 @@
+import type { ExpectedSpec, TokenMap } from '../types/index';
+import { compositeOver, contrastRatio } from '../utils/color';
+import { parseCssColorToRgb, toPx, type RGB } from '../utils/normalize';
+
+/**
+ * Contrast of a captured text element, compared with the Figma design.
+ */
+export interface TextContrast {
+  /** Display selector (`[data-testid="..."]`, `tag.class`, or the style key), as in StyleDiff */
+  selector: string;
+
+  /** Style key of the element */
+  path: string;
+
+  /** WCAG contrast ratio of the text color over its painted background (1-21, floored to 2 decimals) */
+  ratio: number;
+
+  /** Contrast of the Figma text color over the nearest Figma fill (when the design defines the text color) */
+  expectedRatio?: number;
+
+  /** WCAG AA minimum for the text size: 4.5, or 3 for large text */
+  required: number;
+
+  /** Large text per WCAG: at least 24px, or at least 18.66px and bold */
+  largeText: boolean;
+}
+
+/** WCAG 2 AA contrast minimums */
+export const WCAG_AA_CONTRAST = { normal: 4.5, large: 3 } as const;
+
+const WHITE: RGB = { r: 255, g: 255, b: 255 };
+
+const floor2 = (n: number): number => Math.floor(n * 100) / 100;
+
+/**
+ * Whether text counts as large under WCAG (18pt, or 14pt bold).
+ */
+export function isLargeText(fontSize?: string, fontWeight?: string): boolean {
+  const px = toPx(fontSize) ?? 0;
+  const weight = fontWeight === 'bold' ? 700 : Number(fontWeight);
+  return px >= 24 || (px >= 18.66 && Number.isFinite(weight) && weight >= 700);
+}
+
+/**
+ * Parse an expected color, resolving `var(--token)` through the color tokens
+ * (or the `var()` fallback).
+ */
+function parseExpectedColor(css: string | undefined, tokens?: TokenMap): RGB | undefined {
+  const ref = css?.trim();
+  const match = ref?.match(/^var\(\s*(--[^,\s)]+)\s*(?:,\s*(.+))?\)$/);
+  if (!match?.[1]) return parseCssColorToRgb(ref);
+  return parseCssColorToRgb(tokens?.color?.[match[1]] ?? match[2]);
+}
+
+function parentPath(path: string): string | undefined {
+  const index = path.lastIndexOf(' > ');
+  return index < 0 ? undefined : path.slice(0, index);
+}
+
+/**
+ * Background behind a Figma node: fills of the node and its ancestors composited over white,
+ * stopping at the first opaque fill.
+ */
+function expectedBackground(spec: ExpectedSpec, path: string, tokens?: TokenMap): RGB {
+  const layers: RGB[] = [];
+  for (let p: string | undefined = path; p; p = parentPath(p)) {
+    const fill = parseExpectedColor(spec[p]?.['background-color'], tokens);
+    if (!fill) continue;
+    layers.push(fill);
+    if ((fill.a ?? 1) >= 1) break;
+  }
+  return layers.reduceRight((background, layer) => compositeOver(layer, background), WHITE);
+}
+
+/**
+ * Compute the contrast of every captured text element and the contrast the design intends.
+ *
+ * @param params.styles - Captured computed styles (`color`, `font-size`, `font-weight`)
+ * @param params.textBackgrounds - Painted background behind each element that directly holds text
+ * @param params.expectedSpec - Figma-derived spec, keyed like `styles`
+ * @param params.tokens - Token map resolving `var(--token)` colors of the spec
+ * @param params.meta - DOM metadata for display selectors
+ * @returns Text contrasts, lowest ratio first
+ */
+export function analyzeTextContrast(params: {
+  styles: Record<string, Record<string, string>>;
+  textBackgrounds: Record<string, string>;
+  expectedSpec?: ExpectedSpec;
+  tokens?: TokenMap;
+  meta?: Record<string, { cssSelector?: string }>;
+}): TextContrast[] {
+  const { styles, textBackgrounds, expectedSpec, tokens, meta } = params;
+  const out: TextContrast[] = [];
+
+  for (const [path, backgroundCss] of Object.entries(textBackgrounds)) {
+    const style = styles[path];
+    const foreground = parseCssColorToRgb(style?.['color']);
+    const background = parseCssColorToRgb(backgroundCss);
+    if (!style || !foreground || !background) continue;
+
+    const largeText = isLargeText(style['font-size'], style['font-weight']);
+    const entry: TextContrast = {
+      selector: meta?.[path]?.cssSelector ?? (path === '__self__' ? 'self' : path),
+      path,
+      ratio: floor2(contrastRatio(foreground, compositeOver(background, WHITE))),
+      required: largeText ? WCAG_AA_CONTRAST.large : WCAG_AA_CONTRAST.normal,
+      largeText,
+    };
+
+    const expectedColor = parseExpectedColor(expectedSpec?.[path]?.['color'], tokens);
+    if (expectedSpec && expectedColor) {
+      entry.expectedRatio = floor2(
+        contrastRatio(expectedColor, expectedBackground(expectedSpec, path, tokens))
+      );
+    }
+    out.push(entry);
+  }
+
+  return out.sort((a, b) => a.ratio - b.ratio);
+}
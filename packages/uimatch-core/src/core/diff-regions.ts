@@ -0,0 +1,193 @@
+import type { PNG } from 'pngjs';
+import { createPixelDeltaE } from '../utils/color';
+
+/**
+ * Dominant displacement of implementation content relative to Figma inside a region.
+ * `none` when content did not move measurably (e.g., color-only changes) or only one side has content.
+ */
+export type DiffDirection = 'left' | 'right' | 'up' | 'down' | 'none';
+
+/**
+ * Cluster of nearby diff pixels.
+ * Coordinates are compared-canvas pixels.
+ */
+export interface DiffRegion {
+  /** Bounding box of the cluster */
+  bbox: { x: number; y: number; width: number; height: number };
+  /** Number of diff pixels in the cluster */
+  pixelCount: number;
+  /** Mean CIEDE2000 color difference of the cluster's diff pixels */
+  meanColorDelta: number;
+  /** Dominant displacement of implementation content relative to Figma */
+  direction: DiffDirection;
+  /** Smallest captured element enclosing the region (when element boxes were provided) */
+  element?: string;
+}
+
+/**
+ * Options for clustering diff pixels into regions.
+ */
+export interface DiffRegionOptions {
+  /**
+   * Diff pixels closer than this (Chebyshev distance, px) belong to the same region.
+   * 1 means plain 8-connectivity.
+   * @default 3
+   */
+  mergeDistance?: number;
+
+  /**
+   * Regions with fewer diff pixels are dropped.
+   * @default 1
+   */
+  minPixels?: number;
+
+  /**
+   * Maximum number of regions returned (largest first).
+   * @default 50
+   */
+  maxRegions?: number;
+}
+
+/** Minimum centroid shift (px) reported as a direction */
+const MIN_DIRECTION_SHIFT = 0.5;
+
+/**
+ * Build a diff-pixel bitmap from a pixelmatch output image.
+ * pixelmatch paints counted diff pixels with its diff color (pure red by default);
+ * anti-aliased pixels (yellow) and unchanged pixels (gray) are not counted.
+ */
+export function diffBitmapFromPixelmatch(diffPng: PNG): Uint8Array {
+  const bitmap = new Uint8Array(diffPng.width * diffPng.height);
+  for (let i = 0; i < bitmap.length; i++) {
+    const idx = i * 4;
+    if (diffPng.data[idx] === 255 && diffPng.data[idx + 1] === 0 && diffPng.data[idx + 2] === 0) {
+      bitmap[i] = 1;
+    }
+  }
+  return bitmap;
+}
+
+/**
+ * Weighted centroid of "ink" (distance from the background color) inside a box.
+ */
+function inkCentroid(
+  png: PNG,
+  box: DiffRegion['bbox'],
+  background: { r: number; g: number; b: number }
+): { x: number; y: number } | undefined {
+  let sum = 0;
+  let sx = 0;
+  let sy = 0;
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      const idx = (png.width * y + x) * 4;
+      const dr = (png.data[idx] ?? 0) - background.r;
+      const dg = (png.data[idx + 1] ?? 0) - background.g;
+      const db = (png.data[idx + 2] ?? 0) - background.b;
+      const weight = Math.sqrt(dr * dr + dg * dg + db * db);
+      sum += weight;
+      sx += weight * x;
+      sy += weight * y;
+    }
+  }
+  return sum > 0 ? { x: sx / sum, y: sy / sum } : undefined;
+}
+
+function dominantDirection(
+  figmaPng: PNG,
+  implPng: PNG,
+  box: DiffRegion['bbox'],
+  background: { r: number; g: number; b: number }
+): DiffDirection {
+  const figma = inkCentroid(figmaPng, box, background);
+  const impl = inkCentroid(implPng, box, background);
+  if (!figma || !impl) return 'none';
+
+  const dx = impl.x - figma.x;
+  const dy = impl.y - figma.y;
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < MIN_DIRECTION_SHIFT) return 'none';
+  if (Math.abs(dx) >= Math.abs(dy)) return dx > 0 ? 'right' : 'left';
+  return dy > 0 ? 'down' : 'up';
+}
+
+/**
+ * Cluster diff pixels into regions (connected components with a merge distance).
+ *
+ * @param bitmap - 1 for diff pixels (row-major, canvas width × height)
+ * @param figmaPng - Figma image on the compared canvas
+ * @param implPng - Implementation image on the compared canvas
+ * @param background - Background color used to locate content for `direction`
+ * @param options - Clustering options
+ * @returns Regions sorted by pixel count (largest first)
+ */
+export function clusterDiffRegions(
+  bitmap: Uint8Array,
+  figmaPng: PNG,
+  implPng: PNG,
+  background: { r: number; g: number; b: number },
+  options: DiffRegionOptions = {}
+): DiffRegion[] {
+  const { width, height } = figmaPng;
+  const radius = Math.max(1, Math.floor(options.mergeDistance ?? 3));
+  const minPixels = Math.max(1, options.minPixels ?? 1);
+  const maxRegions = Math.max(0, options.maxRegions ?? 50);
+
+  const colorDelta = createPixelDeltaE(figmaPng.data, implPng.data);
+
+  const visited = new Uint8Array(bitmap.length);
+  const stack: number[] = [];
+  const regions: DiffRegion[] = [];
+
+  for (let start = 0; start < bitmap.length; start++) {
+    if (bitmap[start] !== 1 || visited[start] === 1) continue;
+
+    visited[start] = 1;
+    stack.push(start);
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+    let pixelCount = 0;
+    let deltaSum = 0;
+
+    while (stack.length > 0) {
+      const i = stack.pop() ?? 0;
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      pixelCount++;
+
+      deltaSum += colorDelta(i * 4);
+
+      for (let ny = Math.max(0, y - radius); ny <= Math.min(height - 1, y + radius); ny++) {
+        for (let nx = Math.max(0, x - radius); nx <= Math.min(width - 1, x + radius); nx++) {
+          const n = ny * width + nx;
+          if (bitmap[n] === 1 && visited[n] === 0) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+
+    if (pixelCount < minPixels) continue;
+
+    const bbox = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    regions.push({
+      bbox,
+      pixelCount,
+      meanColorDelta: deltaSum / pixelCount,
+      direction: 'none',
+    });
+  }
+
+  regions.sort((a, b) => b.pixelCount - a.pixelCount);
+  const kept = regions.slice(0, maxRegions);
+  for (const region of kept) {
+    region.direction = dominantDirection(figmaPng, implPng, region.bbox, background);
+  }
+  return kept;
+}
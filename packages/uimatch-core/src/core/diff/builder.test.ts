@@ -228,6 +228,34 @@ describe('buildStyleDiffs', () => {
     expect(diff.properties['color']?.expectedToken).toBe('--color-text-primary');
   });
 
+  it('should resolve spacing and radius tokens', () => {
+    const diffs = buildStyleDiffs(
+      { __self__: { 'padding-top': '12px', gap: '8px', 'border-radius': '4px' } },
+      {
+        __self__: {
+          'padding-top': 'var(--space-4)',
+          gap: 'var(--space-2)',
+          'border-radius': 'var(--radius-md)',
+        },
+      },
+      {
+        tokens: {
+          spacing: { '--space-4': '16px', '--space-2': '8px' },
+          radius: { '--radius-md': '8px' },
+        },
+      }
+    );
+
+    const diff = expectSingle(diffs);
+    expect(diff.properties['padding-top']).toMatchObject({
+      expected: '16px',
+      expectedToken: '--space-4',
+      delta: -4,
+    });
+    expect(diff.properties['gap']).toMatchObject({ delta: 0, expectedToken: '--space-2' });
+    expect(diff.properties['border-radius']?.expectedToken).toBe('--radius-md');
+  });
+
   it('should generate patch hints for fixable differences', () => {
     const actual = {
       __self__: {
@@ -389,4 +417,135 @@ describe('buildStyleDiffs', () => {
     const diff = expectSingle(diffs);
     expect(diff.properties['box-shadow']).toBeDefined();
   });
+
+  describe('background-image gradients', () => {
+    const expected: ExpectedSpec = {
+      __self__: {
+        'background-image': 'linear-gradient(90deg, #ff0000 0%, #0000ff 100%)',
+      },
+    };
+
+    it('should accept a matching computed gradient', () => {
+      const diffs = buildStyleDiffs(
+        {
+          __self__: {
+            'background-image': 'linear-gradient(90deg, rgb(255, 0, 0) 0%, rgb(0, 0, 255) 100%)',
+          },
+        },
+        expected
+      );
+
+      const diff = expectSingle(diffs);
+      expect(diff.properties['background-image']?.delta).toBe(0);
+      expect(diff.severity).toBe('low');
+    });
+
+    it('should flag stop colors beyond the ΔE threshold', () => {
+      const diff = expectSingle(
+        buildStyleDiffs(
+          {
+            __self__: {
+              'background-image': 'linear-gradient(90deg, rgb(255, 0, 0) 0%, rgb(0, 128, 0) 100%)',
+            },
+          },
+          expected
+        )
+      );
+
+      expect(diff.properties['background-image']?.unit).toBe('ΔE');
+      expect(diff.properties['background-image']?.delta).toBeGreaterThan(3);
+      expect(diff.severity).toBe('high');
+    });
+
+    it('should flag shifted stops and report angle differences', () => {
+      const diff = expectSingle(
+        buildStyleDiffs(
+          {
+            __self__: {
+              'background-image':
+                'linear-gradient(180deg, rgb(255, 0, 0) 20%, rgb(0, 0, 255) 100%)',
+            },
+          },
+          expected
+        )
+      );
+
+      expect(diff.properties['background-image']?.delta).toBe(0);
+      expect(diff.properties['background-image-stops']).toEqual({
+        actual: '20%, 100%',
+        expected: '0%, 100%',
+        delta: 20,
+        unit: '%',
+      });
+      expect(diff.properties['background-image-angle']).toEqual({
+        actual: '180deg',
+        expected: '90deg',
+        delta: 90,
+        unit: 'deg',
+      });
+      expect(diff.patchHints?.map((h) => h.property)).toEqual(['background-image']);
+    });
+
+    it('should flag a missing gradient as categorical', () => {
+      const diff = expectSingle(
+        buildStyleDiffs({ __self__: { 'background-image': 'none' } }, expected)
+      );
+
+      expect(diff.properties['background-image']).toMatchObject({ unit: 'categorical', delta: 1 });
+    });
+
+    it('should skip elements captured without background-image', () => {
+      expect(buildStyleDiffs({ __self__: { color: 'rgb(0, 0, 0)' } }, expected)).toHaveLength(0);
+    });
+  });
+
+  describe('pseudo-elements', () => {
+    it('should match expectations keyed by test-id selector', () => {
+      const diff = expectSingle(
+        buildStyleDiffs(
+          { '__self__ > :nth-child(1)::before': { content: '"→"', color: 'rgb(255, 0, 0)' } },
+          { '[data-testid="icon"]::before': { content: "'→'", color: 'rgb(0, 0, 255)' } },
+          {
+            meta: {
+              '__self__ > :nth-child(1)::before': {
+                tag: 'span',
+                testid: 'icon',
+                cssSelector: '[data-testid="icon"]::before',
+              },
+            },
+          }
+        )
+      );
+
+      expect(diff.selector).toBe('[data-testid="icon"]::before');
+      // Quote style does not count as a content difference
+      expect(diff.properties['content']).toMatchObject({
+        actual: '"→"',
+        expected: '"→"',
+        delta: 0,
+      });
+      expect(diff.properties['color']?.unit).toBe('ΔE');
+      expect(diff.severity).toBe('high');
+    });
+
+    it('should flag placeholder color and generated content differences', () => {
+      const diffs = buildStyleDiffs(
+        {
+          '__self__::placeholder': { color: 'rgb(117, 117, 117)' },
+          '__self__::after': { content: '"*"', position: 'absolute', top: '0px' },
+        },
+        {
+          '__self__::placeholder': { color: 'rgb(156, 163, 175)' },
+          '__self__::after': { content: '"•"', position: 'absolute', top: '4px' },
+        }
+      );
+
+      const placeholder = diffs.find((d) => d.selector === '__self__::placeholder');
+      expect(placeholder?.properties['color']?.delta).toBeGreaterThan(3);
+      const after = diffs.find((d) => d.selector === '__self__::after');
+      expect(after?.properties['content']).toMatchObject({ unit: 'categorical', delta: 1 });
+      expect(after?.properties['position']?.delta).toBe(0);
+      expect(after?.properties['top']).toMatchObject({ unit: 'px', delta: -4 });
+    });
+  });
 });
@@ -8,6 +8,7 @@ import {
   normLineHeight,
   parseBoxShadow,
   parseCssColorToRgb,
+  parseCssGradient,
   toPx,
   type RGB,
 } from '../../utils/normalize';
@@ -37,6 +38,10 @@ export interface DiffThresholds {
   shadowBlur?: number;
   /** Extra Delta E tolerance for box-shadow color comparison. */
   shadowColorExtraDE?: number;
+  /** Tolerance for gradient stop positions, as a fraction of the gradient line (0-1). */
+  gradientStopPosition?: number;
+  /** Tolerance for linear gradient angles, in degrees. */
+  gradientAngle?: number;
 }
 
 /**
@@ -55,6 +60,8 @@ export const DEFAULT_DIFF_THRESHOLDS: Required<DiffThresholds> = {
   borderWidth: 0.3,
   shadowBlur: 0.15,
   shadowColorExtraDE: 1.0,
+  gradientStopPosition: 0.05,
+  gradientAngle: 5,
 };
 
 export interface DiffOptions {
@@ -65,6 +72,8 @@ export interface DiffOptions {
   >;
   tokens?: {
     color?: Record<string, string>;
+    spacing?: Record<string, string>;
+    radius?: Record<string, string>;
   };
   meta?: Record<
     string,
@@ -85,6 +94,20 @@ export interface DiffOptions {
   stage?: 'all' | 'parent' | 'self' | 'children';
 }
 
+/**
+ * Expected length in px; `var(--x)` is looked up in the token group (expectedToken).
+ */
+function expectedPx(
+  ref: string | undefined,
+  group: Record<string, string> | undefined,
+  parse: (v?: string) => number | undefined = toPx
+): { px?: number; token?: string } {
+  if (!ref?.startsWith('var(')) return { px: ref ? parse(ref) : undefined };
+  const token = ref.slice(4, -1).trim(); // --x
+  const value = group?.[token];
+  return value ? { px: parse(value), token } : {};
+}
+
 /**
  * Build style differences between actual and expected styles
  * Supports staged checking (parent → self → children) for progressive validation
@@ -113,6 +136,9 @@ export function buildStyleDiffs(
   const tShadowBlur = opts.thresholds?.shadowBlur ?? DEFAULT_DIFF_THRESHOLDS.shadowBlur;
   const tShadowColorExtra =
     opts.thresholds?.shadowColorExtraDE ?? DEFAULT_DIFF_THRESHOLDS.shadowColorExtraDE;
+  const tGradientStop =
+    opts.thresholds?.gradientStopPosition ?? DEFAULT_DIFF_THRESHOLDS.gradientStopPosition;
+  const tGradientAngle = opts.thresholds?.gradientAngle ?? DEFAULT_DIFF_THRESHOLDS.gradientAngle;
 
   const categoriesOf = (
     prop: string
@@ -128,7 +154,12 @@ export function buildStyleDiffs(
       prop === 'letter-spacing'
     )
       return ['typography'];
-    if (prop === 'color' || prop === 'background-color' || prop === 'border-color')
+    if (
+      prop === 'color' ||
+      prop === 'background-color' ||
+      prop === 'background-image' ||
+      prop === 'border-color'
+    )
       return ['color'];
     if (prop === 'border-radius') return ['radius'];
     if (prop === 'border-width') return ['border'];
@@ -148,9 +179,11 @@ export function buildStyleDiffs(
     // Filter out noise elements (non-visible or decorative)
     if (isNoiseElement(sel, props, opts.meta?.[sel])) continue;
 
-    // Only compare if selector is explicitly defined in expectedSpec
-    // Fallback to __self__ only for __self__ selector to avoid false positives
-    const exp = expectedSpec[sel] ?? (sel === '__self__' ? (expectedSpec['__self__'] ?? {}) : {});
+    // Only compare if selector is explicitly defined in expectedSpec, by style key or by
+    // test-id selector (`[data-testid="icon"]`, `[data-testid="icon"]::before`)
+    const testidSelector = opts.meta?.[sel]?.testid ? opts.meta[sel].cssSelector : undefined;
+    const exp =
+      expectedSpec[sel] ?? (testidSelector ? expectedSpec[testidSelector] : undefined) ?? {};
     const propDiffs: Record<
       string,
       {
@@ -321,10 +354,16 @@ export function buildStyleDiffs(
     // radius
     consider('border-radius', () => {
       const a = toPx(props['border-radius']);
-      const e = exp['border-radius'] ? toPx(exp['border-radius']) : undefined;
+      const { px: e, token } = expectedPx(exp['border-radius'], opts.tokens?.radius);
       if (e == null || a == null) return { ok: true };
       const tol = Math.max(1, tRadius * e);
-      return { ok: Math.abs(a - e) <= tol, delta: a - e, unit: 'px', expected: `${e}px` };
+      return {
+        ok: Math.abs(a - e) <= tol,
+        delta: a - e,
+        unit: 'px',
+        expected: `${e}px`,
+        expectedToken: token,
+      };
     });
 
     // border-width (shorthand)
@@ -436,7 +475,7 @@ export function buildStyleDiffs(
     ).forEach((p) => {
       consider(p, () => {
         const a = toPx(props[p]);
-        const e = exp[p] ? toPx(exp[p]) : undefined;
+        const { px: e, token } = expectedPx(exp[p], opts.tokens?.spacing);
         if (e == null || a == null) return { ok: true };
         const tol = Math.max(1, tSpacing * e);
         const ok = Math.abs(a - e) <= tol;
@@ -444,7 +483,7 @@ export function buildStyleDiffs(
           const rel = Math.abs(a - e) / Math.max(1, e);
           if (rel >= 0.35) severity = 'high'; // huge spacing mismatch
         }
-        return { ok, delta: a - e, unit: 'px', expected: `${e}px` };
+        return { ok, delta: a - e, unit: 'px', expected: `${e}px`, expectedToken: token };
       });
     });
 
@@ -455,7 +494,7 @@ export function buildStyleDiffs(
     (['gap', 'column-gap', 'row-gap'] as const).forEach((p) => {
       consider(p, () => {
         const a = toGapPx(props[p]);
-        const e = exp[p] ? toGapPx(exp[p]) : undefined;
+        const { px: e, token } = expectedPx(exp[p], opts.tokens?.spacing, toGapPx);
         if (e == null || a == null) return { ok: true };
         const tol = Math.max(1, tLayoutGap * e);
         const ok = Math.abs(a - e) <= tol;
@@ -463,7 +502,7 @@ export function buildStyleDiffs(
           const rel = Math.abs(a - e) / Math.max(1, e);
           if (rel >= 0.3) severity = 'high'; // large layout gap mismatch
         }
-        return { ok, delta: a - e, unit: 'px', expected: `${e}px` };
+        return { ok, delta: a - e, unit: 'px', expected: `${e}px`, expectedToken: token };
       });
     });
 
@@ -520,6 +559,64 @@ export function buildStyleDiffs(
       };
     });
 
+    // gradient (stop colors by ΔE, stop positions and linear angle by tolerance)
+    consider('background-image', () => {
+      const e = parseCssGradient(exp['background-image']);
+      if (!e || props['background-image'] === undefined) return { ok: true };
+      const a = parseCssGradient(props['background-image']);
+      const expected = exp['background-image'];
+      // No gradient, a different kind, or a different number of stops
+      if (!a || a.type !== e.type || a.stops.length !== e.stops.length) {
+        return { ok: false, expected, unit: 'categorical', delta: 1 };
+      }
+
+      let maxDE = 0;
+      let maxShift = 0;
+      e.stops.forEach((eStop, i) => {
+        const aStop = a.stops[i];
+        if (!aStop) return;
+        maxDE = Math.max(maxDE, deltaE2000(aStop.rgb, eStop.rgb));
+        maxShift = Math.max(maxShift, Math.abs(aStop.position - eStop.position));
+      });
+      const okPositions = maxShift <= tGradientStop;
+      // If stops are shifted, add auxiliary information (the ΔE above may well be 0)
+      if (!okPositions) {
+        const positions = (stops: typeof a.stops) =>
+          stops.map((s) => `${+(s.position * 100).toFixed(1)}%`).join(', ');
+        propDiffs['background-image-stops'] = {
+          actual: positions(a.stops),
+          expected: positions(e.stops),
+          delta: +(maxShift * 100).toFixed(1),
+          unit: '%',
+        };
+        if (severity !== 'high') severity = 'medium';
+      }
+
+      let okAngle = true;
+      if (a.angle !== undefined && e.angle !== undefined) {
+        const raw = Math.abs(a.angle - e.angle) % 360;
+        const angleDelta = Math.min(raw, 360 - raw);
+        okAngle = angleDelta <= tGradientAngle;
+        // If the angle differs, add auxiliary information
+        if (!okAngle) {
+          propDiffs['background-image-angle'] = {
+            actual: `${+a.angle.toFixed(1)}deg`,
+            expected: `${+e.angle.toFixed(1)}deg`,
+            delta: +angleDelta.toFixed(1),
+            unit: 'deg',
+          };
+          if (severity !== 'high') severity = 'medium';
+        }
+      }
+
+      return {
+        ok: maxDE <= tDeltaE && okPositions && okAngle,
+        delta: +maxDE.toFixed(2),
+        unit: 'ΔE',
+        expected,
+      };
+    });
+
     // display (normalize inline-flex → flex, inline-grid → grid)
     consider('display', () => {
       const normalize = (v?: string) => {
@@ -667,6 +764,36 @@ export function buildStyleDiffs(
       };
     });
 
+    // content of pseudo-elements (string equality, quotes normalized)
+    consider('content', () => {
+      const unquote = (v?: string) => v?.trim().replace(/^(["'])(.*)\1$/s, '$2');
+      const a = unquote(props['content']);
+      const e = unquote(exp['content']);
+      if (e === undefined || a === undefined) return { ok: true };
+      const ok = a === e;
+      // A match reports the computed serialization, so quote style is no difference
+      const expected = ok ? props['content'] : exp['content'];
+      return { ok, expected, unit: 'categorical', delta: ok ? 0 : 1 };
+    });
+
+    // position (string equality) and offsets (px)
+    consider('position', () => {
+      const a = props['position']?.trim();
+      const e = exp['position']?.trim();
+      if (!e || !a) return { ok: true };
+      const ok = a === e;
+      return { ok, expected: e, unit: 'categorical', delta: ok ? 0 : 1 };
+    });
+    (['top', 'right', 'bottom', 'left'] as const).forEach((p) => {
+      consider(p, () => {
+        const a = toPx(props[p]);
+        const e = exp[p] ? toPx(exp[p]) : undefined;
+        if (e == null || a == null) return { ok: true };
+        const tol = Math.max(1, tSpacing * Math.abs(e));
+        return { ok: Math.abs(a - e) <= tol, delta: a - e, unit: 'px', expected: `${e}px` };
+      });
+    });
+
     // A selector without comparable expected properties is not a style difference.
     if (Object.keys(propDiffs).length === 0) {
       continue;
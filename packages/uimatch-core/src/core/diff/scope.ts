@@ -54,6 +54,9 @@ export function getPropertyScope(prop: string): DiffScope {
   // Parent container properties (background, border-radius, padding, gap, etc.)
   const ancestorProps = new Set([
     'background-color',
+    'background-image',
+    'background-image-angle', // Synthetic properties from gradient comparison
+    'background-image-stops',
     'border-radius',
     'border-width',
     'border-style',
@@ -147,7 +147,13 @@ export function generatePatchHints(
 
   for (const [prop, diff] of Object.entries(propDiffs)) {
     // Exclude auxiliary properties from patch hints
-    if (prop.startsWith('box-shadow-offset-')) continue;
+    if (
+      prop.startsWith('box-shadow-offset-') ||
+      prop === 'background-image-angle' ||
+      prop === 'background-image-stops'
+    ) {
+      continue;
+    }
     // Include diffs with expected value, even if delta is null (e.g., categorical mismatches without delta initially)
     // or if actual differs from expected
     if (!diff.expected || (diff.delta == null && diff.actual === diff.expected)) continue;
@@ -1,5 +1,6 @@
 export {
   compareImages,
+  compareImagesAsync,
   type CompareImageInput,
   type CompareImageResult,
   type PixelmatchOptions,
@@ -0,0 +1,152 @@
+import type { PNG } from 'pngjs';
+
+/**
+ * Rectangle excluded from pixel comparison.
+ * Coordinates are image pixels of the image named by `space`, before any size handling.
+ */
+export interface MaskRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+
+  /**
+   * Image the coordinates refer to.
+   * @default 'figma'
+   */
+  space?: 'figma' | 'impl';
+
+  /**
+   * Human-readable origin of the mask (selector, layer name, ...), reported back with the result.
+   */
+  label?: string;
+}
+
+/**
+ * Mask region as applied to the compared canvas.
+ */
+export interface AppliedMask {
+  /** Origin of the mask, copied from {@link MaskRegion.label}. */
+  label?: string;
+
+  /** Image the input coordinates referred to. */
+  space: 'figma' | 'impl';
+
+  /** Rectangle on the compared canvas after size handling and clipping. */
+  rect: { x: number; y: number; width: number; height: number };
+
+  /** Canvas pixels covered by this mask (overlaps with other masks are counted for each mask). */
+  maskedPixels: number;
+}
+
+/**
+ * Fill color for masked areas in the diff image. Neutral so it is not confused with
+ * pixelmatch's red (diff) or yellow (anti-aliasing) markers.
+ */
+export const MASK_FILL_COLOR = { r: 160, g: 160, b: 160 } as const;
+
+/**
+ * Pixel coverage of all masks on the compared canvas.
+ */
+export interface MaskCoverage {
+  /** 1 for masked canvas pixels, 0 otherwise (row-major, width × height). */
+  bitmap: Uint8Array;
+  /** Union of masked canvas pixels. */
+  maskedPixelCount: number;
+  /** Per-mask report entries (masks that fall entirely outside the canvas are dropped). */
+  applied: AppliedMask[];
+}
+
+/**
+ * Rasterize mask regions onto the compared canvas.
+ *
+ * @param regions - Mask regions in source-image coordinates
+ * @param canvas - Compared canvas dimensions
+ * @param toCanvas - Maps a source-image rectangle onto the canvas
+ * @returns Coverage bitmap and per-mask report
+ */
+export function rasterizeMasks(
+  regions: readonly MaskRegion[],
+  canvas: { width: number; height: number },
+  toCanvas: (region: MaskRegion) => { x: number; y: number; width: number; height: number }
+): MaskCoverage {
+  const bitmap = new Uint8Array(canvas.width * canvas.height);
+  const applied: AppliedMask[] = [];
+  let maskedPixelCount = 0;
+
+  for (const region of regions) {
+    if (![region.x, region.y, region.width, region.height].every(Number.isFinite)) continue;
+    if (region.width <= 0 || region.height <= 0) continue;
+
+    const mapped = toCanvas(region);
+    const x1 = Math.max(0, Math.floor(mapped.x));
+    const y1 = Math.max(0, Math.floor(mapped.y));
+    const x2 = Math.min(canvas.width, Math.ceil(mapped.x + mapped.width));
+    const y2 = Math.min(canvas.height, Math.ceil(mapped.y + mapped.height));
+    if (x2 <= x1 || y2 <= y1) continue;
+
+    for (let y = y1; y < y2; y++) {
+      for (let x = x1; x < x2; x++) {
+        const idx = canvas.width * y + x;
+        if (bitmap[idx] === 0) {
+          bitmap[idx] = 1;
+          maskedPixelCount++;
+        }
+      }
+    }
+
+    applied.push({
+      ...(region.label !== undefined ? { label: region.label } : {}),
+      space: region.space ?? 'figma',
+      rect: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 },
+      maskedPixels: (x2 - x1) * (y2 - y1),
+    });
+  }
+
+  return { bitmap, maskedPixelCount, applied };
+}
+
+/**
+ * Make masked pixels identical in both images so pixelmatch never reports them.
+ * The implementation image is overwritten with the Figma pixels in place.
+ */
+export function neutralizeMaskedPixels(figmaPng: PNG, implPng: PNG, bitmap: Uint8Array): void {
+  for (let i = 0; i < bitmap.length; i++) {
+    if (bitmap[i] !== 1) continue;
+    const idx = i * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      implPng.data[idx + channel] = figmaPng.data[idx + channel] ?? 0;
+    }
+  }
+}
+
+/**
+ * Paint masked pixels of the diff image with {@link MASK_FILL_COLOR}.
+ */
+export function paintMaskedPixels(diffPng: PNG, bitmap: Uint8Array): void {
+  for (let i = 0; i < bitmap.length; i++) {
+    if (bitmap[i] !== 1) continue;
+    const idx = i * 4;
+    diffPng.data[idx] = MASK_FILL_COLOR.r;
+    diffPng.data[idx + 1] = MASK_FILL_COLOR.g;
+    diffPng.data[idx + 2] = MASK_FILL_COLOR.b;
+    diffPng.data[idx + 3] = 255;
+  }
+}
+
+/**
+ * Count masked pixels inside a canvas rectangle (x2/y2 exclusive).
+ */
+export function countMaskedPixelsInRect(
+  bitmap: Uint8Array,
+  canvasWidth: number,
+  rect: { x1: number; y1: number; x2: number; y2: number }
+): number {
+  let count = 0;
+  for (let y = Math.max(0, rect.y1); y < rect.y2; y++) {
+    for (let x = Math.max(0, rect.x1); x < Math.min(canvasWidth, rect.x2); x++) {
+      if (bitmap[canvasWidth * y + x] === 1) count++;
+    }
+  }
+  return count;
+}
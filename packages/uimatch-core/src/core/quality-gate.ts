@@ -10,6 +10,7 @@
 
 import type { StyleDiff } from '../types/index';
 import type { CompareImageResult } from './compare';
+import type { TextContrast } from './contrast';
 
 const LAYOUT_PROPERTIES = new Set([
   'display',
@@ -30,7 +31,14 @@ const LAYOUT_PROPERTIES = new Set([
  * Hard gate violations that immediately fail quality check
  */
 export interface HardGateViolation {
-  type: 'area_gap' | 'suspicion' | 're_evaluation' | 'high_severity';
+  type:
+    | 'area_gap'
+    | 'suspicion'
+    | 're_evaluation'
+    | 'high_severity'
+    | 'layout_shift'
+    | 'low_contrast'
+    | 'contrast_drop';
   reason: string;
   severity: 'critical' | 'high';
 }
@@ -61,6 +69,23 @@ export interface QualityGateThresholds {
   maxHighSeverityIssues?: number;
   /** Maximum allowed high-severity StyleDiff entries containing a layout property */
   maxLayoutHighIssues?: number;
+  /** Minimum structural similarity (0-1); a result without `ssim` fails the gate */
+  minSsim?: number;
+  /**
+   * Maximum translation (px, per axis) absorbed by registration before the gate fails.
+   * Without it, a detected shift is only reported.
+   */
+  maxLayoutShift?: number;
+  /**
+   * Minimum WCAG contrast ratio (1-21) of every captured text element;
+   * only checked when the result carries `textContrast`.
+   */
+  minContrastRatio?: number;
+  /**
+   * Largest relative drop (0-1) of a text element's contrast below the contrast of the
+   * Figma design before the gate fails. Without it, drops over 10% are only reported.
+   */
+  maxContrastDrop?: number;
 }
 
 /**
@@ -75,15 +100,21 @@ export interface CQIParams {
   areaWeight?: number;
   /** High severity penalty weight (0-1, default: 0.05) */
   severityWeight?: number;
+  /**
+   * Structural similarity weight (0-1, default: 0.2).
+   * Only applies when SSIM is available; the default pixel weight then drops to 0.4
+   * so the default weights still sum to 1.
+   */
+  ssimWeight?: number;
 }
 
 /**
  * Individual component breakdown for CQI calculation
  */
 export interface CQIBreakdownComponent {
-  /** Component name: pixel, color, area, or severity */
-  name: 'pixel' | 'color' | 'area' | 'severity';
-  /** Raw metric value (e.g., pixelDiffRatioContent, colorDeltaEAvg, areaGap) */
+  /** Component name: pixel, color, area, severity, or ssim */
+  name: 'pixel' | 'color' | 'area' | 'severity' | 'ssim';
+  /** Raw metric value (e.g., pixelDiffRatioContent, colorDeltaEAvg, areaGap, ssim) */
   rawValue: number;
   /** Threshold for this component */
   threshold: number;
@@ -137,6 +168,10 @@ export interface QualityGateResult {
     minStyleCoverage?: number;
     maxHighSeverityIssues: number;
     maxLayoutHighIssues?: number;
+    minSsim?: number;
+    maxLayoutShift?: number;
+    minContrastRatio?: number;
+    maxContrastDrop?: number;
   };
 }
 
@@ -180,6 +215,21 @@ function validateQualityGateThresholds(thresholds: QualityGateThresholds): void
       'maximum layout high-severity issues'
     );
   }
+  if (thresholds.minSsim !== undefined) {
+    assertUnitInterval(thresholds.minSsim, 'minimum SSIM');
+  }
+  if (thresholds.maxLayoutShift !== undefined) {
+    assertNonNegativeFinite(thresholds.maxLayoutShift, 'maximum layout shift');
+  }
+  if (thresholds.minContrastRatio !== undefined) {
+    assertNonNegativeFinite(thresholds.minContrastRatio, 'minimum contrast ratio');
+    if (thresholds.minContrastRatio < 1 || thresholds.minContrastRatio > 21) {
+      throw new RangeError('minimum contrast ratio must be between 1 and 21');
+    }
+  }
+  if (thresholds.maxContrastDrop !== undefined) {
+    assertUnitInterval(thresholds.maxContrastDrop, 'maximum contrast drop');
+  }
 
   const areaGapCritical = thresholds.areaGapCritical ?? 0.15;
   const areaGapWarning = thresholds.areaGapWarning ?? 0.05;
@@ -188,6 +238,12 @@ function validateQualityGateThresholds(thresholds: QualityGateThresholds): void
   }
 }
 
+/** SSIM at which the CQI ssim penalty saturates when no minSsim threshold is set */
+const DEFAULT_MIN_SSIM = 0.95;
+
+/** Relative contrast drop below the Figma design reported when no maxContrastDrop is set */
+const DEFAULT_CONTRAST_DROP = 0.1;
+
 function normalizePenalty(metric: number, threshold: number, name: string): number {
   assertNonNegativeFinite(metric, name);
   if (threshold === 0) return metric === 0 ? 0 : 1;
@@ -338,33 +394,40 @@ export function calculateCQI(
     colorDeltaEAvg: number;
     areaGap: number;
     hasHighSeverity: boolean;
+    ssim?: number;
   },
   thresholds: QualityGateThresholds,
   params: CQIParams = {},
   includeBreakdown = false
 ): { cqi: number; breakdown?: CQIBreakdown } {
   validateQualityGateThresholds(thresholds);
+  const hasSsim = metrics.ssim !== undefined;
   const weights: Required<CQIParams> = {
-    pixelWeight: params.pixelWeight ?? 0.6,
+    pixelWeight: params.pixelWeight ?? (hasSsim ? 0.4 : 0.6),
     colorWeight: params.colorWeight ?? 0.2,
     areaWeight: params.areaWeight ?? 0.15,
     severityWeight: params.severityWeight ?? 0.05,
+    ssimWeight: hasSsim ? (params.ssimWeight ?? 0.2) : 0,
   };
   for (const [name, weight] of [
     ['pixel', weights.pixelWeight],
     ['color', weights.colorWeight],
     ['area', weights.areaWeight],
     ['severity', weights.severityWeight],
+    ['ssim', weights.ssimWeight],
   ] as const) {
     assertUnitInterval(weight, `${name} weight`);
   }
-  const { pixelWeight, colorWeight, areaWeight, severityWeight } = weights;
+  const { pixelWeight, colorWeight, areaWeight, severityWeight, ssimWeight } = weights;
 
   assertUnitInterval(metrics.pixelDiffRatio, 'pixel difference ratio');
   if (metrics.pixelDiffRatioContent !== undefined) {
     assertUnitInterval(metrics.pixelDiffRatioContent, 'content pixel difference ratio');
   }
   assertUnitInterval(metrics.areaGap, 'area gap');
+  if (metrics.ssim !== undefined && (!Number.isFinite(metrics.ssim) || metrics.ssim > 1)) {
+    throw new RangeError('SSIM must be a finite number of at most 1');
+  }
 
   // Use content-only ratio when available
   const effectivePixelRatio = metrics.pixelDiffRatioContent ?? metrics.pixelDiffRatio;
@@ -378,15 +441,25 @@ export function calculateCQI(
   const colorPenalty = normalizePenalty(metrics.colorDeltaEAvg, thresholds.deltaE, 'color delta E');
   const areaPenalty = metrics.areaGap; // Already 0-1
   const severityPenalty = metrics.hasHighSeverity ? 1 : 0;
+  // SSIM dissimilarity (1 - ssim) saturates at the allowed dissimilarity (1 - minSsim)
+  const ssimTolerance = 1 - (thresholds.minSsim ?? DEFAULT_MIN_SSIM);
+  const ssimPenalty = hasSsim
+    ? normalizePenalty(Math.max(0, 1 - (metrics.ssim ?? 1)), ssimTolerance, 'SSIM dissimilarity')
+    : 0;
 
   // Calculate weighted penalty contributions (0-100 scale)
   const pixelContribution = pixelPenalty * pixelWeight * 100;
   const colorContribution = colorPenalty * colorWeight * 100;
   const areaContribution = areaPenalty * areaWeight * 100;
   const severityContribution = severityPenalty * severityWeight * 100;
+  const ssimContribution = ssimPenalty * ssimWeight * 100;
 
   const totalPenalty =
-    pixelContribution + colorContribution + areaContribution + severityContribution;
+    pixelContribution +
+    colorContribution +
+    areaContribution +
+    severityContribution +
+    ssimContribution;
 
   // CQI = 100 - penalty
   const cqi = Math.max(0, Math.min(100, Math.round(100 - totalPenalty)));
@@ -426,6 +499,15 @@ export function calculateCQI(
       weight: severityWeight,
     },
   ];
+  if (hasSsim) {
+    components.push({
+      name: 'ssim',
+      rawValue: metrics.ssim ?? 1,
+      threshold: thresholds.minSsim ?? DEFAULT_MIN_SSIM,
+      penalty: Math.round(ssimContribution * 10) / 10,
+      weight: ssimWeight,
+    });
+  }
 
   return {
     cqi,
@@ -529,6 +611,58 @@ export function evaluateQualityGate(
     }
   }
 
+  // Layout shift detected by registration: always reported, gating only with a threshold
+  const offset = result.dimensions.offset;
+  const layoutShift = offset ? Math.max(Math.abs(offset.x), Math.abs(offset.y)) : 0;
+  const layoutShiftReason = offset
+    ? `Implementation shifted by (${offset.x}, ${offset.y})px relative to Figma`
+    : '';
+  if (thresholds.maxLayoutShift !== undefined && layoutShift > thresholds.maxLayoutShift) {
+    hardGateViolations.push({
+      type: 'layout_shift',
+      reason: `${layoutShiftReason} exceeds maximum ${thresholds.maxLayoutShift}px`,
+      severity: 'high',
+    });
+  }
+
+  // Text contrast: below the minimum fails; WCAG AA misses are always reported
+  const textContrast = result.textContrast ?? [];
+  const describeContrast = (c: TextContrast): string =>
+    `${c.selector} ${c.ratio.toFixed(2)}:1` +
+    (c.expectedRatio !== undefined ? ` (Figma ${c.expectedRatio.toFixed(2)}:1)` : '');
+  const minContrastRatio = thresholds.minContrastRatio;
+  if (minContrastRatio !== undefined) {
+    const lowContrast = textContrast.filter((c) => c.ratio < minContrastRatio);
+    if (lowContrast.length > 0) {
+      hardGateViolations.push({
+        type: 'low_contrast',
+        reason:
+          `Text contrast below ${minContrastRatio}:1 for ${lowContrast.length} element(s): ` +
+          lowContrast.slice(0, 3).map(describeContrast).join(', '),
+        severity: 'high',
+      });
+    }
+  }
+  const belowWcag = textContrast.filter((c) => c.ratio < c.required);
+
+  // Contrast below what the design intends: reported past the threshold (default 10%),
+  // gating only when one is set
+  const contrastDrop = (c: TextContrast): number =>
+    c.expectedRatio !== undefined && c.expectedRatio > 0 ? 1 - c.ratio / c.expectedRatio : 0;
+  const droppedContrast = textContrast.filter(
+    (c) => contrastDrop(c) > (thresholds.maxContrastDrop ?? DEFAULT_CONTRAST_DROP)
+  );
+  if (thresholds.maxContrastDrop !== undefined && droppedContrast.length > 0) {
+    hardGateViolations.push({
+      type: 'contrast_drop',
+      reason:
+        `Text contrast more than ${(thresholds.maxContrastDrop * 100).toFixed(0)}% below Figma ` +
+        `for ${droppedContrast.length} element(s): ` +
+        droppedContrast.slice(0, 3).map(describeContrast).join(', '),
+      severity: 'high',
+    });
+  }
+
   // Calculate metrics for CQI
   const colorDeltaEAvg = result.colorDeltaEAvg ?? 0;
   const effectivePixelRatio = result.pixelDiffRatioContent ?? result.pixelDiffRatio;
@@ -541,6 +675,7 @@ export function evaluateQualityGate(
       colorDeltaEAvg,
       areaGap,
       hasHighSeverity,
+      ssim: result.ssim,
     },
     thresholds,
     cqiParams,
@@ -564,11 +699,16 @@ export function evaluateQualityGate(
       thresholds.minStyleCoverage === undefined ||
       styleSummary.coverage >= thresholds.minStyleCoverage;
 
+    const ssimOk =
+      thresholds.minSsim === undefined ||
+      (result.ssim !== undefined && result.ssim >= thresholds.minSsim);
+
     // Check if all other metrics are within thresholds
     const canIgnoreAreaGap =
       effectivePixelRatio <= thresholds.pixelDiffRatio &&
       colorDeltaEAvg <= thresholds.deltaE &&
-      styleCoverageOk;
+      styleCoverageOk &&
+      ssimOk;
 
     // If all other metrics are OK, downgrade area_gap to warning and pass the gate
     if (canIgnoreAreaGap) {
@@ -612,6 +752,19 @@ export function evaluateQualityGate(
       reasons.push(`colorDeltaEAvg ${colorDeltaEAvg.toFixed(2)} > ${thresholds.deltaE.toFixed(2)}`);
     }
 
+    if (thresholds.minSsim !== undefined) {
+      // A threshold that cannot be checked must not pass silently
+      if (result.ssim === undefined) {
+        pass = false;
+        reasons.push(
+          `minSsim ${thresholds.minSsim.toFixed(4)} is set but no SSIM was computed; compare with ssim enabled`
+        );
+      } else if (result.ssim < thresholds.minSsim) {
+        pass = false;
+        reasons.push(`ssim ${result.ssim.toFixed(4)} < ${thresholds.minSsim.toFixed(4)}`);
+      }
+    }
+
     // Area gap warning (not critical, but adds to reasons)
     if (areaGap > areaGapWarning) {
       reasons.push(
@@ -619,6 +772,19 @@ export function evaluateQualityGate(
       );
     }
 
+    if (layoutShift > 0) {
+      reasons.push(`[LAYOUT] ${layoutShiftReason}`);
+    }
+
+    for (const c of belowWcag) {
+      reasons.push(`[CONTRAST] ${describeContrast(c)} is below WCAG AA ${c.required}:1`);
+    }
+    for (const c of droppedContrast) {
+      reasons.push(
+        `[CONTRAST] ${describeContrast(c)} is ${(contrastDrop(c) * 100).toFixed(0)}% below Figma`
+      );
+    }
+
     // Add suspicion warnings to reasons if detected
     if (suspicions.detected) {
       for (const reason of suspicions.reasons) {
@@ -650,6 +816,10 @@ export function evaluateQualityGate(
       minStyleCoverage: thresholds.minStyleCoverage,
       maxHighSeverityIssues,
       maxLayoutHighIssues,
+      minSsim: thresholds.minSsim,
+      maxLayoutShift: thresholds.maxLayoutShift,
+      minContrastRatio: thresholds.minContrastRatio,
+      maxContrastDrop: thresholds.maxContrastDrop,
     },
   };
 }
@@ -0,0 +1,187 @@
+import { PNG } from 'pngjs';
+
+/**
+ * Options for aligning the implementation image to the Figma image before diffing.
+ */
+export interface RegistrationOptions {
+  /**
+   * Largest translation searched along each axis, in canvas pixels.
+   * @default 4
+   */
+  maxOffset?: number;
+
+  /**
+   * Refine the best integer offset to sub-pixel precision (bilinear resampling).
+   * Resampling softens edges slightly, so this is off by default.
+   * @default false
+   */
+  subPixel?: boolean;
+}
+
+/** Upper bound of sampled pixels per candidate offset (larger images are sampled on a grid) */
+const MAX_SAMPLES = 250_000;
+
+/** Relative cost improvement an offset needs over no shift to be accepted */
+const MIN_IMPROVEMENT = 0.02;
+
+function toLuma(png: PNG): Float32Array {
+  const luma = new Float32Array(png.width * png.height);
+  for (let i = 0; i < luma.length; i++) {
+    const idx = i * 4;
+    luma[i] =
+      0.299 * (png.data[idx] ?? 0) +
+      0.587 * (png.data[idx + 1] ?? 0) +
+      0.114 * (png.data[idx + 2] ?? 0);
+  }
+  return luma;
+}
+
+/**
+ * Mean absolute luminance difference between figma(x, y) and impl(x + dx, y + dy)
+ * over the pixels where both exist.
+ */
+function shiftCost(
+  figma: Float32Array,
+  impl: Float32Array,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number,
+  step: number
+): number {
+  const x1 = Math.max(0, -dx);
+  const x2 = Math.min(width, width - dx);
+  const y1 = Math.max(0, -dy);
+  const y2 = Math.min(height, height - dy);
+  let sum = 0;
+  let count = 0;
+  for (let y = y1; y < y2; y += step) {
+    const row = y * width;
+    const shiftedRow = (y + dy) * width + dx;
+    for (let x = x1; x < x2; x += step) {
+      sum += Math.abs((figma[row + x] ?? 0) - (impl[shiftedRow + x] ?? 0));
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : Infinity;
+}
+
+/**
+ * Vertex of the parabola through (-1, left), (0, center), (1, right), clamped to ±0.5.
+ */
+function parabolicPeak(left: number, center: number, right: number): number {
+  const denom = left - 2 * center + right;
+  if (!Number.isFinite(denom) || denom <= 0) return 0;
+  return Math.max(-0.5, Math.min(0.5, (left - right) / (2 * denom)));
+}
+
+/**
+ * Find the translation of implementation content relative to Figma.
+ * A positive x means the implementation is drawn further right than the design.
+ *
+ * The no-shift position wins unless another offset lowers the mean luminance
+ * difference noticeably, so noisy but aligned images are left untouched.
+ *
+ * @param figmaPng - Figma image on the compared canvas
+ * @param implPng - Implementation image on the compared canvas (same size)
+ * @param options - Search window and sub-pixel refinement
+ * @returns Detected offset in canvas pixels (`{ x: 0, y: 0 }` when aligned)
+ */
+export function findRegistrationOffset(
+  figmaPng: PNG,
+  implPng: PNG,
+  options: RegistrationOptions = {}
+): { x: number; y: number } {
+  const { width, height } = figmaPng;
+  const maxOffset = Math.max(
+    0,
+    Math.min(
+      Math.floor(options.maxOffset ?? 4),
+      Math.floor((width - 1) / 2),
+      Math.floor((height - 1) / 2)
+    )
+  );
+  if (maxOffset === 0) return { x: 0, y: 0 };
+
+  const figma = toLuma(figmaPng);
+  const impl = toLuma(implPng);
+  const step = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_SAMPLES)));
+
+  const side = 2 * maxOffset + 1;
+  const costs = new Float64Array(side * side);
+  const costAt = (dx: number, dy: number): number =>
+    costs[(dy + maxOffset) * side + (dx + maxOffset)] ?? Infinity;
+
+  let best = { x: 0, y: 0 };
+  let bestCost = Infinity;
+  for (let dy = -maxOffset; dy <= maxOffset; dy++) {
+    for (let dx = -maxOffset; dx <= maxOffset; dx++) {
+      const cost = shiftCost(figma, impl, width, height, dx, dy, step);
+      costs[(dy + maxOffset) * side + (dx + maxOffset)] = cost;
+      if (cost < bestCost) {
+        best = { x: dx, y: dy };
+        bestCost = cost;
+      }
+    }
+  }
+
+  if (bestCost >= costAt(0, 0) * (1 - MIN_IMPROVEMENT)) return { x: 0, y: 0 };
+  if (!options.subPixel) return best;
+
+  const center = bestCost;
+  const fx =
+    Math.abs(best.x) < maxOffset
+      ? parabolicPeak(costAt(best.x - 1, best.y), center, costAt(best.x + 1, best.y))
+      : 0;
+  const fy =
+    Math.abs(best.y) < maxOffset
+      ? parabolicPeak(costAt(best.x, best.y - 1), center, costAt(best.x, best.y + 1))
+      : 0;
+  return { x: Math.round((best.x + fx) * 100) / 100, y: Math.round((best.y + fy) * 100) / 100 };
+}
+
+/**
+ * Move implementation content back by `offset` so it overlays the Figma image.
+ * Canvas pixels uncovered by the shift are copied from the Figma image, so the
+ * shift itself does not produce diff pixels (it is reported separately).
+ *
+ * @returns New image; output(x, y) = impl(x + offset.x, y + offset.y)
+ */
+export function applyRegistrationOffset(
+  figmaPng: PNG,
+  implPng: PNG,
+  offset: { x: number; y: number }
+): PNG {
+  const { width, height } = implPng;
+  const out = new PNG({ width, height });
+  const x0 = Math.floor(offset.x);
+  const y0 = Math.floor(offset.y);
+  const fx = offset.x - x0;
+  const fy = offset.y - y0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      const sx = x + x0;
+      const sy = y + y0;
+      const sx2 = fx > 0 ? sx + 1 : sx;
+      const sy2 = fy > 0 ? sy + 1 : sy;
+
+      if (sx < 0 || sy < 0 || sx2 >= width || sy2 >= height) {
+        for (let c = 0; c < 4; c++) out.data[idx + c] = figmaPng.data[idx + c] ?? 0;
+        continue;
+      }
+
+      const i00 = (width * sy + sx) * 4;
+      const i10 = (width * sy + sx2) * 4;
+      const i01 = (width * sy2 + sx) * 4;
+      const i11 = (width * sy2 + sx2) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = (implPng.data[i00 + c] ?? 0) * (1 - fx) + (implPng.data[i10 + c] ?? 0) * fx;
+        const bottom = (implPng.data[i01 + c] ?? 0) * (1 - fx) + (implPng.data[i11 + c] ?? 0) * fx;
+        out.data[idx + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,100 @@
+import { PNG } from 'pngjs';
+
+/**
+ * Resampling applied to one side before comparison, so both images share a pixel density.
+ */
+export interface ResampleOptions {
+  /** Image to resample */
+  target: 'figma' | 'impl';
+
+  /** Scale factor (0.5 halves both dimensions) */
+  factor: number;
+}
+
+/**
+ * Source spans contributing to each destination column (or row) when downscaling:
+ * destination pixel i covers source [i / factor, (i + 1) / factor).
+ */
+function areaWeights(
+  srcSize: number,
+  dstSize: number
+): Array<{ start: number; weights: number[] }> {
+  const ratio = srcSize / dstSize;
+  const out: Array<{ start: number; weights: number[] }> = [];
+  for (let i = 0; i < dstSize; i++) {
+    const from = i * ratio;
+    const to = Math.min(srcSize, (i + 1) * ratio);
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let s = start; s < to; s++) {
+      weights.push((Math.min(s + 1, to) - Math.max(s, from)) / (to - from));
+    }
+    out.push({ start, weights });
+  }
+  return out;
+}
+
+/**
+ * Source taps for bilinear upscaling (pixel centers aligned).
+ */
+function bilinearWeights(
+  srcSize: number,
+  dstSize: number
+): Array<{ start: number; weights: number[] }> {
+  const ratio = srcSize / dstSize;
+  const out: Array<{ start: number; weights: number[] }> = [];
+  for (let i = 0; i < dstSize; i++) {
+    const center = Math.max(0, Math.min(srcSize - 1, (i + 0.5) * ratio - 0.5));
+    const start = Math.floor(center);
+    const t = center - start;
+    out.push(start + 1 < srcSize ? { start, weights: [1 - t, t] } : { start, weights: [1] });
+  }
+  return out;
+}
+
+/**
+ * Resample an image by `factor` with a filter suited to the direction:
+ * area averaging when shrinking (every source pixel contributes, no aliasing of
+ * 1px details) and bilinear interpolation when enlarging.
+ *
+ * @returns New image of `round(width × factor)` × `round(height × factor)` (at least 1×1)
+ */
+export function resampleImage(png: PNG, factor: number): PNG {
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new RangeError(`Invalid resample factor ${factor}: expected a positive number`);
+  }
+  const width = Math.max(1, Math.round(png.width * factor));
+  const height = Math.max(1, Math.round(png.height * factor));
+  const kernel = factor < 1 ? areaWeights : bilinearWeights;
+  const columns = kernel(png.width, width);
+  const rows = kernel(png.height, height);
+
+  // Horizontal pass into a float buffer, then vertical pass
+  const horizontal = new Float32Array(width * png.height * 4);
+  for (let y = 0; y < png.height; y++) {
+    columns.forEach(({ start, weights }, x) => {
+      const dst = (y * width + x) * 4;
+      weights.forEach((w, k) => {
+        const src = (y * png.width + start + k) * 4;
+        for (let c = 0; c < 4; c++) {
+          horizontal[dst + c] = (horizontal[dst + c] ?? 0) + (png.data[src + c] ?? 0) * w;
+        }
+      });
+    });
+  }
+
+  const out = new PNG({ width, height });
+  rows.forEach(({ start, weights }, y) => {
+    for (let x = 0; x < width; x++) {
+      const dst = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        weights.forEach((w, k) => {
+          sum += (horizontal[((start + k) * width + x) * 4 + c] ?? 0) * w;
+        });
+        out.data[dst + c] = Math.max(0, Math.min(255, Math.round(sum)));
+      }
+    }
+  });
+  return out;
+}
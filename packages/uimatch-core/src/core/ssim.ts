@@ -0,0 +1,243 @@
+import { PNG } from 'pngjs';
+
+/**
+ * Options for the structural similarity (SSIM) metric.
+ */
+export interface SsimOptions {
+  /**
+   * Use multi-scale SSIM (MS-SSIM, up to 5 dyadic scales).
+   * The SSIM map is always computed at full resolution.
+   * @default false
+   */
+  multiScale?: boolean;
+
+  /**
+   * Side length of the square comparison window in pixels.
+   * Windows advance by half their size.
+   * @default 8
+   */
+  windowSize?: number;
+}
+
+/**
+ * Result of an SSIM computation.
+ */
+export interface SsimResult {
+  /** Mean SSIM (or MS-SSIM) in the range [-1, 1], 1 meaning structurally identical. */
+  ssim: number;
+  /** Grayscale map at image resolution (white = similar, black = dissimilar). */
+  map: PNG;
+}
+
+/** Stabilizing constants from Wang et al. (2004) for 8-bit luminance. */
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/** MS-SSIM scale weights from Wang et al. (2003), finest scale first. */
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+
+/**
+ * Convert RGBA data to Rec. 601 luminance.
+ */
+function toLuma(png: PNG): Float32Array {
+  const luma = new Float32Array(png.width * png.height);
+  for (let i = 0; i < luma.length; i++) {
+    const idx = i * 4;
+    luma[i] =
+      0.299 * (png.data[idx] ?? 0) +
+      0.587 * (png.data[idx + 1] ?? 0) +
+      0.114 * (png.data[idx + 2] ?? 0);
+  }
+  return luma;
+}
+
+/**
+ * Halve an image with a 2×2 box filter (odd trailing rows/columns are dropped).
+ */
+function downsample(
+  luma: Float32Array,
+  width: number,
+  height: number
+): { luma: Float32Array; width: number; height: number } {
+  const w = Math.floor(width / 2);
+  const h = Math.floor(height / 2);
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = 2 * y * width + 2 * x;
+      out[y * w + x] =
+        ((luma[i] ?? 0) +
+          (luma[i + 1] ?? 0) +
+          (luma[i + width] ?? 0) +
+          (luma[i + width + 1] ?? 0)) /
+        4;
+    }
+  }
+  return { luma: out, width: w, height: h };
+}
+
+/**
+ * Window origins along one axis. The last window is always flush with the edge.
+ */
+function windowOrigins(length: number, win: number, stride: number): number[] {
+  const origins: number[] = [];
+  for (let p = 0; p + win <= length; p += stride) origins.push(p);
+  const last = length - win;
+  if (origins[origins.length - 1] !== last) origins.push(last);
+  return origins;
+}
+
+/**
+ * SSIM statistics at a single scale.
+ * `ssim` is the mean full SSIM, `cs` the mean contrast-structure term.
+ */
+function ssimAtScale(
+  a: Float32Array,
+  b: Float32Array,
+  width: number,
+  height: number,
+  windowSize: number,
+  withGrid: boolean
+): { ssim: number; cs: number; grid?: { values: Float32Array; xs: number[]; ys: number[] } } {
+  const win = Math.max(1, Math.min(windowSize, width, height));
+  const stride = Math.max(1, Math.floor(win / 2));
+  const xs = windowOrigins(width, win, stride);
+  const ys = windowOrigins(height, win, stride);
+  const n = win * win;
+  const values = withGrid ? new Float32Array(xs.length * ys.length) : undefined;
+
+  let ssimSum = 0;
+  let csSum = 0;
+  for (let gy = 0; gy < ys.length; gy++) {
+    const oy = ys[gy] ?? 0;
+    for (let gx = 0; gx < xs.length; gx++) {
+      const ox = xs[gx] ?? 0;
+      let sa = 0;
+      let sb = 0;
+      let saa = 0;
+      let sbb = 0;
+      let sab = 0;
+      for (let y = oy; y < oy + win; y++) {
+        const row = y * width;
+        for (let x = ox; x < ox + win; x++) {
+          const va = a[row + x] ?? 0;
+          const vb = b[row + x] ?? 0;
+          sa += va;
+          sb += vb;
+          saa += va * va;
+          sbb += vb * vb;
+          sab += va * vb;
+        }
+      }
+      const muA = sa / n;
+      const muB = sb / n;
+      const varA = Math.max(0, saa / n - muA * muA);
+      const varB = Math.max(0, sbb / n - muB * muB);
+      const cov = sab / n - muA * muB;
+
+      const luminance = (2 * muA * muB + C1) / (muA * muA + muB * muB + C1);
+      const contrastStructure = (2 * cov + C2) / (varA + varB + C2);
+      const value = luminance * contrastStructure;
+
+      ssimSum += value;
+      csSum += contrastStructure;
+      if (values) values[gy * xs.length + gx] = value;
+    }
+  }
+
+  const count = xs.length * ys.length;
+  return {
+    ssim: ssimSum / count,
+    cs: csSum / count,
+    grid: values ? { values, xs, ys } : undefined,
+  };
+}
+
+/**
+ * Render window SSIM values as a grayscale PNG at image resolution.
+ * Each pixel takes the value of the window whose origin precedes it most closely.
+ */
+function renderMap(
+  grid: { values: Float32Array; xs: number[]; ys: number[] },
+  width: number,
+  height: number
+): PNG {
+  const png = new PNG({ width, height });
+  const nearest = (origins: number[], p: number): number => {
+    let idx = 0;
+    while (idx + 1 < origins.length && (origins[idx + 1] ?? Infinity) <= p) idx++;
+    return idx;
+  };
+  const colIndex = Array.from({ length: width }, (_, x) => nearest(grid.xs, x));
+
+  for (let y = 0; y < height; y++) {
+    const gy = nearest(grid.ys, y);
+    for (let x = 0; x < width; x++) {
+      const value = grid.values[gy * grid.xs.length + (colIndex[x] ?? 0)] ?? 1;
+      const gray = Math.round(Math.max(0, Math.min(1, value)) * 255);
+      const idx = (width * y + x) * 4;
+      png.data[idx] = gray;
+      png.data[idx + 1] = gray;
+      png.data[idx + 2] = gray;
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+/**
+ * Compute the structural similarity between two images of identical size.
+ * Both images are compared on luminance only; alpha is ignored (callers flatten beforehand).
+ *
+ * @param figmaPng - Reference image
+ * @param implPng - Implementation image (same dimensions)
+ * @param options - Window size and multi-scale toggle
+ * @returns Mean SSIM (or MS-SSIM) and a full-resolution SSIM map
+ */
+export function computeSsim(figmaPng: PNG, implPng: PNG, options: SsimOptions = {}): SsimResult {
+  const { width, height } = figmaPng;
+  const windowSize = Math.max(1, Math.floor(options.windowSize ?? 8));
+
+  if (width === 0 || height === 0) {
+    return { ssim: 1, map: new PNG({ width, height }) };
+  }
+
+  let a = toLuma(figmaPng);
+  let b = toLuma(implPng);
+
+  const finest = ssimAtScale(a, b, width, height, windowSize, true);
+  const map = renderMap(
+    finest.grid ?? { values: new Float32Array([1]), xs: [0], ys: [0] },
+    width,
+    height
+  );
+
+  if (!options.multiScale) {
+    return { ssim: finest.ssim, map };
+  }
+
+  // MS-SSIM: contrast-structure at every scale, full SSIM at the coarsest scale
+  const scales: Array<{ ssim: number; cs: number }> = [finest];
+  let w = width;
+  let h = height;
+  while (scales.length < MS_SSIM_WEIGHTS.length && Math.min(w, h) / 2 >= windowSize) {
+    const da = downsample(a, w, h);
+    const db = downsample(b, w, h);
+    a = da.luma;
+    b = db.luma;
+    w = da.width;
+    h = da.height;
+    scales.push(ssimAtScale(a, b, w, h, windowSize, false));
+  }
+
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales.length);
+  const weightSum = weights.reduce((sum, wt) => sum + wt, 0);
+  let msSsim = 1;
+  scales.forEach((scale, i) => {
+    const weight = (weights[i] ?? 0) / weightSum;
+    const term = i === scales.length - 1 ? scale.ssim : scale.cs;
+    msSsim *= Math.max(0, term) ** weight;
+  });
+
+  return { ssim: msSsim, map };
+}
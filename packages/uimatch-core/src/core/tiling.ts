@@ -0,0 +1,240 @@
+import { createRequire } from 'node:module';
+import { availableParallelism } from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import pixelmatch from 'pixelmatch';
+
+/**
+ * Options for comparing the canvas in fixed-size tiles.
+ */
+export interface TilingOptions {
+  /**
+   * Edge length of a tile in canvas pixels.
+   * @default 1024
+   */
+  tileSize?: number;
+
+  /**
+   * Worker threads used by `compareImagesAsync`. `compareImages` always processes
+   * tiles on the calling thread.
+   * @default available parallelism - 1 (at least 1)
+   */
+  workers?: number;
+}
+
+/**
+ * pixelmatch options with defaults applied.
+ */
+export interface ResolvedPixelmatchOptions {
+  threshold: number;
+  includeAA: boolean;
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export const DEFAULT_TILE_SIZE = 1024;
+
+/**
+ * pixelmatch's anti-aliasing detection reads neighbours of neighbours, so a
+ * 2px overlap makes every tile pixel classify exactly as on the full canvas.
+ */
+const TILE_HALO = 2;
+
+/**
+ * A tile: the canvas rectangle it owns (`core`) and the haloed rectangle it is compared on.
+ */
+interface Tile {
+  core: Rect;
+  halo: Rect;
+}
+
+/**
+ * Split the canvas into row-major tiles of at most `tileSize` × `tileSize` pixels.
+ */
+export function planTiles(width: number, height: number, tileSize: number): Tile[] {
+  if (!Number.isInteger(tileSize) || tileSize < 1) {
+    throw new RangeError(`Invalid tileSize ${tileSize}: expected a positive integer`);
+  }
+  const tiles: Tile[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const core = {
+        x,
+        y,
+        width: Math.min(tileSize, width - x),
+        height: Math.min(tileSize, height - y),
+      };
+      const x1 = Math.max(0, x - TILE_HALO);
+      const y1 = Math.max(0, y - TILE_HALO);
+      const x2 = Math.min(width, x + core.width + TILE_HALO);
+      const y2 = Math.min(height, y + core.height + TILE_HALO);
+      tiles.push({ core, halo: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 } });
+    }
+  }
+  return tiles;
+}
+
+function extractRect(data: Uint8Array, width: number, rect: Rect): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(rect.width * rect.height * 4);
+  for (let row = 0; row < rect.height; row++) {
+    const start = ((rect.y + row) * width + rect.x) * 4;
+    out.set(data.subarray(start, start + rect.width * 4), row * rect.width * 4);
+  }
+  return out;
+}
+
+/**
+ * Copy the core of a tile's diff image into the canvas diff image and count its diff pixels.
+ * pixelmatch paints counted pixels pure red; anti-aliased (yellow) and unchanged (gray) are not counted.
+ */
+function collectTile(
+  tileOutput: Uint8Array,
+  tile: Tile,
+  output: Uint8Array | null,
+  width: number
+): number {
+  const { core, halo } = tile;
+  let count = 0;
+  for (let row = 0; row < core.height; row++) {
+    const start = ((core.y - halo.y + row) * halo.width + core.x - halo.x) * 4;
+    const end = start + core.width * 4;
+    for (let idx = start; idx < end; idx += 4) {
+      if (tileOutput[idx] === 255 && tileOutput[idx + 1] === 0 && tileOutput[idx + 2] === 0) {
+        count++;
+      }
+    }
+    output?.set(tileOutput.subarray(start, end), ((core.y + row) * width + core.x) * 4);
+  }
+  return count;
+}
+
+/**
+ * Run pixelmatch tile by tile on the calling thread.
+ * Diff count and diff image are identical to a single pixelmatch call on the full canvas.
+ *
+ * @param output - Canvas diff image to fill, or null to only count
+ * @returns Number of diff pixels
+ */
+export function pixelmatchTiled(
+  img1: Uint8Array,
+  img2: Uint8Array,
+  output: Uint8Array | null,
+  width: number,
+  height: number,
+  options: ResolvedPixelmatchOptions,
+  tileSize = DEFAULT_TILE_SIZE
+): number {
+  let count = 0;
+  for (const tile of planTiles(width, height, tileSize)) {
+    const { halo } = tile;
+    const tileOutput = new Uint8Array(halo.width * halo.height * 4);
+    pixelmatch(
+      extractRect(img1, width, halo),
+      extractRect(img2, width, halo),
+      tileOutput,
+      halo.width,
+      halo.height,
+      options
+    );
+    count += collectTile(tileOutput, tile, output, width);
+  }
+  return count;
+}
+
+/**
+ * Worker body. pixelmatch is ESM-only, so it is imported from the URL resolved by the
+ * main thread (this also works when the caller is bundled).
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const loaded = import(workerData.pixelmatchUrl);
+parentPort.on('message', async ({ img1, img2, width, height, options }) => {
+  try {
+    const { default: pixelmatch } = await loaded;
+    const output = new Uint8Array(width * height * 4);
+    pixelmatch(img1, img2, output, width, height, options);
+    parentPort.postMessage({ output }, [output.buffer]);
+  } catch (error) {
+    parentPort.postMessage({ error: error instanceof Error ? error.stack ?? error.message : String(error) });
+  }
+});
+`;
+
+function runInWorker(
+  worker: Worker,
+  message: {
+    img1: Uint8Array<ArrayBuffer>;
+    img2: Uint8Array<ArrayBuffer>;
+    width: number;
+    height: number;
+    options: ResolvedPixelmatchOptions;
+  }
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const onMessage = (reply: { output?: Uint8Array; error?: string }): void => {
+      worker.off('error', onError);
+      if (reply.output) resolve(reply.output);
+      else reject(new Error(`Tile comparison failed in worker: ${reply.error ?? 'no output'}`));
+    };
+    const onError = (error: Error): void => {
+      worker.off('message', onMessage);
+      reject(error);
+    };
+    worker.once('message', onMessage);
+    worker.once('error', onError);
+    worker.postMessage(message, [message.img1.buffer, message.img2.buffer]);
+  });
+}
+
+/**
+ * Run pixelmatch tile by tile in a pool of worker threads.
+ * Only the tiles in flight are copied, and results match {@link pixelmatchTiled}.
+ *
+ * @param output - Canvas diff image to fill, or null to only count
+ * @returns Number of diff pixels
+ */
+export async function pixelmatchTiledInWorkers(
+  img1: Uint8Array,
+  img2: Uint8Array,
+  output: Uint8Array | null,
+  width: number,
+  height: number,
+  options: ResolvedPixelmatchOptions,
+  tiling: TilingOptions = {}
+): Promise<number> {
+  const tiles = planTiles(width, height, tiling.tileSize ?? DEFAULT_TILE_SIZE);
+  const workers = tiling.workers ?? Math.max(1, availableParallelism() - 1);
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new RangeError(`Invalid workers ${workers}: expected a positive integer`);
+  }
+  if (tiles.length === 0) return 0;
+
+  const pixelmatchUrl = pathToFileURL(createRequire(import.meta.url).resolve('pixelmatch')).href;
+  const pool = Array.from(
+    { length: Math.min(workers, tiles.length) },
+    () => new Worker(WORKER_SOURCE, { eval: true, workerData: { pixelmatchUrl } })
+  );
+
+  let next = 0;
+  let count = 0;
+  try {
+    await Promise.all(
+      pool.map(async (worker) => {
+        for (let tile = tiles[next++]; tile; tile = tiles[next++]) {
+          const { halo } = tile;
+          const tileOutput = await runInWorker(worker, {
+            img1: extractRect(img1, width, halo),
+            img2: extractRect(img2, width, halo),
+            width: halo.width,
+            height: halo.height,
+            options,
+          });
+          count += collectTile(tileOutput, tile, output, width);
+        }
+      })
+    );
+  } finally {
+    await Promise.all(pool.map((worker) => worker.terminate()));
+  }
+  return count;
+}
@@ -0,0 +1,239 @@
+import { PNG } from 'pngjs';
+import { createPixelDeltaE } from '../utils/color';
+import { paintMaskedPixels } from './mask';
+
+/**
+ * Additional diff visualizations rendered on the compared canvas.
+ * - `heatmap`: per-pixel CIEDE2000 graded from green (barely visible) to red (≥ {@link HEATMAP_MAX_DELTA_E})
+ * - `sideBySide`: Figma | implementation | diff composite
+ * - `onionSkin`: implementation blended over Figma at 50% opacity
+ * - `blink`: animated PNG (APNG) alternating Figma and implementation
+ */
+export type VisualizationKind = 'heatmap' | 'sideBySide' | 'onionSkin' | 'blink';
+
+/**
+ * Rendered visualizations as base64 PNG (APNG for `blink`), keyed by kind.
+ */
+export type Visualizations = Partial<Record<VisualizationKind, string>>;
+
+/** ΔE2000 at which the heatmap saturates to red */
+export const HEATMAP_MAX_DELTA_E = 20;
+
+/** ΔE2000 below which differences are treated as invisible in the heatmap */
+const HEATMAP_MIN_DELTA_E = 1;
+
+/** Gap between side-by-side panels (px) and its color */
+const PANEL_GAP = 8;
+const PANEL_GAP_COLOR = { r: 128, g: 128, b: 128 } as const;
+
+/** Frame duration of the blink animation (ms) */
+const BLINK_DELAY_MS = 500;
+
+function copyPixel(from: PNG, fromIdx: number, to: PNG, toIdx: number): void {
+  for (let c = 0; c < 4; c++) to.data[toIdx + c] = from.data[fromIdx + c] ?? 0;
+}
+
+/**
+ * Render a ΔE heatmap. Unchanged pixels show a faded grayscale of the implementation
+ * (like pixelmatch's diff image) so the colored areas stay in context.
+ */
+export function renderHeatmap(figmaPng: PNG, implPng: PNG): PNG {
+  const { width, height } = figmaPng;
+  const out = new PNG({ width, height });
+  const deltaAt = createPixelDeltaE(figmaPng.data, implPng.data);
+
+  for (let i = 0; i < width * height; i++) {
+    const idx = i * 4;
+    const delta = deltaAt(idx);
+    if (delta < HEATMAP_MIN_DELTA_E) {
+      const luma =
+        0.299 * (implPng.data[idx] ?? 0) +
+        0.587 * (implPng.data[idx + 1] ?? 0) +
+        0.114 * (implPng.data[idx + 2] ?? 0);
+      const faded = Math.round(255 - (255 - luma) * 0.1);
+      out.data[idx] = faded;
+      out.data[idx + 1] = faded;
+      out.data[idx + 2] = faded;
+    } else {
+      // Green → yellow → red
+      const t = Math.min(1, delta / HEATMAP_MAX_DELTA_E);
+      out.data[idx] = Math.round(t < 0.5 ? t * 2 * 255 : 255);
+      out.data[idx + 1] = Math.round(t < 0.5 ? 255 : (1 - (t - 0.5) * 2) * 255);
+      out.data[idx + 2] = 0;
+    }
+    out.data[idx + 3] = 255;
+  }
+  return out;
+}
+
+/**
+ * Compose panels horizontally, separated by a neutral gap.
+ */
+export function renderSideBySide(panels: readonly PNG[]): PNG {
+  const height = Math.max(0, ...panels.map((p) => p.height));
+  const width =
+    panels.reduce((sum, p) => sum + p.width, 0) + PANEL_GAP * Math.max(0, panels.length - 1);
+  const out = new PNG({ width, height });
+
+  for (let i = 0; i < width * height; i++) {
+    const idx = i * 4;
+    out.data[idx] = PANEL_GAP_COLOR.r;
+    out.data[idx + 1] = PANEL_GAP_COLOR.g;
+    out.data[idx + 2] = PANEL_GAP_COLOR.b;
+    out.data[idx + 3] = 255;
+  }
+
+  let left = 0;
+  for (const panel of panels) {
+    for (let y = 0; y < panel.height; y++) {
+      for (let x = 0; x < panel.width; x++) {
+        copyPixel(panel, (panel.width * y + x) * 4, out, (width * y + left + x) * 4);
+      }
+    }
+    left += panel.width + PANEL_GAP;
+  }
+  return out;
+}
+
+/**
+ * Blend the implementation over Figma.
+ * @param opacity - Implementation opacity (0-1)
+ */
+export function renderOnionSkin(figmaPng: PNG, implPng: PNG, opacity = 0.5): PNG {
+  const { width, height } = figmaPng;
+  const out = new PNG({ width, height });
+  for (let i = 0; i < width * height * 4; i++) {
+    out.data[i] = Math.round(
+      (figmaPng.data[i] ?? 0) * (1 - opacity) + (implPng.data[i] ?? 0) * opacity
+    );
+  }
+  return out;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Split an encoded PNG into its IHDR payload and concatenated IDAT payload.
+ */
+function readChunks(encoded: Buffer): { ihdr: Buffer; idat: Buffer } {
+  let offset = 8; // PNG signature
+  let ihdr: Buffer = Buffer.alloc(0);
+  const idat: Buffer[] = [];
+  while (offset < encoded.length) {
+    const length = encoded.readUInt32BE(offset);
+    const type = encoded.toString('ascii', offset + 4, offset + 8);
+    const data = encoded.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') ihdr = data;
+    if (type === 'IDAT') idat.push(data);
+    offset += 12 + length;
+  }
+  return { ihdr, idat: Buffer.concat(idat) };
+}
+
+/**
+ * Encode frames of identical size as an endlessly looping animated PNG (APNG).
+ * Viewers without APNG support show the first frame.
+ *
+ * @param frames - Frames of identical dimensions
+ * @param delayMs - Display duration of each frame
+ */
+export function encodeApng(frames: readonly PNG[], delayMs = BLINK_DELAY_MS): Buffer {
+  const encoded = frames.map((frame) => readChunks(PNG.sync.write(frame, { colorType: 6 })));
+  const first = encoded[0];
+  if (!first) throw new RangeError('encodeApng requires at least one frame');
+
+  const width = first.ihdr.readUInt32BE(0);
+  const height = first.ihdr.readUInt32BE(4);
+  const chunks: Buffer[] = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])];
+  chunks.push(pngChunk('IHDR', first.ihdr));
+
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(encoded.length, 0); // num_frames
+  actl.writeUInt32BE(0, 4); // num_plays: infinite
+  chunks.push(pngChunk('acTL', actl));
+
+  let sequence = 0;
+  encoded.forEach((frame, index) => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    fctl.writeUInt32BE(0, 12); // x_offset
+    fctl.writeUInt32BE(0, 16); // y_offset
+    fctl.writeUInt16BE(Math.max(0, Math.round(delayMs)), 20); // delay_num
+    fctl.writeUInt16BE(1000, 22); // delay_den
+    fctl.writeUInt8(0, 24); // dispose_op: none
+    fctl.writeUInt8(0, 25); // blend_op: source
+    chunks.push(pngChunk('fcTL', fctl));
+
+    if (index === 0) {
+      chunks.push(pngChunk('IDAT', frame.idat));
+    } else {
+      const seq = Buffer.alloc(4);
+      seq.writeUInt32BE(sequence++);
+      chunks.push(pngChunk('fdAT', Buffer.concat([seq, frame.idat])));
+    }
+  });
+
+  chunks.push(pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Render the requested visualizations.
+ *
+ * @param kinds - Visualizations to render
+ * @param images - Canvas images: Figma, implementation, the pixelmatch diff, and the
+ *   optional mask bitmap (masked pixels are painted gray in the heatmap)
+ * @returns Base64-encoded images keyed by kind
+ */
+export function renderVisualizations(
+  kinds: readonly VisualizationKind[],
+  images: { figma: PNG; impl: PNG; diff: PNG; maskBitmap?: Uint8Array }
+): Visualizations {
+  const out: Visualizations = {};
+  const { figma, impl, diff, maskBitmap } = images;
+  for (const kind of new Set(kinds)) {
+    switch (kind) {
+      case 'heatmap': {
+        const heatmap = renderHeatmap(figma, impl);
+        if (maskBitmap) paintMaskedPixels(heatmap, maskBitmap);
+        out.heatmap = PNG.sync.write(heatmap).toString('base64');
+        break;
+      }
+      case 'sideBySide':
+        out.sideBySide = PNG.sync.write(renderSideBySide([figma, impl, diff])).toString('base64');
+        break;
+      case 'onionSkin':
+        out.onionSkin = PNG.sync.write(renderOnionSkin(figma, impl)).toString('base64');
+        break;
+      case 'blink':
+        out.blink = encodeApng([figma, impl]).toString('base64');
+        break;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,102 @@
+/**
+ * Tests for diff region clustering in compareImages
+ */
+
+import { describe, expect, test } from 'vitest';
+import { createRectsPng, pngToBase64 } from './__tests__/png';
+import { compareImages } from './core/compare';
+
+describe('compareImages diffRegions', () => {
+  test('separate changes become separate regions, largest first', () => {
+    const figma = createRectsPng(100, 100);
+    const impl = createRectsPng(100, 100, [
+      { x: 10, y: 10, width: 5, height: 5 },
+      { x: 60, y: 40, width: 20, height: 10 },
+    ]);
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+    });
+
+    expect(result.diffRegions).toHaveLength(2);
+    expect(result.diffRegions?.[0]?.bbox).toEqual({ x: 60, y: 40, width: 20, height: 10 });
+    expect(result.diffRegions?.[0]?.pixelCount).toBe(200);
+    expect(result.diffRegions?.[1]?.bbox).toEqual({ x: 10, y: 10, width: 5, height: 5 });
+    expect(result.diffRegions?.[0]?.meanColorDelta).toBeGreaterThan(50);
+  });
+
+  test('mergeDistance joins nearby clusters', () => {
+    const figma = createRectsPng(60, 20);
+    const impl = createRectsPng(60, 20, [
+      { x: 10, y: 5, width: 5, height: 5 },
+      { x: 20, y: 5, width: 5, height: 5 },
+    ]);
+    const input = { figmaPngB64: pngToBase64(figma), implPngB64: pngToBase64(impl) };
+
+    expect(compareImages(input).diffRegions).toHaveLength(2);
+
+    const merged = compareImages({ ...input, diffRegions: { mergeDistance: 6 } });
+    expect(merged.diffRegions).toHaveLength(1);
+    expect(merged.diffRegions?.[0]?.bbox).toEqual({ x: 10, y: 5, width: 15, height: 5 });
+    expect(merged.diffRegions?.[0]?.pixelCount).toBe(50);
+  });
+
+  test('minPixels and maxRegions limit the reported regions', () => {
+    const figma = createRectsPng(100, 20);
+    const impl = createRectsPng(100, 20, [
+      { x: 5, y: 5, width: 2, height: 2 },
+      { x: 30, y: 5, width: 6, height: 6 },
+      { x: 60, y: 5, width: 8, height: 8 },
+    ]);
+    const input = { figmaPngB64: pngToBase64(figma), implPngB64: pngToBase64(impl) };
+
+    const filtered = compareImages({ ...input, diffRegions: { minPixels: 10 } });
+    expect(filtered.diffRegions?.map((r) => r.pixelCount)).toEqual([64, 36]);
+
+    const capped = compareImages({ ...input, diffRegions: { maxRegions: 1 } });
+    expect(capped.diffRegions?.map((r) => r.pixelCount)).toEqual([64]);
+  });
+
+  test('reports the dominant direction of shifted content', () => {
+    const figma = createRectsPng(60, 40, [{ x: 20, y: 10, width: 10, height: 10 }]);
+    const right = createRectsPng(60, 40, [{ x: 24, y: 10, width: 10, height: 10 }]);
+    const up = createRectsPng(60, 40, [{ x: 20, y: 7, width: 10, height: 10 }]);
+
+    const rightResult = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(right),
+      diffRegions: { mergeDistance: 12 },
+    });
+    expect(rightResult.diffRegions).toHaveLength(1);
+    expect(rightResult.diffRegions?.[0]?.direction).toBe('right');
+
+    const upResult = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(up),
+      diffRegions: { mergeDistance: 12 },
+    });
+    expect(upResult.diffRegions?.[0]?.direction).toBe('up');
+  });
+
+  test('content present on one side only has no direction', () => {
+    const figma = createRectsPng(40, 40);
+    const impl = createRectsPng(40, 40, [{ x: 10, y: 10, width: 8, height: 8 }]);
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+    });
+
+    expect(result.diffRegions?.[0]?.direction).toBe('none');
+  });
+
+  test('identical images yield no regions and false disables clustering', () => {
+    const png = pngToBase64(createRectsPng(20, 20, [{ x: 5, y: 5, width: 5, height: 5 }]));
+
+    expect(compareImages({ figmaPngB64: png, implPngB64: png }).diffRegions).toEqual([]);
+    expect(
+      compareImages({ figmaPngB64: png, implPngB64: png, diffRegions: false }).diffRegions
+    ).toBeUndefined();
+  });
+});
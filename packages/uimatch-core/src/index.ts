@@ -1,11 +1,17 @@
 export {
+  BROWSER_ENGINES,
   PlaywrightAdapter,
   browserPool,
   captureTarget,
   getChromiumLaunchPolicy,
+  launchBrowser,
   launchChromium,
+  parseCaptureSteps,
+  parseRouteMocks,
   resolveLocator,
+  saveStorageState,
 } from './adapters/index';
+export type { LoginOptions } from './adapters/index';
 export {
   DEFAULT_CONFIG,
   QUALITY_GATE_PROFILES,
@@ -19,10 +25,15 @@ export type {
   ComparisonConfig,
   QualityGateProfile,
 } from './config/index';
-export { compareImages } from './core/compare';
+export type { ElementDiff } from './core/attribution';
+export { compareImages, compareImagesAsync } from './core/compare';
 export type { CompareImageInput, CompareImageResult, PixelmatchOptions } from './core/compare';
+export { WCAG_AA_CONTRAST } from './core/contrast';
+export type { TextContrast } from './core/contrast';
 export { DEFAULT_DIFF_THRESHOLDS, buildStyleDiffs } from './core/diff';
 export type { DiffOptions, DiffThresholds } from './core/diff';
+export type { DiffDirection, DiffRegion, DiffRegionOptions } from './core/diff-regions';
+export type { AppliedMask, MaskRegion } from './core/mask';
 export {
   calculateAreaGap,
   calculateCQI,
@@ -37,31 +48,54 @@ export type {
   QualityGateThresholds,
   SuspicionDetection,
 } from './core/quality-gate';
+export type { RegistrationOptions } from './core/registration';
+export type { ResampleOptions } from './core/resample';
+export { computeSsim } from './core/ssim';
+export type { SsimOptions, SsimResult } from './core/ssim';
+export type { TilingOptions } from './core/tiling';
+export type { VisualizationKind, Visualizations } from './core/visualize';
 export { UiMatchError, err, isErr, isOk, map, mapErr, ok, unwrap, unwrapOr } from './types/index';
 export type {
+  AuthOptions,
   BrowserAdapter,
+  BrowserEngine,
+  BrowserInfo,
+  CaptureCookie,
   CaptureOptions,
   CaptureResult,
+  CaptureStep,
   ExpectedSpec,
   Failure,
+  ForcedPseudoClass,
+  InteractionState,
+  MediaEmulation,
+  NetworkOptions,
   PatchHint,
   Result,
+  RouteMock,
   StyleDiff,
   Success,
   TokenMap,
   UiMatchErrorCategory,
   UiMatchErrorCode,
 } from './types/index';
-export { deltaE2000, rgbToLab } from './utils/color';
+export { contrastRatio, deltaE2000, rgbToLab } from './utils/color';
 export type { Lab } from './utils/color';
 export {
   normLineHeight,
   normalizeTextEx,
   parseBoxShadow,
   parseCssColorToRgb,
+  parseCssGradient,
   textSimilarity,
   toPx,
 } from './utils/normalize';
-export type { BoxShadowParsed, RGB, TextNormalizeOptions } from './utils/normalize';
+export type {
+  BoxShadowParsed,
+  GradientParsed,
+  GradientStop,
+  RGB,
+  TextNormalizeOptions,
+} from './utils/normalize';
 export { compareText } from './utils/text-diff';
 export type { TextCompareOptions, TextDiff, TextDiffKind } from './utils/text-diff';
@@ -0,0 +1,152 @@
+/**
+ * Tests for mask regions in compareImages
+ */
+
+import { PNG } from 'pngjs';
+import { describe, expect, test } from 'vitest';
+import { black, createTestPng, pngToBase64, white } from './__tests__/png';
+import { compareImages } from './core/compare';
+import { MASK_FILL_COLOR } from './core/mask';
+
+describe('compareImages masks', () => {
+  test('masked differences are not counted', () => {
+    const figma = createTestPng(100, 100, white);
+    const impl = createTestPng(100, 100, white, {
+      x: 10,
+      y: 10,
+      width: 20,
+      height: 20,
+      color: black,
+    });
+
+    const unmasked = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+    });
+    expect(unmasked.diffPixelCount).toBe(400);
+
+    const masked = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      masks: [{ x: 10, y: 10, width: 20, height: 20, label: 'avatar' }],
+    });
+
+    expect(masked.diffPixelCount).toBe(0);
+    expect(masked.pixelDiffRatio).toBe(0);
+    expect(masked.maskedPixelCount).toBe(400);
+    expect(masked.masks).toEqual([
+      {
+        label: 'avatar',
+        space: 'figma',
+        rect: { x: 10, y: 10, width: 20, height: 20 },
+        maskedPixels: 400,
+      },
+    ]);
+  });
+
+  test('masked pixels are excluded from the ratio denominator', () => {
+    const figma = createTestPng(100, 100, white);
+    const impl = createTestPng(100, 100, white, {
+      x: 0,
+      y: 0,
+      width: 10,
+      height: 10,
+      color: black,
+    });
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      masks: [{ x: 50, y: 0, width: 50, height: 100 }],
+    });
+
+    expect(result.diffPixelCount).toBe(100);
+    expect(result.totalPixels).toBe(10000);
+    expect(result.pixelDiffRatio).toBeCloseTo(100 / 5000, 10);
+  });
+
+  test('diff image paints masked pixels with the mask color', () => {
+    const figma = createTestPng(20, 20, white);
+    const impl = createTestPng(20, 20, white, { x: 0, y: 0, width: 5, height: 5, color: black });
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      masks: [{ x: 0, y: 0, width: 5, height: 5 }],
+    });
+
+    const diff = PNG.sync.read(Buffer.from(result.diffPngB64, 'base64'));
+    expect([diff.data[0], diff.data[1], diff.data[2]]).toEqual([
+      MASK_FILL_COLOR.r,
+      MASK_FILL_COLOR.g,
+      MASK_FILL_COLOR.b,
+    ]);
+  });
+
+  test('masks are clipped to the canvas and empty masks are dropped', () => {
+    const png = pngToBase64(createTestPng(10, 10, white));
+
+    const result = compareImages({
+      figmaPngB64: png,
+      implPngB64: png,
+      masks: [
+        { x: 5, y: 5, width: 100, height: 100 },
+        { x: 50, y: 50, width: 5, height: 5 },
+        { x: 0, y: 0, width: 0, height: 5 },
+      ],
+    });
+
+    expect(result.masks).toHaveLength(1);
+    expect(result.masks?.[0]?.rect).toEqual({ x: 5, y: 5, width: 5, height: 5 });
+    expect(result.maskedPixelCount).toBe(25);
+  });
+
+  test('impl-space masks follow the pad offset', () => {
+    // Impl is 20px narrower and centered on the padded canvas (offset x=10)
+    const figma = createTestPng(100, 50, white);
+    const impl = createTestPng(80, 50, white, { x: 0, y: 0, width: 10, height: 10, color: black });
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      sizeMode: 'pad',
+      align: 'center',
+      contentBasis: 'intersection',
+      masks: [{ x: 0, y: 0, width: 10, height: 10, space: 'impl' }],
+    });
+
+    expect(result.masks?.[0]?.rect).toEqual({ x: 10, y: 0, width: 10, height: 10 });
+    expect(result.diffPixelCount).toBe(0);
+    expect(result.pixelDiffRatioContent).toBe(0);
+    expect(result.contentPixels).toBe(80 * 50 - 100);
+  });
+
+  test('impl-space masks are scaled in scale mode', () => {
+    const figma = createTestPng(100, 100, white);
+    const impl = createTestPng(200, 200, white, {
+      x: 0,
+      y: 0,
+      width: 40,
+      height: 40,
+      color: black,
+    });
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      sizeMode: 'scale',
+      masks: [{ x: 0, y: 0, width: 40, height: 40, space: 'impl' }],
+    });
+
+    expect(result.masks?.[0]?.rect).toEqual({ x: 0, y: 0, width: 20, height: 20 });
+    expect(result.diffPixelCount).toBe(0);
+  });
+
+  test('results omit mask fields when no masks are given', () => {
+    const png = pngToBase64(createTestPng(10, 10, white));
+    const result = compareImages({ figmaPngB64: png, implPngB64: png });
+
+    expect(result.masks).toBeUndefined();
+    expect(result.maskedPixelCount).toBeUndefined();
+  });
+});
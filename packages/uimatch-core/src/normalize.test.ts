@@ -8,6 +8,7 @@ import {
   normalizeText,
   parseBoxShadow,
   parseCssColorToRgb,
+  parseCssGradient,
   toPx,
 } from './utils/normalize';
 
@@ -176,6 +177,52 @@ describe('parseBoxShadow', () => {
   });
 });
 
+describe('parseCssGradient', () => {
+  test('parses a computed linear-gradient', () => {
+    expect(
+      parseCssGradient('linear-gradient(90deg, rgb(255, 0, 0) 0%, rgba(0, 0, 255, 0.5) 100%)')
+    ).toEqual({
+      type: 'linear',
+      angle: 90,
+      stops: [
+        { rgb: { r: 255, g: 0, b: 0 }, position: 0 },
+        { rgb: { r: 0, g: 0, b: 255, a: 0.5 }, position: 1 },
+      ],
+    });
+  });
+
+  test.each([
+    ['linear-gradient(#000, #fff)', 180],
+    ['linear-gradient(to right, #000, #fff)', 90],
+    ['linear-gradient(to top left, #000, #fff)', 315],
+    ['linear-gradient(0.25turn, #000, #fff)', 90],
+    ['linear-gradient(-90deg, #000, #fff)', 270],
+  ])('resolves the direction of %s', (value, angle) => {
+    expect(parseCssGradient(value)?.angle).toBeCloseTo(angle);
+  });
+
+  test('distributes stops without positions evenly', () => {
+    const gradient = parseCssGradient('linear-gradient(#000, #888, #fff 80%, #f00)');
+    expect(gradient?.stops.map((s) => s.position)).toEqual([0, 0.4, 0.8, 1]);
+  });
+
+  test('parses the first layer of a radial-gradient', () => {
+    const gradient = parseCssGradient(
+      'radial-gradient(40px 20px at 50% 50%, rgb(255, 255, 255) 0%, rgb(0, 0, 0) 100%), url("a.png")'
+    );
+    expect(gradient?.type).toBe('radial');
+    expect(gradient?.angle).toBeUndefined();
+    expect(gradient?.stops).toHaveLength(2);
+  });
+
+  test('returns undefined for non-gradient images', () => {
+    expect(parseCssGradient('none')).toBeUndefined();
+    expect(parseCssGradient('url("a.png")')).toBeUndefined();
+    expect(parseCssGradient('conic-gradient(#000, #fff)')).toBeUndefined();
+    expect(parseCssGradient(undefined)).toBeUndefined();
+  });
+});
+
 describe('normalizeText', () => {
   test('applies NFKC normalization', () => {
     // Half-width katakana → Full-width
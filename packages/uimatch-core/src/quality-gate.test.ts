@@ -743,4 +743,257 @@ describe('Quality Gate', () => {
     // Area gap should be in hardGateViolations
     expect(gate.hardGateViolations?.some((v) => v.type === 'area_gap')).toBe(true);
   });
+
+  describe('SSIM', () => {
+    const baseResult: CompareImageResult = {
+      pixelDiffRatio: 0.05,
+      colorDeltaEAvg: 1.0,
+      diffPixelCount: 500,
+      diffPngB64: '',
+      totalPixels: 10000,
+      dimensions: {
+        figma: { width: 100, height: 100 },
+        impl: { width: 100, height: 100 },
+        compared: { width: 100, height: 100 },
+        sizeMode: 'strict',
+        adjusted: false,
+      },
+    };
+
+    test('should fail when ssim is below minSsim', () => {
+      const gate = evaluateQualityGate({ ...baseResult, ssim: 0.9 }, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        minSsim: 0.95,
+      });
+
+      expect(gate.pass).toBe(false);
+      expect(gate.reasons).toContain('ssim 0.9000 < 0.9500');
+      expect(gate.thresholds.minSsim).toBe(0.95);
+    });
+
+    test('should pass when ssim meets minSsim', () => {
+      const gate = evaluateQualityGate({ ...baseResult, ssim: 0.97 }, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        minSsim: 0.95,
+      });
+
+      expect(gate.pass).toBe(true);
+    });
+
+    test('should fail minSsim when the result has no ssim', () => {
+      const gate = evaluateQualityGate(baseResult, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        minSsim: 0.95,
+      });
+
+      expect(gate.pass).toBe(false);
+      expect(gate.reasons).toContain(
+        'minSsim 0.9500 is set but no SSIM was computed; compare with ssim enabled'
+      );
+    });
+
+    test('should not downgrade an area gap when minSsim cannot be checked', () => {
+      const gate = evaluateQualityGate(
+        {
+          ...baseResult,
+          dimensions: { ...baseResult.dimensions, impl: { width: 100, height: 130 } },
+        },
+        [],
+        { pixelDiffRatio: 0.1, deltaE: 3.0, minSsim: 0.95 }
+      );
+
+      expect(gate.pass).toBe(false);
+      expect(gate.hardGateViolations.map((v) => v.type)).toContain('area_gap');
+    });
+
+    test('should reject minSsim outside the unit interval', () => {
+      expect(() =>
+        evaluateQualityGate(baseResult, [], { pixelDiffRatio: 0.1, deltaE: 3.0, minSsim: 1.5 })
+      ).toThrow(RangeError);
+    });
+
+    test('should add an ssim CQI component only when ssim is available', () => {
+      const metrics = {
+        pixelDiffRatio: 0.05,
+        colorDeltaEAvg: 0,
+        areaGap: 0,
+        hasHighSeverity: false,
+      };
+      const thresholds = { pixelDiffRatio: 0.1, deltaE: 3.0, minSsim: 0.9 };
+
+      const without = calculateCQI(metrics, thresholds, {}, true);
+      expect(without.breakdown?.components.map((c) => c.name)).not.toContain('ssim');
+      expect(without.cqi).toBe(70); // 0.5 * 0.6 * 100 pixel penalty
+
+      const withSsim = calculateCQI({ ...metrics, ssim: 0.95 }, thresholds, {}, true);
+      const ssimComponent = withSsim.breakdown?.components.find((c) => c.name === 'ssim');
+      expect(ssimComponent).toMatchObject({ rawValue: 0.95, threshold: 0.9, weight: 0.2 });
+      // pixel: 0.5 * 0.4 * 100 = 20, ssim: (0.05 / 0.1) * 0.2 * 100 = 10
+      expect(withSsim.cqi).toBe(70);
+    });
+  });
+
+  describe('layout shift', () => {
+    const shifted: CompareImageResult = {
+      pixelDiffRatio: 0.01,
+      colorDeltaEAvg: 1.0,
+      diffPixelCount: 100,
+      diffPngB64: '',
+      totalPixels: 10000,
+      dimensions: {
+        figma: { width: 100, height: 100 },
+        impl: { width: 100, height: 100 },
+        compared: { width: 100, height: 100 },
+        sizeMode: 'strict',
+        adjusted: false,
+        offset: { x: 2, y: -1 },
+      },
+    };
+
+    test('should report a detected shift without failing by default', () => {
+      const gate = evaluateQualityGate(shifted, [], { pixelDiffRatio: 0.1, deltaE: 3.0 });
+
+      expect(gate.pass).toBe(true);
+      expect(gate.reasons).toContain(
+        '[LAYOUT] Implementation shifted by (2, -1)px relative to Figma'
+      );
+    });
+
+    test('should not report a zero offset', () => {
+      const aligned = {
+        ...shifted,
+        dimensions: { ...shifted.dimensions, offset: { x: 0, y: 0 } },
+      };
+      const gate = evaluateQualityGate(aligned, [], { pixelDiffRatio: 0.1, deltaE: 3.0 });
+
+      expect(gate.reasons.some((r) => r.startsWith('[LAYOUT]'))).toBe(false);
+    });
+
+    test('should fail when the shift exceeds maxLayoutShift', () => {
+      const gate = evaluateQualityGate(shifted, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        maxLayoutShift: 1,
+      });
+
+      expect(gate.pass).toBe(false);
+      expect(gate.hardGateViolations).toContainEqual({
+        type: 'layout_shift',
+        reason: 'Implementation shifted by (2, -1)px relative to Figma exceeds maximum 1px',
+        severity: 'high',
+      });
+      expect(gate.thresholds.maxLayoutShift).toBe(1);
+    });
+
+    test('should pass when the shift is within maxLayoutShift', () => {
+      const gate = evaluateQualityGate(shifted, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        maxLayoutShift: 2,
+      });
+
+      expect(gate.pass).toBe(true);
+    });
+  });
+
+  describe('text contrast', () => {
+    const withContrast: CompareImageResult = {
+      pixelDiffRatio: 0.01,
+      colorDeltaEAvg: 1.0,
+      diffPixelCount: 100,
+      diffPngB64: '',
+      totalPixels: 10000,
+      dimensions: {
+        figma: { width: 100, height: 100 },
+        impl: { width: 100, height: 100 },
+        compared: { width: 100, height: 100 },
+        sizeMode: 'strict',
+        adjusted: false,
+      },
+      textContrast: [
+        {
+          selector: '[data-testid="hint"]',
+          path: 'hint',
+          ratio: 3.2,
+          expectedRatio: 5.1,
+          required: 4.5,
+          largeText: false,
+        },
+        { selector: 'h1', path: 'title', ratio: 12.63, required: 3, largeText: true },
+      ],
+    };
+
+    test('should report WCAG AA misses without failing by default', () => {
+      const gate = evaluateQualityGate(withContrast, [], { pixelDiffRatio: 0.1, deltaE: 3.0 });
+
+      expect(gate.pass).toBe(true);
+      expect(gate.reasons).toContain(
+        '[CONTRAST] [data-testid="hint"] 3.20:1 (Figma 5.10:1) is below WCAG AA 4.5:1'
+      );
+      expect(gate.reasons.filter((r) => r.includes('below WCAG AA'))).toHaveLength(1);
+    });
+
+    test('should fail when text contrast is below minContrastRatio', () => {
+      const gate = evaluateQualityGate(withContrast, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        minContrastRatio: 4.5,
+      });
+
+      expect(gate.pass).toBe(false);
+      expect(gate.hardGateViolations).toContainEqual({
+        type: 'low_contrast',
+        reason:
+          'Text contrast below 4.5:1 for 1 element(s): [data-testid="hint"] 3.20:1 (Figma 5.10:1)',
+        severity: 'high',
+      });
+      expect(gate.thresholds.minContrastRatio).toBe(4.5);
+    });
+
+    test('should report contrast that drops below the Figma design', () => {
+      const gate = evaluateQualityGate(withContrast, [], { pixelDiffRatio: 0.1, deltaE: 3.0 });
+
+      expect(gate.pass).toBe(true);
+      expect(gate.reasons).toContain(
+        '[CONTRAST] [data-testid="hint"] 3.20:1 (Figma 5.10:1) is 37% below Figma'
+      );
+    });
+
+    test('should fail when contrast drops below Figma by more than maxContrastDrop', () => {
+      const gate = evaluateQualityGate(withContrast, [], {
+        pixelDiffRatio: 0.1,
+        deltaE: 3.0,
+        maxContrastDrop: 0.2,
+      });
+
+      expect(gate.pass).toBe(false);
+      expect(gate.hardGateViolations).toContainEqual({
+        type: 'contrast_drop',
+        reason:
+          'Text contrast more than 20% below Figma for 1 element(s): ' +
+          '[data-testid="hint"] 3.20:1 (Figma 5.10:1)',
+        severity: 'high',
+      });
+      expect(
+        evaluateQualityGate(withContrast, [], {
+          pixelDiffRatio: 0.1,
+          deltaE: 3.0,
+          maxContrastDrop: 0.5,
+        }).pass
+      ).toBe(true);
+    });
+
+    test('should reject a contrast threshold outside 1-21', () => {
+      expect(() =>
+        evaluateQualityGate(withContrast, [], {
+          pixelDiffRatio: 0.1,
+          deltaE: 3.0,
+          minContrastRatio: 0.5,
+        })
+      ).toThrow(RangeError);
+    });
+  });
 });
@@ -0,0 +1,110 @@
+/**
+ * Tests for translation registration in compareImages
+ */
+
+import { PNG } from 'pngjs';
+import { describe, expect, test } from 'vitest';
+import { compareImages } from './core/compare';
+import { findRegistrationOffset } from './core/registration';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * Create a white PNG with a shifted "card": dark frame, a bar, and a block
+ */
+function createCard(width: number, height: number, dx = 0, dy = 0): PNG {
+  const shapes: Array<Rect & { v: number }> = [
+    { x: 10, y: 10, width: 60, height: 2, v: 40 },
+    { x: 10, y: 10, width: 2, height: 40, v: 40 },
+    { x: 20, y: 20, width: 30, height: 6, v: 0 },
+    { x: 25, y: 32, width: 12, height: 12, v: 120 },
+  ];
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      const shape = shapes.find(
+        (s) => x - dx >= s.x && x - dx < s.x + s.width && y - dy >= s.y && y - dy < s.y + s.height
+      );
+      const v = shape ? shape.v : 255;
+      png.data[idx] = v;
+      png.data[idx + 1] = v;
+      png.data[idx + 2] = v;
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+function pngToBase64(png: PNG): string {
+  return PNG.sync.write(png).toString('base64');
+}
+
+describe('registration', () => {
+  test('finds the translation of shifted content', () => {
+    expect(findRegistrationOffset(createCard(80, 60), createCard(80, 60, 2, -1))).toEqual({
+      x: 2,
+      y: -1,
+    });
+  });
+
+  test('reports no offset for aligned images', () => {
+    expect(findRegistrationOffset(createCard(80, 60), createCard(80, 60))).toEqual({ x: 0, y: 0 });
+  });
+
+  test('does not search beyond maxOffset', () => {
+    const offset = findRegistrationOffset(createCard(80, 60), createCard(80, 60, 3, 0), {
+      maxOffset: 1,
+    });
+    expect(Math.abs(offset.x)).toBeLessThanOrEqual(1);
+    expect(Math.abs(offset.y)).toBeLessThanOrEqual(1);
+  });
+
+  test('computes metrics after alignment and reports the offset', () => {
+    const input = {
+      figmaPngB64: pngToBase64(createCard(80, 60)),
+      implPngB64: pngToBase64(createCard(80, 60, 2, 1)),
+    };
+
+    const unaligned = compareImages(input);
+    expect(unaligned.diffPixelCount).toBeGreaterThan(0);
+    expect(unaligned.dimensions.offset).toBeUndefined();
+
+    const aligned = compareImages({ ...input, registration: true });
+    expect(aligned.dimensions.offset).toEqual({ x: 2, y: 1 });
+    expect(aligned.diffPixelCount).toBe(0);
+  });
+
+  test('impl-space masks follow the aligned content', () => {
+    const figma = createCard(80, 60);
+    const impl = createCard(80, 60, 2, 0);
+    // Extra block only in the implementation, masked in impl coordinates
+    for (let y = 50; y < 55; y++) {
+      for (let x = 62; x < 67; x++) {
+        const idx = (80 * y + x) * 4;
+        impl.data[idx] = 0;
+        impl.data[idx + 1] = 0;
+        impl.data[idx + 2] = 0;
+      }
+    }
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      registration: true,
+      masks: [{ x: 62, y: 50, width: 5, height: 5, space: 'impl' }],
+    });
+
+    expect(result.dimensions.offset).toEqual({ x: 2, y: 0 });
+    expect(result.masks?.[0]?.rect).toEqual({ x: 60, y: 50, width: 5, height: 5 });
+    expect(result.diffPixelCount).toBe(0);
+  });
+
+  test('sub-pixel refinement stays within half a pixel of the integer offset', () => {
+    const offset = findRegistrationOffset(createCard(80, 60), createCard(80, 60, 2, 0), {
+      subPixel: true,
+    });
+    expect(Math.abs(offset.x - 2)).toBeLessThanOrEqual(0.5);
+    expect(Math.abs(offset.y)).toBeLessThanOrEqual(0.5);
+  });
+});
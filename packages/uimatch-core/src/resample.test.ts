@@ -0,0 +1,92 @@
+/**
+ * Tests for resampling to a common pixel density
+ */
+
+import { PNG } from 'pngjs';
+import { describe, expect, test } from 'vitest';
+import { compareImages } from './core/compare';
+import { resampleImage } from './core/resample';
+
+/**
+ * Create a white PNG with a black block, drawn at `scale` pixels per unit
+ */
+function createBlock(scale: number): PNG {
+  const width = 40 * scale;
+  const height = 30 * scale;
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      const inside = x >= 10 * scale && x < 25 * scale && y >= 8 * scale && y < 20 * scale;
+      const v = inside ? 0 : 255;
+      png.data[idx] = v;
+      png.data[idx + 1] = v;
+      png.data[idx + 2] = v;
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+function pngToBase64(png: PNG): string {
+  return PNG.sync.write(png).toString('base64');
+}
+
+describe('resampleImage', () => {
+  test('area-averages when shrinking by an integer factor', () => {
+    const png = new PNG({ width: 2, height: 2 });
+    [0, 255, 255, 255].forEach((v, i) => {
+      png.data.fill(v, i * 4, i * 4 + 3);
+      png.data[i * 4 + 3] = 255;
+    });
+    const out = resampleImage(png, 0.5);
+    expect(out.width).toBe(1);
+    expect(out.height).toBe(1);
+    expect(out.data[0]).toBe(191);
+  });
+
+  test('reproduces the lower-resolution rendering of crisp shapes', () => {
+    const out = resampleImage(createBlock(2), 0.5);
+    expect(Buffer.compare(out.data, createBlock(1).data)).toBe(0);
+  });
+
+  test('enlarges with bilinear interpolation', () => {
+    const out = resampleImage(createBlock(1), 2);
+    expect(out.width).toBe(80);
+    expect(out.height).toBe(60);
+    // Far from edges the block stays solid
+    expect(out.data[(80 * 28 + 30) * 4]).toBe(0);
+    expect(out.data[0]).toBe(255);
+  });
+
+  test('rejects invalid factors', () => {
+    expect(() => resampleImage(createBlock(1), 0)).toThrow(RangeError);
+    expect(() => resampleImage(createBlock(1), Number.NaN)).toThrow(RangeError);
+  });
+});
+
+describe('compareImages resample', () => {
+  test('compares a 2x export with a 1x capture at a common scale', () => {
+    const result = compareImages({
+      figmaPngB64: pngToBase64(createBlock(2)),
+      implPngB64: pngToBase64(createBlock(1)),
+      resample: { target: 'figma', factor: 0.5 },
+    });
+
+    expect(result.diffPixelCount).toBe(0);
+    expect(result.dimensions.figma).toEqual({ width: 80, height: 60 });
+    expect(result.dimensions.compared).toEqual({ width: 40, height: 30 });
+    expect(result.dimensions.resample).toEqual({ target: 'figma', factor: 0.5 });
+  });
+
+  test('scales masks in the resampled image space', () => {
+    const result = compareImages({
+      figmaPngB64: pngToBase64(createBlock(1)),
+      implPngB64: pngToBase64(createBlock(2)),
+      resample: { target: 'impl', factor: 0.5 },
+      masks: [{ x: 20, y: 16, width: 30, height: 24, space: 'impl' }],
+    });
+
+    expect(result.masks?.[0]?.rect).toEqual({ x: 10, y: 8, width: 15, height: 12 });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for the structural similarity (SSIM) metric
+ */
+
+import { PNG } from 'pngjs';
+import { describe, expect, test } from 'vitest';
+import { compareImages } from './core/compare';
+import { computeSsim } from './core/ssim';
+
+/**
+ * Create a PNG from a per-pixel gray value function
+ */
+function createGrayPng(width: number, height: number, gray: (x: number, y: number) => number): PNG {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      const v = gray(x, y);
+      png.data[idx] = v;
+      png.data[idx + 1] = v;
+      png.data[idx + 2] = v;
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+const stripes = (offset: number) => (x: number) => ((x + offset) % 16 < 8 ? 0 : 255);
+const wave = (offset: number) => (x: number) =>
+  Math.round(128 + 100 * Math.sin((2 * Math.PI * (x + offset)) / 32));
+
+describe('computeSsim', () => {
+  test('identical images have SSIM 1', () => {
+    const png = createGrayPng(64, 64, stripes(0));
+    const { ssim, map } = computeSsim(png, png);
+
+    expect(ssim).toBeCloseTo(1, 10);
+    expect(map.width).toBe(64);
+    expect(map.height).toBe(64);
+    expect(map.data[0]).toBe(255);
+  });
+
+  test('inverted structure scores far below a one-pixel shift', () => {
+    const base = createGrayPng(64, 64, wave(0));
+    const shifted = createGrayPng(64, 64, wave(1));
+    const inverted = createGrayPng(64, 64, wave(16));
+
+    const shiftSsim = computeSsim(base, shifted).ssim;
+    const invertedSsim = computeSsim(base, inverted).ssim;
+
+    expect(shiftSsim).toBeGreaterThan(0.9);
+    expect(invertedSsim).toBeLessThan(0);
+    expect(shiftSsim).toBeGreaterThan(invertedSsim);
+  });
+
+  test('multi-scale SSIM stays within [0, 1]', () => {
+    const base = createGrayPng(128, 128, stripes(0));
+    const shifted = createGrayPng(128, 128, stripes(1));
+
+    const { ssim } = computeSsim(base, shifted, { multiScale: true });
+
+    expect(ssim).toBeGreaterThan(0);
+    expect(ssim).toBeLessThanOrEqual(1);
+    expect(computeSsim(base, base, { multiScale: true }).ssim).toBeCloseTo(1, 10);
+  });
+
+  test('images smaller than the window are handled', () => {
+    const a = createGrayPng(3, 2, () => 10);
+    const b = createGrayPng(3, 2, () => 200);
+
+    const { ssim, map } = computeSsim(a, b);
+
+    expect(Number.isFinite(ssim)).toBe(true);
+    expect(ssim).toBeLessThan(1);
+    expect(map.width).toBe(3);
+  });
+});
+
+describe('compareImages ssim option', () => {
+  const toB64 = (png: PNG) => PNG.sync.write(png).toString('base64');
+
+  test('is omitted by default', () => {
+    const png = toB64(createGrayPng(16, 16, stripes(0)));
+    const result = compareImages({ figmaPngB64: png, implPngB64: png });
+
+    expect(result.ssim).toBeUndefined();
+    expect(result.ssimMap).toBeUndefined();
+  });
+
+  test('reports ssim and an SSIM map when requested', () => {
+    const result = compareImages({
+      figmaPngB64: toB64(createGrayPng(32, 32, stripes(0))),
+      implPngB64: toB64(createGrayPng(32, 32, stripes(1))),
+      ssim: true,
+    });
+
+    expect(result.ssim).toBeGreaterThan(0);
+    expect(result.ssim).toBeLessThan(1);
+    const map = PNG.sync.read(Buffer.from(result.ssimMap ?? '', 'base64'));
+    expect(map.width).toBe(32);
+    expect(map.height).toBe(32);
+  });
+
+  test('masked regions do not lower ssim', () => {
+    const result = compareImages({
+      figmaPngB64: toB64(createGrayPng(32, 32, () => 255)),
+      implPngB64: toB64(createGrayPng(32, 32, (x, y) => (x < 16 && y < 16 ? 0 : 255))),
+      masks: [{ x: 0, y: 0, width: 16, height: 16 }],
+      ssim: true,
+    });
+
+    expect(result.ssim).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for tiled pixel comparison
+ */
+
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { describe, expect, test } from 'vitest';
+import { compareImages, compareImagesAsync } from './core/compare';
+import { pixelmatchTiled, pixelmatchTiledInWorkers } from './core/tiling';
+
+/**
+ * Create a PNG with an anti-aliased disc, a thin diagonal, and seeded noise,
+ * so anti-aliased edges cross tile borders.
+ */
+function createScene(width: number, height: number, shift = 0, seed = 1): PNG {
+  let state = seed;
+  const random = (): number => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (width * y + x) * 4;
+      const distance = Math.hypot(x - 30 - shift, y - 24);
+      const disc = Math.max(0, Math.min(1, 14 - distance));
+      const line = Math.abs(x - y * 1.3 - shift) < 0.8 ? 1 : 0;
+      const noise = x > 50 && y > 30 && random() > 0.7 ? 80 : 0;
+      const v = Math.round(255 - 200 * Math.max(disc, line) - noise);
+      png.data[idx] = v;
+      png.data[idx + 1] = Math.round(v * 0.9);
+      png.data[idx + 2] = 255 - Math.round(disc * 60);
+      png.data[idx + 3] = 255;
+    }
+  }
+  return png;
+}
+
+function pngToBase64(png: PNG): string {
+  return PNG.sync.write(png).toString('base64');
+}
+
+describe('pixelmatchTiled', () => {
+  const width = 70;
+  const height = 50;
+  const figma = createScene(width, height);
+  const impl = createScene(width, height, 0.6, 7);
+
+  for (const includeAA of [false, true]) {
+    test(`matches a full-canvas pixelmatch run (includeAA=${includeAA})`, () => {
+      const options = { threshold: 0.1, includeAA };
+      const expected = new PNG({ width, height });
+      const expectedCount = pixelmatch(
+        figma.data,
+        impl.data,
+        expected.data,
+        width,
+        height,
+        options
+      );
+      expect(expectedCount).toBeGreaterThan(0);
+
+      for (const tileSize of [5, 16, 33, 128]) {
+        const output = new PNG({ width, height });
+        const count = pixelmatchTiled(
+          figma.data,
+          impl.data,
+          output.data,
+          width,
+          height,
+          options,
+          tileSize
+        );
+        expect(count).toBe(expectedCount);
+        expect(Buffer.compare(output.data, expected.data)).toBe(0);
+      }
+    });
+  }
+
+  test('counts without an output image', () => {
+    const options = { threshold: 0.1, includeAA: false };
+    expect(pixelmatchTiled(figma.data, impl.data, null, width, height, options, 9)).toBe(
+      pixelmatch(figma.data, impl.data, null, width, height, options)
+    );
+  });
+
+  test('rejects invalid tile sizes', () => {
+    const options = { threshold: 0.1, includeAA: false };
+    expect(() => pixelmatchTiled(figma.data, impl.data, null, width, height, options, 0)).toThrow(
+      RangeError
+    );
+  });
+
+  test('worker threads produce the same diff', async () => {
+    const options = { threshold: 0.1, includeAA: false };
+    const expected = new PNG({ width, height });
+    const expectedCount = pixelmatch(figma.data, impl.data, expected.data, width, height, options);
+
+    const output = new PNG({ width, height });
+    const count = await pixelmatchTiledInWorkers(
+      figma.data,
+      impl.data,
+      output.data,
+      width,
+      height,
+      options,
+      { tileSize: 16, workers: 2 }
+    );
+    expect(count).toBe(expectedCount);
+    expect(Buffer.compare(output.data, expected.data)).toBe(0);
+  });
+});
+
+describe('compareImages tiling', () => {
+  const figmaPngB64 = pngToBase64(createScene(70, 50));
+  const implPngB64 = pngToBase64(createScene(64, 46, 0.6, 7));
+
+  test('reports identical metrics and diff image', () => {
+    const input = { figmaPngB64, implPngB64, sizeMode: 'pad' as const };
+    const untiled = compareImages(input);
+    const tiled = compareImages({ ...input, tiling: { tileSize: 16 } });
+
+    expect(untiled.diffPixelCount).toBeGreaterThan(0);
+    expect(tiled.diffPixelCount).toBe(untiled.diffPixelCount);
+    expect(tiled.pixelDiffRatio).toBe(untiled.pixelDiffRatio);
+    expect(tiled.pixelDiffRatioContent).toBe(untiled.pixelDiffRatioContent);
+    expect(tiled.diffPngB64).toBe(untiled.diffPngB64);
+    expect(tiled.diffRegions).toEqual(untiled.diffRegions);
+  });
+
+  test('compareImagesAsync compares tiles in workers', async () => {
+    const input = { figmaPngB64, implPngB64, sizeMode: 'pad' as const };
+    const untiled = compareImages(input);
+    const tiled = await compareImagesAsync({ ...input, tiling: { tileSize: 24, workers: 2 } });
+
+    expect(tiled.diffPixelCount).toBe(untiled.diffPixelCount);
+    expect(tiled.pixelDiffRatioContent).toBe(untiled.pixelDiffRatioContent);
+    expect(tiled.diffPngB64).toBe(untiled.diffPngB64);
+  });
+});
@@ -2,10 +2,148 @@
  * Adapter interfaces for external dependencies
  */
 
+/**
+ * Playwright browser engine captures run on.
+ */
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
+/**
+ * Engine and version a capture ran on.
+ */
+export interface BrowserInfo {
+  engine: BrowserEngine;
+  /** Browser version reported by Playwright (e.g. `141.0.7390.37`) */
+  version: string;
+}
+
+/**
+ * Interaction state the target element is put into before capture.
+ * `default` is the resting state.
+ */
+export type InteractionState =
+  'default' | 'hover' | 'focus' | 'focus-visible' | 'active' | 'disabled';
+
+/**
+ * Pseudo-classes Chromium can force through CDP `CSS.forcePseudoState` (Chromium only).
+ */
+export type ForcedPseudoClass =
+  'active' | 'focus' | 'focus-visible' | 'focus-within' | 'hover' | 'target' | 'visited';
+
+/**
+ * Scripted interaction run before capture, in the capture frame. Selectors accept the same
+ * prefixes as the capture selector (`role:`, `testid:`, `text:`, ...). `timeout` (ms)
+ * overrides the selector wait for one step.
+ */
+export type CaptureStep =
+  | { action: 'click'; selector: string; timeout?: number }
+  | { action: 'hover'; selector: string; timeout?: number }
+  | { action: 'fill'; selector: string; value: string; timeout?: number }
+  /** Key press on the element, or on the page when `selector` is omitted */
+  | { action: 'press'; key: string; selector?: string; timeout?: number }
+  | {
+      action: 'waitForSelector';
+      selector: string;
+      /** @default 'visible' */
+      state?: 'attached' | 'detached' | 'visible' | 'hidden';
+      timeout?: number;
+    }
+  | { action: 'waitForTimeout'; ms: number }
+  /** JavaScript expression evaluated in the frame (promises are awaited) */
+  | { action: 'evaluate'; script: string };
+
+/**
+ * CSS media features emulated on the page before capture (unset features keep the
+ * browser default).
+ */
+export interface MediaEmulation {
+  /** `prefers-color-scheme` */
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  /** `prefers-reduced-motion` */
+  reducedMotion?: 'reduce' | 'no-preference';
+  /** `forced-colors` (e.g. Windows high contrast) */
+  forcedColors?: 'active' | 'none';
+  /** Media type */
+  media?: 'screen' | 'print';
+}
+
+/**
+ * Cookie added to the browser context before navigation. Without `url` or `domain`
+ * it applies to the capture URL.
+ */
+export interface CaptureCookie {
+  name: string;
+  value: string;
+  url?: string;
+  domain?: string;
+  path?: string;
+  /** Unix time in seconds */
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Session credentials for pages behind a login.
+ */
+export interface AuthOptions {
+  /** Playwright storage state file (cookies and localStorage), e.g. saved by a login run */
+  storageState?: string;
+  /** Cookies added on top of `storageState` */
+  cookies?: CaptureCookie[];
+  /** Headers sent with every request (e.g. `Authorization: Bearer ...`) */
+  extraHTTPHeaders?: Record<string, string>;
+}
+
+/**
+ * Canned response for requests matching `url` (a full URL or a Playwright URL glob, where
+ * `**` spans path segments). `body` objects are sent as JSON; `file` serves a file.
+ */
+export interface RouteMock {
+  url: string;
+  /** @default 200 */
+  status?: number;
+  contentType?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  file?: string;
+  /** Fail the request instead of answering it */
+  abort?: boolean;
+}
+
+/**
+ * Network control that keeps captures deterministic. Route mocks take precedence over
+ * host blocking, which takes precedence over the HAR.
+ */
+export interface NetworkOptions {
+  /** HAR file whose recorded responses are served instead of the network */
+  har?: string;
+  /**
+   * `replay` serves the HAR, `record` rewrites it from live traffic, `auto` records when
+   * the file does not exist yet and replays otherwise. Captures of one process recording
+   * the same file are merged into it.
+   * @default 'replay'
+   */
+  harMode?: 'replay' | 'record' | 'auto';
+  /** URL glob limiting which requests the HAR serves or records (e.g. only the API) */
+  harUrl?: string;
+  /**
+   * Let requests matching `harUrl` but missing from a replayed HAR reach the network
+   * instead of failing them
+   * @default false
+   */
+  harFallback?: boolean;
+  /** Hosts whose requests are aborted (`cdn.example.com`, `*.analytics.com`) */
+  blockHosts?: string[];
+  /** Abort requests to every host other than the capture URL's */
+  blockThirdParty?: boolean;
+  routes?: RouteMock[];
+}
+
 /**
  * Configuration options for capturing a web page element.
  */
-export interface CaptureOptions {
+export interface CaptureOptions extends MediaEmulation, AuthOptions, NetworkOptions {
   /**
    * URL to navigate to (mutually exclusive with `html`).
    */
@@ -27,6 +165,34 @@ export interface CaptureOptions {
    */
   childSelector?: string;
 
+  /**
+   * Optional: selectors whose matching elements are masked out of pixel comparison.
+   * Resolved page-wide (all matches) with the same prefixes as `selector`.
+   * Unresolvable selectors are skipped.
+   */
+  maskSelectors?: string[];
+
+  /**
+   * Interactions run in order after the page settles and before the target is located
+   * (open a dropdown, fill a form, expand an accordion). A failing step throws
+   * `UIMATCH_CAPTURE_STEP_FAILED`. Shared pages are reloaded when steps are given.
+   */
+  steps?: CaptureStep[];
+
+  /**
+   * Interaction state applied to the target element before the screenshot and style
+   * collection. Hover, focus and active are real interactions (mouse and focus events fire);
+   * `focus-visible` additionally forces the pseudo-class, `disabled` sets the attribute.
+   * @default 'default'
+   */
+  state?: InteractionState;
+
+  /**
+   * Pseudo-classes forced on the target element via CDP `CSS.forcePseudoState`
+   * (Chromium only). Only CSS matching changes; no events fire.
+   */
+  forcePseudoClasses?: ForcedPseudoClass[];
+
   /**
    * Viewport dimensions.
    * @default { width: 1440, height: 900 }
@@ -39,6 +205,13 @@ export interface CaptureOptions {
    */
   dpr?: number;
 
+  /**
+   * Background forced on `body` so page chrome does not leak into the capture
+   * (any CSS background value). `false` keeps the page's own background, e.g. for dark themes.
+   * @default '#fff'
+   */
+  pageBackground?: string | false;
+
   /**
    * Font URLs to preload before capture.
    */
@@ -56,7 +229,8 @@ export interface CaptureOptions {
   detectStorybookIframe?: boolean;
 
   /**
-   * Maximum child elements to collect styles from.
+   * Maximum child elements to collect styles from. Rendered pseudo-elements count
+   * against the same budget.
    * @default 200
    */
   maxChildren?: number;
@@ -82,12 +256,28 @@ export interface CaptureOptions {
    */
   idleWaitMs?: number;
 
+  /**
+   * Browser engine to capture with. Font rendering and layout differ per engine, so
+   * compare each engine against its own thresholds. Forcing pseudo-classes
+   * (`forcePseudoClasses`, `state: 'focus-visible'`) requires Chromium.
+   * @default 'chromium'
+   */
+  browser?: BrowserEngine;
+
   /**
    * Reuse shared Playwright browser via browserPool.
    * Improves performance for repeated comparisons (e.g., in /loop).
    * @default false
    */
   reuseBrowser?: boolean;
+
+  /**
+   * Key of a pooled page kept open across captures (requires `reuseBrowser`).
+   * The page is resized to `viewport` instead of opening a new context, and navigation
+   * is skipped while it still shows `url`. `dpr` and credentials apply when the page is
+   * first created. Close it with `browserPool.releasePage(key)`.
+   */
+  sharedPage?: string;
 }
 
 /**
@@ -102,7 +292,10 @@ export interface ElementMeta {
   class?: string;
   /** data-testid attribute (if present) */
   testid?: string;
-  /** Generated CSS selector for this element */
+  /**
+   * Generated CSS selector for this element (`host >>> inner` inside shadow roots).
+   * Pseudo-element entries end with the pseudo, e.g. `[data-testid="icon"]::before`.
+   */
   cssSelector?: string;
   /** Text content (innerText) of the element (if present) */
   text?: string;
@@ -118,8 +311,10 @@ export interface CaptureResult {
   implPng: Buffer;
 
   /**
-   * Computed CSS styles keyed by selector.
-   * Keys: `__self__`, `[data-testid="..."]`, or `:nth-child(n)`.
+   * Computed CSS styles keyed by DOM path: `__self__`, then `> :nth-child(n)` for light
+   * DOM children and `>>> :nth-child(n)` for children of an open shadow root. Slotted
+   * content keeps its light DOM path. Keys are valid `dompath:` selectors, except rendered
+   * pseudo-elements, which append the pseudo to their element's key (`__self__::before`).
    */
   styles: Record<string, Record<string, string>>;
 
@@ -134,11 +329,34 @@ export interface CaptureResult {
    */
   childBox?: { x: number; y: number; width: number; height: number };
 
+  /**
+   * Bounding boxes of elements matched by `maskSelectors`, relative to page
+   * (same coordinate space as box). One entry per matched element.
+   */
+  maskBoxes?: Array<{ selector: string; x: number; y: number; width: number; height: number }>;
+
+  /**
+   * Bounding boxes of the captured element and the descendants walked for styles,
+   * relative to page (same coordinate space as box). Keyed like `styles`.
+   */
+  elementBoxes?: Record<string, { x: number; y: number; width: number; height: number }>;
+
+  /**
+   * Painted background behind each walked element that directly contains text, as
+   * `rgb(r, g, b)`: ancestor background colors composited over white. Keyed like `styles`.
+   */
+  textBackgrounds?: Record<string, string>;
+
   /**
    * DOM element metadata keyed by selector.
    * Provides additional context for generating precise CSS selectors and code examples.
    */
   meta?: Record<string, ElementMeta>;
+
+  /**
+   * Engine and version the capture ran on.
+   */
+  browser?: BrowserInfo;
 }
 
 /**
@@ -11,7 +11,9 @@ export type UiMatchErrorCode =
   | 'UIMATCH_CONFIG_INVALID_FIGMA_REF'
   | 'UIMATCH_CONFIG_MISSING_FIGMA_TOKEN'
   | 'UIMATCH_SELECTOR_NOT_FOUND'
-  | 'UIMATCH_IMAGE_SIZE_MISMATCH';
+  | 'UIMATCH_CAPTURE_STEP_FAILED'
+  | 'UIMATCH_IMAGE_SIZE_MISMATCH'
+  | 'UIMATCH_FIGMA_CACHE_MISS';
 
 /**
  * `usage` means the invocation itself must change (arguments, configuration, or
@@ -24,7 +26,9 @@ const CATEGORY_BY_CODE: Record<UiMatchErrorCode, UiMatchErrorCategory> = {
   UIMATCH_CONFIG_INVALID_FIGMA_REF: 'usage',
   UIMATCH_CONFIG_MISSING_FIGMA_TOKEN: 'usage',
   UIMATCH_SELECTOR_NOT_FOUND: 'comparison',
+  UIMATCH_CAPTURE_STEP_FAILED: 'comparison',
   UIMATCH_IMAGE_SIZE_MISMATCH: 'comparison',
+  UIMATCH_FIGMA_CACHE_MISS: 'usage',
 };
 
 /**
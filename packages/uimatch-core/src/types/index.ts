@@ -1,5 +1,20 @@
 export type { PartialComputedStyle } from '../utils/visual-axis';
-export type { BrowserAdapter, CaptureOptions, CaptureResult, ElementMeta } from './adapters';
+export type {
+  AuthOptions,
+  BrowserAdapter,
+  BrowserEngine,
+  BrowserInfo,
+  CaptureCookie,
+  CaptureOptions,
+  CaptureResult,
+  CaptureStep,
+  ElementMeta,
+  ForcedPseudoClass,
+  InteractionState,
+  MediaEmulation,
+  NetworkOptions,
+  RouteMock,
+} from './adapters';
 export { UiMatchError } from './errors';
 export type { UiMatchErrorCategory, UiMatchErrorCode } from './errors';
 export {
@@ -60,7 +75,8 @@ export interface TokenMap {
 }
 
 /**
- * Expected style specification
+ * Expected style specification, keyed by captured style key (`__self__`,
+ * `__self__::placeholder`) or by test-id selector (`[data-testid="icon"]::before`)
  */
 export type ExpectedSpec = Record<string, Partial<Record<string, string>>>;
 
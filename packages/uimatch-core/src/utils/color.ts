@@ -165,3 +165,75 @@ export function deltaE2000(rgb1: RGB, rgb2: RGB): number {
 
   return dE;
 }
+
+/** Upper bound for memoized color-pair ΔE values in {@link createPixelDeltaE} */
+const MAX_DELTA_CACHE_ENTRIES = 65536;
+
+/**
+ * Create a memoized CIEDE2000 lookup between the RGBA pixels of two same-sized images.
+ * UI screenshots have small palettes, so color pairs repeat heavily.
+ * @param a RGBA data of the first image
+ * @param b RGBA data of the second image
+ * @returns Function taking a byte offset (pixel index × 4) and returning ΔE2000 at that pixel
+ */
+export function createPixelDeltaE(a: Uint8Array, b: Uint8Array): (idx: number) => number {
+  const cache = new Map<number, number>();
+  return (idx: number): number => {
+    const r1 = a[idx] ?? 0;
+    const g1 = a[idx + 1] ?? 0;
+    const b1 = a[idx + 2] ?? 0;
+    const r2 = b[idx] ?? 0;
+    const g2 = b[idx + 1] ?? 0;
+    const b2 = b[idx + 2] ?? 0;
+    if (r1 === r2 && g1 === g2 && b1 === b2) return 0;
+
+    const key = ((r1 << 16) | (g1 << 8) | b1) * 0x1000000 + ((r2 << 16) | (g2 << 8) | b2);
+    let delta = cache.get(key);
+    if (delta === undefined) {
+      delta = deltaE2000({ r: r1, g: g1, b: b1 }, { r: r2, g: g2, b: b2 });
+      if (cache.size >= MAX_DELTA_CACHE_ENTRIES) cache.clear();
+      cache.set(key, delta);
+    }
+    return delta;
+  };
+}
+
+/**
+ * WCAG 2 relative luminance of an opaque sRGB color
+ * @param rgb RGB color (0-255 range, alpha ignored)
+ * @returns Relative luminance (0 = black, 1 = white)
+ */
+export function relativeLuminance(rgb: RGB): number {
+  const channel = (v: number) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(rgb.r) + 0.7152 * channel(rgb.g) + 0.0722 * channel(rgb.b);
+}
+
+/**
+ * Composite a (possibly translucent) color over an opaque background
+ * @param color Foreground color; `a` defaults to 1
+ * @param background Opaque background color
+ * @returns Opaque result color
+ */
+export function compositeOver(color: RGB, background: RGB): RGB {
+  const a = Math.min(1, Math.max(0, color.a ?? 1));
+  return {
+    r: color.r * a + background.r * (1 - a),
+    g: color.g * a + background.g * (1 - a),
+    b: color.b * a + background.b * (1 - a),
+  };
+}
+
+/**
+ * WCAG 2 contrast ratio between a text color and its background
+ * @param foreground Text color (translucent colors are composited over the background)
+ * @param background Opaque background color
+ * @returns Contrast ratio from 1 (no contrast) to 21 (black on white)
+ */
+export function contrastRatio(foreground: RGB, background: RGB): number {
+  const l1 = relativeLuminance(compositeOver(foreground, background));
+  const l2 = relativeLuminance(background);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
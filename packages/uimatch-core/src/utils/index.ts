@@ -5,9 +5,12 @@ export {
   normalizeTextEx,
   parseBoxShadow,
   parseCssColorToRgb,
+  parseCssGradient,
   textSimilarity,
   toPx,
   type BoxShadowParsed,
+  type GradientParsed,
+  type GradientStop,
   type RGB,
   type TextNormalizeOptions,
 } from './normalize';
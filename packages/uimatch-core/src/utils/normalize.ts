@@ -14,6 +14,19 @@ export interface BoxShadowParsed {
   rgb?: RGB;
 }
 
+export interface GradientStop {
+  rgb: RGB;
+  /** Position along the gradient line (0-1) */
+  position: number;
+}
+
+export interface GradientParsed {
+  type: 'linear' | 'radial';
+  /** Direction of a linear gradient in CSS degrees (0 = to top, clockwise, 0-360) */
+  angle?: number;
+  stops: GradientStop[];
+}
+
 const CSS_NUMBER_SOURCE = String.raw`[+-]?(?:\d+(?:\.\d*)?|\.\d+)`;
 const CSS_NUMBER_PATTERN = new RegExp(`^${CSS_NUMBER_SOURCE}$`);
 const CSS_LENGTH_PATTERN = new RegExp(`^(${CSS_NUMBER_SOURCE})(px|rem|em)?$`);
@@ -401,6 +414,124 @@ function tokenizeShadow(shadow: string): { lengths: number[]; color: RGB | undef
   return { lengths, color };
 }
 
+/**
+ * Split on a separator outside of parentheses
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (char === separator && depth === 0) {
+      parts.push(value.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(value.substring(start).trim());
+  return parts.filter(Boolean);
+}
+
+const SIDE_ANGLES: Record<string, number> = { top: 0, right: 90, bottom: 180, left: 270 };
+
+/**
+ * Parse a linear-gradient direction ("90deg", "0.25turn", "to top right")
+ * @returns Angle in CSS degrees (0-360), or undefined if the argument is not a direction
+ */
+function parseGradientAngle(arg: string): number | undefined {
+  const angle = arg.match(/^([+-]?(?:\d+(?:\.\d*)?|\.\d+))(deg|turn|rad|grad)$/);
+  if (angle?.[1] && angle[2]) {
+    const value = parseFloat(angle[1]);
+    const perUnit = { deg: 1, turn: 360, rad: 180 / Math.PI, grad: 0.9 }[angle[2]] ?? 1;
+    return (((value * perUnit) % 360) + 360) % 360;
+  }
+
+  const sides = arg.match(/^to\s+(top|right|bottom|left)(?:\s+(top|right|bottom|left))?$/);
+  if (!sides?.[1]) return undefined;
+  const first = SIDE_ANGLES[sides[1]] ?? 0;
+  if (!sides[2]) return first;
+  // Corners are approximated as 45° diagonals (exact only for square boxes)
+  const second = SIDE_ANGLES[sides[2]] ?? 0;
+  return Math.abs(first - second) === 270 ? 315 : (first + second) / 2;
+}
+
+/**
+ * Parse a color stop ("rgb(0, 0, 0) 25%", "#fff 10% 40%")
+ * @returns Stop color and position(s); lengths other than percentages are ignored
+ */
+function parseGradientStop(arg: string): { rgb: RGB; positions: number[] } | undefined {
+  const match = arg.match(/^((?:rgba?|hsla?)\([^)]*\)|#[0-9a-fA-F]{3,8}|[a-z]+)\s*(.*)$/i);
+  const rgb = match?.[1] ? parseCssColorToRgb(match[1]) : undefined;
+  if (!rgb) return undefined;
+  const positions = (match?.[2] ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => {
+      const percent = token.match(/^([+-]?(?:\d+(?:\.\d*)?|\.\d+))%$/);
+      return percent?.[1] ? parseFloat(percent[1]) / 100 : Number.NaN;
+    });
+  return { rgb, positions: positions.filter((p) => Number.isFinite(p)) };
+}
+
+/**
+ * Parse the first CSS linear-gradient() or radial-gradient() layer of a background-image.
+ * Stops without a position are distributed evenly as in CSS; a stop with two positions
+ * becomes two stops. Radial shape, size and center are not parsed.
+ * @param value CSS background-image value
+ * @returns Parsed gradient, or undefined for "none", url() or unsupported gradients
+ */
+export function parseCssGradient(value?: string): GradientParsed | undefined {
+  if (!value || value === 'none') return undefined;
+  const layer = splitTopLevel(value.trim().replace(/\s+/g, ' '), ',')[0];
+  const fn = layer?.match(/^(?:repeating-)?(linear|radial)-gradient\((.*)\)$/i);
+  if (!fn?.[1] || fn[2] === undefined) return undefined;
+
+  const type = fn[1].toLowerCase() as GradientParsed['type'];
+  const args = splitTopLevel(fn[2], ',');
+  let angle: number | undefined;
+  if (type === 'linear') {
+    const first = args[0] ? parseGradientAngle(args[0].toLowerCase()) : undefined;
+    angle = first ?? 180;
+    if (first !== undefined) args.shift();
+  } else if (args[0] && !parseGradientStop(args[0])) {
+    args.shift(); // shape, size and position
+  }
+
+  const raw: Array<{ rgb: RGB; position?: number }> = [];
+  for (const arg of args) {
+    const stop = parseGradientStop(arg);
+    if (!stop) return undefined;
+    if (stop.positions.length === 0) raw.push({ rgb: stop.rgb });
+    for (const position of stop.positions) raw.push({ rgb: stop.rgb, position });
+  }
+  if (raw.length < 2) return undefined;
+
+  // Fill in missing positions: ends default to 0/1, the rest interpolate between known stops
+  const first = raw[0];
+  const last = raw[raw.length - 1];
+  if (first && first.position === undefined) first.position = 0;
+  if (last && last.position === undefined) last.position = 1;
+  const stops: GradientStop[] = [];
+  let previous = 0;
+  for (let i = 0; i < raw.length; i++) {
+    const stop = raw[i];
+    if (!stop) continue;
+    if (stop.position === undefined) {
+      let next = i + 1;
+      while (raw[next]?.position === undefined) next++;
+      const end = raw[next]?.position ?? 1;
+      stop.position = previous + (end - previous) / (next - i + 1);
+    }
+    // Positions never go backwards along the gradient line
+    previous = Math.max(previous, stop.position);
+    stops.push({ rgb: stop.rgb, position: previous });
+  }
+
+  return angle === undefined ? { type, stops } : { type, angle, stops };
+}
+
 /**
  * Normalize text for i18n resilience
  * - NFKC normalization for unicode compatibility
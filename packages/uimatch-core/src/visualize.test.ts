@@ -0,0 +1,105 @@
+/**
+ * Tests for diff visualizations
+ */
+
+import { PNG } from 'pngjs';
+import { describe, expect, test } from 'vitest';
+import { black, createTestPng, pngToBase64, white } from './__tests__/png';
+import { compareImages } from './core/compare';
+import { MASK_FILL_COLOR } from './core/mask';
+import { encodeApng, renderHeatmap, renderOnionSkin, renderSideBySide } from './core/visualize';
+
+function pixel(png: PNG, x: number, y: number): number[] {
+  const idx = (png.width * y + x) * 4;
+  return [png.data[idx] ?? 0, png.data[idx + 1] ?? 0, png.data[idx + 2] ?? 0];
+}
+
+function chunkTypes(buffer: Buffer): string[] {
+  const types: string[] = [];
+  let offset = 8;
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    types.push(buffer.toString('ascii', offset + 4, offset + 8));
+    offset += 12 + length;
+  }
+  return types;
+}
+
+describe('visualizations', () => {
+  test('heatmap grades by color difference and fades unchanged pixels', () => {
+    const figma = createTestPng(10, 10, white);
+    const impl = createTestPng(10, 10, white, {
+      x: 0,
+      y: 0,
+      width: 5,
+      height: 10,
+      color: { r: 250, g: 250, b: 250 },
+    });
+    impl.data[(10 * 9 + 9) * 4] = 0; // a strong red-channel change in the corner
+
+    const heatmap = renderHeatmap(figma, impl);
+
+    expect(pixel(heatmap, 7, 5)).toEqual([255, 255, 255]);
+    const subtle = pixel(heatmap, 2, 5);
+    expect(subtle[1]).toBe(255); // green end of the scale
+    expect(pixel(heatmap, 9, 9)).toEqual([255, 0, 0]);
+  });
+
+  test('side-by-side places panels next to each other with a gap', () => {
+    const a = createTestPng(10, 6, white);
+    const b = createTestPng(10, 6, black);
+    const c = createTestPng(10, 4, { r: 255, g: 0, b: 0 });
+
+    const composite = renderSideBySide([a, b, c]);
+
+    expect(composite.width).toBe(10 * 3 + 8 * 2);
+    expect(composite.height).toBe(6);
+    expect(pixel(composite, 0, 0)).toEqual([255, 255, 255]);
+    expect(pixel(composite, 18, 0)).toEqual([0, 0, 0]);
+    expect(pixel(composite, 36, 0)).toEqual([255, 0, 0]);
+    expect(pixel(composite, 12, 0)).toEqual([128, 128, 128]);
+  });
+
+  test('onion skin blends both images', () => {
+    const blended = renderOnionSkin(createTestPng(4, 4, white), createTestPng(4, 4, black));
+    expect(pixel(blended, 0, 0)).toEqual([128, 128, 128]);
+  });
+
+  test('blink is an animated PNG whose first frame is Figma', () => {
+    const figma = createTestPng(4, 4, white);
+    const impl = createTestPng(4, 4, black);
+
+    const apng = encodeApng([figma, impl]);
+
+    expect(chunkTypes(apng)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'IEND']);
+    const firstFrame = PNG.sync.read(apng);
+    expect(pixel(firstFrame, 0, 0)).toEqual([255, 255, 255]);
+  });
+
+  test('compareImages renders only the requested visualizations', () => {
+    const figma = createTestPng(20, 20, white);
+    const impl = createTestPng(20, 20, white, { x: 0, y: 0, width: 5, height: 5, color: black });
+
+    const result = compareImages({
+      figmaPngB64: pngToBase64(figma),
+      implPngB64: pngToBase64(impl),
+      visualizations: ['heatmap', 'sideBySide'],
+      masks: [{ x: 0, y: 0, width: 2, height: 2 }],
+    });
+
+    expect(Object.keys(result.visualizations ?? {}).sort()).toEqual(['heatmap', 'sideBySide']);
+
+    const heatmap = PNG.sync.read(Buffer.from(result.visualizations?.heatmap ?? '', 'base64'));
+    expect(pixel(heatmap, 0, 0)).toEqual([MASK_FILL_COLOR.r, MASK_FILL_COLOR.g, MASK_FILL_COLOR.b]);
+    expect(pixel(heatmap, 3, 3)).toEqual([255, 0, 0]);
+
+    // Masked areas keep the captured implementation pixels in the composite
+    const composite = PNG.sync.read(Buffer.from(result.visualizations?.sideBySide ?? '', 'base64'));
+    expect(pixel(composite, 20 + 8, 0)).toEqual([0, 0, 0]);
+  });
+
+  test('results omit visualizations when none are requested', () => {
+    const png = pngToBase64(createTestPng(4, 4, white));
+    expect(compareImages({ figmaPngB64: png, implPngB64: png }).visualizations).toBeUndefined();
+  });
+});